@@ -1,11 +1,26 @@
-import React from 'react'
+import React, { useState } from 'react'
 import { AuthProvider, useAuth } from './contexts/AuthContext'
+import { RolesProvider } from './contexts/RolesContext'
 import LoginForm from './components/LoginForm'
 import Dashboard from './components/Dashboard'
+import TwoFactorEnrollment from './components/TwoFactorEnrollment'
+import AcceptInvitation from './components/AcceptInvitation'
 import { Toaster } from 'react-hot-toast'
 
+// Invitation links point at /accept-invitation?token=...
+const readInvitationToken = () =>
+  window.location.pathname === '/accept-invitation'
+    ? new URLSearchParams(window.location.search).get('token')
+    : null
+
 function AppContent() {
-  const { session, loading } = useAuth()
+  const { session, profile, twoFactorRequired, loading } = useAuth()
+  const [invitationToken, setInvitationToken] = useState(readInvitationToken)
+
+  const leaveInvitation = () => {
+    window.history.replaceState(null, '', '/')
+    setInvitationToken(null)
+  }
 
   if (loading) {
     return (
@@ -18,7 +33,21 @@ function AppContent() {
     )
   }
 
-  return session ? <Dashboard /> : <LoginForm />
+  if (invitationToken) {
+    return <AcceptInvitation token={invitationToken} onDone={leaveInvitation} />
+  }
+
+  if (!session) {
+    return <LoginForm />
+  }
+
+  // Mandated roles have to enroll before they can use the platform
+  if (profile && twoFactorRequired && !profile.two_factor_enabled) {
+    return <TwoFactorEnrollment />
+  }
+
+  // Remounted on an organization switch so no tab keeps the previous organization's data
+  return <Dashboard key={profile?.organization_id} />
 }
 
 function App() {
@@ -45,7 +74,9 @@ function App() {
           },
         }}
       />
-      <AppContent />
+      <RolesProvider>
+        <AppContent />
+      </RolesProvider>
     </AuthProvider>
   )
 }
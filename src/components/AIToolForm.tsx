@@ -1,7 +1,8 @@
 import React, { useState, useEffect } from 'react'
-import { X, Plus, ExternalLink, BookOpen, Video, Tag, Save, Loader2 } from 'lucide-react'
-import { supabase, Category, AITool, roleDisplayNames, difficultyLevels, pricingModels } from '../lib/supabase'
+import { X, Plus, ExternalLink, BookOpen, Video, Tag, Save, Loader2, Eye } from 'lucide-react'
+import { supabase, Category, AITool, Team, difficultyLevels, pricingModels, toolVisibilities } from '../lib/supabase'
 import { useAuth } from '../contexts/AuthContext'
+import { useRoles } from '../hooks/useRoles'
 import { useActivityLogger } from '../hooks/useActivityLogger'
 import { useCacheManager } from '../hooks/useCache'
 import { useCache } from '../hooks/useCache'
@@ -15,11 +16,13 @@ interface AIToolFormProps {
 
 const AIToolForm: React.FC<AIToolFormProps> = ({ tool, onClose, onSave }) => {
   const { user } = useAuth()
+  const { roles } = useRoles()
   const { logActivity } = useActivityLogger()
   const { invalidatePattern } = useCacheManager()
   const { showSuccessToast, showErrorToast } = useToaster()
   const [loading, setLoading] = useState(false)
   const [categories, setCategories] = useState<Category[]>([])
+  const [myTeams, setMyTeams] = useState<Pick<Team, 'id' | 'name'>[]>([])
   const [newCategoryName, setNewCategoryName] = useState('')
   const [showNewCategory, setShowNewCategory] = useState(false)
   
@@ -33,7 +36,9 @@ const AIToolForm: React.FC<AIToolFormProps> = ({ tool, onClose, onSave }) => {
     difficulty_level: tool?.difficulty_level || 'beginner' as const,
     pricing_model: tool?.pricing_model || 'free' as const,
     tags: tool?.tags || [],
-    roles: tool?.roles || []
+    roles: tool?.roles || [],
+    visibility: tool?.visibility || 'org' as const,
+    teams: tool?.teams || []
   })
 
   const [currentTag, setCurrentTag] = useState('')
@@ -42,7 +47,32 @@ const AIToolForm: React.FC<AIToolFormProps> = ({ tool, onClose, onSave }) => {
     fetchCategories()
   }, [])
 
+  useEffect(() => {
+    if (user) {
+      fetchMyTeams(user.id)
+    }
+  }, [user])
+
+  // Tools can only be shared with the creator's own teams (RLS on tool_teams)
+  const fetchMyTeams = async (userId: string) => {
+    if (!supabase) return
+
+    const { data, error } = await supabase
+      .from('team_members')
+      .select('team:teams(id, name)')
+      .eq('user_id', userId)
+
+    if (error) {
+      console.error('Error fetching teams:', error)
+    } else {
+      const teams = (data || []).map(row => row.team as unknown as Pick<Team, 'id' | 'name'>).filter(Boolean)
+      setMyTeams(teams.sort((a, b) => a.name.localeCompare(b.name)))
+    }
+  }
+
   const fetchCategories = async () => {
+    if (!supabase) return
+
     const { data, error } = await supabase
       .from('categories')
       .select('*')
@@ -56,7 +86,7 @@ const AIToolForm: React.FC<AIToolFormProps> = ({ tool, onClose, onSave }) => {
   }
 
   const handleCreateCategory = async () => {
-    if (!newCategoryName.trim()) return
+    if (!newCategoryName.trim() || !supabase) return
 
     setLoading(true)
     const { data, error } = await supabase
@@ -102,9 +132,17 @@ const AIToolForm: React.FC<AIToolFormProps> = ({ tool, onClose, onSave }) => {
     setFormData({ ...formData, roles: newRoles })
   }
 
+  const handleTeamToggle = (teamId: string) => {
+    const newTeams = formData.teams.includes(teamId)
+      ? formData.teams.filter(t => t !== teamId)
+      : [...formData.teams, teamId]
+
+    setFormData({ ...formData, teams: newTeams })
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
-    if (!user) return
+    if (!user || !supabase) return
 
     setLoading(true)
 
@@ -124,7 +162,8 @@ const AIToolForm: React.FC<AIToolFormProps> = ({ tool, onClose, onSave }) => {
             video_url: formData.video_url || null,
             difficulty_level: formData.difficulty_level,
             pricing_model: formData.pricing_model,
-            tags: formData.tags
+            tags: formData.tags,
+            visibility: formData.visibility
           })
           .eq('id', tool.id)
           .select()
@@ -135,23 +174,24 @@ const AIToolForm: React.FC<AIToolFormProps> = ({ tool, onClose, onSave }) => {
         showSuccessToast('Инструментът е редактиран успешно')
         
       } else {
-        // Create new tool
+        // Create new tool; the roles go in the same transaction so they are
+        // covered by 'create_tool' instead of a separate roles entry
         const { data, error } = await supabase
-          .from('ai_tools')
-          .insert([{
-            name: formData.name,
-            description: formData.description,
-            category_id: formData.category_id || null,
-            website_url: formData.website_url || null,
-            documentation_url: formData.documentation_url || null,
-            video_url: formData.video_url || null,
-            difficulty_level: formData.difficulty_level,
-            pricing_model: formData.pricing_model,
-            tags: formData.tags,
-            status: 'pending',
-            created_by: user.id
-          }])
-          .select()
+          .rpc('create_ai_tool', {
+            tool: {
+              name: formData.name,
+              description: formData.description,
+              category_id: formData.category_id || null,
+              website_url: formData.website_url || null,
+              documentation_url: formData.documentation_url || null,
+              video_url: formData.video_url || null,
+              difficulty_level: formData.difficulty_level,
+              pricing_model: formData.pricing_model,
+              tags: formData.tags,
+              visibility: formData.visibility
+            },
+            role_names: formData.roles
+          })
           .single()
 
         if (error) throw error
@@ -159,41 +199,42 @@ const AIToolForm: React.FC<AIToolFormProps> = ({ tool, onClose, onSave }) => {
         showSuccessToast('Инструментът е създаден успешно')
       }
 
-      // Update tool roles
+      // Roles are replaced in one transaction so the audit trigger logs the edit once
+      if (tool && toolData) {
+        const { error } = await supabase
+          .rpc('set_tool_roles', { target_tool_id: toolData.id, role_names: formData.roles })
+
+        if (error) throw error
+      }
+
+      // Team links only matter for 'teams' visibility; other visibilities drop them
       if (toolData) {
-        // Delete existing roles
-        await supabase
-          .from('tool_roles')
-          .delete()
-          .eq('tool_id', toolData.id)
-
-        // Insert new roles
-        if (formData.roles.length > 0) {
-          const roleInserts = formData.roles.map(role => ({
-            tool_id: toolData.id,
-            role
-          }))
-
-          await supabase
-            .from('tool_roles')
-            .insert(roleInserts)
+        const previousTeams = tool?.teams || []
+        const nextTeams = formData.visibility === 'teams' ? formData.teams : []
+        const removedTeams = previousTeams.filter(teamId => !nextTeams.includes(teamId))
+        const addedTeams = nextTeams.filter(teamId => !previousTeams.includes(teamId))
+
+        if (removedTeams.length > 0) {
+          const { error } = await supabase
+            .from('tool_teams')
+            .delete()
+            .eq('tool_id', toolData.id)
+            .in('team_id', removedTeams)
+
+          if (error) throw error
+        }
+
+        if (addedTeams.length > 0) {
+          const { error } = await supabase
+            .from('tool_teams')
+            .insert(addedTeams.map(teamId => ({ tool_id: toolData.id, team_id: teamId })))
+
+          if (error) throw error
         }
       }
 
-      // Log activity AFTER all database operations are complete
-      if (tool) {
-        await logActivity({
-          action: 'update_tool',
-          resourceType: 'ai_tool',
-          resourceId: tool.id,
-          details: { 
-            name: formData.name, 
-            category: formData.category_id,
-            roles: formData.roles,
-            changes: 'Updated tool details and roles'
-          }
-        })
-      } else if (toolData) {
+      // Edits are logged with a field diff by the ai_tools / tool_roles triggers
+      if (!tool && toolData) {
         await logActivity({
           action: 'create_tool',
           resourceType: 'ai_tool',
@@ -202,6 +243,7 @@ const AIToolForm: React.FC<AIToolFormProps> = ({ tool, onClose, onSave }) => {
             name: formData.name, 
             category: formData.category_id,
             roles: formData.roles,
+            visibility: formData.visibility,
             status: 'pending'
           }
         })
@@ -441,7 +483,7 @@ const AIToolForm: React.FC<AIToolFormProps> = ({ tool, onClose, onSave }) => {
               Подходящ за роли
             </label>
             <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
-              {Object.entries(roleDisplayNames).map(([role, displayName]) => (
+              {roles.map(({ role, label }) => (
                 <label key={role} className="flex items-center">
                   <input
                     type="checkbox"
@@ -449,12 +491,48 @@ const AIToolForm: React.FC<AIToolFormProps> = ({ tool, onClose, onSave }) => {
                     onChange={() => handleRoleToggle(role)}
                     className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
                   />
-                  <span className="ml-2 text-sm text-gray-700">{displayName}</span>
+                  <span className="ml-2 text-sm text-gray-700">{label}</span>
                 </label>
               ))}
             </div>
           </div>
 
+          {/* Visibility */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              <Eye className="w-4 h-4 inline mr-1" />
+              Видимост
+            </label>
+            <select
+              value={formData.visibility}
+              onChange={(e) => setFormData({ ...formData, visibility: e.target.value as AITool['visibility'] })}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              {Object.entries(toolVisibilities).map(([key, label]) => (
+                <option key={key} value={key}>{label}</option>
+              ))}
+            </select>
+            {formData.visibility === 'teams' && (
+              myTeams.length === 0 ? (
+                <p className="mt-2 text-sm text-gray-500">Не сте член на нито един екип.</p>
+              ) : (
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 mt-3">
+                  {myTeams.map(team => (
+                    <label key={team.id} className="flex items-center">
+                      <input
+                        type="checkbox"
+                        checked={formData.teams.includes(team.id)}
+                        onChange={() => handleTeamToggle(team.id)}
+                        className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      <span className="ml-2 text-sm text-gray-700">{team.name}</span>
+                    </label>
+                  ))}
+                </div>
+              )
+            )}
+          </div>
+
           {/* Actions */}
           <div className="flex justify-end gap-3 pt-6 border-t border-gray-200">
             <button
@@ -1,7 +1,8 @@
 import React, { useState, useEffect } from 'react'
-import { Plus, Search, Filter, ExternalLink, BookOpen, Video, Edit, Trash2, Eye, Tag, Star, MessageSquare } from 'lucide-react'
-import { supabase, AITool, Category, roleDisplayNames, difficultyLevels, pricingModels } from '../lib/supabase'
+import { Plus, Search, Filter, ExternalLink, BookOpen, Video, Edit, Trash2, Eye, Tag, Star, MessageSquare, Lock, Users } from 'lucide-react'
+import { supabase, AITool, Category, difficultyLevels, pricingModels, toolVisibilities } from '../lib/supabase'
 import { useAuth } from '../contexts/AuthContext'
+import { useRoles } from '../hooks/useRoles'
 import AIToolForm from './AIToolForm'
 import { useCache } from '../hooks/useCache'
 import { useActivityLogger } from '../hooks/useActivityLogger'
@@ -9,9 +10,19 @@ import { useCacheManager } from '../hooks/useCache'
 import ToolRating from './ToolRating'
 import ToolComments from './ToolComments'
 import { useToaster } from '../hooks/useToaster'
+import { usePermission } from '../hooks/usePermission'
 
-const AIToolsList: React.FC = () => {
-  const { user, profile } = useAuth()
+interface AIToolsListProps {
+  focusToolId?: string
+  focusCategoryId?: string
+}
+
+const AIToolsList: React.FC<AIToolsListProps> = ({ focusToolId, focusCategoryId }) => {
+  const { user } = useAuth()
+  const { roles, getRole } = useRoles()
+  const canReviewTools = usePermission('tools.approve')
+  const canEditAnyTool = usePermission('tools.edit_any')
+  const canDeleteAnyTool = usePermission('tools.delete_any')
   const { logActivity } = useActivityLogger()
   const { invalidatePattern } = useCacheManager()
   const { showSuccessToast, showErrorToast } = useToaster()
@@ -20,6 +31,7 @@ const AIToolsList: React.FC = () => {
   const [searchTerm, setSearchTerm] = useState('')
   const [selectedCategory, setSelectedCategory] = useState('')
   const [selectedRole, setSelectedRole] = useState('')
+  const [selectedVisibility, setSelectedVisibility] = useState('')
   const [showForm, setShowForm] = useState(false)
   const [editingTool, setEditingTool] = useState<AITool | undefined>()
   const [expandedTool, setExpandedTool] = useState<string | null>(null)
@@ -43,26 +55,41 @@ const AIToolsList: React.FC = () => {
     fetchTools()
   }, [])
 
+  useEffect(() => {
+    if (focusCategoryId) {
+      setSelectedCategory(focusCategoryId)
+    }
+  }, [focusCategoryId])
+
+  // Scroll to the tool opened from the activity feed once it has been rendered
+  useEffect(() => {
+    if (focusToolId && !loading) {
+      document.getElementById(`tool-${focusToolId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+    }
+  }, [focusToolId, loading])
+
   const fetchTools = async () => {
     setLoading(true)
     
     try {
-      // Get all approved tools for regular users, all tools for owners
+      // Get all approved tools for regular users, all tools for reviewers and editors
       let query = supabase
         .from('ai_tools')
         .select(`
           *,
           category:categories(id, name, color),
           creator:profiles!ai_tools_created_by_fkey(id, full_name),
-          tool_roles(role)
+          tool_roles(role),
+          tool_teams(team_id)
         `)
       
       // Filter based on user permissions
-      if (profile?.role === 'owner') {
-        // Owners can see all tools
+      if (canReviewTools || canEditAnyTool) {
+        // RLS lets them see all tools
         query = query.order('created_at', { ascending: false })
       } else {
-        // Regular users can see approved tools and their own tools
+        // Regular users can see approved tools and their own tools; RLS drops the
+        // team and private tools they are not allowed to see
         query = query
           .or(`status.eq.approved,created_by.eq.${user?.id}`)
           .order('created_at', { ascending: false })
@@ -81,7 +108,8 @@ const AIToolsList: React.FC = () => {
       // Get tools with basic data
       const toolsWithRoles = data?.map(tool => ({
         ...tool,
-        roles: tool.tool_roles?.map((tr: any) => tr.role) || []
+        roles: tool.tool_roles?.map((tr: any) => tr.role) || [],
+        teams: tool.tool_teams?.map((tt: { team_id: string }) => tt.team_id) || []
       })) || []
       
       console.log('Tools with roles:', toolsWithRoles.length)
@@ -174,7 +202,11 @@ const AIToolsList: React.FC = () => {
   }
 
   const canEditTool = (tool: AITool) => {
-    return tool.created_by === user?.id || profile?.role === 'owner'
+    return tool.created_by === user?.id || canEditAnyTool
+  }
+
+  const canDeleteTool = (tool: AITool) => {
+    return tool.created_by === user?.id || canDeleteAnyTool
   }
 
   const filteredTools = tools.filter(tool => {
@@ -184,8 +216,9 @@ const AIToolsList: React.FC = () => {
     
     const matchesCategory = !selectedCategory || tool.category_id === selectedCategory
     const matchesRole = !selectedRole || tool.roles.includes(selectedRole)
+    const matchesVisibility = !selectedVisibility || tool.visibility === selectedVisibility
     
-    return matchesSearch && matchesCategory && matchesRole
+    return matchesSearch && matchesCategory && matchesRole && matchesVisibility
   })
 
   const getDifficultyColor = (level: string) => {
@@ -235,7 +268,7 @@ const AIToolsList: React.FC = () => {
 
       {/* Filters */}
       <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
-        <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-5 gap-4">
           <div className="relative">
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
             <input
@@ -266,9 +299,22 @@ const AIToolsList: React.FC = () => {
             className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
           >
             <option value="">Всички роли</option>
-            {Object.entries(roleDisplayNames).map(([role, displayName]) => (
+            {roles.map(({ role, label }) => (
               <option key={role} value={role}>
-                {displayName}
+                {label}
+              </option>
+            ))}
+          </select>
+
+          <select
+            value={selectedVisibility}
+            onChange={(e) => setSelectedVisibility(e.target.value)}
+            className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="">Всяка видимост</option>
+            {Object.entries(toolVisibilities).map(([key, label]) => (
+              <option key={key} value={key}>
+                {label}
               </option>
             ))}
           </select>
@@ -284,7 +330,12 @@ const AIToolsList: React.FC = () => {
       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
         {Array.isArray(filteredTools) && filteredTools.map(tool => (
           <React.Fragment key={tool.id}>
-            <div className="bg-white rounded-xl shadow-sm border border-gray-200 hover:shadow-md transition-shadow">
+            <div
+              id={`tool-${tool.id}`}
+              className={`bg-white rounded-xl shadow-sm border border-gray-200 hover:shadow-md transition-shadow ${
+                tool.id === focusToolId ? 'ring-2 ring-blue-500' : ''
+              }`}
+            >
             <div className="p-6">
               {/* Header */}
               <div className="flex items-start justify-between mb-4">
@@ -299,23 +350,27 @@ const AIToolsList: React.FC = () => {
                     </span>
                   )}
                 </div>
-                {canEditTool(tool) && (
+                {(canEditTool(tool) || canDeleteTool(tool)) && (
                   <div className="flex gap-1 ml-2">
-                    <button
-                      onClick={() => {
-                        setEditingTool(tool)
-                        setShowForm(true)
-                      }}
-                      className="p-1 text-gray-400 hover:text-blue-600 transition-colors"
-                    >
-                      <Edit className="w-4 h-4" />
-                    </button>
-                    <button
-                      onClick={() => handleDelete(tool.id)}
-                      className="p-1 text-gray-400 hover:text-red-600 transition-colors"
-                    >
-                      <Trash2 className="w-4 h-4" />
-                    </button>
+                    {canEditTool(tool) && (
+                      <button
+                        onClick={() => {
+                          setEditingTool(tool)
+                          setShowForm(true)
+                        }}
+                        className="p-1 text-gray-400 hover:text-blue-600 transition-colors"
+                      >
+                        <Edit className="w-4 h-4" />
+                      </button>
+                    )}
+                    {canDeleteTool(tool) && (
+                      <button
+                        onClick={() => handleDelete(tool.id)}
+                        className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
                   </div>
                 )}
               </div>
@@ -331,6 +386,12 @@ const AIToolsList: React.FC = () => {
                 <span className={`px-2 py-1 text-xs font-medium rounded-full ${getPricingColor(tool.pricing_model)}`}>
                   {pricingModels[tool.pricing_model]}
                 </span>
+                {tool.visibility !== 'org' && (
+                  <span className="inline-flex items-center px-2 py-1 text-xs font-medium rounded-full bg-gray-100 text-gray-700">
+                    {tool.visibility === 'private' ? <Lock className="w-3 h-3 mr-1" /> : <Users className="w-3 h-3 mr-1" />}
+                    {toolVisibilities[tool.visibility]}
+                  </span>
+                )}
               </div>
 
               {/* Tags */}
@@ -357,7 +418,7 @@ const AIToolsList: React.FC = () => {
                   <div className="flex flex-wrap gap-1">
                     {tool.roles.map(role => (
                       <span key={role} className="px-2 py-1 bg-blue-50 text-blue-700 text-xs rounded">
-                        {roleDisplayNames[role as keyof typeof roleDisplayNames]}
+                        {getRole(role).label}
                       </span>
                     ))}
                   </div>
@@ -423,6 +484,7 @@ const AIToolsList: React.FC = () => {
                 <div className="mt-3">
                   <ToolComments
                     toolId={tool.id}
+                    categoryId={tool.category_id}
                     totalComments={tool.total_comments || 0}
                     onCommentChange={fetchTools}
                   />
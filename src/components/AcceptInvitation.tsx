@@ -0,0 +1,278 @@
+import React, { useEffect, useState } from 'react'
+import { Bot, Loader2, LogIn, MailX, UserPlus } from 'lucide-react'
+import { supabase } from '../lib/supabase'
+import { useAuth } from '../contexts/AuthContext'
+import { useToaster } from '../hooks/useToaster'
+
+const MIN_PASSWORD_LENGTH = 8
+
+interface InvitationDetails {
+  email: string
+  fullName: string
+  role: string
+  roleLabel: string
+  organizationName: string | null
+  expiresAt: string
+}
+
+interface AcceptInvitationProps {
+  token: string
+  onDone: () => void
+}
+
+// accept-invitation answers 404/410 with { error } when the link can no longer be used
+const readFunctionError = async (error: unknown, fallback: string) => {
+  const response = (error as { context?: Response } | null)?.context
+  if (!(response instanceof Response)) return (error as Error | null)?.message || fallback
+
+  try {
+    const body = await response.json()
+    return typeof body.error === 'string' ? body.error : fallback
+  } catch {
+    return fallback
+  }
+}
+
+// Landing page of the invitation link: the invitee sets a password and, once the address
+// is confirmed, signs in with the role the owner picked. Invitees who already have an account sign in first
+// and join the organization from here.
+const AcceptInvitation: React.FC<AcceptInvitationProps> = ({ token, onDone }) => {
+  const { user, refreshProfile } = useAuth()
+  const { showSuccessToast, showErrorToast } = useToaster()
+  const [invitation, setInvitation] = useState<InvitationDetails | null>(null)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [fullName, setFullName] = useState('')
+  const [password, setPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+
+  useEffect(() => {
+    if (!supabase) {
+      setLoadError('Системата не е конфигурирана. Моля, свържете се с администратор.')
+      return
+    }
+    const client = supabase
+
+    const inspect = async () => {
+      const { data, error } = await client.functions.invoke('accept-invitation', {
+        body: { action: 'inspect', token }
+      })
+
+      if (error || data?.error) {
+        setLoadError(await readFunctionError(error, data?.error || 'Поканата не може да бъде заредена'))
+        return
+      }
+
+      setInvitation(data.invitation)
+      setFullName(data.invitation.fullName)
+    }
+
+    inspect()
+  }, [token])
+
+  const signedInAsInvitee = Boolean(
+    invitation && user?.email && user.email.toLowerCase() === invitation.email.toLowerCase()
+  )
+
+  const handleJoin = async () => {
+    if (!supabase) return
+
+    setSubmitting(true)
+
+    try {
+      const { data, error } = await supabase.functions.invoke('accept-invitation', {
+        body: { action: 'join', token }
+      })
+
+      if (error || data?.error) {
+        showErrorToast(await readFunctionError(error, data?.error || 'Грешка при приемане на поканата'))
+        return
+      }
+
+      await refreshProfile()
+      showSuccessToast(`Присъединихте се към ${invitation?.organizationName ?? 'организацията'}`)
+      onDone()
+    } catch (error) {
+      console.error('Error joining organization:', error)
+      showErrorToast('Грешка при приемане на поканата')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!supabase) return
+
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      showErrorToast(`Паролата трябва да е поне ${MIN_PASSWORD_LENGTH} символа`)
+      return
+    }
+    if (password !== confirmPassword) {
+      showErrorToast('Паролите не съвпадат')
+      return
+    }
+
+    setSubmitting(true)
+
+    try {
+      const { data, error } = await supabase.functions.invoke('accept-invitation', {
+        body: { action: 'accept', token, password, fullName }
+      })
+
+      if (error || data?.error) {
+        showErrorToast(await readFunctionError(error, data?.error || 'Грешка при приемане на поканата'))
+        return
+      }
+
+      if (data.confirmationRequired) {
+        showSuccessToast(`Акаунтът е създаден. Потвърдете адреса от писмото до ${invitation?.email ?? 'вас'} и влезте с новата парола.`)
+        onDone()
+        return
+      }
+
+      const { error: sessionError } = await supabase.auth.setSession(data.session)
+      if (sessionError) throw sessionError
+
+      showSuccessToast('Добре дошли в AI Tools Platform')
+      onDone()
+    } catch (error) {
+      console.error('Error accepting invitation:', error)
+      showErrorToast('Акаунтът е създаден, но влизането не успя. Опитайте да влезете с новата парола.')
+      onDone()
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const renderSummary = (details: InvitationDetails) => (
+    <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-900">
+      <p>
+        Поканени сте {details.organizationName && <>в <strong>{details.organizationName}</strong> </>}като <strong>{details.roleLabel}</strong> с адрес <strong>{details.email}</strong>.
+      </p>
+      <p className="mt-1 text-blue-700">
+        Поканата е валидна до {new Date(details.expiresAt).toLocaleString('bg-BG')}.
+      </p>
+    </div>
+  )
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50 flex items-center justify-center p-4">
+      <div className="w-full max-w-md bg-white rounded-2xl shadow-xl p-8 lg:p-10">
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center justify-center w-16 h-16 bg-blue-600 rounded-2xl mb-4">
+            <Bot className="w-8 h-8 text-white" />
+          </div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">AI Tools Platform</h1>
+          <p className="text-gray-600">Покана за присъединяване</p>
+        </div>
+
+        {loadError ? (
+          <div className="text-center">
+            <div className="inline-flex items-center justify-center w-12 h-12 bg-red-100 rounded-full mb-4">
+              <MailX className="w-6 h-6 text-red-600" />
+            </div>
+            <p className="text-gray-900 mb-6">{loadError}</p>
+            <button
+              onClick={onDone}
+              className="text-sm text-blue-600 hover:text-blue-800 transition-colors"
+            >
+              Към страницата за вход
+            </button>
+          </div>
+        ) : !invitation ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+          </div>
+        ) : signedInAsInvitee ? (
+          <div className="space-y-6">
+            {renderSummary(invitation)}
+
+            <button
+              onClick={handleJoin}
+              disabled={submitting}
+              className="w-full bg-blue-600 text-white py-3 px-4 rounded-lg font-medium hover:bg-blue-700 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
+            >
+              {submitting ? (
+                <Loader2 className="w-5 h-5 animate-spin mr-2" />
+              ) : (
+                <LogIn className="w-5 h-5 mr-2" />
+              )}
+              {submitting ? 'Присъединяване...' : 'Присъедини се'}
+            </button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-6">
+            {renderSummary(invitation)}
+
+            <p className="text-sm text-gray-600">
+              Вече имате акаунт с този адрес? Влезте с него и отворете връзката отново.
+            </p>
+
+            <div>
+              <label htmlFor="full_name" className="block text-sm font-medium text-gray-700 mb-2">
+                Име
+              </label>
+              <input
+                type="text"
+                id="full_name"
+                value={fullName}
+                onChange={(e) => setFullName(e.target.value)}
+                required
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+              />
+            </div>
+
+            <div>
+              <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
+                Парола
+              </label>
+              <input
+                type="password"
+                id="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+                minLength={MIN_PASSWORD_LENGTH}
+                autoComplete="new-password"
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                placeholder="••••••••"
+              />
+            </div>
+
+            <div>
+              <label htmlFor="confirm_password" className="block text-sm font-medium text-gray-700 mb-2">
+                Повторете паролата
+              </label>
+              <input
+                type="password"
+                id="confirm_password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                required
+                autoComplete="new-password"
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                placeholder="••••••••"
+              />
+            </div>
+
+            <button
+              type="submit"
+              disabled={submitting}
+              className="w-full bg-blue-600 text-white py-3 px-4 rounded-lg font-medium hover:bg-blue-700 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
+            >
+              {submitting ? (
+                <Loader2 className="w-5 h-5 animate-spin mr-2" />
+              ) : (
+                <UserPlus className="w-5 h-5 mr-2" />
+              )}
+              {submitting ? 'Създаване на акаунта...' : 'Приеми поканата'}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default AcceptInvitation
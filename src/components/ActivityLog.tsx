@@ -1,109 +1,323 @@
-import React, { useState, useEffect } from 'react'
-import { Clock, User, Eye, Filter, Search } from 'lucide-react'
-import { supabase, ActivityLog, activityActions, resourceTypes } from '../lib/supabase'
+import React, { useState, useEffect, useCallback } from 'react'
+import { Clock, User, Eye, Filter, Search, ShieldCheck, ShieldAlert, Loader2, Download } from 'lucide-react'
+import { supabase, functionsUrl, ActivityLog, ActivityLogChainStatus, Profile, chainProblems } from '../lib/supabase'
+import {
+  activityActionRegistry, activityResourceRegistry, activitySeverityLabels, activityToneClasses,
+  getActionDefinition, getResourceDefinition
+} from '../lib/activityRegistry'
 import { useAuth } from '../contexts/AuthContext'
-import { useRoleProtection } from '../hooks/useRoleProtection'
+import { useRoles } from '../hooks/useRoles'
+import { usePermission } from '../hooks/usePermission'
+import { useToaster } from '../hooks/useToaster'
+
+const PAGE_SIZE = 50
+
+type ExportFormat = 'csv' | 'jsonl' | 'cef'
+
+const exportFormats: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  jsonl: 'JSON Lines',
+  cef: 'CEF (syslog)'
+}
+
+// Date inputs are local days; the range end is exclusive
+const toDateRange = (dateFrom: string, dateTo: string) => {
+  const from = dateFrom ? new Date(`${dateFrom}T00:00:00`).toISOString() : undefined
+  let to: string | undefined
+  if (dateTo) {
+    const end = new Date(`${dateTo}T00:00:00`)
+    end.setDate(end.getDate() + 1)
+    to = end.toISOString()
+  }
+  return { from, to }
+}
+
+// details.changes written by the ai_tools / tool_roles / roles audit triggers
+interface FieldChange {
+  old: unknown
+  new: unknown
+}
+
+const isFieldChanges = (value: unknown): value is Record<string, FieldChange> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value) &&
+  Object.values(value).every(change =>
+    change !== null && typeof change === 'object' && 'old' in change && 'new' in change
+  )
+
+const changedFieldLabels: Record<string, string> = {
+  name: 'Име',
+  description: 'Описание',
+  category_id: 'Категория',
+  website_url: 'Уебсайт',
+  documentation_url: 'Документация',
+  video_url: 'Видео',
+  difficulty_level: 'Ниво',
+  pricing_model: 'Ценови модел',
+  tags: 'Тагове',
+  roles: 'Роли',
+  created_by: 'Създаден от',
+  full_name: 'Име',
+  avatar_url: 'Снимка',
+  label: 'Име',
+  color: 'Цвят',
+  icon: 'Икона',
+  categories: 'Категории',
+  visibility: 'Видимост'
+}
+
+// Keyset cursor: the last row of the previous page in (created_at, id) order
+interface LogCursor {
+  createdAt: string
+  id: string
+}
 
 const ActivityLogComponent: React.FC = () => {
-  const { profile } = useAuth()
-  const { isAuthorized } = useRoleProtection({ allowedRoles: ['owner'] })
+  const { profile, session } = useAuth()
+  const { getRole } = useRoles()
+  const isAuthorized = usePermission('logs.read')
+  const { showErrorToast } = useToaster()
+  const [exporting, setExporting] = useState<ExportFormat | null>(null)
   const [logs, setLogs] = useState<ActivityLog[]>([])
   const [loading, setLoading] = useState(true)
+  const [loaded, setLoaded] = useState(false)
+  const [hasMore, setHasMore] = useState(false)
+  const [users, setUsers] = useState<Pick<Profile, 'id' | 'full_name'>[]>([])
   const [searchTerm, setSearchTerm] = useState('')
+  const [debouncedSearch, setDebouncedSearch] = useState('')
   const [selectedAction, setSelectedAction] = useState('')
   const [selectedResourceType, setSelectedResourceType] = useState('')
   const [selectedUser, setSelectedUser] = useState('')
+  const [dateFrom, setDateFrom] = useState('')
+  const [dateTo, setDateTo] = useState('')
+  const [chainStatus, setChainStatus] = useState<ActivityLogChainStatus | null>(null)
+  const [verifyingChain, setVerifyingChain] = useState(false)
 
   useEffect(() => {
     if (isAuthorized) {
-      fetchActivityLogs()
+      fetchUsers()
+      verifyChain()
     }
   }, [isAuthorized])
 
-  const fetchActivityLogs = async () => {
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchTerm.trim()), 300)
+    return () => clearTimeout(timeout)
+  }, [searchTerm])
+
+  const fetchUsers = async () => {
+    if (!supabase) return
+
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('id, full_name')
+      .order('full_name')
+
+    if (error) {
+      console.error('Error fetching users:', error)
+    } else {
+      setUsers(data || [])
+    }
+  }
+
+  const verifyChain = async () => {
+    if (!supabase) return
+
+    setVerifyingChain(true)
+
+    try {
+      const { data, error } = await supabase.rpc('verify_activity_log_chain')
+
+      if (error) throw error
+      setChainStatus(data?.[0] ?? null)
+    } catch (error) {
+      console.error('Error verifying activity log chain:', error)
+      setChainStatus(null)
+    } finally {
+      setVerifyingChain(false)
+    }
+  }
+
+  // Filters run in the database; one extra row tells whether another page exists
+  const fetchActivityLogs = useCallback(async (cursor?: LogCursor) => {
+    if (!supabase) return
+
     setLoading(true)
     
     try {
-      const { data, error } = await supabase
+      let query = supabase
         .from('activity_logs')
         .select(`
           *,
           user:profiles!activity_logs_user_id_fkey(id, full_name, email)
         `)
         .order('created_at', { ascending: false })
-        .limit(100)
+        .order('id', { ascending: false })
+        .limit(PAGE_SIZE + 1)
+
+      if (selectedAction) query = query.eq('action', selectedAction)
+      if (selectedResourceType) query = query.eq('resource_type', selectedResourceType)
+      if (selectedUser) query = query.eq('user_id', selectedUser)
+      const { from, to } = toDateRange(dateFrom, dateTo)
+      if (from) query = query.gte('created_at', from)
+      if (to) query = query.lt('created_at', to)
+      if (debouncedSearch) {
+        query = query.textSearch('search_vector', debouncedSearch, { type: 'websearch', config: 'simple' })
+      }
+      if (cursor) {
+        query = query.or(
+          `created_at.lt."${cursor.createdAt}",and(created_at.eq."${cursor.createdAt}",id.lt.${cursor.id})`
+        )
+      }
+
+      const { data, error } = await query
 
       if (error) throw error
-      setLogs(data || [])
+
+      const page = (data || []).slice(0, PAGE_SIZE)
+      setLogs(prev => cursor ? [...prev, ...page] : page)
+      setHasMore((data || []).length > PAGE_SIZE)
     } catch (error) {
       console.error('Error fetching activity logs:', error)
     } finally {
       setLoading(false)
+      setLoaded(true)
+    }
+  }, [selectedAction, selectedResourceType, selectedUser, dateFrom, dateTo, debouncedSearch])
+
+  useEffect(() => {
+    if (isAuthorized) {
+      fetchActivityLogs()
+    }
+  }, [isAuthorized, fetchActivityLogs])
+
+  // The file is generated and streamed by the export-activity-logs edge function
+  const handleExport = async (format: ExportFormat) => {
+    if (!functionsUrl || !session) return
+
+    setExporting(format)
+
+    try {
+      const { from, to } = toDateRange(dateFrom, dateTo)
+      const response = await fetch(`${functionsUrl}/export-activity-logs`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          format,
+          filters: {
+            action: selectedAction || undefined,
+            resourceType: selectedResourceType || undefined,
+            userId: selectedUser || undefined,
+            dateFrom: from,
+            dateTo: to,
+            search: debouncedSearch || undefined
+          }
+        })
+      })
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}))
+        throw new Error(body.error || response.statusText)
+      }
+
+      const blob = await response.blob()
+      const filename = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1]
+        ?? `activity-logs.${format === 'cef' ? 'log' : format}`
+
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = filename
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (error) {
+      console.error('Error exporting activity logs:', error)
+      showErrorToast('Грешка при експорт на лога')
+    } finally {
+      setExporting(null)
     }
   }
 
-  const filteredLogs = logs.filter(log => {
-    const matchesSearch = 
-      log.action.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      log.user?.full_name?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      log.user?.email?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      JSON.stringify(log.details).toLowerCase().includes(searchTerm.toLowerCase())
-    
-    const matchesAction = !selectedAction || log.action === selectedAction
-    const matchesResourceType = !selectedResourceType || log.resource_type === selectedResourceType
-    const matchesUser = !selectedUser || log.user_id === selectedUser
-    
-    return matchesSearch && matchesAction && matchesResourceType && matchesUser
-  })
-
-  const getActionColor = (action: string) => {
-    switch (action) {
-      case 'login':
-      case 'create_tool':
-      case 'create_category':
-      case 'approve_tool':
-      case 'enable_2fa':
-        return 'bg-green-100 text-green-800'
-      case 'logout':
-      case 'disable_2fa':
-        return 'bg-gray-100 text-gray-800'
-      case 'update_tool':
-      case 'update_category':
-        return 'bg-blue-100 text-blue-800'
-      case 'delete_tool':
-      case 'delete_category':
-      case 'reject_tool':
-        return 'bg-red-100 text-red-800'
-      default:
-        return 'bg-gray-100 text-gray-800'
+  const loadMore = () => {
+    const last = logs[logs.length - 1]
+    if (last) {
+      fetchActivityLogs({ createdAt: last.created_at, id: last.id })
     }
   }
 
+  const renderActionBadge = (action: string) => {
+    const definition = getActionDefinition(action)
+    const Icon = definition.icon
+
+    return (
+      <span
+        title={activitySeverityLabels[definition.severity]}
+        className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${activityToneClasses[definition.tone]}`}
+      >
+        <Icon className="w-3 h-3 mr-1" />
+        {definition.label}
+      </span>
+    )
+  }
+
+  const formatDiffValue = (field: string, value: unknown) => {
+    if (value === null || value === undefined || value === '') return '—'
+    if (Array.isArray(value)) {
+      if (value.length === 0) return '—'
+      return value
+        .map(item => field === 'roles' ? getRole(String(item)).label : String(item))
+        .join(', ')
+    }
+    if (typeof value === 'string') {
+      return value.length > 50 ? `${value.substring(0, 50)}...` : value
+    }
+    return typeof value === 'object' ? JSON.stringify(value) : String(value)
+  }
+
+  const formatChanges = (changes: Record<string, FieldChange>) => (
+    <div className="space-y-1 mb-1">
+      {Object.entries(changes).map(([field, change]) => (
+        <div key={field} className="text-xs">
+          <span className="font-medium text-gray-700">{changedFieldLabels[field] || field.replace(/_/g, ' ')}:</span>{' '}
+          <span className="text-red-700 line-through">{formatDiffValue(field, change.old)}</span>
+          <span className="text-gray-400 mx-1">→</span>
+          <span className="text-green-700">{formatDiffValue(field, change.new)}</span>
+        </div>
+      ))}
+    </div>
+  )
+
   const formatDetails = (details: Record<string, any>) => {
     if (!details || Object.keys(details).length === 0) return null
-    
-    return Object.entries(details).map(([key, value]) => (
-      <div key={key} className="text-xs text-gray-500">
-        <span className="font-medium capitalize">{key.replace(/_/g, ' ')}:</span> {
-          typeof value === 'string' && value.length > 50 
-            ? `${value.substring(0, 50)}...`
-            : typeof value === 'object' 
-              ? JSON.stringify(value)
-              : String(value)
-        }
-      </div>
-    ))
-  }
 
-  const uniqueUsers = Array.from(new Set(logs.map(log => log.user_id).filter(Boolean)))
-    .map(userId => logs.find(log => log.user_id === userId)?.user)
-    .filter(Boolean)
+    const { changes, ...rest } = details
+    const hasDiff = isFieldChanges(changes)
+
+    return (
+      <>
+        {hasDiff && formatChanges(changes)}
+        {Object.entries(hasDiff ? rest : details).map(([key, value]) => (
+          <div key={key} className="text-xs text-gray-500">
+            <span className="font-medium capitalize">{key.replace(/_/g, ' ')}:</span> {
+              typeof value === 'string' && value.length > 50 
+                ? `${value.substring(0, 50)}...`
+                : typeof value === 'object' 
+                  ? JSON.stringify(value)
+                  : String(value)
+            }
+          </div>
+        ))}
+      </>
+    )
+  }
 
   if (!isAuthorized) {
     return null
   }
 
-  if (loading) {
+  if (!loaded) {
     return (
       <div className="flex items-center justify-center py-12">
         <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
@@ -119,11 +333,57 @@ const ActivityLogComponent: React.FC = () => {
           <h2 className="text-2xl font-bold text-gray-900">Лог на активността</h2>
           <p className="text-gray-600 mt-1">Проследяване на действията в системата</p>
         </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {(Object.keys(exportFormats) as ExportFormat[]).map(format => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              disabled={exporting !== null}
+              title="Експорт на филтрираните записи"
+              className="inline-flex items-center px-3 py-2 border border-gray-300 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-50 transition-colors disabled:opacity-50"
+            >
+              {exporting === format ? (
+                <Loader2 className="w-4 h-4 animate-spin mr-2" />
+              ) : (
+                <Download className="w-4 h-4 mr-2" />
+              )}
+              {exportFormats[format]}
+            </button>
+          ))}
+          <button
+            onClick={verifyChain}
+            disabled={verifyingChain}
+            title="Провери целостта на лога"
+            className={`inline-flex items-center px-3 py-2 rounded-lg text-sm font-medium border transition-colors disabled:opacity-50 ${
+              !chainStatus
+                ? 'bg-gray-50 border-gray-200 text-gray-600'
+                : chainStatus.valid
+                  ? 'bg-green-50 border-green-200 text-green-700'
+                  : 'bg-red-50 border-red-200 text-red-700'
+            }`}
+          >
+            {verifyingChain ? (
+              <Loader2 className="w-4 h-4 animate-spin mr-2" />
+            ) : chainStatus && !chainStatus.valid ? (
+              <ShieldAlert className="w-4 h-4 mr-2" />
+            ) : (
+              <ShieldCheck className="w-4 h-4 mr-2" />
+            )}
+            {verifyingChain
+              ? 'Проверка на целостта...'
+              : !chainStatus
+                ? 'Целостта не е проверена'
+                : chainStatus.valid
+                  ? `Целостта е потвърдена (${chainStatus.checked_count} записа)`
+                  : `${chainStatus.problem ? chainProblems[chainStatus.problem] : 'Нарушена цялост'} при запис #${chainStatus.broken_seq}`
+            }
+          </button>
+        </div>
       </div>
 
       {/* Filters */}
       <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
-        <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-5 gap-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-4 gap-4">
           <div className="relative">
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
             <input
@@ -141,7 +401,7 @@ const ActivityLogComponent: React.FC = () => {
             className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
           >
             <option value="">Всички действия</option>
-            {Object.entries(activityActions).map(([action, label]) => (
+            {Object.entries(activityActionRegistry).map(([action, { label }]) => (
               <option key={action} value={action}>
                 {label}
               </option>
@@ -154,7 +414,7 @@ const ActivityLogComponent: React.FC = () => {
             className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
           >
             <option value="">Всички ресурси</option>
-            {Object.entries(resourceTypes).map(([type, label]) => (
+            {Object.entries(activityResourceRegistry).map(([type, { label }]) => (
               <option key={type} value={type}>
                 {label}
               </option>
@@ -167,16 +427,38 @@ const ActivityLogComponent: React.FC = () => {
             className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
           >
             <option value="">Всички потребители</option>
-            {uniqueUsers.map(user => (
-              <option key={user?.id} value={user?.id}>
-                {user?.full_name}
+            {users.map(user => (
+              <option key={user.id} value={user.id}>
+                {user.full_name}
               </option>
             ))}
           </select>
 
+          <input
+            type="date"
+            value={dateFrom}
+            max={dateTo || undefined}
+            onChange={(e) => setDateFrom(e.target.value)}
+            title="От дата"
+            className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+
+          <input
+            type="date"
+            value={dateTo}
+            min={dateFrom || undefined}
+            onChange={(e) => setDateTo(e.target.value)}
+            title="До дата"
+            className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+
           <div className="flex items-center text-sm text-gray-600">
-            <Filter className="w-4 h-4 mr-2" />
-            {filteredLogs.length} от {logs.length}
+            {loading ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Filter className="w-4 h-4 mr-2" />
+            )}
+            {logs.length}{hasMore ? '+' : ''} записа
           </div>
         </div>
       </div>
@@ -205,7 +487,7 @@ const ActivityLogComponent: React.FC = () => {
               </tr>
             </thead>
             <tbody className="divide-y divide-gray-200">
-              {filteredLogs.map(log => (
+              {logs.map(log => (
                 <tr key={log.id} className="hover:bg-gray-50">
                   <td className="px-6 py-4">
                     <div className="flex items-center">
@@ -221,14 +503,12 @@ const ActivityLogComponent: React.FC = () => {
                     </div>
                   </td>
                   <td className="px-6 py-4">
-                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getActionColor(log.action)}`}>
-                      {activityActions[log.action as keyof typeof activityActions] || log.action}
-                    </span>
+                    {renderActionBadge(log.action)}
                   </td>
                   <td className="px-6 py-4">
                     <div>
                       <p className="text-sm text-gray-900">
-                        {resourceTypes[log.resource_type as keyof typeof resourceTypes] || log.resource_type}
+                        {getResourceDefinition(log.resource_type).label}
                       </p>
                       {log.resource_id && (
                         <p className="text-xs text-gray-500 font-mono">
@@ -248,6 +528,9 @@ const ActivityLogComponent: React.FC = () => {
                       <div>
                         <p>{new Date(log.created_at).toLocaleDateString('bg-BG')}</p>
                         <p className="text-xs">{new Date(log.created_at).toLocaleTimeString('bg-BG')}</p>
+                        {log.ip_address && (
+                          <p className="text-xs font-mono text-gray-400">{log.ip_address}</p>
+                        )}
                       </div>
                     </div>
                   </td>
@@ -259,22 +542,20 @@ const ActivityLogComponent: React.FC = () => {
 
         {/* Mobile Card View */}
         <div className="grid grid-cols-1 gap-4 md:hidden">
-          {filteredLogs.map(log => (
+          {logs.map(log => (
             <div key={log.id} className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 space-y-4">
               <div className="flex justify-between items-start">
                 <div>
                   <p className="text-sm font-medium text-gray-900">{log.user?.full_name || 'Неизвестен'}</p>
                   <p className="text-sm text-gray-500">{log.user?.email}</p>
                 </div>
-                <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getActionColor(log.action)}`}>
-                  {activityActions[log.action as keyof typeof activityActions] || log.action}
-                </span>
+                {renderActionBadge(log.action)}
               </div>
               
               <div className="text-sm text-gray-600 space-y-2">
                 <div>
                   <p className="text-xs text-gray-500">Ресурс</p>
-                  <p>{resourceTypes[log.resource_type as keyof typeof resourceTypes] || log.resource_type}</p>
+                  <p>{getResourceDefinition(log.resource_type).label}</p>
                 </div>
                 <div>
                   <p className="text-xs text-gray-500">Детайли</p>
@@ -292,7 +573,7 @@ const ActivityLogComponent: React.FC = () => {
           ))}
         </div>
 
-        {filteredLogs.length === 0 && (
+        {logs.length === 0 && (
           <div className="text-center py-12">
             <div className="text-gray-400 mb-4">
               <Eye className="w-12 h-12 mx-auto" />
@@ -303,6 +584,19 @@ const ActivityLogComponent: React.FC = () => {
             </p>
           </div>
         )}
+
+        {hasMore && (
+          <div className="p-4 border-t border-gray-200 text-center">
+            <button
+              onClick={loadMore}
+              disabled={loading}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+            >
+              {loading && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+              Зареди още
+            </button>
+          </div>
+        )}
       </div>
     </div>
   )
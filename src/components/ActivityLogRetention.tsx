@@ -0,0 +1,196 @@
+import React, { useEffect, useState } from 'react'
+import { Archive, Loader2 } from 'lucide-react'
+import { supabase } from '../lib/supabase'
+import { ActivityResourceType, getResourceDefinition } from '../lib/activityRegistry'
+import { useAuth } from '../contexts/AuthContext'
+import { useActivityLogger } from '../hooks/useActivityLogger'
+import { usePermission } from '../hooks/usePermission'
+import { useToaster } from '../hooks/useToaster'
+
+interface RetentionPreview {
+  resource_type: ActivityResourceType
+  retention_days: number | null
+  expired_count: number
+  oldest_expired_at: string | null
+}
+
+const retentionOptions: { value: number | null, label: string }[] = [
+  { value: null, label: 'Без ограничение' },
+  { value: 30, label: '30 дни' },
+  { value: 90, label: '90 дни' },
+  { value: 180, label: '180 дни' },
+  { value: 365, label: '1 година' },
+  { value: 730, label: '2 години' },
+  { value: 1825, label: '5 години' }
+]
+
+// Retention periods per resource type (logs.retention), with a preview of the next daily purge
+const ActivityLogRetention: React.FC = () => {
+  const { user } = useAuth()
+  const canManageRetention = usePermission('logs.retention')
+  const { logActivity } = useActivityLogger()
+  const { showSuccessToast, showErrorToast } = useToaster()
+  const [preview, setPreview] = useState<RetentionPreview[]>([])
+  const [loading, setLoading] = useState(true)
+  const [savingType, setSavingType] = useState<ActivityResourceType | null>(null)
+
+  useEffect(() => {
+    if (canManageRetention) {
+      fetchPreview()
+    }
+  }, [canManageRetention])
+
+  const fetchPreview = async () => {
+    if (!supabase) return
+
+    setLoading(true)
+
+    const { data, error } = await supabase.rpc('activity_log_retention_preview')
+
+    if (error) {
+      console.error('Error fetching retention preview:', error)
+    } else {
+      setPreview(data || [])
+    }
+
+    setLoading(false)
+  }
+
+  const handleChange = async (resourceType: ActivityResourceType, retentionDays: number | null) => {
+    if (!supabase) return
+
+    const previous = preview.find(item => item.resource_type === resourceType)?.retention_days ?? null
+    setSavingType(resourceType)
+
+    try {
+      const { error } = await supabase
+        .from('activity_log_retention_policies')
+        .update({
+          retention_days: retentionDays,
+          updated_by: user?.id,
+          updated_at: new Date().toISOString()
+        })
+        .eq('resource_type', resourceType)
+
+      if (error) throw error
+
+      await logActivity({
+        action: 'update_retention_policy',
+        resourceType: 'system',
+        details: {
+          resource_type: resourceType,
+          old_retention_days: previous,
+          new_retention_days: retentionDays
+        }
+      })
+
+      showSuccessToast(`Срокът за съхранение на „${getResourceDefinition(resourceType).label}“ е обновен`)
+      await fetchPreview()
+    } catch (error) {
+      console.error('Error updating retention policy:', error)
+      showErrorToast('Грешка при промяна на срока за съхранение')
+    } finally {
+      setSavingType(null)
+    }
+  }
+
+  if (!canManageRetention) return null
+
+  const totalExpired = preview.reduce((sum, item) => sum + Number(item.expired_count), 0)
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center mb-2">
+        <Archive className="w-6 h-6 text-blue-600 mr-3" />
+        <h3 className="text-xl font-bold text-gray-900">Съхранение и архивиране</h3>
+      </div>
+      <p className="text-sm text-gray-600 mb-6">
+        Всеки ден в 03:15 записите, по-стари от избрания срок, се преместват в архива и се премахват от активния лог.
+      </p>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-6">
+          <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+        </div>
+      ) : (
+        <>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Тип ресурс
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Срок
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    За архивиране
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Най-стар запис
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {preview.map(item => (
+                  <tr key={item.resource_type}>
+                    <td className="px-4 py-3 text-sm font-medium text-gray-900">
+                      {getResourceDefinition(item.resource_type).label}
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="flex items-center">
+                        <select
+                          value={item.retention_days ?? ''}
+                          disabled={savingType !== null}
+                          onChange={(e) => handleChange(
+                            item.resource_type,
+                            e.target.value ? Number(e.target.value) : null
+                          )}
+                          className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        >
+                          {retentionOptions.map(option => (
+                            <option key={option.label} value={option.value ?? ''}>
+                              {option.label}
+                            </option>
+                          ))}
+                          {item.retention_days !== null &&
+                            !retentionOptions.some(option => option.value === item.retention_days) && (
+                            <option value={item.retention_days}>{item.retention_days} дни</option>
+                          )}
+                        </select>
+                        {savingType === item.resource_type && (
+                          <Loader2 className="w-4 h-4 animate-spin text-gray-400 ml-2" />
+                        )}
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-900">
+                      {Number(item.expired_count) > 0 ? (
+                        <span className="font-medium text-orange-700">{item.expired_count}</span>
+                      ) : (
+                        <span className="text-gray-400">0</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-500">
+                      {item.oldest_expired_at
+                        ? new Date(item.oldest_expired_at).toLocaleString('bg-BG')
+                        : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <p className="mt-4 text-sm text-gray-600">
+            {totalExpired > 0
+              ? `При следващото изпълнение ще бъдат архивирани ${totalExpired} записа.`
+              : 'Няма записи за архивиране при следващото изпълнение.'}
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
+
+export default ActivityLogRetention
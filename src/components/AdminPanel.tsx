@@ -20,13 +20,19 @@ import {
   MessageSquare,
   Star
 } from 'lucide-react'
-import { supabase, AITool, Category, roleDisplayNames, difficultyLevels, pricingModels, toolStatuses } from '../lib/supabase'
+import { supabase, AITool, Category, difficultyLevels, pricingModels, toolStatuses } from '../lib/supabase'
 import { useAuth } from '../contexts/AuthContext'
+import { useRoles } from '../hooks/useRoles'
 import { useActivityLogger } from '../hooks/useActivityLogger'
 import { useCacheManager } from '../hooks/useCache'
+import { useModerationPermission, usePermission } from '../hooks/usePermission'
 
 const AdminPanel: React.FC = () => {
-  const { user, profile } = useAuth()
+  const { user } = useAuth()
+  const { roles } = useRoles()
+  const canReviewTools = usePermission('tools.approve')
+  const canDeleteAnyTool = usePermission('tools.delete_any')
+  const canReviewCategory = useModerationPermission('tools.approve')
   const { logActivity } = useActivityLogger()
   const { invalidatePattern } = useCacheManager()
   const [tools, setTools] = useState<AITool[]>([])
@@ -41,11 +47,11 @@ const AdminPanel: React.FC = () => {
   const [selectedTool, setSelectedTool] = useState<AITool | null>(null)
 
   useEffect(() => {
-    if (profile?.role === 'owner') {
+    if (canReviewTools) {
       fetchTools()
       fetchCategories()
     }
-  }, [profile])
+  }, [canReviewTools])
 
   const fetchCategories = async () => {
     const { data, error } = await supabase
@@ -294,12 +300,12 @@ const AdminPanel: React.FC = () => {
     }
   }
 
-  if (profile?.role !== 'owner') {
+  if (!canReviewTools) {
     return (
       <div className="text-center py-12">
         <Shield className="w-12 h-12 text-gray-400 mx-auto mb-4" />
         <h3 className="text-lg font-medium text-gray-900 mb-2">Достъп отказан</h3>
-        <p className="text-gray-600">Само собственици имат достъп до админ панела.</p>
+        <p className="text-gray-600">Нямате право да преглеждате инструменти.</p>
       </div>
     )
   }
@@ -424,9 +430,9 @@ const AdminPanel: React.FC = () => {
             className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
           >
             <option value="">Всички роли</option>
-            {Object.entries(roleDisplayNames).map(([role, displayName]) => (
+            {roles.map(({ role, label }) => (
               <option key={role} value={role}>
-                {displayName}
+                {label}
               </option>
             ))}
           </select>
@@ -551,7 +557,7 @@ const AdminPanel: React.FC = () => {
                   </td>
                   <td className="px-6 py-4">
                     <div className="flex items-center space-x-2">
-                      {tool.status === 'pending' && (
+                      {tool.status === 'pending' && canReviewCategory(tool.category_id) && (
                         <>
                           <button
                             onClick={() => handleApprove(tool.id)}
@@ -619,13 +625,15 @@ const AdminPanel: React.FC = () => {
                           </a>
                         )}
                       </div>
-                      <button
-                        onClick={() => handleDelete(tool.id)}
-                        className="p-1 text-gray-400 hover:text-red-600 transition-colors"
-                        title="Изтрий"
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </button>
+                      {canDeleteAnyTool && (
+                        <button
+                          onClick={() => handleDelete(tool.id)}
+                          className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                          title="Изтрий"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
                     </div>
                   </td>
                 </tr>
@@ -672,7 +680,7 @@ const AdminPanel: React.FC = () => {
 
               <div className="flex items-center justify-between pt-4 border-t border-gray-100">
                 <div className="flex items-center space-x-2">
-                  {tool.status === 'pending' && (
+                  {tool.status === 'pending' && canReviewCategory(tool.category_id) && (
                     <>
                       <button
                         onClick={() => handleApprove(tool.id)}
@@ -690,13 +698,15 @@ const AdminPanel: React.FC = () => {
                       </button>
                     </>
                   )}
-                  <button
-                    onClick={() => handleDelete(tool.id)}
-                    className="p-2 bg-gray-100 text-gray-500 rounded-md hover:bg-gray-200 transition-colors"
-                    title="Изтрий"
-                  >
-                    <Trash2 className="w-4 h-4" />
-                  </button>
+                  {canDeleteAnyTool && (
+                    <button
+                      onClick={() => handleDelete(tool.id)}
+                      className="p-2 bg-gray-100 text-gray-500 rounded-md hover:bg-gray-200 transition-colors"
+                      title="Изтрий"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
                 </div>
               </div>
             </div>
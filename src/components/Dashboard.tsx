@@ -1,18 +1,39 @@
 import React from 'react'
-import { LogOut, Settings, Users, Wrench, BarChart3, Shield, Palette, TestTube, Bot, Lock } from 'lucide-react'
+import { LogOut, Settings, Users, Wrench, BarChart3, Shield, Bot, Lock, UserCircle, Building2 } from 'lucide-react'
 import { useAuth } from '../contexts/AuthContext'
-import { supabase, roleDisplayNames } from '../lib/supabase'
+import { useRoles } from '../hooks/useRoles'
+import { supabase } from '../lib/supabase'
+import { getRoleIconComponent } from '../lib/roles'
 import AIToolsList from './AIToolsList'
 import TwoFactorSettings from './TwoFactorSettings'
+import TwoFactorPolicySettings from './TwoFactorPolicySettings'
 import AdminPanel from './AdminPanel'
 import ActivityLogComponent from './ActivityLog'
+import ActivityLogRetention from './ActivityLogRetention'
+import RecentActivity, { ActivityLinkTarget } from './RecentActivity'
+import UserManagement from './UserManagement'
+import UserInvitations from './UserInvitations'
+import RoleManagement from './RoleManagement'
+import ModerationScopes from './ModerationScopes'
+import TeamManagement from './TeamManagement'
+import ProfileSettings from './ProfileSettings'
 import { useCache } from '../hooks/useCache'
 import { useActivityLogger } from '../hooks/useActivityLogger'
+import { usePermission } from '../hooks/usePermission'
+import { useToaster } from '../hooks/useToaster'
 
 const Dashboard: React.FC = () => {
-  const { profile, signOut } = useAuth()
+  const { profile, organizations, switchOrganization, signOut } = useAuth()
+  const { getRole } = useRoles()
   const [activeTab, setActiveTab] = React.useState('dashboard')
   const { logActivity } = useActivityLogger()
+  const { showErrorToast } = useToaster()
+  const canReviewTools = usePermission('tools.approve')
+  const canManageUsers = usePermission('users.manage')
+  const canReadLogs = usePermission('logs.read')
+  const canManageSecurityPolicy = usePermission('security.policy')
+  const canManageRoles = usePermission('roles.manage')
+  const canManageTeams = usePermission('teams.manage')
 
   // Cache categories and tool counts
   const { data: stats } = useCache(
@@ -34,6 +55,26 @@ const Dashboard: React.FC = () => {
   )
 
   const [isMenuOpen, setIsMenuOpen] = React.useState(false)
+  const [toolsFocus, setToolsFocus] = React.useState<{ toolId?: string, categoryId?: string } | null>(null)
+
+  // Entries in the activity feed open the tools tab on the affected tool or category
+  const openResource = (target: ActivityLinkTarget, id: string) => {
+    setToolsFocus(target === 'ai_tool' ? { toolId: id } : { categoryId: id })
+    setActiveTab('tools')
+  }
+
+  React.useEffect(() => {
+    if (activeTab !== 'tools') {
+      setToolsFocus(null)
+    }
+  }, [activeTab])
+
+  const handleOrganizationChange = async (organizationId: string) => {
+    const { error } = await switchOrganization(organizationId)
+    if (error) {
+      showErrorToast(error.message || 'Грешка при смяна на организацията')
+    }
+  }
 
   const handleSignOut = async () => {
     await logActivity({
@@ -43,44 +84,6 @@ const Dashboard: React.FC = () => {
     await signOut()
   }
 
-  const getRoleIcon = (role: string) => {
-    switch (role) {
-      case 'owner':
-        return <Shield className="w-6 h-6" />
-      case 'backend':
-        return <Wrench className="w-6 h-6" />
-      case 'frontend':
-        return <Palette className="w-6 h-6" />
-      case 'pm':
-        return <BarChart3 className="w-6 h-6" />
-      case 'qa':
-        return <TestTube className="w-6 h-6" />
-      case 'designer':
-        return <Palette className="w-6 h-6" />
-      default:
-        return <Users className="w-6 h-6" />
-    }
-  }
-
-  const getRoleColor = (role: string) => {
-    switch (role) {
-      case 'owner':
-        return 'from-purple-500 to-purple-600'
-      case 'backend':
-        return 'from-green-500 to-green-600'
-      case 'frontend':
-        return 'from-blue-500 to-blue-600'
-      case 'pm':
-        return 'from-orange-500 to-orange-600'
-      case 'qa':
-        return 'from-red-500 to-red-600'
-      case 'designer':
-        return 'from-pink-500 to-pink-600'
-      default:
-        return 'from-gray-500 to-gray-600'
-    }
-  }
-
   if (!profile) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -92,6 +95,9 @@ const Dashboard: React.FC = () => {
     )
   }
 
+  const role = getRole(profile.role)
+  const RoleIcon = getRoleIconComponent(role.icon)
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
@@ -106,9 +112,32 @@ const Dashboard: React.FC = () => {
             </div>
             
             <div className="flex items-center space-x-4">
-              <div className="hidden sm:block text-sm text-gray-600">
+              {organizations.length > 1 && (
+                <div className="flex items-center">
+                  <Building2 className="w-4 h-4 text-gray-400 mr-2" />
+                  <select
+                    value={profile.organization_id}
+                    onChange={(e) => handleOrganizationChange(e.target.value)}
+                    title="Организация"
+                    className="text-sm border border-gray-300 rounded-md py-1 pl-2 pr-8 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    {organizations.map(organization => (
+                      <option key={organization.id} value={organization.id}>
+                        {organization.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              <button
+                onClick={() => setActiveTab('profile')}
+                className="hidden sm:flex items-center text-sm text-gray-600 hover:text-gray-900 transition-colors"
+              >
+                {profile.avatar_url && (
+                  <img src={profile.avatar_url} alt="" className="w-7 h-7 rounded-full object-cover mr-2" />
+                )}
                 {profile.full_name}
-              </div>
+              </button>
               <button
                 onClick={handleSignOut}
                 className="inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md text-gray-500 hover:text-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors"
@@ -171,7 +200,18 @@ const Dashboard: React.FC = () => {
               <Lock className="w-4 h-4 inline mr-2" />
               Сигурност
             </button>
-            {profile?.role === 'owner' && (
+            <button
+              onClick={() => setActiveTab('profile')}
+              className={`py-4 px-1 border-b-2 font-medium text-sm ${
+                activeTab === 'profile'
+                  ? 'border-blue-500 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              } transition-colors w-full text-left`}
+            >
+              <UserCircle className="w-4 h-4 inline mr-2" />
+              Профил
+            </button>
+            {canReviewTools && (
               <button
                 onClick={() => setActiveTab('admin')}
                 className={`py-4 px-1 border-b-2 font-medium text-sm ${
@@ -184,7 +224,20 @@ const Dashboard: React.FC = () => {
                 Администрация
               </button>
             )}
-            {profile?.role === 'owner' && (
+            {(canManageUsers || canManageRoles || canManageTeams) && (
+              <button
+                onClick={() => setActiveTab('users')}
+                className={`py-4 px-1 border-b-2 font-medium text-sm ${
+                  activeTab === 'users'
+                    ? 'border-blue-500 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                } transition-colors w-full text-left`}
+              >
+                <Users className="w-4 h-4 inline mr-2" />
+                Потребители
+              </button>
+            )}
+            {canReadLogs && (
               <button
                 onClick={() => setActiveTab('activity')}
                 className={`py-4 px-1 border-b-2 font-medium text-sm ${
@@ -207,15 +260,18 @@ const Dashboard: React.FC = () => {
           <>
             {/* Welcome Section */}
             <div className="mb-8">
-              <div className={`bg-gradient-to-r ${getRoleColor(profile.role)} rounded-2xl p-8 text-white`}>
+              <div
+                className="bg-gradient-to-r from-transparent to-black/10 rounded-2xl p-8 text-white"
+                style={{ backgroundColor: role.color }}
+              >
                 <div className="flex items-center mb-4">
-                  {getRoleIcon(profile.role)}
+                  <RoleIcon className="w-6 h-6" />
                   <div className="ml-4">
                     <h2 className="text-3xl font-bold">
                       Добре дошъл, {profile.full_name}!
                     </h2>
                     <p className="text-lg opacity-90 mt-1">
-                      Ти си с роля: {roleDisplayNames[profile.role]}
+                      Ти си с роля: {role.label}
                     </p>
                   </div>
                 </div>
@@ -311,58 +367,72 @@ const Dashboard: React.FC = () => {
                   </div>
                 </button>
 
-                {/* Owner specific actions */}
-                {profile.role === 'owner' && (
-                  <>
-                    <button 
-                      onClick={() => setActiveTab('admin')}
-                      className="flex items-center p-4 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors text-left"
-                    >
-                      <div className="p-2 bg-purple-100 rounded-lg mr-4">
-                        <Users className="w-5 h-5 text-purple-600" />
-                      </div>
-                      <div>
-                        <p className="font-medium text-gray-900">Управлявай потребители</p>
-                        <p className="text-sm text-gray-600">Администрирай достъпи</p>
-                      </div>
-                    </button>
+                {/* Permission specific actions */}
+                {canManageUsers && (
+                  <button 
+                    onClick={() => setActiveTab('users')}
+                    className="flex items-center p-4 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors text-left"
+                  >
+                    <div className="p-2 bg-purple-100 rounded-lg mr-4">
+                      <Users className="w-5 h-5 text-purple-600" />
+                    </div>
+                    <div>
+                      <p className="font-medium text-gray-900">Управлявай потребители</p>
+                      <p className="text-sm text-gray-600">Администрирай достъпи</p>
+                    </div>
+                  </button>
+                )}
 
-                    <button className="flex items-center p-4 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors text-left">
-                      <div className="p-2 bg-orange-100 rounded-lg mr-4">
-                        <BarChart3 className="w-5 h-5 text-orange-600" />
-                      </div>
-                      <div>
-                        <p className="font-medium text-gray-900">Статистики</p>
-                        <p className="text-sm text-gray-600">Прегледай употребата</p>
-                      </div>
-                    </button>
-                  </>
+                {canReadLogs && (
+                  <button className="flex items-center p-4 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors text-left">
+                    <div className="p-2 bg-orange-100 rounded-lg mr-4">
+                      <BarChart3 className="w-5 h-5 text-orange-600" />
+                    </div>
+                    <div>
+                      <p className="font-medium text-gray-900">Статистики</p>
+                      <p className="text-sm text-gray-600">Прегледай употребата</p>
+                    </div>
+                  </button>
                 )}
               </div>
             </div>
 
             {/* Recent Activity */}
-            <div className="mt-8 bg-white rounded-xl shadow-sm border border-gray-200">
-              <div className="p-6 border-b border-gray-200">
-                <h3 className="text-lg font-semibold text-gray-900">Последна активност</h3>
-              </div>
-              <div className="p-6">
-                <div className="text-center text-gray-500 py-8">
-                  <p>Тук ще се показва последната активност в платформата</p>
-                  <p className="text-sm mt-2">Функционалността ще бъде добавена скоро</p>
-                </div>
-              </div>
-            </div>
+            <RecentActivity onOpenResource={openResource} />
           </>
         )}
 
-        {activeTab === 'tools' && <AIToolsList />}
+        {activeTab === 'tools' && (
+          <AIToolsList focusToolId={toolsFocus?.toolId} focusCategoryId={toolsFocus?.categoryId} />
+        )}
 
-        {activeTab === 'security' && <TwoFactorSettings />}
+        {activeTab === 'security' && (
+          <div className="space-y-6">
+            <TwoFactorSettings />
+            {canManageSecurityPolicy && <TwoFactorPolicySettings />}
+          </div>
+        )}
 
-        {activeTab === 'admin' && profile?.role === 'owner' && <AdminPanel />}
+        {activeTab === 'profile' && <ProfileSettings />}
 
-        {activeTab === 'activity' && profile?.role === 'owner' && <ActivityLogComponent />}
+        {activeTab === 'admin' && canReviewTools && <AdminPanel />}
+
+        {activeTab === 'users' && (canManageUsers || canManageRoles || canManageTeams) && (
+          <div className="space-y-6">
+            <UserManagement />
+            <UserInvitations />
+            <ModerationScopes />
+            <TeamManagement />
+            <RoleManagement />
+          </div>
+        )}
+
+        {activeTab === 'activity' && canReadLogs && (
+          <div className="space-y-6">
+            <ActivityLogComponent />
+            <ActivityLogRetention />
+          </div>
+        )}
       </main>
     </div>
   )
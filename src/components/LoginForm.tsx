@@ -1,17 +1,40 @@
-import React, { useState } from 'react'
-import { LogIn, Loader2, Users, Bot } from 'lucide-react'
+import React, { useEffect, useState } from 'react'
+import { LogIn, Loader2, Users, Bot, Mail, Smartphone, LifeBuoy, Clock } from 'lucide-react'
 import { useAuth } from '../contexts/AuthContext'
-import { supabase } from '../lib/supabase'
+import { supabase, TwoFactorVerificationMethod, twoFactorMethodNames } from '../lib/supabase'
 import { useToaster } from '../hooks/useToaster'
 
+const formatRetryAfter = (seconds: number) =>
+  seconds >= 60 ? `${Math.ceil(seconds / 60)} мин.` : `${seconds} сек.`
+
 const LoginForm: React.FC = () => {
   const [email, setEmail] = useState('')
   const [password, setPassword] = useState('')
   const [twoFactorCode, setTwoFactorCode] = useState('')
-  const [showTwoFactor, setShowTwoFactor] = useState(false)
-  const [twoFactorEmail, setTwoFactorEmail] = useState('')
-  const { signIn, verifyTwoFactor, resendTwoFactorCode, loading } = useAuth()
+  const [selectedMethod, setSelectedMethod] = useState<TwoFactorVerificationMethod | null>(null)
+  const { signIn, verifyTwoFactor, resendTwoFactorCode, cancelTwoFactor, pendingTwoFactor, retryAt, loading } = useAuth()
   const { showSuccessToast, showErrorToast } = useToaster()
+  const [now, setNow] = useState(Date.now())
+
+  // Tick while throttled so the countdown and the disabled buttons update
+  useEffect(() => {
+    if (!retryAt || retryAt <= Date.now()) return
+
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [retryAt])
+
+  const retryAfterSeconds = retryAt ? Math.max(0, Math.ceil((retryAt - now) / 1000)) : 0
+  const rateLimited = retryAfterSeconds > 0
+
+  // The pending challenge lives in AuthContext so it survives the loading screen remount
+  const showTwoFactor = pendingTwoFactor !== null
+  const twoFactorEmail = pendingTwoFactor?.email ?? ''
+  const twoFactorMethods = pendingTwoFactor?.methods ?? []
+  // Authenticator app is preferred when enrolled, as it needs no email round-trip
+  const twoFactorMethod: TwoFactorVerificationMethod = selectedMethod ?? (twoFactorMethods.includes('totp') ? 'totp' : 'email')
+  const usingRecoveryCode = twoFactorMethod === 'recovery'
+  const codeComplete = usingRecoveryCode ? twoFactorCode.replace(/-/g, '').length === 10 : twoFactorCode.length === 6
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -24,11 +47,13 @@ const LoginForm: React.FC = () => {
     const { error } = await signIn(email, password)
     if (error) {
       if (error.message === 'TWO_FACTOR_REQUIRED') {
-        setTwoFactorEmail(email)
-        setShowTwoFactor(true)
         showSuccessToast('Код за потвърждение е изпратен на вашия email')
         setEmail('')
         setPassword('')
+      } else if (error.message === 'RATE_LIMITED') {
+        showErrorToast(`Твърде много неуспешни опити. Опитайте отново след ${formatRetryAfter(error.retryAfter)}`)
+      } else if (error.message === 'ACCOUNT_DEACTIVATED') {
+        showErrorToast('Акаунтът е деактивиран. Свържете се с администратор.')
       } else {
         showErrorToast('Грешен email или парола')
       }
@@ -43,15 +68,26 @@ const LoginForm: React.FC = () => {
   const handleTwoFactorSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
 
-    const { error } = await verifyTwoFactor(twoFactorEmail, twoFactorCode)
-    if (error) {
-      showErrorToast('Невалиден код за потвърждение')
+    const { error } = await verifyTwoFactor(twoFactorCode, twoFactorMethod)
+    if (error?.message === 'RATE_LIMITED') {
+      showErrorToast(`Твърде много неуспешни опити. Опитайте отново след ${formatRetryAfter(error.retryAfter)}`)
+      setTwoFactorCode('')
+    } else if (error) {
+      showErrorToast(usingRecoveryCode ? 'Невалиден или вече използван код за възстановяване' : 'Невалиден или изтекъл код за потвърждение')
+      setTwoFactorCode('')
     }
   }
 
+  const selectMethod = (method: TwoFactorVerificationMethod | null) => {
+    setSelectedMethod(method)
+    setTwoFactorCode('')
+  }
+
   const handleResendCode = async () => {
-    const { error } = await resendTwoFactorCode(twoFactorEmail)
-    if (error) {
+    const { error } = await resendTwoFactorCode()
+    if (error?.message === 'RATE_LIMITED') {
+      showErrorToast(`Твърде много заявки за код. Опитайте отново след ${formatRetryAfter(error.retryAfter)}`)
+    } else if (error) {
       showErrorToast('Грешка при изпращане на кода')
     } else {
       showSuccessToast('Нов код е изпратен на вашия email')
@@ -112,9 +148,11 @@ const LoginForm: React.FC = () => {
                 />
               </div>
 
+              {rateLimited && <RetryNotice seconds={retryAfterSeconds} />}
+
               <button
                 type="submit"
-                disabled={loading}
+                disabled={loading || rateLimited}
                 className="w-full bg-blue-600 text-white py-3 px-4 rounded-lg font-medium hover:bg-blue-700 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
               >
                 {loading ? (
@@ -133,32 +171,76 @@ const LoginForm: React.FC = () => {
                 </div>
                 <h2 className="text-xl font-bold text-gray-900 mb-2">Двуфакторна автентикация</h2>
                 <p className="text-gray-600">
-                  Въведете кода, който получихте на <strong>{twoFactorEmail}</strong>
+                  {usingRecoveryCode ? (
+                    <>Въведете един от кодовете за възстановяване на <strong>{twoFactorEmail}</strong></>
+                  ) : twoFactorMethod === 'totp' ? (
+                    <>Въведете кода от приложението за автентикация за <strong>{twoFactorEmail}</strong></>
+                  ) : (
+                    <>Въведете кода, който получихте на <strong>{twoFactorEmail}</strong></>
+                  )}
                 </p>
               </div>
 
+              {twoFactorMethods.length > 1 && !usingRecoveryCode && (
+                <div className="grid grid-cols-2 gap-2">
+                  {twoFactorMethods.map(method => (
+                    <button
+                      key={method}
+                      type="button"
+                      onClick={() => selectMethod(method)}
+                      className={`flex items-center justify-center px-3 py-2 rounded-lg text-sm font-medium border transition-colors ${
+                        twoFactorMethod === method
+                          ? 'border-blue-500 bg-blue-50 text-blue-700'
+                          : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                      }`}
+                    >
+                      {method === 'totp' ? <Smartphone className="w-4 h-4 mr-2" /> : <Mail className="w-4 h-4 mr-2" />}
+                      {twoFactorMethodNames[method]}
+                    </button>
+                  ))}
+                </div>
+              )}
+
               <div>
                 <label htmlFor="twoFactorCode" className="block text-sm font-medium text-gray-700 mb-2">
-                  Код за потвърждение
+                  {usingRecoveryCode ? 'Код за възстановяване' : 'Код за потвърждение'}
                 </label>
-                <input
-                  type="text"
-                  id="twoFactorCode"
-                  value={twoFactorCode}
-                  onChange={(e) => setTwoFactorCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
-                  required
-                  maxLength={6}
-                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-center text-2xl font-mono tracking-widest"
-                  placeholder="123456"
-                />
+                {usingRecoveryCode ? (
+                  <input
+                    type="text"
+                    id="twoFactorCode"
+                    value={twoFactorCode}
+                    onChange={(e) => setTwoFactorCode(e.target.value.toUpperCase().replace(/[^A-Z0-9-]/g, '').slice(0, 11))}
+                    required
+                    maxLength={11}
+                    autoComplete="off"
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-center text-2xl font-mono tracking-widest"
+                    placeholder="XXXXX-XXXXX"
+                  />
+                ) : (
+                  <input
+                    type="text"
+                    id="twoFactorCode"
+                    value={twoFactorCode}
+                    onChange={(e) => setTwoFactorCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+                    required
+                    maxLength={6}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-center text-2xl font-mono tracking-widest"
+                    placeholder="123456"
+                  />
+                )}
                 <p className="text-xs text-gray-500 mt-1 text-center">
-                  Въведете 6-цифрения код от email-а
+                  {usingRecoveryCode
+                    ? 'Всеки код за възстановяване може да бъде използван само веднъж'
+                    : twoFactorMethod === 'totp'
+                      ? 'Въведете 6-цифрения код от приложението'
+                      : 'Въведете 6-цифрения код от email-а'}
                 </p>
               </div>
 
               <button
                 type="submit"
-                disabled={loading || twoFactorCode.length !== 6}
+                disabled={loading || rateLimited || !codeComplete}
                 className="w-full bg-blue-600 text-white py-3 px-4 rounded-lg font-medium hover:bg-blue-700 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
               >
                 {loading ? (
@@ -169,21 +251,33 @@ const LoginForm: React.FC = () => {
                 {loading ? 'Потвърждаване...' : 'Потвърди'}
               </button>
 
+              {rateLimited && <RetryNotice seconds={retryAfterSeconds} />}
+
+              <button
+                type="button"
+                onClick={() => selectMethod(usingRecoveryCode ? null : 'recovery')}
+                className="w-full flex items-center justify-center text-sm text-blue-600 hover:text-blue-800 transition-colors"
+              >
+                <LifeBuoy className="w-4 h-4 mr-2" />
+                {usingRecoveryCode ? 'Използвай втория фактор' : 'Нямате достъп? Използвайте код за възстановяване'}
+              </button>
+
               <div className="flex flex-col sm:flex-row gap-3">
-                <button
-                  type="button"
-                  onClick={handleResendCode}
-                  disabled={loading}
-                  className="flex-1 bg-gray-100 text-gray-700 py-2 px-4 rounded-lg font-medium hover:bg-gray-200 transition-colors disabled:opacity-50"
-                >
-                  Изпрати отново
-                </button>
+                {twoFactorMethod === 'email' && (
+                  <button
+                    type="button"
+                    onClick={handleResendCode}
+                    disabled={loading || rateLimited}
+                    className="flex-1 bg-gray-100 text-gray-700 py-2 px-4 rounded-lg font-medium hover:bg-gray-200 transition-colors disabled:opacity-50"
+                  >
+                    Изпрати отново
+                  </button>
+                )}
                 <button
                   type="button"
                   onClick={() => {
-                    setShowTwoFactor(false)
-                    setTwoFactorCode('')
-                    setTwoFactorEmail('')
+                    cancelTwoFactor()
+                    selectMethod(null)
                   }}
                   className="flex-1 border border-gray-300 text-gray-700 py-2 px-4 rounded-lg font-medium hover:bg-gray-50 transition-colors"
                 >
@@ -246,4 +340,11 @@ const LoginForm: React.FC = () => {
   )
 }
 
+const RetryNotice: React.FC<{ seconds: number }> = ({ seconds }) => (
+  <div className="flex items-center bg-amber-50 border border-amber-200 text-amber-800 px-4 py-3 rounded-lg text-sm">
+    <Clock className="w-4 h-4 mr-2 flex-shrink-0" />
+    Твърде много опити. Можете да опитате отново след {formatRetryAfter(seconds)}
+  </div>
+)
+
 export default LoginForm
\ No newline at end of file
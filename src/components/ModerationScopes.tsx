@@ -0,0 +1,205 @@
+import React, { useEffect, useState } from 'react'
+import { Loader2, ShieldCheck } from 'lucide-react'
+import { supabase, Category, Profile } from '../lib/supabase'
+import { useAuth } from '../contexts/AuthContext'
+import { useRoles } from '../hooks/useRoles'
+import { useActivityLogger } from '../hooks/useActivityLogger'
+import { usePermission } from '../hooks/usePermission'
+import { useToaster } from '../hooks/useToaster'
+
+// Permissions that moderation_scopes limits to categories
+const MODERATION_PERMISSIONS = ['tools.approve', 'comments.delete_any']
+
+type Moderator = Pick<Profile, 'id' | 'email' | 'full_name' | 'role'>
+
+interface ModerationScope {
+  user_id: string
+  category_id: string
+}
+
+// Category scopes for users whose role can review tools or delete comments (users.manage).
+// No rows for a user means every category, which is also what RLS assumes.
+const ModerationScopes: React.FC = () => {
+  const { user, profile } = useAuth()
+  const isAuthorized = usePermission('users.manage')
+  const { getRole } = useRoles()
+  const { logActivity } = useActivityLogger()
+  const { showErrorToast } = useToaster()
+  const [moderators, setModerators] = useState<Moderator[]>([])
+  const [categories, setCategories] = useState<Pick<Category, 'id' | 'name' | 'color'>[]>([])
+  const [scopes, setScopes] = useState<ModerationScope[]>([])
+  const [loading, setLoading] = useState(true)
+  const [savingUserId, setSavingUserId] = useState<string | null>(null)
+
+  const organizationId = profile?.organization_id
+
+  useEffect(() => {
+    if (isAuthorized && organizationId) {
+      fetchScopes(organizationId)
+    }
+  }, [isAuthorized, organizationId])
+
+  const fetchScopes = async (organizationId: string) => {
+    if (!supabase) return
+
+    try {
+      const { data: grants, error: grantsError } = await supabase
+        .from('role_permissions')
+        .select('role')
+        .in('permission', MODERATION_PERMISSIONS)
+
+      if (grantsError) throw grantsError
+
+      const moderatorRoles = [...new Set((grants ?? []).map(grant => grant.role))]
+
+      // Roles are per organization, so moderators are found through the memberships
+      const [membersResult, categoriesResult, scopesResult] = await Promise.all([
+        supabase
+          .from('organization_members')
+          .select('role, profile:profiles!inner(id, email, full_name, deactivated_at)')
+          .eq('organization_id', organizationId)
+          .in('role', moderatorRoles)
+          .is('profile.deactivated_at', null),
+        supabase
+          .from('categories')
+          .select('id, name, color')
+          .order('name'),
+        supabase
+          .from('moderation_scopes')
+          .select('user_id, category_id')
+      ])
+
+      if (membersResult.error) throw membersResult.error
+      if (categoriesResult.error) throw categoriesResult.error
+      if (scopesResult.error) throw scopesResult.error
+
+      const members = (membersResult.data || []) as unknown as { role: string, profile: Omit<Moderator, 'role'> }[]
+
+      setModerators(
+        members
+          .map(member => ({ id: member.profile.id, email: member.profile.email, full_name: member.profile.full_name, role: member.role }))
+          .sort((a, b) => a.full_name.localeCompare(b.full_name))
+      )
+      setCategories(categoriesResult.data || [])
+      setScopes(scopesResult.data || [])
+    } catch (error) {
+      console.error('Error fetching moderation scopes:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const categoryNames = (categoryIds: string[]) =>
+    categories.filter(category => categoryIds.includes(category.id)).map(category => category.name)
+
+  const toggleCategory = async (moderator: Moderator, categoryId: string) => {
+    if (!supabase) return
+
+    const current = scopes.filter(scope => scope.user_id === moderator.id).map(scope => scope.category_id)
+    const removing = current.includes(categoryId)
+    const next = removing ? current.filter(id => id !== categoryId) : [...current, categoryId]
+
+    setSavingUserId(moderator.id)
+
+    try {
+      const { error } = removing
+        ? await supabase
+            .from('moderation_scopes')
+            .delete()
+            .eq('user_id', moderator.id)
+            .eq('category_id', categoryId)
+        : await supabase
+            .from('moderation_scopes')
+            .insert({ user_id: moderator.id, category_id: categoryId, created_by: user?.id })
+
+      if (error) throw error
+
+      setScopes(prev => removing
+        ? prev.filter(scope => !(scope.user_id === moderator.id && scope.category_id === categoryId))
+        : [...prev, { user_id: moderator.id, category_id: categoryId }])
+
+      await logActivity({
+        action: 'update_moderation_scope',
+        resourceType: 'profile',
+        resourceId: moderator.id,
+        details: {
+          email: moderator.email,
+          full_name: moderator.full_name,
+          changes: {
+            categories: { old: categoryNames(current), new: categoryNames(next) }
+          }
+        }
+      })
+    } catch (error) {
+      console.error('Error updating moderation scope:', error)
+      showErrorToast('Грешка при промяна на категориите')
+    } finally {
+      setSavingUserId(null)
+    }
+  }
+
+  if (!isAuthorized) {
+    return null
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center mb-2">
+        <ShieldCheck className="w-6 h-6 text-blue-600 mr-3" />
+        <h3 className="text-xl font-bold text-gray-900">Модератори по категории</h3>
+      </div>
+      <p className="text-sm text-gray-600 mb-6">
+        Потребителите, чиято роля може да одобрява инструменти или да изтрива коментари, модерират всички категории, докато не им бъдат избрани конкретни.
+      </p>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-6">
+          <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+        </div>
+      ) : moderators.length === 0 ? (
+        <p className="text-sm text-gray-500">Няма потребители с права за модериране.</p>
+      ) : (
+        <div className="divide-y divide-gray-200">
+          {moderators.map(moderator => {
+            const selected = scopes.filter(scope => scope.user_id === moderator.id).map(scope => scope.category_id)
+
+            return (
+              <div key={moderator.id} className="py-4">
+                <div className="flex items-center justify-between mb-2">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">{moderator.full_name}</p>
+                    <p className="text-sm text-gray-500">
+                      {getRole(moderator.role).label} · {selected.length === 0 ? 'Всички категории' : `${selected.length} категории`}
+                    </p>
+                  </div>
+                  {savingUserId === moderator.id && <Loader2 className="w-4 h-4 animate-spin text-gray-400" />}
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {categories.map(category => {
+                    const active = selected.includes(category.id)
+
+                    return (
+                      <button
+                        key={category.id}
+                        onClick={() => toggleCategory(moderator, category.id)}
+                        disabled={savingUserId !== null}
+                        className={`px-2.5 py-1 rounded-full text-xs font-medium border transition-colors disabled:opacity-50 ${
+                          active ? 'text-white border-transparent' : 'text-gray-700 border-gray-300 hover:bg-gray-50'
+                        }`}
+                        style={active ? { backgroundColor: category.color } : undefined}
+                      >
+                        {category.name}
+                      </button>
+                    )
+                  })}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default ModerationScopes
@@ -0,0 +1,410 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { UserCircle, Mail, KeyRound, Loader2, Upload, Trash2, Save } from 'lucide-react'
+import { supabase } from '../lib/supabase'
+import { useAuth } from '../contexts/AuthContext'
+import { useRoles } from '../hooks/useRoles'
+import { useActivityLogger } from '../hooks/useActivityLogger'
+import { useToaster } from '../hooks/useToaster'
+
+const AVATAR_BUCKET = 'avatars'
+const MAX_AVATAR_BYTES = 2 * 1024 * 1024
+const MIN_PASSWORD_LENGTH = 8
+
+// Object path inside the avatars bucket, for URLs that point at it
+const avatarPathFromUrl = (url: string | null | undefined) => {
+  const marker = `/${AVATAR_BUCKET}/`
+  return url?.includes(marker) ? url.split(marker)[1] : null
+}
+
+const initials = (name: string) =>
+  name.split(/\s+/).filter(Boolean).slice(0, 2).map(part => part[0].toUpperCase()).join('')
+
+// Self-service profile: display name and avatar under RLS, email change through the
+// Supabase re-verification flow, password change through the change-password function
+const ProfileSettings: React.FC = () => {
+  const { user, profile, refreshProfile } = useAuth()
+  const { getRole } = useRoles()
+  const { logActivity } = useActivityLogger()
+  const { showSuccessToast, showErrorToast } = useToaster()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const [fullName, setFullName] = useState(profile?.full_name ?? '')
+  const [savingName, setSavingName] = useState(false)
+  const [uploadingAvatar, setUploadingAvatar] = useState(false)
+
+  const [newEmail, setNewEmail] = useState('')
+  const [requestingEmail, setRequestingEmail] = useState(false)
+
+  const [currentPassword, setCurrentPassword] = useState('')
+  const [newPassword, setNewPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [changingPassword, setChangingPassword] = useState(false)
+
+  useEffect(() => {
+    setFullName(profile?.full_name ?? '')
+  }, [profile?.full_name])
+
+  if (!profile || !user) return null
+
+  const updateProfile = async (changes: { full_name?: string, avatar_url?: string | null }) => {
+    if (!supabase) throw new Error('Supabase is not configured')
+
+    const { error } = await supabase
+      .from('profiles')
+      .update(changes)
+      .eq('id', profile.id)
+
+    if (error) throw error
+
+    await logActivity({
+      action: 'update_profile',
+      resourceType: 'profile',
+      resourceId: profile.id,
+      details: {
+        changes: Object.fromEntries(
+          Object.entries(changes).map(([field, value]) => [
+            field,
+            { old: profile[field as keyof typeof changes] ?? null, new: value }
+          ])
+        )
+      }
+    })
+
+    await refreshProfile()
+  }
+
+  const handleSaveName = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const trimmed = fullName.trim()
+    if (!trimmed || trimmed === profile.full_name) return
+
+    setSavingName(true)
+
+    try {
+      await updateProfile({ full_name: trimmed })
+      showSuccessToast('Името е обновено')
+    } catch (error) {
+      console.error('Error updating name:', error)
+      showErrorToast('Грешка при промяна на името')
+    } finally {
+      setSavingName(false)
+    }
+  }
+
+  const removeStoredAvatar = async (url: string | null | undefined) => {
+    const path = avatarPathFromUrl(url)
+    if (!supabase || !path) return
+
+    const { error } = await supabase.storage.from(AVATAR_BUCKET).remove([path])
+    if (error) {
+      console.error('Error removing old avatar:', error)
+    }
+  }
+
+  const handleAvatarChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file || !supabase) return
+
+    if (!file.type.startsWith('image/')) {
+      showErrorToast('Моля, изберете изображение')
+      return
+    }
+    if (file.size > MAX_AVATAR_BYTES) {
+      showErrorToast('Снимката трябва да е до 2 MB')
+      return
+    }
+
+    setUploadingAvatar(true)
+
+    try {
+      // A new name per upload, so cached copies of the old avatar are not shown
+      const extension = file.name.split('.').pop()?.toLowerCase() || 'png'
+      const path = `${profile.id}/avatar-${Date.now()}.${extension}`
+
+      const { error: uploadError } = await supabase.storage
+        .from(AVATAR_BUCKET)
+        .upload(path, file, { contentType: file.type })
+
+      if (uploadError) throw uploadError
+
+      const { data } = supabase.storage.from(AVATAR_BUCKET).getPublicUrl(path)
+      const previousUrl = profile.avatar_url
+
+      await updateProfile({ avatar_url: data.publicUrl })
+      await removeStoredAvatar(previousUrl)
+      showSuccessToast('Снимката е обновена')
+    } catch (error) {
+      console.error('Error uploading avatar:', error)
+      showErrorToast('Грешка при качване на снимката')
+    } finally {
+      setUploadingAvatar(false)
+    }
+  }
+
+  const handleRemoveAvatar = async () => {
+    const previousUrl = profile.avatar_url
+    setUploadingAvatar(true)
+
+    try {
+      await updateProfile({ avatar_url: null })
+      await removeStoredAvatar(previousUrl)
+      showSuccessToast('Снимката е премахната')
+    } catch (error) {
+      console.error('Error removing avatar:', error)
+      showErrorToast('Грешка при премахване на снимката')
+    } finally {
+      setUploadingAvatar(false)
+    }
+  }
+
+  const handleEmailChange = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!supabase) return
+
+    const email = newEmail.trim().toLowerCase()
+    if (!email || email === profile.email) return
+
+    setRequestingEmail(true)
+
+    // The profile follows once the new address is confirmed (sync_profile_email trigger)
+    const { error } = await supabase.auth.updateUser(
+      { email },
+      { emailRedirectTo: window.location.origin }
+    )
+
+    if (error) {
+      console.error('Error requesting email change:', error)
+      showErrorToast(error.message || 'Грешка при промяна на email адреса')
+    } else {
+      showSuccessToast(`Изпратихме връзка за потвърждение на ${email}`)
+      setNewEmail('')
+    }
+
+    setRequestingEmail(false)
+  }
+
+  const handlePasswordChange = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!supabase) return
+
+    if (newPassword.length < MIN_PASSWORD_LENGTH) {
+      showErrorToast(`Новата парола трябва да е поне ${MIN_PASSWORD_LENGTH} символа`)
+      return
+    }
+    if (newPassword !== confirmPassword) {
+      showErrorToast('Паролите не съвпадат')
+      return
+    }
+
+    setChangingPassword(true)
+
+    try {
+      const { data, error } = await supabase.functions.invoke('change-password', {
+        body: { currentPassword, newPassword }
+      })
+
+      if (error || data?.error) throw error || new Error(data.error)
+
+      showSuccessToast('Паролата е сменена')
+      setCurrentPassword('')
+      setNewPassword('')
+      setConfirmPassword('')
+    } catch (error) {
+      console.error('Error changing password:', error)
+      const response = (error as { context?: Response }).context
+      showErrorToast(
+        response instanceof Response && response.status === 429
+          ? 'Твърде много неуспешни опити. Опитайте отново по-късно'
+          : 'Паролата не беше сменена. Проверете текущата парола'
+      )
+    } finally {
+      setChangingPassword(false)
+    }
+  }
+
+  const inputClassName = 'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors'
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+        <div className="flex items-center mb-6">
+          <UserCircle className="w-6 h-6 text-blue-600 mr-3" />
+          <h3 className="text-xl font-bold text-gray-900">Профил</h3>
+        </div>
+
+        <div className="flex flex-col sm:flex-row sm:items-center gap-6 mb-6">
+          {profile.avatar_url ? (
+            <img
+              src={profile.avatar_url}
+              alt={profile.full_name}
+              className="w-20 h-20 rounded-full object-cover border border-gray-200"
+            />
+          ) : (
+            <div className="w-20 h-20 rounded-full bg-blue-100 text-blue-700 flex items-center justify-center text-2xl font-semibold">
+              {initials(profile.full_name)}
+            </div>
+          )}
+          <div className="flex items-center space-x-3">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/png,image/jpeg,image/gif,image/webp"
+              onChange={handleAvatarChange}
+              className="hidden"
+            />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={uploadingAvatar}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 transition-colors disabled:opacity-50"
+            >
+              {uploadingAvatar ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <Upload className="w-4 h-4 mr-2" />}
+              Качи снимка
+            </button>
+            {profile.avatar_url && (
+              <button
+                onClick={handleRemoveAvatar}
+                disabled={uploadingAvatar}
+                className="inline-flex items-center px-4 py-2 text-sm text-red-600 hover:text-red-800 transition-colors disabled:opacity-50"
+              >
+                <Trash2 className="w-4 h-4 mr-2" />
+                Премахни
+              </button>
+            )}
+          </div>
+        </div>
+
+        <form onSubmit={handleSaveName} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="profile_full_name" className="block text-sm font-medium text-gray-700 mb-2">
+              Име
+            </label>
+            <input
+              id="profile_full_name"
+              type="text"
+              value={fullName}
+              onChange={(e) => setFullName(e.target.value)}
+              required
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <span className="block text-sm font-medium text-gray-700 mb-2">Роля</span>
+            <p className="px-4 py-2 text-gray-900">{getRole(profile.role).label}</p>
+          </div>
+          <div className="md:col-span-2">
+            <button
+              type="submit"
+              disabled={savingName || !fullName.trim() || fullName.trim() === profile.full_name}
+              className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {savingName ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <Save className="w-4 h-4 mr-2" />}
+              Запази
+            </button>
+          </div>
+        </form>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+        <div className="flex items-center mb-2">
+          <Mail className="w-6 h-6 text-blue-600 mr-3" />
+          <h3 className="text-xl font-bold text-gray-900">Email адрес</h3>
+        </div>
+        <p className="text-sm text-gray-600 mb-6">
+          Текущ адрес: <strong>{profile.email}</strong>. Новият адрес влиза в сила, след като го потвърдите от получената връзка.
+        </p>
+
+        {user.new_email && (
+          <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+            Очаква потвърждение: <strong>{user.new_email}</strong>
+          </div>
+        )}
+
+        <form onSubmit={handleEmailChange} className="flex flex-col sm:flex-row gap-3">
+          <input
+            type="email"
+            value={newEmail}
+            onChange={(e) => setNewEmail(e.target.value)}
+            required
+            placeholder="new@company.local"
+            className={inputClassName}
+          />
+          <button
+            type="submit"
+            disabled={requestingEmail}
+            className="inline-flex items-center justify-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 whitespace-nowrap"
+          >
+            {requestingEmail && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+            Смени email
+          </button>
+        </form>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+        <div className="flex items-center mb-6">
+          <KeyRound className="w-6 h-6 text-blue-600 mr-3" />
+          <h3 className="text-xl font-bold text-gray-900">Парола</h3>
+        </div>
+
+        <form onSubmit={handlePasswordChange} className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label htmlFor="current_password" className="block text-sm font-medium text-gray-700 mb-2">
+              Текуща парола
+            </label>
+            <input
+              id="current_password"
+              type="password"
+              value={currentPassword}
+              onChange={(e) => setCurrentPassword(e.target.value)}
+              required
+              autoComplete="current-password"
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label htmlFor="new_password" className="block text-sm font-medium text-gray-700 mb-2">
+              Нова парола
+            </label>
+            <input
+              id="new_password"
+              type="password"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              required
+              minLength={MIN_PASSWORD_LENGTH}
+              autoComplete="new-password"
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label htmlFor="confirm_new_password" className="block text-sm font-medium text-gray-700 mb-2">
+              Повторете новата парола
+            </label>
+            <input
+              id="confirm_new_password"
+              type="password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              required
+              autoComplete="new-password"
+              className={inputClassName}
+            />
+          </div>
+          <div className="md:col-span-3">
+            <button
+              type="submit"
+              disabled={changingPassword}
+              className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {changingPassword && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+              Смени паролата
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
+
+export default ProfileSettings
@@ -0,0 +1,211 @@
+import React, { useEffect, useState } from 'react'
+import { Activity, ChevronRight, Loader2 } from 'lucide-react'
+import { supabase, ActivityLog } from '../lib/supabase'
+import { activityToneClasses, getActionDefinition } from '../lib/activityRegistry'
+import { useAuth } from '../contexts/AuthContext'
+
+const MAX_ENTRIES = 30
+
+// Consecutive events of the same kind by the same user closer than this are shown as one row
+const BURST_WINDOW_MS = 2 * 60 * 1000
+
+const LOG_SELECT = `
+  *,
+  user:profiles!activity_logs_user_id_fkey(id, full_name, email)
+`
+
+export type ActivityLinkTarget = 'ai_tool' | 'category'
+
+interface RecentActivityProps {
+  onOpenResource: (target: ActivityLinkTarget, id: string) => void
+}
+
+interface ActivityGroup {
+  key: string
+  latest: ActivityLog
+  count: number
+}
+
+const groupBursts = (logs: ActivityLog[]) => {
+  const groups: ActivityGroup[] = []
+
+  logs.forEach((log, index) => {
+    // The previous log always belongs to the last group
+    const current = groups[groups.length - 1]
+    const previous = logs[index - 1]
+
+    if (
+      current &&
+      current.latest.user_id === log.user_id &&
+      current.latest.action === log.action &&
+      current.latest.resource_type === log.resource_type &&
+      new Date(previous.created_at).getTime() - new Date(log.created_at).getTime() < BURST_WINDOW_MS
+    ) {
+      current.count += 1
+    } else {
+      groups.push({ key: log.id, latest: log, count: 1 })
+    }
+  })
+
+  return groups
+}
+
+const formatRelativeTime = (dateString: string, now: number) => {
+  const seconds = Math.max(0, Math.round((now - new Date(dateString).getTime()) / 1000))
+
+  if (seconds < 60) return 'току-що'
+  if (seconds < 3600) return `преди ${Math.floor(seconds / 60)} мин`
+  if (seconds < 86400) return `преди ${Math.floor(seconds / 3600)} ч`
+  return new Date(dateString).toLocaleDateString('bg-BG')
+}
+
+// Deleted tools and categories have nothing left to open
+const getLinkTarget = (log: ActivityLog): { target: ActivityLinkTarget, id: string } | null => {
+  if (log.action === 'delete_tool' || log.action === 'delete_category') return null
+
+  if (log.resource_type === 'ai_tool' && log.resource_id) {
+    return { target: 'ai_tool', id: log.resource_id }
+  }
+  if (log.resource_type === 'comment' && typeof log.details?.tool_id === 'string') {
+    return { target: 'ai_tool', id: log.details.tool_id }
+  }
+  if (log.resource_type === 'category' && log.resource_id) {
+    return { target: 'category', id: log.resource_id }
+  }
+  return null
+}
+
+// Latest events the current user may see under RLS, kept up to date over Realtime
+const RecentActivity: React.FC<RecentActivityProps> = ({ onOpenResource }) => {
+  const { user } = useAuth()
+  const [logs, setLogs] = useState<ActivityLog[]>([])
+  const [loading, setLoading] = useState(true)
+  const [live, setLive] = useState(false)
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    if (!supabase || !user) return
+    const client = supabase
+
+    const fetchRecent = async () => {
+      const { data, error } = await client
+        .from('activity_logs')
+        .select(LOG_SELECT)
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(MAX_ENTRIES)
+
+      if (error) {
+        console.error('Error fetching recent activity:', error)
+      } else {
+        setLogs(data || [])
+      }
+      setLoading(false)
+    }
+
+    // The change payload has no joined profile, so the row is read back through RLS
+    const handleInsert = async (id: string) => {
+      const { data, error } = await client
+        .from('activity_logs')
+        .select(LOG_SELECT)
+        .eq('id', id)
+        .maybeSingle()
+
+      if (error || !data) return
+
+      setLogs(prev => prev.some(log => log.id === data.id)
+        ? prev
+        : [data, ...prev].slice(0, MAX_ENTRIES))
+    }
+
+    fetchRecent()
+
+    const channel = client
+      .channel('recent-activity')
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'activity_logs' },
+        (payload) => handleInsert((payload.new as ActivityLog).id)
+      )
+      .subscribe(status => setLive(status === 'SUBSCRIBED'))
+
+    return () => {
+      client.removeChannel(channel)
+    }
+  }, [user])
+
+  // Keeps the relative times fresh
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 30000)
+    return () => window.clearInterval(timer)
+  }, [])
+
+  const groups = groupBursts(logs)
+
+  return (
+    <div className="mt-8 bg-white rounded-xl shadow-sm border border-gray-200">
+      <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-900">Последна активност</h3>
+        {live && (
+          <span className="inline-flex items-center text-xs text-green-700">
+            <span className="w-2 h-2 rounded-full bg-green-500 mr-2 animate-pulse" />
+            На живо
+          </span>
+        )}
+      </div>
+      <div className="p-6">
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+          </div>
+        ) : groups.length === 0 ? (
+          <div className="text-center text-gray-500 py-8">
+            <Activity className="w-8 h-8 mx-auto mb-2 text-gray-300" />
+            <p>Все още няма активност</p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {groups.map(({ key, latest, count }) => {
+              const definition = getActionDefinition(latest.action)
+              const Icon = definition.icon
+              const link = getLinkTarget(latest)
+              const resourceName = typeof latest.details?.name === 'string' ? latest.details.name : null
+
+              return (
+                <li key={key} className="py-3 flex items-center">
+                  <span className={`flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center ${activityToneClasses[definition.tone]}`}>
+                    <Icon className="w-4 h-4" />
+                  </span>
+                  <div className="ml-3 flex-1 min-w-0">
+                    <p className="text-sm text-gray-900 truncate">
+                      <span className="font-medium">{latest.user?.full_name || 'Системата'}</span>
+                      {' · '}
+                      {definition.label}
+                      {count > 1 && <span className="text-gray-500"> ×{count}</span>}
+                    </p>
+                    {link ? (
+                      <button
+                        onClick={() => onOpenResource(link.target, link.id)}
+                        className="inline-flex items-center text-xs text-blue-600 hover:text-blue-800 transition-colors"
+                      >
+                        {resourceName || (link.target === 'category' ? 'Към категорията' : 'Към инструмента')}
+                        <ChevronRight className="w-3 h-3 ml-0.5" />
+                      </button>
+                    ) : resourceName && (
+                      <p className="text-xs text-gray-500 truncate">{resourceName}</p>
+                    )}
+                  </div>
+                  <span className="ml-3 flex-shrink-0 text-xs text-gray-400">
+                    {formatRelativeTime(latest.created_at, now)}
+                  </span>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default RecentActivity
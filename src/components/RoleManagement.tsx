@@ -0,0 +1,248 @@
+import React, { useState } from 'react'
+import { BadgeCheck, Loader2, Pencil, Plus, Save, Trash2, X } from 'lucide-react'
+import { supabase, Role } from '../lib/supabase'
+import {
+  DEFAULT_ROLE_COLOR,
+  DEFAULT_ROLE_ICON,
+  getRoleIconComponent,
+  PROTECTED_ROLES,
+  ROLE_KEY_PATTERN,
+  roleIconRegistry
+} from '../lib/roles'
+import { useRoles } from '../hooks/useRoles'
+import { usePermission } from '../hooks/usePermission'
+import { useToaster } from '../hooks/useToaster'
+
+type RoleForm = Pick<Role, 'role' | 'label' | 'color' | 'icon'>
+
+const emptyForm: RoleForm = {
+  role: '',
+  label: '',
+  color: DEFAULT_ROLE_COLOR,
+  icon: DEFAULT_ROLE_ICON
+}
+
+// Roles (roles.manage). Changes go straight to the roles table under RLS; the
+// log_role_change trigger writes the activity log entries.
+const RoleManagement: React.FC = () => {
+  const isAuthorized = usePermission('roles.manage')
+  const { roles, loading, refreshRoles } = useRoles()
+  const { showSuccessToast, showErrorToast } = useToaster()
+  const [form, setForm] = useState<RoleForm>(emptyForm)
+  const [editingRole, setEditingRole] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [deletingRole, setDeletingRole] = useState<string | null>(null)
+
+  const resetForm = () => {
+    setForm(emptyForm)
+    setEditingRole(null)
+  }
+
+  const startEditing = (role: Role) => {
+    setForm({ role: role.role, label: role.label, color: role.color, icon: role.icon })
+    setEditingRole(role.role)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!supabase) return
+
+    const label = form.label.trim()
+    if (!label) return
+
+    if (!editingRole && !ROLE_KEY_PATTERN.test(form.role)) {
+      showErrorToast('Ключът трябва да започва с малка латинска буква и да съдържа само малки букви, цифри и _')
+      return
+    }
+
+    setSaving(true)
+
+    try {
+      const { error } = editingRole
+        ? await supabase
+            .from('roles')
+            .update({ label, color: form.color, icon: form.icon })
+            .eq('role', editingRole)
+        : await supabase
+            .from('roles')
+            .insert({ role: form.role, label, color: form.color, icon: form.icon })
+
+      if (error) {
+        if (error.code === '23505') {
+          throw new Error('Вече има роля с този ключ')
+        }
+        throw error
+      }
+
+      showSuccessToast(editingRole ? 'Ролята е обновена' : `Ролята „${label}“ е създадена`)
+      resetForm()
+      await refreshRoles()
+    } catch (error) {
+      console.error('Error saving role:', error)
+      showErrorToast((error as Error).message || 'Грешка при запазване на ролята')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (role: Role) => {
+    if (!supabase) return
+    if (!confirm(`Изтриване на ролята „${role.label}“? Таговете на инструментите, 2FA политиката и правата ѝ също ще бъдат изтрити.`)) return
+
+    setDeletingRole(role.role)
+
+    try {
+      // A role still held by profiles or invitations is refused by the foreign keys
+      const { data, error } = await supabase
+        .from('roles')
+        .delete()
+        .eq('role', role.role)
+        .select('role')
+
+      if (error) {
+        if (error.code === '23503') {
+          throw new Error('Ролята се използва от потребители или покани')
+        }
+        throw error
+      }
+      if (!data || data.length === 0) {
+        throw new Error('Тази роля не може да бъде изтрита')
+      }
+
+      showSuccessToast(`Ролята „${role.label}“ е изтрита`)
+      if (editingRole === role.role) resetForm()
+      await refreshRoles()
+    } catch (error) {
+      console.error('Error deleting role:', error)
+      showErrorToast((error as Error).message || 'Грешка при изтриване на ролята')
+    } finally {
+      setDeletingRole(null)
+    }
+  }
+
+  if (!isAuthorized) {
+    return null
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center mb-2">
+        <BadgeCheck className="w-6 h-6 text-blue-600 mr-3" />
+        <h3 className="text-xl font-bold text-gray-900">Роли</h3>
+      </div>
+      <p className="text-sm text-gray-600 mb-6">
+        Ролите се използват за профилите, поканите, 2FA политиката и таговете на инструментите. Ключът не може да се променя след създаване.
+      </p>
+
+      <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-5 gap-3 mb-6">
+        <input
+          type="text"
+          required
+          placeholder="Ключ (напр. devops)"
+          value={form.role}
+          disabled={editingRole !== null}
+          onChange={(e) => setForm(prev => ({ ...prev, role: e.target.value.toLowerCase() }))}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100"
+        />
+        <input
+          type="text"
+          required
+          placeholder="Име"
+          value={form.label}
+          onChange={(e) => setForm(prev => ({ ...prev, label: e.target.value }))}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        />
+        <div className="flex gap-3">
+          <input
+            type="color"
+            title="Цвят"
+            value={form.color}
+            onChange={(e) => setForm(prev => ({ ...prev, color: e.target.value }))}
+            className="h-10 w-14 border border-gray-300 rounded-lg cursor-pointer"
+          />
+          <select
+            value={form.icon}
+            onChange={(e) => setForm(prev => ({ ...prev, icon: e.target.value }))}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            {Object.keys(roleIconRegistry).map(icon => (
+              <option key={icon} value={icon}>{icon}</option>
+            ))}
+          </select>
+        </div>
+        <button
+          type="submit"
+          disabled={saving}
+          className="inline-flex items-center justify-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {saving
+            ? <Loader2 className="w-4 h-4 animate-spin mr-2" />
+            : editingRole ? <Save className="w-4 h-4 mr-2" /> : <Plus className="w-4 h-4 mr-2" />}
+          {editingRole ? 'Запази' : 'Добави роля'}
+        </button>
+        {editingRole && (
+          <button
+            type="button"
+            onClick={resetForm}
+            className="inline-flex items-center justify-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            <X className="w-4 h-4 mr-2" />
+            Отказ
+          </button>
+        )}
+      </form>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-6">
+          <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+        </div>
+      ) : (
+        <div className="divide-y divide-gray-200">
+          {roles.map(role => {
+            const Icon = getRoleIconComponent(role.icon)
+
+            return (
+              <div key={role.role} className="flex items-center justify-between py-3">
+                <div className="flex items-center min-w-0">
+                  <span
+                    className="flex items-center justify-center w-8 h-8 rounded-lg text-white mr-3 flex-shrink-0"
+                    style={{ backgroundColor: role.color }}
+                  >
+                    <Icon className="w-4 h-4" />
+                  </span>
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">{role.label}</p>
+                    <p className="text-xs text-gray-500">{role.role}</p>
+                  </div>
+                </div>
+                <div className="flex items-center">
+                  <button
+                    onClick={() => startEditing(role)}
+                    title="Редактирай"
+                    className="p-2 text-gray-400 hover:text-blue-600 transition-colors"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  {!PROTECTED_ROLES.includes(role.role) && (
+                    <button
+                      onClick={() => handleDelete(role)}
+                      disabled={deletingRole !== null}
+                      title="Изтрий"
+                      className="p-2 text-gray-400 hover:text-red-600 transition-colors disabled:opacity-50"
+                    >
+                      {deletingRole === role.role
+                        ? <Loader2 className="w-4 h-4 animate-spin" />
+                        : <Trash2 className="w-4 h-4" />}
+                    </button>
+                  )}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default RoleManagement
@@ -0,0 +1,330 @@
+import React, { useEffect, useState } from 'react'
+import { Loader2, Pencil, Plus, Save, Trash2, UserMinus, Users, X } from 'lucide-react'
+import { supabase, Profile, Team } from '../lib/supabase'
+import { useAuth } from '../contexts/AuthContext'
+import { usePermission } from '../hooks/usePermission'
+import { useToaster } from '../hooks/useToaster'
+
+type TeamForm = Pick<Team, 'name'> & { description: string }
+
+type Member = Pick<Profile, 'id' | 'email' | 'full_name'>
+
+interface TeamMember {
+  team_id: string
+  user_id: string
+}
+
+const emptyForm: TeamForm = {
+  name: '',
+  description: ''
+}
+
+// Teams (teams.manage). Tools shared with a team are visible to its members only;
+// the log_team_change and log_team_member_change triggers write the activity log.
+const TeamManagement: React.FC = () => {
+  const { user } = useAuth()
+  const isAuthorized = usePermission('teams.manage')
+  const { showSuccessToast, showErrorToast } = useToaster()
+  const [teams, setTeams] = useState<Team[]>([])
+  const [users, setUsers] = useState<Member[]>([])
+  const [members, setMembers] = useState<TeamMember[]>([])
+  const [loading, setLoading] = useState(true)
+  const [form, setForm] = useState<TeamForm>(emptyForm)
+  const [editingTeamId, setEditingTeamId] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [busyTeamId, setBusyTeamId] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (isAuthorized) {
+      fetchTeams()
+    }
+  }, [isAuthorized])
+
+  const fetchTeams = async () => {
+    if (!supabase) return
+
+    try {
+      const [teamsResult, usersResult, membersResult] = await Promise.all([
+        supabase
+          .from('teams')
+          .select('*')
+          .order('name'),
+        supabase
+          .from('profiles')
+          .select('id, email, full_name')
+          .is('deactivated_at', null)
+          .order('full_name'),
+        supabase
+          .from('team_members')
+          .select('team_id, user_id')
+      ])
+
+      if (teamsResult.error) throw teamsResult.error
+      if (usersResult.error) throw usersResult.error
+      if (membersResult.error) throw membersResult.error
+
+      setTeams(teamsResult.data || [])
+      setUsers(usersResult.data || [])
+      setMembers(membersResult.data || [])
+    } catch (error) {
+      console.error('Error fetching teams:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const resetForm = () => {
+    setForm(emptyForm)
+    setEditingTeamId(null)
+  }
+
+  const startEditing = (team: Team) => {
+    setForm({ name: team.name, description: team.description || '' })
+    setEditingTeamId(team.id)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!supabase) return
+
+    const name = form.name.trim()
+    if (!name) return
+
+    const description = form.description.trim() || null
+
+    setSaving(true)
+
+    try {
+      const { error } = editingTeamId
+        ? await supabase
+            .from('teams')
+            .update({ name, description })
+            .eq('id', editingTeamId)
+        : await supabase
+            .from('teams')
+            .insert({ name, description, created_by: user?.id })
+
+      if (error) {
+        if (error.code === '23505') {
+          throw new Error('Вече има екип с това име')
+        }
+        throw error
+      }
+
+      showSuccessToast(editingTeamId ? 'Екипът е обновен' : `Екипът „${name}“ е създаден`)
+      resetForm()
+      await fetchTeams()
+    } catch (error) {
+      console.error('Error saving team:', error)
+      showErrorToast((error as Error).message || 'Грешка при запазване на екипа')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (team: Team) => {
+    if (!supabase) return
+    if (!confirm(`Изтриване на екипа „${team.name}“? Инструментите, споделени само с него, ще останат видими единствено за създателите си.`)) return
+
+    setBusyTeamId(team.id)
+
+    try {
+      const { error } = await supabase
+        .from('teams')
+        .delete()
+        .eq('id', team.id)
+
+      if (error) throw error
+
+      setTeams(prev => prev.filter(t => t.id !== team.id))
+      setMembers(prev => prev.filter(member => member.team_id !== team.id))
+      if (editingTeamId === team.id) resetForm()
+      showSuccessToast(`Екипът „${team.name}“ е изтрит`)
+    } catch (error) {
+      console.error('Error deleting team:', error)
+      showErrorToast('Грешка при изтриване на екипа')
+    } finally {
+      setBusyTeamId(null)
+    }
+  }
+
+  const addMember = async (teamId: string, userId: string) => {
+    if (!supabase || !userId) return
+
+    setBusyTeamId(teamId)
+
+    try {
+      const { error } = await supabase
+        .from('team_members')
+        .insert({ team_id: teamId, user_id: userId })
+
+      if (error) throw error
+
+      setMembers(prev => [...prev, { team_id: teamId, user_id: userId }])
+    } catch (error) {
+      console.error('Error adding team member:', error)
+      showErrorToast('Грешка при добавяне в екипа')
+    } finally {
+      setBusyTeamId(null)
+    }
+  }
+
+  const removeMember = async (teamId: string, userId: string) => {
+    if (!supabase) return
+
+    setBusyTeamId(teamId)
+
+    try {
+      const { error } = await supabase
+        .from('team_members')
+        .delete()
+        .eq('team_id', teamId)
+        .eq('user_id', userId)
+
+      if (error) throw error
+
+      setMembers(prev => prev.filter(member => !(member.team_id === teamId && member.user_id === userId)))
+    } catch (error) {
+      console.error('Error removing team member:', error)
+      showErrorToast('Грешка при премахване от екипа')
+    } finally {
+      setBusyTeamId(null)
+    }
+  }
+
+  if (!isAuthorized) {
+    return null
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center mb-2">
+        <Users className="w-6 h-6 text-blue-600 mr-3" />
+        <h3 className="text-xl font-bold text-gray-900">Екипи</h3>
+      </div>
+      <p className="text-sm text-gray-600 mb-6">
+        Инструментите с видимост „Избрани екипи“ се виждат само от членовете на екипите, с които са споделени.
+      </p>
+
+      <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-4 gap-3 mb-6">
+        <input
+          type="text"
+          required
+          placeholder="Име на екипа"
+          value={form.name}
+          onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        />
+        <input
+          type="text"
+          placeholder="Описание"
+          value={form.description}
+          onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        />
+        <button
+          type="submit"
+          disabled={saving}
+          className="inline-flex items-center justify-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {saving
+            ? <Loader2 className="w-4 h-4 animate-spin mr-2" />
+            : editingTeamId ? <Save className="w-4 h-4 mr-2" /> : <Plus className="w-4 h-4 mr-2" />}
+          {editingTeamId ? 'Запази' : 'Добави екип'}
+        </button>
+        {editingTeamId && (
+          <button
+            type="button"
+            onClick={resetForm}
+            className="inline-flex items-center justify-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            <X className="w-4 h-4 mr-2" />
+            Отказ
+          </button>
+        )}
+      </form>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-6">
+          <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+        </div>
+      ) : teams.length === 0 ? (
+        <p className="text-sm text-gray-500">Все още няма екипи.</p>
+      ) : (
+        <div className="divide-y divide-gray-200">
+          {teams.map(team => {
+            const memberIds = members.filter(member => member.team_id === team.id).map(member => member.user_id)
+            const teamMembers = users.filter(u => memberIds.includes(u.id))
+            const candidates = users.filter(u => !memberIds.includes(u.id))
+
+            return (
+              <div key={team.id} className="py-4">
+                <div className="flex items-center justify-between mb-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">{team.name}</p>
+                    <p className="text-sm text-gray-500">
+                      {team.description ? `${team.description} · ` : ''}{teamMembers.length} членове
+                    </p>
+                  </div>
+                  <div className="flex items-center">
+                    {busyTeamId === team.id && <Loader2 className="w-4 h-4 animate-spin text-gray-400 mr-2" />}
+                    <button
+                      onClick={() => startEditing(team)}
+                      title="Редактирай"
+                      className="p-2 text-gray-400 hover:text-blue-600 transition-colors"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(team)}
+                      disabled={busyTeamId !== null}
+                      title="Изтрий"
+                      className="p-2 text-gray-400 hover:text-red-600 transition-colors disabled:opacity-50"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  {teamMembers.map(member => (
+                    <span
+                      key={member.id}
+                      className="inline-flex items-center px-2.5 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-700"
+                    >
+                      {member.full_name}
+                      <button
+                        onClick={() => removeMember(team.id, member.id)}
+                        disabled={busyTeamId !== null}
+                        title="Премахни от екипа"
+                        className="ml-1 text-gray-400 hover:text-red-600 disabled:opacity-50"
+                      >
+                        <UserMinus className="w-3 h-3" />
+                      </button>
+                    </span>
+                  ))}
+                  {candidates.length > 0 && (
+                    <select
+                      value=""
+                      disabled={busyTeamId !== null}
+                      onChange={(e) => addMember(team.id, e.target.value)}
+                      className="px-2 py-1 text-xs border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50"
+                    >
+                      <option value="">+ Добави член</option>
+                      {candidates.map(candidate => (
+                        <option key={candidate.id} value={candidate.id}>
+                          {candidate.full_name} ({candidate.email})
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default TeamManagement
@@ -2,19 +2,23 @@ import React, { useState, useEffect } from 'react'
 import { MessageSquare, Send, Edit, Trash2, Loader2, User } from 'lucide-react'
 import { supabase, ToolComment } from '../lib/supabase'
 import { useAuth } from '../contexts/AuthContext'
+import { useModerationPermission } from '../hooks/usePermission'
 
 interface ToolCommentsProps {
   toolId: string
+  categoryId?: string | null
   totalComments?: number
   onCommentChange?: () => void
 }
 
 const ToolComments: React.FC<ToolCommentsProps> = ({ 
   toolId, 
+  categoryId,
   totalComments = 0,
   onCommentChange 
 }) => {
-  const { user, profile } = useAuth()
+  const { user } = useAuth()
+  const canModerateComments = useModerationPermission('comments.delete_any')
   const [comments, setComments] = useState<ToolComment[]>([])
   const [newComment, setNewComment] = useState('')
   const [editingComment, setEditingComment] = useState<string | null>(null)
@@ -127,7 +131,11 @@ const ToolComments: React.FC<ToolCommentsProps> = ({
   }
 
   const canEditComment = (comment: ToolComment) => {
-    return comment.user_id === user?.id || profile?.role === 'owner'
+    return comment.user_id === user?.id
+  }
+
+  const canDeleteComment = (comment: ToolComment) => {
+    return comment.user_id === user?.id || canModerateComments(categoryId)
   }
 
   const formatDate = (dateString: string) => {
@@ -209,17 +217,19 @@ const ToolComments: React.FC<ToolCommentsProps> = ({
                         {formatDate(comment.created_at)}
                       </span>
                     </div>
-                    {canEditComment(comment) && (
+                    {canDeleteComment(comment) && (
                       <div className="flex space-x-1">
-                        <button
-                          onClick={() => {
-                            setEditingComment(comment.id)
-                            setEditContent(comment.content)
-                          }}
-                          className="p-1 text-gray-400 hover:text-blue-600 transition-colors"
-                        >
-                          <Edit className="w-4 h-4" />
-                        </button>
+                        {canEditComment(comment) && (
+                          <button
+                            onClick={() => {
+                              setEditingComment(comment.id)
+                              setEditContent(comment.content)
+                            }}
+                            className="p-1 text-gray-400 hover:text-blue-600 transition-colors"
+                          >
+                            <Edit className="w-4 h-4" />
+                          </button>
+                        )}
                         <button
                           onClick={() => handleDeleteComment(comment.id)}
                           className="p-1 text-gray-400 hover:text-red-600 transition-colors"
@@ -0,0 +1,58 @@
+import React from 'react'
+import { LogOut, ShieldAlert } from 'lucide-react'
+import { useAuth } from '../contexts/AuthContext'
+import { useRoles } from '../hooks/useRoles'
+import { useActivityLogger } from '../hooks/useActivityLogger'
+import TwoFactorSettings from './TwoFactorSettings'
+
+// Shown instead of the dashboard while the user's role requires 2FA and none is enrolled
+const TwoFactorEnrollment: React.FC = () => {
+  const { profile, signOut } = useAuth()
+  const { getRole } = useRoles()
+  const { logActivity } = useActivityLogger()
+
+  const handleSignOut = async () => {
+    await logActivity({
+      action: 'logout',
+      resourceType: 'auth'
+    })
+    await signOut()
+  }
+
+  if (!profile) return null
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-12 px-4">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <div className="bg-amber-50 border border-amber-200 rounded-xl p-6">
+          <div className="flex items-start">
+            <ShieldAlert className="w-6 h-6 text-amber-600 mr-3 flex-shrink-0" />
+            <div>
+              <h2 className="text-lg font-bold text-amber-900 mb-1">
+                Необходима е двуфакторна автентикация
+              </h2>
+              <p className="text-sm text-amber-800">
+                За ролята „{getRole(profile.role).label}“ двуфакторната автентикация е задължителна.
+                Активирайте поне един метод, за да продължите към платформата.
+              </p>
+            </div>
+          </div>
+        </div>
+
+        <TwoFactorSettings />
+
+        <div className="text-center">
+          <button
+            onClick={handleSignOut}
+            className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900 transition-colors"
+          >
+            <LogOut className="w-4 h-4 mr-1" />
+            Изход
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default TwoFactorEnrollment
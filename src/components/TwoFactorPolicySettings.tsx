@@ -0,0 +1,137 @@
+import React, { useEffect, useState } from 'react'
+import { ShieldCheck, Loader2 } from 'lucide-react'
+import { supabase } from '../lib/supabase'
+import { useAuth } from '../contexts/AuthContext'
+import { useRoles } from '../hooks/useRoles'
+import { useActivityLogger } from '../hooks/useActivityLogger'
+import { usePermission } from '../hooks/usePermission'
+import { useToaster } from '../hooks/useToaster'
+
+interface TwoFactorPolicy {
+  role: string
+  required: boolean
+  updated_at: string
+}
+
+// Which roles must use two-factor authentication (security.policy)
+const TwoFactorPolicySettings: React.FC = () => {
+  const { user } = useAuth()
+  const { roles, getRole } = useRoles()
+  const canManagePolicy = usePermission('security.policy')
+  const { logActivity } = useActivityLogger()
+  const { showSuccessToast, showErrorToast } = useToaster()
+  const [policies, setPolicies] = useState<TwoFactorPolicy[]>([])
+  const [loading, setLoading] = useState(true)
+  const [savingRole, setSavingRole] = useState<string | null>(null)
+
+  useEffect(() => {
+    // New roles get their policy row from a trigger, so the list follows the roles
+    if (canManagePolicy) {
+      fetchPolicies()
+    }
+  }, [canManagePolicy, roles])
+
+  const fetchPolicies = async () => {
+    if (!supabase) return
+
+    setLoading(true)
+
+    const { data, error } = await supabase
+      .from('two_factor_policies')
+      .select('role, required, updated_at')
+
+    if (error) {
+      console.error('Error fetching 2FA policies:', error)
+    } else {
+      setPolicies(data || [])
+    }
+
+    setLoading(false)
+  }
+
+  const handleToggle = async (role: string, required: boolean) => {
+    if (!supabase) return
+
+    setSavingRole(role)
+
+    try {
+      const { error } = await supabase
+        .from('two_factor_policies')
+        .update({
+          required,
+          updated_by: user?.id,
+          updated_at: new Date().toISOString()
+        })
+        .eq('role', role)
+
+      if (error) throw error
+
+      setPolicies(prev => prev.map(policy => policy.role === role ? { ...policy, required } : policy))
+
+      await logActivity({
+        action: 'update_2fa_policy',
+        resourceType: 'system',
+        details: {
+          role,
+          required,
+          changed_by: user?.id
+        }
+      })
+
+      showSuccessToast(
+        required
+          ? `2FA е задължителна за ${getRole(role).label}`
+          : `2FA вече не е задължителна за ${getRole(role).label}`
+      )
+    } catch (error) {
+      console.error('Error updating 2FA policy:', error)
+      showErrorToast('Грешка при промяна на политиката')
+    } finally {
+      setSavingRole(null)
+    }
+  }
+
+  if (!canManagePolicy) return null
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center mb-2">
+        <ShieldCheck className="w-6 h-6 text-blue-600 mr-3" />
+        <h3 className="text-xl font-bold text-gray-900">Политика за двуфакторна автентикация</h3>
+      </div>
+      <p className="text-sm text-gray-600 mb-6">
+        Потребителите в отбелязаните роли трябва да активират 2FA, преди да получат достъп до платформата.
+      </p>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-6">
+          <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+        </div>
+      ) : (
+        <div className="divide-y divide-gray-200">
+          {roles.map(({ role, label }) => {
+            const policy = policies.find(p => p.role === role)
+
+            return (
+              <label key={role} className="flex items-center justify-between py-3 cursor-pointer">
+                <span className="text-sm font-medium text-gray-900">{label}</span>
+                <span className="flex items-center">
+                  {savingRole === role && <Loader2 className="w-4 h-4 animate-spin text-gray-400 mr-2" />}
+                  <input
+                    type="checkbox"
+                    checked={policy?.required ?? false}
+                    disabled={!policy || savingRole !== null}
+                    onChange={(e) => handleToggle(role, e.target.checked)}
+                    className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                  />
+                </span>
+              </label>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default TwoFactorPolicySettings
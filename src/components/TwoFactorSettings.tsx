@@ -1,68 +1,195 @@
-import React, { useState } from 'react'
-import { Shield, ShieldCheck, ShieldX, Loader2, Mail } from 'lucide-react'
-import { supabase } from '../lib/supabase'
+import React, { useEffect, useState } from 'react'
+import { Shield, ShieldCheck, ShieldX, Loader2, Mail, Smartphone, KeyRound, LifeBuoy, Download, RefreshCw } from 'lucide-react'
+import { supabase, TwoFactorMethod } from '../lib/supabase'
 import { useAuth } from '../contexts/AuthContext'
-import { useActivityLogger } from '../hooks/useActivityLogger'
+
+type ManageTwoFactorAction =
+  | 'enable_email'
+  | 'disable_email'
+  | 'totp_start'
+  | 'totp_confirm'
+  | 'totp_disable'
+  | 'recovery_status'
+  | 'regenerate_recovery_codes'
+
+interface TotpEnrollment {
+  secret: string
+  otpauthUri: string
+}
 
 const TwoFactorSettings: React.FC = () => {
-  const { profile } = useAuth()
-  const { logActivity } = useActivityLogger()
+  const { profile, twoFactorRequired } = useAuth()
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState('')
   const [success, setSuccess] = useState('')
+  const [totpEnrollment, setTotpEnrollment] = useState<TotpEnrollment | null>(null)
+  const [totpCode, setTotpCode] = useState('')
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [remainingRecoveryCodes, setRemainingRecoveryCodes] = useState<number | null>(null)
+
+  const methods: TwoFactorMethod[] = profile?.two_factor_methods?.length
+    ? profile.two_factor_methods
+    : profile?.two_factor_enabled ? ['email'] : []
+  const emailEnabled = methods.includes('email')
+  const totpEnabled = methods.includes('totp')
+  // The org policy does not allow removing the last enrolled method
+  const lockedByPolicy = twoFactorRequired && methods.length === 1
+
+  const manageTwoFactor = async (action: ManageTwoFactorAction, body: Record<string, string> = {}) => {
+    const { data, error } = await supabase.functions.invoke('manage-2fa', {
+      body: { action, ...body }
+    })
+
+    if (error || data?.error) throw error || new Error(data.error)
+    return data
+  }
+
+  useEffect(() => {
+    if (methods.length === 0) return
+
+    manageTwoFactor('recovery_status')
+      .then(data => setRemainingRecoveryCodes(data.remaining))
+      .catch(error => console.error('Error loading recovery code status:', error))
+  }, [methods.length])
+
+  // Codes are only returned when they are generated, so they are shown once
+  // and the page is refreshed after the user confirms they have saved them
+  const finishOrShowRecoveryCodes = (codes?: string[]) => {
+    if (codes?.length) {
+      setRecoveryCodes(codes)
+    } else {
+      window.location.reload()
+    }
+  }
 
-  const handleToggleTwoFactor = async () => {
+  const handleDownloadRecoveryCodes = () => {
+    if (!recoveryCodes || !profile) return
+
+    const content = [
+      'AI Tools Platform - кодове за възстановяване',
+      profile.email,
+      '',
+      ...recoveryCodes,
+      '',
+      'Всеки код може да бъде използван само веднъж.'
+    ].join('\n')
+
+    const url = URL.createObjectURL(new Blob([content], { type: 'text/plain' }))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = 'recovery-codes.txt'
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const handleRegenerateRecoveryCodes = async () => {
     if (!profile) return
+    if (!confirm('Новите кодове ще заменят всички досегашни. Продължаване?')) {
+      return
+    }
 
     setLoading(true)
     setError('')
     setSuccess('')
 
     try {
-      const newStatus = !profile.two_factor_enabled
+      const data = await manageTwoFactor('regenerate_recovery_codes')
+      setRecoveryCodes(data.recoveryCodes)
+    } catch (error) {
+      console.error('Error regenerating recovery codes:', error)
+      setError('Грешка при генериране на кодове за възстановяване')
+    } finally {
+      setLoading(false)
+    }
+  }
 
-      const { error } = await supabase
-        .from('profiles')
-        .update({ two_factor_enabled: newStatus })
-        .eq('id', profile.id)
+  const handleToggleEmail = async () => {
+    if (!profile) return
 
-      if (error) throw error
+    setLoading(true)
+    setError('')
+    setSuccess('')
+
+    const newStatus = !emailEnabled
+
+    try {
+      const data = await manageTwoFactor(newStatus ? 'enable_email' : 'disable_email')
 
       setSuccess(
-        newStatus 
-          ? 'Двуфакторната автентикация е активирана успешно'
-          : 'Двуфакторната автентикация е деактивирана успешно'
+        newStatus
+          ? 'Двуфакторната автентикация по email е активирана успешно'
+          : 'Двуфакторната автентикация по email е деактивирана успешно'
       )
 
-      // Log activity
-      await logActivity({
-        action: newStatus ? 'enable_2fa' : 'disable_2fa',
-        resourceType: 'profile',
-        resourceId: profile.id,
-        details: { 
-          two_factor_enabled: newStatus,
-          user_email: profile.email,
-          changed_at: new Date().toISOString()
-        }
-      })
-
       // Refresh profile data
-      window.location.reload()
+      finishOrShowRecoveryCodes(data.recoveryCodes)
     } catch (error) {
       console.error('Error toggling 2FA:', error)
       setError('Грешка при промяна на настройките')
-      
-      // Log error activity
-      await logActivity({
-        action: profile.two_factor_enabled ? 'disable_2fa' : 'enable_2fa',
-        resourceType: 'profile',
-        resourceId: profile.id,
-        details: { 
-          error: error.message,
-          user_email: profile.email,
-          success: false
-        }
-      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleStartTotp = async () => {
+    setLoading(true)
+    setError('')
+    setSuccess('')
+
+    try {
+      const data = await manageTwoFactor('totp_start')
+      setTotpEnrollment({ secret: data.secret, otpauthUri: data.otpauthUri })
+      setTotpCode('')
+    } catch (error) {
+      console.error('Error starting TOTP enrollment:', error)
+      setError('Грешка при генериране на ключ за приложението')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleConfirmTotp = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!profile) return
+
+    setLoading(true)
+    setError('')
+    setSuccess('')
+
+    try {
+      const data = await manageTwoFactor('totp_confirm', { code: totpCode })
+      setTotpEnrollment(null)
+
+      setSuccess('Приложението за автентикация е активирано успешно')
+
+      finishOrShowRecoveryCodes(data.recoveryCodes)
+    } catch (error) {
+      console.error('Error confirming TOTP:', error)
+      setError('Невалиден код. Проверете часовника на устройството и опитайте отново')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleDisableTotp = async () => {
+    if (!profile) return
+    if (!confirm('Сигурни ли сте, че искате да премахнете приложението за автентикация?')) {
+      return
+    }
+
+    setLoading(true)
+    setError('')
+    setSuccess('')
+
+    try {
+      await manageTwoFactor('totp_disable')
+
+      setSuccess('Приложението за автентикация е премахнато')
+
+      window.location.reload()
+    } catch (error) {
+      console.error('Error disabling TOTP:', error)
+      setError('Грешка при промяна на настройките')
     } finally {
       setLoading(false)
     }
@@ -77,10 +204,11 @@ const TwoFactorSettings: React.FC = () => {
         <h3 className="text-xl font-bold text-gray-900">Двуфакторна автентикация</h3>
       </div>
 
-      <div className="space-y-4">
+      <div className="space-y-6">
+        {/* Email codes */}
         <div className="flex items-start space-x-4">
-          <div className={`p-3 rounded-lg ${profile.two_factor_enabled ? 'bg-green-100' : 'bg-gray-100'}`}>
-            {profile.two_factor_enabled ? (
+          <div className={`p-3 rounded-lg ${emailEnabled ? 'bg-green-100' : 'bg-gray-100'}`}>
+            {emailEnabled ? (
               <ShieldCheck className="w-6 h-6 text-green-600" />
             ) : (
               <ShieldX className="w-6 h-6 text-gray-600" />
@@ -91,7 +219,7 @@ const TwoFactorSettings: React.FC = () => {
               Email автентикация
             </h4>
             <p className="text-sm text-gray-600 mb-3">
-              {profile.two_factor_enabled 
+              {emailEnabled
                 ? 'Двуфакторната автентикация е активна. При всяко влизане ще получавате код на email-а си.'
                 : 'Активирайте двуфакторната автентикация за допълнителна сигурност на акаунта си.'
               }
@@ -100,9 +228,195 @@ const TwoFactorSettings: React.FC = () => {
               <Mail className="w-4 h-4" />
               <span>{profile.email}</span>
             </div>
+            <button
+              onClick={handleToggleEmail}
+              disabled={loading || (emailEnabled && lockedByPolicy)}
+              className={`inline-flex items-center px-4 py-2 rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                emailEnabled
+                  ? 'bg-red-600 text-white hover:bg-red-700'
+                  : 'bg-green-600 text-white hover:bg-green-700'
+              }`}
+            >
+              {loading ? (
+                <Loader2 className="w-4 h-4 animate-spin mr-2" />
+              ) : (
+                <Shield className="w-4 h-4 mr-2" />
+              )}
+              {loading
+                ? 'Запазване...'
+                : emailEnabled
+                  ? 'Деактивирай 2FA по email'
+                  : 'Активирай 2FA по email'
+              }
+            </button>
+          </div>
+        </div>
+
+        {/* Authenticator app (TOTP) */}
+        <div className="flex items-start space-x-4 pt-6 border-t border-gray-200">
+          <div className={`p-3 rounded-lg ${totpEnabled ? 'bg-green-100' : 'bg-gray-100'}`}>
+            <Smartphone className={`w-6 h-6 ${totpEnabled ? 'text-green-600' : 'text-gray-600'}`} />
+          </div>
+          <div className="flex-1">
+            <h4 className="font-medium text-gray-900 mb-1">
+              Приложение за автентикация
+            </h4>
+            <p className="text-sm text-gray-600 mb-4">
+              {totpEnabled
+                ? 'Приложението за автентикация е активно. При влизане можете да използвате кода от него.'
+                : 'Използвайте Google Authenticator, Microsoft Authenticator или друго TOTP приложение.'
+              }
+            </p>
+
+            {totpEnabled ? (
+              <button
+                onClick={handleDisableTotp}
+                disabled={loading || lockedByPolicy}
+                className="inline-flex items-center px-4 py-2 rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed bg-red-600 text-white hover:bg-red-700"
+              >
+                <Smartphone className="w-4 h-4 mr-2" />
+                Премахни приложението
+              </button>
+            ) : totpEnrollment ? (
+              <form onSubmit={handleConfirmTotp} className="space-y-4">
+                <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 space-y-3">
+                  <p className="text-sm text-gray-700">
+                    1. Добавете акаунт в приложението чрез линка или въведете ключа ръчно:
+                  </p>
+                  <a
+                    href={totpEnrollment.otpauthUri}
+                    className="block text-xs font-mono text-blue-600 hover:text-blue-800 break-all"
+                  >
+                    {totpEnrollment.otpauthUri}
+                  </a>
+                  <div className="flex items-center space-x-2">
+                    <KeyRound className="w-4 h-4 text-gray-500" />
+                    <code className="text-sm font-mono tracking-wider text-gray-900 break-all">
+                      {totpEnrollment.secret.match(/.{1,4}/g)?.join(' ')}
+                    </code>
+                  </div>
+                  <p className="text-sm text-gray-700">
+                    2. Въведете 6-цифрения код, който приложението показва:
+                  </p>
+                  <input
+                    type="text"
+                    value={totpCode}
+                    onChange={(e) => setTotpCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+                    maxLength={6}
+                    required
+                    className="w-full sm:w-48 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-center text-xl font-mono tracking-widest"
+                    placeholder="123456"
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    type="submit"
+                    disabled={loading || totpCode.length !== 6}
+                    className="inline-flex items-center px-4 py-2 rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed bg-green-600 text-white hover:bg-green-700"
+                  >
+                    {loading ? (
+                      <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                    ) : (
+                      <ShieldCheck className="w-4 h-4 mr-2" />
+                    )}
+                    Потвърди
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setTotpEnrollment(null)}
+                    className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                  >
+                    Отказ
+                  </button>
+                </div>
+              </form>
+            ) : (
+              <button
+                onClick={handleStartTotp}
+                disabled={loading}
+                className="inline-flex items-center px-4 py-2 rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed bg-green-600 text-white hover:bg-green-700"
+              >
+                {loading ? (
+                  <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                ) : (
+                  <Smartphone className="w-4 h-4 mr-2" />
+                )}
+                Добави приложение
+              </button>
+            )}
           </div>
         </div>
 
+        {/* Recovery codes */}
+        {(methods.length > 0 || recoveryCodes) && (
+          <div className="flex items-start space-x-4 pt-6 border-t border-gray-200">
+            <div className="p-3 rounded-lg bg-amber-100">
+              <LifeBuoy className="w-6 h-6 text-amber-600" />
+            </div>
+            <div className="flex-1">
+              <h4 className="font-medium text-gray-900 mb-1">
+                Кодове за възстановяване
+              </h4>
+
+              {recoveryCodes ? (
+                <div className="space-y-4">
+                  <p className="text-sm text-gray-600">
+                    Запазете тези кодове на сигурно място. Всеки от тях може да бъде използван еднократно,
+                    ако загубите достъп до втория фактор. Те няма да бъдат показани отново.
+                  </p>
+                  <div className="grid grid-cols-2 gap-2 bg-gray-50 border border-gray-200 rounded-lg p-4">
+                    {recoveryCodes.map(code => (
+                      <code key={code} className="text-sm font-mono tracking-wider text-gray-900">
+                        {code}
+                      </code>
+                    ))}
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      type="button"
+                      onClick={handleDownloadRecoveryCodes}
+                      className="inline-flex items-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                    >
+                      <Download className="w-4 h-4 mr-2" />
+                      Изтегли
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => window.location.reload()}
+                      className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                    >
+                      Готово
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <>
+                  <p className="text-sm text-gray-600 mb-4">
+                    {remainingRecoveryCodes === null
+                      ? 'Еднократни кодове за влизане, ако загубите достъп до втория фактор.'
+                      : `Оставащи неизползвани кодове: ${remainingRecoveryCodes}`
+                    }
+                  </p>
+                  <button
+                    onClick={handleRegenerateRecoveryCodes}
+                    disabled={loading}
+                    className="inline-flex items-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <RefreshCw className="w-4 h-4 mr-2" />
+                    Генерирай нови кодове
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+
+        {lockedByPolicy && (
+          <div className="bg-amber-50 border border-amber-200 text-amber-800 px-4 py-3 rounded-lg text-sm">
+            Двуфакторната автентикация е задължителна за вашата роля. Добавете друг метод, преди да премахнете текущия.
+          </div>
+        )}
+
         {error && (
           <div className="bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-lg text-sm">
             {error}
@@ -115,34 +429,14 @@ const TwoFactorSettings: React.FC = () => {
           </div>
         )}
 
-        <button
-          onClick={handleToggleTwoFactor}
-          disabled={loading}
-          className={`inline-flex items-center px-4 py-2 rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
-            profile.two_factor_enabled
-              ? 'bg-red-600 text-white hover:bg-red-700'
-              : 'bg-green-600 text-white hover:bg-green-700'
-          }`}
-        >
-          {loading ? (
-            <Loader2 className="w-4 h-4 animate-spin mr-2" />
-          ) : (
-            <Shield className="w-4 h-4 mr-2" />
-          )}
-          {loading 
-            ? 'Запазване...' 
-            : profile.two_factor_enabled 
-              ? 'Деактивирай 2FA' 
-              : 'Активирай 2FA'
-          }
-        </button>
-
-        {!profile.two_factor_enabled && (
+        {methods.length === 0 && (
           <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
             <h5 className="font-medium text-blue-900 mb-2">Как работи двуфакторната автентикация?(Демо цели)</h5>
             <ul className="text-sm text-blue-800 space-y-1">
               <li>• При всяко влизане ще въвеждате email и парола както обикновено</li>
-              <li>• След това ще получите 6-цифрен код на email-а си, в случая в конзолата на браузъра Ви</li>
+              <li>• След това ще получите 6-цифрен код на email-а си, в случая в логовете на edge функцията sign-in</li>
+              <li>• Кодът е валиден 10 минути и може да бъде използван само веднъж</li>
+              <li>• Вместо email код можете да използвате приложение за автентикация</li>
               <li>• Въведете кода за да завършите влизането</li>
               <li>• Вреална среда това осигурява допълнителна защита на акаунта ви</li>
             </ul>
@@ -153,4 +447,4 @@ const TwoFactorSettings: React.FC = () => {
   )
 }
 
-export default TwoFactorSettings
\ No newline at end of file
+export default TwoFactorSettings
@@ -0,0 +1,217 @@
+import React, { useEffect, useState } from 'react'
+import { Loader2, MailPlus, Send, XCircle } from 'lucide-react'
+import { supabase } from '../lib/supabase'
+import { useRoles } from '../hooks/useRoles'
+import { usePermission } from '../hooks/usePermission'
+import { useToaster } from '../hooks/useToaster'
+
+interface UserInvitation {
+  id: string
+  email: string
+  full_name: string
+  role: string
+  expires_at: string
+  created_at: string
+  inviter?: { full_name: string } | null
+}
+
+const inviteUser = async (action: 'invite' | 'revoke', body: Record<string, unknown>) => {
+  if (!supabase) throw new Error('Supabase is not configured')
+
+  const { data, error } = await supabase.functions.invoke('invite-user', {
+    body: { action, ...body }
+  })
+
+  if (error || data?.error) throw error || new Error(data.error)
+  return data
+}
+
+// Invitations (users.manage): pending links are read under RLS, sending and revoking go
+// through the invite-user edge function
+const UserInvitations: React.FC = () => {
+  const isAuthorized = usePermission('users.manage')
+  const { roles, getRole } = useRoles()
+  const { showSuccessToast, showErrorToast } = useToaster()
+  const [invitations, setInvitations] = useState<UserInvitation[]>([])
+  const [loading, setLoading] = useState(true)
+  const [email, setEmail] = useState('')
+  const [fullName, setFullName] = useState('')
+  const [role, setRole] = useState('frontend')
+  const [sending, setSending] = useState(false)
+  const [revokingId, setRevokingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (isAuthorized) {
+      fetchInvitations()
+    }
+  }, [isAuthorized])
+
+  const fetchInvitations = async () => {
+    if (!supabase) return
+
+    const { data, error } = await supabase
+      .from('user_invitations')
+      .select(`
+        id, email, full_name, role, expires_at, created_at,
+        inviter:profiles!user_invitations_invited_by_fkey(full_name)
+      `)
+      .is('accepted_at', null)
+      .is('revoked_at', null)
+      .gt('expires_at', new Date().toISOString())
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      console.error('Error fetching invitations:', error)
+    } else {
+      setInvitations((data || []) as unknown as UserInvitation[])
+    }
+
+    setLoading(false)
+  }
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSending(true)
+
+    try {
+      await inviteUser('invite', { email, fullName, role })
+      showSuccessToast(`Поканата до ${email} е изпратена`)
+      setEmail('')
+      setFullName('')
+      setRole('frontend')
+      await fetchInvitations()
+    } catch (error) {
+      console.error('Error sending invitation:', error)
+      showErrorToast((error as Error).message || 'Грешка при изпращане на поканата')
+    } finally {
+      setSending(false)
+    }
+  }
+
+  const handleRevoke = async (invitation: UserInvitation) => {
+    if (!confirm(`Оттегляне на поканата до ${invitation.email}?`)) return
+
+    setRevokingId(invitation.id)
+
+    try {
+      await inviteUser('revoke', { invitationId: invitation.id })
+      showSuccessToast('Поканата е оттеглена')
+      await fetchInvitations()
+    } catch (error) {
+      console.error('Error revoking invitation:', error)
+      showErrorToast((error as Error).message || 'Грешка при оттегляне на поканата')
+    } finally {
+      setRevokingId(null)
+    }
+  }
+
+  if (!isAuthorized) {
+    return null
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center mb-2">
+        <MailPlus className="w-6 h-6 text-blue-600 mr-3" />
+        <h3 className="text-xl font-bold text-gray-900">Покани</h3>
+      </div>
+      <p className="text-sm text-gray-600 mb-6">
+        Поканеният получава еднократна връзка, валидна 7 дни, от която задава парола. Акаунтът се създава с избраната роля. Потребител, който вече има акаунт, влиза с него и приема поканата от същата връзка.
+      </p>
+
+      <form onSubmit={handleInvite} className="grid grid-cols-1 md:grid-cols-4 gap-3 mb-4">
+        <input
+          type="email"
+          required
+          placeholder="Email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        />
+        <input
+          type="text"
+          placeholder="Име (по избор)"
+          value={fullName}
+          onChange={(e) => setFullName(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        />
+        <select
+          value={role}
+          onChange={(e) => setRole(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        >
+          {roles.map(option => (
+            <option key={option.role} value={option.role}>{option.label}</option>
+          ))}
+        </select>
+        <button
+          type="submit"
+          disabled={sending}
+          className="inline-flex items-center justify-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {sending ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <Send className="w-4 h-4 mr-2" />}
+          Изпрати покана
+        </button>
+      </form>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-6">
+          <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+        </div>
+      ) : invitations.length === 0 ? (
+        <p className="text-sm text-gray-500">Няма чакащи покани.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Email
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Роля
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Поканен от
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Валидна до
+                </th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {invitations.map(invitation => (
+                <tr key={invitation.id}>
+                  <td className="px-4 py-3">
+                    <p className="text-sm font-medium text-gray-900">{invitation.email}</p>
+                    {invitation.full_name && <p className="text-sm text-gray-500">{invitation.full_name}</p>}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-900">{getRole(invitation.role).label}</td>
+                  <td className="px-4 py-3 text-sm text-gray-500">{invitation.inviter?.full_name || '—'}</td>
+                  <td className="px-4 py-3 text-sm text-gray-500">
+                    {new Date(invitation.expires_at).toLocaleString('bg-BG')}
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    <button
+                      onClick={() => handleRevoke(invitation)}
+                      disabled={revokingId !== null}
+                      title="Оттегли поканата"
+                      className="p-2 text-gray-400 hover:text-red-600 transition-colors disabled:opacity-50"
+                    >
+                      {revokingId === invitation.id
+                        ? <Loader2 className="w-4 h-4 animate-spin" />
+                        : <XCircle className="w-4 h-4" />}
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default UserInvitations
@@ -0,0 +1,259 @@
+import React, { useEffect, useState } from 'react'
+import { Users, Search, Loader2, LogOut, ShieldOff, UserX, UserCheck, ShieldCheck } from 'lucide-react'
+import { supabase, Profile } from '../lib/supabase'
+import { useAuth } from '../contexts/AuthContext'
+import { useRoles } from '../hooks/useRoles'
+import { usePermission } from '../hooks/usePermission'
+import { useToaster } from '../hooks/useToaster'
+
+type AdminUserAction = 'change_role' | 'deactivate' | 'reactivate' | 'force_logout' | 'reset_2fa'
+
+interface ManagedUser extends Pick<Profile, 'id' | 'email' | 'full_name' | 'role' | 'two_factor_enabled' | 'two_factor_methods' | 'created_at'> {
+  deactivated_at: string | null
+  last_login_at: string | null
+}
+
+const confirmations: Partial<Record<AdminUserAction, (user: ManagedUser) => string>> = {
+  deactivate: user => `Деактивиране на ${user.full_name}? Всички активни сесии ще бъдат прекратени.`,
+  force_logout: user => `Прекратяване на всички сесии на ${user.full_name}?`,
+  reset_2fa: user => `Нулиране на двуфакторната автентикация на ${user.full_name}? Потребителят ще трябва да я настрои отново.`
+}
+
+const successMessages: Record<AdminUserAction, string> = {
+  change_role: 'Ролята е променена',
+  deactivate: 'Потребителят е деактивиран',
+  reactivate: 'Потребителят е активиран отново',
+  force_logout: 'Сесиите на потребителя са прекратени',
+  reset_2fa: '2FA на потребителя е нулирана'
+}
+
+const adminUsers = async (action: 'list' | AdminUserAction, body: Record<string, unknown> = {}) => {
+  if (!supabase) throw new Error('Supabase is not configured')
+
+  const { data, error } = await supabase.functions.invoke('admin-users', {
+    body: { action, ...body }
+  })
+
+  if (error || data?.error) throw error || new Error(data.error)
+  return data
+}
+
+// User administration (users.manage); every change goes through the admin-users edge function
+const UserManagement: React.FC = () => {
+  const { user } = useAuth()
+  const { roles } = useRoles()
+  const isAuthorized = usePermission('users.manage')
+  const { showSuccessToast, showErrorToast } = useToaster()
+  const [users, setUsers] = useState<ManagedUser[]>([])
+  const [loading, setLoading] = useState(true)
+  const [searchTerm, setSearchTerm] = useState('')
+  const [pendingUserId, setPendingUserId] = useState<string | null>(null)
+  const [loadError, setLoadError] = useState(false)
+
+  useEffect(() => {
+    if (isAuthorized) {
+      fetchUsers()
+    }
+  }, [isAuthorized])
+
+  const fetchUsers = async () => {
+    try {
+      const data = await adminUsers('list')
+      setUsers(data.users || [])
+      setLoadError(false)
+    } catch (error) {
+      console.error('Error fetching users:', error)
+      setLoadError(true)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const runAction = async (target: ManagedUser, action: AdminUserAction, body: Record<string, unknown> = {}) => {
+    const confirmation = confirmations[action]
+    if (confirmation && !confirm(confirmation(target))) return
+
+    setPendingUserId(target.id)
+
+    try {
+      await adminUsers(action, { userId: target.id, ...body })
+      showSuccessToast(successMessages[action])
+      await fetchUsers()
+    } catch (error) {
+      console.error(`Error running ${action}:`, error)
+      showErrorToast((error as Error).message || 'Грешка при промяна на потребителя')
+    } finally {
+      setPendingUserId(null)
+    }
+  }
+
+  if (!isAuthorized) {
+    return null
+  }
+
+  const filteredUsers = users.filter(managed =>
+    managed.full_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    managed.email.toLowerCase().includes(searchTerm.toLowerCase())
+  )
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div className="flex items-center">
+          <Users className="w-6 h-6 text-blue-600 mr-3" />
+          <h2 className="text-2xl font-bold text-gray-900">Потребители</h2>
+        </div>
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+          <input
+            type="text"
+            placeholder="Търси по име или email..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="w-full sm:w-72 pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+          <span className="ml-3 text-gray-600">Зареждане на потребителите...</span>
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Потребител
+                </th>
+                <th className="px-6 py-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Роля
+                </th>
+                <th className="px-6 py-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  2FA
+                </th>
+                <th className="px-6 py-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Последен вход
+                </th>
+                <th className="px-6 py-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Статус
+                </th>
+                <th className="px-6 py-4 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Действия
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {filteredUsers.map(managed => {
+                const isSelf = managed.id === user?.id
+                const busy = pendingUserId === managed.id
+
+                return (
+                  <tr key={managed.id} className={managed.deactivated_at ? 'bg-gray-50' : 'hover:bg-gray-50'}>
+                    <td className="px-6 py-4">
+                      <p className="text-sm font-medium text-gray-900">{managed.full_name}</p>
+                      <p className="text-sm text-gray-500">{managed.email}</p>
+                    </td>
+                    <td className="px-6 py-4">
+                      <select
+                        value={managed.role}
+                        disabled={isSelf || busy}
+                        onChange={(e) => runAction(managed, 'change_role', { role: e.target.value })}
+                        className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100"
+                      >
+                        {roles.map(({ role, label }) => (
+                          <option key={role} value={role}>{label}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-6 py-4">
+                      {managed.two_factor_enabled ? (
+                        <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                          <ShieldCheck className="w-3 h-3 mr-1" />
+                          {managed.two_factor_methods.map(method => method === 'totp' ? 'Приложение' : 'Email').join(', ')}
+                        </span>
+                      ) : (
+                        <span className="text-xs text-gray-400">Изключена</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-500">
+                      {managed.last_login_at
+                        ? new Date(managed.last_login_at).toLocaleString('bg-BG')
+                        : 'Никога'}
+                    </td>
+                    <td className="px-6 py-4">
+                      {managed.deactivated_at ? (
+                        <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                          Деактивиран
+                        </span>
+                      ) : (
+                        <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                          Активен
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="flex items-center justify-end space-x-1">
+                        {busy && <Loader2 className="w-4 h-4 animate-spin text-gray-400 mr-2" />}
+                        {!isSelf && (
+                          <>
+                            <button
+                              onClick={() => runAction(managed, 'force_logout')}
+                              disabled={busy}
+                              title="Прекрати сесиите"
+                              className="p-2 text-gray-400 hover:text-blue-600 transition-colors disabled:opacity-50"
+                            >
+                              <LogOut className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => runAction(managed, 'reset_2fa')}
+                              disabled={busy || !managed.two_factor_enabled}
+                              title="Нулирай 2FA"
+                              className="p-2 text-gray-400 hover:text-yellow-600 transition-colors disabled:opacity-50"
+                            >
+                              <ShieldOff className="w-4 h-4" />
+                            </button>
+                            {managed.deactivated_at ? (
+                              <button
+                                onClick={() => runAction(managed, 'reactivate')}
+                                disabled={busy}
+                                title="Активирай"
+                                className="p-2 text-gray-400 hover:text-green-600 transition-colors disabled:opacity-50"
+                              >
+                                <UserCheck className="w-4 h-4" />
+                              </button>
+                            ) : (
+                              <button
+                                onClick={() => runAction(managed, 'deactivate')}
+                                disabled={busy}
+                                title="Деактивирай"
+                                className="p-2 text-gray-400 hover:text-red-600 transition-colors disabled:opacity-50"
+                              >
+                                <UserX className="w-4 h-4" />
+                              </button>
+                            )}
+                          </>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+
+          {filteredUsers.length === 0 && (
+            <div className="text-center py-12 text-gray-500">
+              <Users className="w-8 h-8 mx-auto mb-2 text-gray-300" />
+              <p>{loadError ? 'Грешка при зареждане на потребителите' : 'Няма намерени потребители'}</p>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default UserManagement
@@ -1,15 +1,61 @@
 import React, { createContext, useContext, useEffect, useState } from 'react'
-import { Session, User } from '@supabase/supabase-js'
-import { supabase, Profile } from '../lib/supabase'
+import { PostgrestError, Session, User } from '@supabase/supabase-js'
+import { supabase, Organization, Profile, TwoFactorMethod, TwoFactorVerificationMethod } from '../lib/supabase'
 import { useCacheManager } from '../hooks/useCache'
+import { Permission, isDeploymentWide, isPermission } from '../lib/permissions'
+
+// Password verified, waiting for the second factor. Only the challenge id is kept;
+// no session exists until verify-2fa succeeds.
+interface PendingTwoFactor {
+  email: string
+  challengeId: string
+  methods: TwoFactorMethod[]
+}
+
+// Edge functions answer 429 with { retryAfter } (seconds) when a login is throttled
+const readRetryAfter = async (error: unknown): Promise<number | null> => {
+  const response = (error as { context?: Response } | null)?.context
+  if (!(response instanceof Response) || response.status !== 429) return null
+
+  try {
+    const body = await response.json()
+    return typeof body.retryAfter === 'number' ? body.retryAfter : null
+  } catch {
+    return null
+  }
+}
+
+// sign-in answers 403 with reason 'deactivated' for accounts an owner has disabled
+const isDeactivatedError = async (error: unknown) => {
+  const response = (error as { context?: Response } | null)?.context
+  if (!(response instanceof Response) || response.status !== 403) return false
+
+  try {
+    const body = await response.json()
+    return body.reason === 'deactivated'
+  } catch {
+    return false
+  }
+}
 
 interface AuthContextType {
   session: Session | null
   user: User | null
   profile: Profile | null
+  permissions: Permission[]
+  // Categories the user moderates; empty means every category
+  moderationScope: string[]
+  // Organizations the user belongs to; the current one is profile.organization_id
+  organizations: Pick<Organization, 'id' | 'name'>[]
+  pendingTwoFactor: PendingTwoFactor | null
+  twoFactorRequired: boolean
+  retryAt: number | null
   signIn: (email: string, password: string) => Promise<{ error: any }>
-  verifyTwoFactor: (email: string, code: string) => Promise<{ error: any }>
-  resendTwoFactorCode: (email: string) => Promise<{ error: any }>
+  verifyTwoFactor: (code: string, method: TwoFactorVerificationMethod) => Promise<{ error: any }>
+  resendTwoFactorCode: () => Promise<{ error: any }>
+  cancelTwoFactor: () => void
+  refreshProfile: () => Promise<void>
+  switchOrganization: (organizationId: string) => Promise<{ error: PostgrestError | Error | null }>
   signOut: () => Promise<{ error: any }>
   loading: boolean
 }
@@ -28,7 +74,14 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [session, setSession] = useState<Session | null>(null)
   const [user, setUser] = useState<User | null>(null)
   const [profile, setProfile] = useState<Profile | null>(null)
+  const [permissions, setPermissions] = useState<Permission[]>([])
+  const [moderationScope, setModerationScope] = useState<string[]>([])
+  const [organizations, setOrganizations] = useState<Pick<Organization, 'id' | 'name'>[]>([])
   const [loading, setLoading] = useState(true)
+  const [pendingTwoFactor, setPendingTwoFactor] = useState<PendingTwoFactor | null>(null)
+  const [twoFactorRequired, setTwoFactorRequired] = useState(false)
+  // Kept here (not in LoginForm) so the lockout survives the loading screen remount
+  const [retryAt, setRetryAt] = useState<number | null>(null)
   const { clearAll } = useCacheManager()
 
   useEffect(() => {
@@ -59,6 +112,9 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         fetchProfile(session.user.id)
       } else {
         setProfile(null)
+        setPermissions([])
+        setModerationScope([])
+        setOrganizations([])
         setLoading(false)
       }
     })
@@ -84,7 +140,72 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
           console.log('📝 Profile not found, will be created by trigger on next login')
         }
       } else {
-        
+        // A 2FA account with a password-only session (e.g. a direct password login
+        // that bypassed the sign-in function) is not accepted; RLS refuses it anyway
+        if (data?.two_factor_enabled) {
+          const { data: verified, error: verifyError } = await supabase.rpc('two_factor_satisfied')
+          if (verifyError || !verified) {
+            await supabase.auth.signOut()
+            setProfile(null)
+            return
+          }
+        }
+
+        // A deactivated account may still hold an access token issued before the ban
+        if (data?.deactivated_at) {
+          await supabase.auth.signOut()
+          setProfile(null)
+          return
+        }
+
+        // Org-wide policy: users in a mandated role must enroll before using the app
+        if (data) {
+          const { data: policy } = await supabase
+            .from('two_factor_policies')
+            .select('required')
+            .eq('role', data.role)
+            .maybeSingle()
+
+          setTwoFactorRequired(policy?.required ?? false)
+
+          const { data: granted } = await supabase
+            .from('role_permissions')
+            .select('permission')
+            .eq('role', data.role)
+
+          const { data: platformAdmin } = await supabase
+            .from('platform_admins')
+            .select('user_id')
+            .eq('user_id', data.id)
+            .maybeSingle()
+
+          setPermissions(
+            (granted ?? [])
+              .map(row => row.permission)
+              .filter(isPermission)
+              .filter(permission => platformAdmin || !isDeploymentWide(permission))
+          )
+
+          const { data: scope } = await supabase
+            .from('moderation_scopes')
+            .select('category_id')
+            .eq('user_id', data.id)
+
+          setModerationScope((scope ?? []).map(row => row.category_id))
+
+          const { data: memberships } = await supabase
+            .from('organization_members')
+            .select('organization:organizations(id, name)')
+            .eq('user_id', data.id)
+
+          setOrganizations(
+            (memberships ?? [])
+              .map(row => row.organization as unknown as Pick<Organization, 'id' | 'name'>)
+              .filter(Boolean)
+              .sort((a, b) => a.name.localeCompare(b.name))
+          )
+        }
+
         setProfile(data)
       }
     } catch (error) {
@@ -94,6 +215,29 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   }
 
+  const logLogin = async (userId: string, email: string, hasTwoFactor: boolean) => {
+    if (!supabase) return
+
+    try {
+      await supabase
+        .from('activity_logs')
+        .insert([{
+          user_id: userId,
+          action: 'login',
+          resource_type: 'auth',
+          details: {
+            email: email,
+            login_time: new Date().toISOString(),
+            has_2fa: hasTwoFactor,
+            user_agent: navigator.userAgent
+          },
+          user_agent: navigator.userAgent
+        }])
+    } catch (logError) {
+      console.error('Failed to log login activity:', logError)
+    }
+  }
+
   const signIn = async (email: string, password: string) => {
     if (!supabase) {
       return { error: { message: 'Supabase not configured. Please set up your environment variables.' } }
@@ -102,52 +246,42 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     setLoading(true)
     
     try {
-      // Sign in normally
-      const { data: authData, error: authError } = await supabase.auth.signInWithPassword({ 
-        email, 
-        password 
+      // The password is checked server-side; 2FA users only get a pending challenge back
+      const { data, error: signInError } = await supabase.functions.invoke('sign-in', {
+        body: { email, password }
       })
-      
-      if (authError) {
+
+      if (signInError || !data) {
+        const retryAfter = await readRetryAfter(signInError)
         setLoading(false)
-        return { error: authError }
-      }
-      
-      // After successful login, check if user has 2FA enabled and show code
-      if (authData.user) {
-        const { data: profileData, error: profileError } = await supabase
-          .from('profiles')
-          .select('two_factor_enabled')
-          .eq('email', email)
-          .maybeSingle()
-
-        if (profileData?.two_factor_enabled) {
-          // Generate and show 2FA code in console AFTER successful login
-          const code = Math.floor(100000 + Math.random() * 900000).toString()
-          console.log('='.repeat(50))
-          console.log(`🔐 2FA КОД ЗА ${email}: ${code}`)
-          console.log('='.repeat(50))
+
+        if (retryAfter !== null) {
+          setRetryAt(Date.now() + retryAfter * 1000)
+          return { error: { message: 'RATE_LIMITED', retryAfter } }
         }
 
-        // Log successful login activity
-        try {
-          await supabase
-            .from('activity_logs')
-            .insert([{
-              user_id: authData.user.id,
-              action: 'login',
-              resource_type: 'auth',
-              details: {
-                email: email,
-                login_time: new Date().toISOString(),
-                has_2fa: profileData?.two_factor_enabled || false,
-                user_agent: navigator.userAgent
-              },
-              user_agent: navigator.userAgent
-            }])
-        } catch (logError) {
-          console.error('Failed to log login activity:', logError)
+        if (await isDeactivatedError(signInError)) {
+          return { error: { message: 'ACCOUNT_DEACTIVATED' } }
         }
+
+        return { error: signInError || { message: 'Грешка при влизане' } }
+      }
+
+      if (data.twoFactorRequired) {
+        setPendingTwoFactor({ email, challengeId: data.challengeId, methods: data.methods ?? ['email'] })
+        setLoading(false)
+        return { error: { message: 'TWO_FACTOR_REQUIRED' } }
+      }
+
+      const { data: authData, error: sessionError } = await supabase.auth.setSession(data.session)
+
+      if (sessionError) {
+        setLoading(false)
+        return { error: sessionError }
+      }
+
+      if (authData.user) {
+        await logLogin(authData.user.id, email, false)
       }
       
       setLoading(false)
@@ -159,45 +293,124 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   }
 
-  const verifyTwoFactor = async (email: string, code: string) => {
+  const verifyTwoFactor = async (code: string, method: TwoFactorVerificationMethod) => {
     if (!supabase) {
       return { error: { message: 'Supabase not configured. Please set up your environment variables.' } }
     }
 
+    if (!pendingTwoFactor) {
+      return { error: { message: 'Няма започнато влизане' } }
+    }
+
     setLoading(true)
     
-    // Call edge function to verify 2FA code
+    // Call edge function to verify 2FA code; on success it returns the upgraded session
     const { data, error } = await supabase.functions.invoke('verify-2fa', {
-      body: { email, code }
+      body: { challengeId: pendingTwoFactor.challengeId, code, method }
     })
 
     if (error || !data.success) {
+      const retryAfter = await readRetryAfter(error)
       setLoading(false)
+
+      if (retryAfter !== null) {
+        setRetryAt(Date.now() + retryAfter * 1000)
+        return { error: { message: 'RATE_LIMITED', retryAfter } }
+      }
+
       return { error: error || { message: 'Невалиден код' } }
     }
 
-    // Sign in with the temporary token
-    const { error: signInError } = await supabase.auth.signInWithPassword({
-      email,
-      password: data.tempPassword
-    })
+    const { data: authData, error: sessionError } = await supabase.auth.setSession(data.session)
+
+    if (!sessionError && authData.user) {
+      setPendingTwoFactor(null)
+      await logLogin(authData.user.id, pendingTwoFactor.email, true)
+    }
 
     setLoading(false)
-    return { error: signInError }
+    return { error: sessionError }
   }
 
-  const resendTwoFactorCode = async (email: string) => {
+  const resendTwoFactorCode = async () => {
     if (!supabase) {
       return { error: { message: 'Supabase not configured. Please set up your environment variables.' } }
     }
 
-    const { error } = await supabase.functions.invoke('send-2fa-code', {
-      body: { email }
+    if (!pendingTwoFactor) {
+      return { error: { message: 'Няма започнато влизане' } }
+    }
+
+    const { data, error } = await supabase.functions.invoke('send-2fa-code', {
+      body: { challengeId: pendingTwoFactor.challengeId }
     })
 
+    if (!error && data?.challengeId) {
+      setPendingTwoFactor({ ...pendingTwoFactor, challengeId: data.challengeId })
+    }
+
+    const retryAfter = await readRetryAfter(error)
+    if (retryAfter !== null) {
+      setRetryAt(Date.now() + retryAfter * 1000)
+      return { error: { message: 'RATE_LIMITED', retryAfter } }
+    }
+
     return { error }
   }
 
+  const cancelTwoFactor = () => {
+    setPendingTwoFactor(null)
+  }
+
+  // Re-reads the profile after the user edited it
+  const refreshProfile = async () => {
+    if (user) {
+      await fetchProfile(user.id)
+    }
+  }
+
+  // The role, permissions and every RLS-filtered query follow profiles.organization_id;
+  // a trigger refuses organizations the user is not a member of
+  const switchOrganization = async (organizationId: string): Promise<{ error: PostgrestError | Error | null }> => {
+    if (!supabase || !user || !profile) {
+      return { error: new Error('Няма активна сесия') }
+    }
+
+    const previous = organizations.find(organization => organization.id === profile.organization_id)
+    const next = organizations.find(organization => organization.id === organizationId)
+
+    const { error } = await supabase
+      .from('profiles')
+      .update({ organization_id: organizationId })
+      .eq('id', user.id)
+
+    if (error) {
+      return { error }
+    }
+
+    try {
+      await supabase
+        .from('activity_logs')
+        .insert([{
+          user_id: user.id,
+          action: 'switch_organization',
+          resource_type: 'organization',
+          resource_id: organizationId,
+          details: {
+            from: previous?.name ?? null,
+            to: next?.name ?? null
+          }
+        }])
+    } catch (logError) {
+      console.error('Failed to log organization switch:', logError)
+    }
+
+    // Cached counts and lists belong to the previous organization
+    clearAll()
+    await fetchProfile(user.id)
+    return { error: null }
+  }
+
   const signOut = async () => {
     if (!supabase) {
       return { error: null }
@@ -211,6 +424,9 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       setSession(null)
       setUser(null)
       setProfile(null)
+      setPermissions([])
+      setModerationScope([])
+      setOrganizations([])
       
       // Try to sign out from Supabase
       const { error } = await supabase.auth.signOut()
@@ -243,9 +459,18 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     session,
     user,
     profile,
+    permissions,
+    moderationScope,
+    organizations,
+    pendingTwoFactor,
+    twoFactorRequired,
+    retryAt,
     signIn,
     verifyTwoFactor,
     resendTwoFactorCode,
+    cancelTwoFactor,
+    refreshProfile,
+    switchOrganization,
     signOut,
     loading
   }
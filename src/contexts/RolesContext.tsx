@@ -0,0 +1,53 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import { supabase, Role } from '../lib/supabase'
+import { DEFAULT_ROLE_COLOR, DEFAULT_ROLE_ICON, RoleAppearance } from '../lib/roles'
+import { RolesContext } from '../hooks/useRoles'
+import { useAuth } from './AuthContext'
+
+// Roles are readable by any signed-in user, so they are loaded once per session
+export const RolesProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth()
+  const [roles, setRoles] = useState<Role[]>([])
+  const [loading, setLoading] = useState(true)
+  const userId = user?.id
+
+  const refreshRoles = useCallback(async () => {
+    if (!supabase) return
+
+    const { data, error } = await supabase
+      .from('roles')
+      .select('*')
+      .order('label')
+
+    if (error) {
+      console.error('Error fetching roles:', error)
+    } else {
+      setRoles(data || [])
+    }
+
+    setLoading(false)
+  }, [])
+
+  useEffect(() => {
+    if (userId) {
+      refreshRoles()
+    } else {
+      setRoles([])
+    }
+  }, [userId, refreshRoles])
+
+  // Values from deleted or not yet loaded roles are still shown, just without styling
+  const getRole = useCallback((role: string): RoleAppearance =>
+    roles.find(item => item.role === role) ?? {
+      role,
+      label: role,
+      color: DEFAULT_ROLE_COLOR,
+      icon: DEFAULT_ROLE_ICON
+    }, [roles])
+
+  return (
+    <RolesContext.Provider value={{ roles, loading, getRole, refreshRoles }}>
+      {children}
+    </RolesContext.Provider>
+  )
+}
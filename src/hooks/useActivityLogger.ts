@@ -1,26 +1,11 @@
 import { useCallback } from 'react'
 import { supabase } from '../lib/supabase'
 import { useAuth } from '../contexts/AuthContext'
-
-type ActivityAction = 
-  | 'login' 
-  | 'logout' 
-  | 'create_tool' 
-  | 'update_tool' 
-  | 'delete_tool'
-  | 'approve_tool' 
-  | 'reject_tool' 
-  | 'enable_2fa' 
-  | 'disable_2fa'
-  | 'create_category' 
-  | 'update_category' 
-  | 'delete_category'
-
-type ResourceType = 'auth' | 'ai_tool' | 'category' | 'profile' | 'system'
+import { ActivityAction, ActivityResourceType } from '../lib/activityRegistry'
 
 interface LogActivityParams {
   action: ActivityAction
-  resourceType: ResourceType
+  resourceType: ActivityResourceType
   resourceId?: string
   details?: Record<string, any>
 }
@@ -37,12 +22,10 @@ export const useActivityLogger = () => {
     if (!user || !supabase) return
 
     try {
-      // Get user's IP and user agent (simplified for demo)
       const userAgent = navigator.userAgent
       
-      // Ensure details is a proper object
+      // user_id, ip_address and details.timestamp are stamped by the database trigger
       const activityDetails = {
-        timestamp: new Date().toISOString(),
         user_id: user.id,
         ...details
       }
@@ -0,0 +1,19 @@
+import { useAuth } from '../contexts/AuthContext'
+import { Permission } from '../lib/permissions'
+
+// Whether the current user's role grants the permission. Only hides UI: the same
+// permission is enforced by has_permission() in RLS and by the edge functions.
+export const usePermission = (permission: Permission) => {
+  const { permissions } = useAuth()
+  return permissions.includes(permission)
+}
+
+// For permissions a moderator can hold (tools.approve, comments.delete_any): whether
+// it applies to a tool in the given category, like has_moderation_permission() in RLS
+export const useModerationPermission = (permission: Permission) => {
+  const { permissions, moderationScope } = useAuth()
+  const granted = permissions.includes(permission)
+
+  return (categoryId?: string | null) =>
+    granted && (moderationScope.length === 0 || (!!categoryId && moderationScope.includes(categoryId)))
+}
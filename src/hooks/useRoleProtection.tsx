@@ -1,8 +1,10 @@
 import { useAuth } from '../contexts/AuthContext'
+import { Profile } from '../lib/supabase'
 import { useEffect } from 'react'
 import React from 'react'
 
-type Role = 'owner' | 'backend' | 'frontend' | 'pm' | 'qa' | 'designer'
+// Keys from the roles table
+type Role = Profile['role']
 
 interface UseRoleProtectionOptions {
   allowedRoles: Role[]
@@ -0,0 +1,21 @@
+import { createContext, useContext } from 'react'
+import { Role } from '../lib/supabase'
+import { RoleAppearance } from '../lib/roles'
+
+export interface RolesContextType {
+  roles: Role[]
+  loading: boolean
+  getRole: (role: string) => RoleAppearance
+  refreshRoles: () => Promise<void>
+}
+
+// Provided by RolesProvider (contexts/RolesContext.tsx)
+export const RolesContext = createContext<RolesContextType>({} as RolesContextType)
+
+export const useRoles = () => {
+  const context = useContext(RolesContext)
+  if (!context) {
+    throw new Error('useRoles must be used within a RolesProvider')
+  }
+  return context
+}
@@ -0,0 +1,120 @@
+import {
+  AlertTriangle, Archive, ArrowLeftRight, Bot, Building2, CheckCircle, Download, Folder, FolderPlus, KeyRound, LifeBuoy, Lock,
+  LogIn, LogOut, Mail, MailPlus, MailX, MessageSquare, MessageSquarePlus, Pencil, PlusCircle, Settings, ShieldCheck, ShieldOff,
+  SlidersHorizontal, Star, Trash2, User, UserCheck, UserCog, UserPlus, Users, UserX, XCircle, type LucideIcon
+} from 'lucide-react'
+
+// Single source for auditable actions and resource types. The database validates
+// activity_logs against the activity_action_types / activity_resource_types lookup
+// tables, so a new entry here needs a matching row inserted by a migration.
+
+export type ActivitySeverity = 'info' | 'notice' | 'warning' | 'critical'
+
+export type ActivityTone = 'green' | 'gray' | 'yellow' | 'blue' | 'red'
+
+export interface ActivityActionDefinition {
+  label: string
+  severity: ActivitySeverity
+  tone: ActivityTone
+  icon: LucideIcon
+}
+
+export interface ActivityResourceDefinition {
+  label: string
+  icon: LucideIcon
+}
+
+export const activityActionRegistry = {
+  login: { label: 'Влизане в системата', severity: 'info', tone: 'green', icon: LogIn },
+  logout: { label: 'Излизане от системата', severity: 'info', tone: 'gray', icon: LogOut },
+  create_tool: { label: 'Създаване на инструмент', severity: 'info', tone: 'green', icon: PlusCircle },
+  update_tool: { label: 'Редактиране на инструмент', severity: 'info', tone: 'blue', icon: Pencil },
+  delete_tool: { label: 'Изтриване на инструмент', severity: 'notice', tone: 'red', icon: Trash2 },
+  approve_tool: { label: 'Одобряване на инструмент', severity: 'info', tone: 'green', icon: CheckCircle },
+  reject_tool: { label: 'Отхвърляне на инструмент', severity: 'notice', tone: 'red', icon: XCircle },
+  enable_2fa: { label: 'Активиране на 2FA', severity: 'info', tone: 'green', icon: ShieldCheck },
+  disable_2fa: { label: 'Деактивиране на 2FA', severity: 'notice', tone: 'gray', icon: ShieldOff },
+  create_category: { label: 'Създаване на категория', severity: 'info', tone: 'green', icon: FolderPlus },
+  update_category: { label: 'Редактиране на категория', severity: 'info', tone: 'blue', icon: Pencil },
+  delete_category: { label: 'Изтриване на категория', severity: 'notice', tone: 'red', icon: Trash2 },
+  generate_recovery_codes: { label: 'Генериране на кодове за възстановяване', severity: 'info', tone: 'yellow', icon: KeyRound },
+  use_recovery_code: { label: 'Вход с код за възстановяване', severity: 'warning', tone: 'yellow', icon: LifeBuoy },
+  update_2fa_policy: { label: 'Промяна на 2FA политика', severity: 'notice', tone: 'blue', icon: SlidersHorizontal },
+  login_failed: { label: 'Неуспешен опит за вход', severity: 'warning', tone: 'red', icon: AlertTriangle },
+  account_locked: { label: 'Временно заключен акаунт', severity: 'critical', tone: 'red', icon: Lock },
+  export_activity_logs: { label: 'Експорт на лога на активността', severity: 'info', tone: 'blue', icon: Download },
+  update_retention_policy: { label: 'Промяна на срока за съхранение на логове', severity: 'notice', tone: 'blue', icon: SlidersHorizontal },
+  purge_activity_logs: { label: 'Архивиране на изтекли логове', severity: 'info', tone: 'gray', icon: Archive },
+  rate_tool: { label: 'Оценяване на инструмент', severity: 'info', tone: 'yellow', icon: Star },
+  create_comment: { label: 'Добавяне на коментар', severity: 'info', tone: 'green', icon: MessageSquarePlus },
+  update_comment: { label: 'Редактиране на коментар', severity: 'info', tone: 'blue', icon: MessageSquare },
+  delete_comment: { label: 'Изтриване на коментар', severity: 'notice', tone: 'red', icon: Trash2 },
+  change_role: { label: 'Промяна на роля', severity: 'warning', tone: 'red', icon: UserCog },
+  deactivate_user: { label: 'Деактивиране на потребител', severity: 'warning', tone: 'red', icon: UserX },
+  reactivate_user: { label: 'Активиране на потребител', severity: 'notice', tone: 'green', icon: UserCheck },
+  force_logout: { label: 'Принудително излизане', severity: 'notice', tone: 'gray', icon: LogOut },
+  reset_2fa: { label: 'Нулиране на 2FA', severity: 'warning', tone: 'yellow', icon: ShieldOff },
+  invite_user: { label: 'Покана на потребител', severity: 'notice', tone: 'blue', icon: MailPlus },
+  revoke_invitation: { label: 'Оттегляне на покана', severity: 'notice', tone: 'gray', icon: MailX },
+  accept_invitation: { label: 'Приета покана', severity: 'notice', tone: 'green', icon: UserPlus },
+  update_profile: { label: 'Редактиране на профил', severity: 'info', tone: 'blue', icon: User },
+  change_email: { label: 'Промяна на email', severity: 'notice', tone: 'blue', icon: Mail },
+  change_password: { label: 'Промяна на парола', severity: 'notice', tone: 'yellow', icon: KeyRound },
+  create_role: { label: 'Създаване на роля', severity: 'notice', tone: 'green', icon: PlusCircle },
+  update_role: { label: 'Редактиране на роля', severity: 'notice', tone: 'blue', icon: Pencil },
+  delete_role: { label: 'Изтриване на роля', severity: 'warning', tone: 'red', icon: Trash2 },
+  update_moderation_scope: { label: 'Промяна на категориите на модератор', severity: 'notice', tone: 'blue', icon: SlidersHorizontal },
+  create_team: { label: 'Създаване на екип', severity: 'info', tone: 'green', icon: PlusCircle },
+  update_team: { label: 'Редактиране на екип', severity: 'info', tone: 'blue', icon: Pencil },
+  delete_team: { label: 'Изтриване на екип', severity: 'notice', tone: 'red', icon: Trash2 },
+  add_team_member: { label: 'Добавяне в екип', severity: 'info', tone: 'green', icon: UserPlus },
+  remove_team_member: { label: 'Премахване от екип', severity: 'notice', tone: 'gray', icon: UserX },
+  switch_organization: { label: 'Смяна на организация', severity: 'info', tone: 'blue', icon: ArrowLeftRight },
+  create_organization: { label: 'Създаване на организация', severity: 'notice', tone: 'green', icon: Building2 }
+} satisfies Record<string, ActivityActionDefinition>
+
+export const activityResourceRegistry = {
+  auth: { label: 'Автентикация', icon: KeyRound },
+  ai_tool: { label: 'AI Инструмент', icon: Bot },
+  category: { label: 'Категория', icon: Folder },
+  profile: { label: 'Профил', icon: User },
+  comment: { label: 'Коментар', icon: MessageSquare },
+  role: { label: 'Роля', icon: UserCog },
+  team: { label: 'Екип', icon: Users },
+  organization: { label: 'Организация', icon: Building2 },
+  system: { label: 'Система', icon: Settings }
+} satisfies Record<string, ActivityResourceDefinition>
+
+export type ActivityAction = keyof typeof activityActionRegistry
+
+export type ActivityResourceType = keyof typeof activityResourceRegistry
+
+export const activityToneClasses: Record<ActivityTone, string> = {
+  green: 'bg-green-100 text-green-800',
+  gray: 'bg-gray-100 text-gray-800',
+  yellow: 'bg-yellow-100 text-yellow-800',
+  blue: 'bg-blue-100 text-blue-800',
+  red: 'bg-red-100 text-red-800'
+}
+
+export const activitySeverityLabels: Record<ActivitySeverity, string> = {
+  info: 'Информация',
+  notice: 'Внимание',
+  warning: 'Предупреждение',
+  critical: 'Критично'
+}
+
+// Logs may contain actions that a newer or older client does not know about
+export const getActionDefinition = (action: string): ActivityActionDefinition =>
+  (activityActionRegistry as Record<string, ActivityActionDefinition>)[action] ?? {
+    label: action,
+    severity: 'info',
+    tone: 'gray',
+    icon: Settings
+  }
+
+export const getResourceDefinition = (resourceType: string): ActivityResourceDefinition =>
+  (activityResourceRegistry as Record<string, ActivityResourceDefinition>)[resourceType] ?? {
+    label: resourceType,
+    icon: Settings
+  }
@@ -0,0 +1,29 @@
+// Named permissions, mirrored by the `permissions` table. Roles get them through
+// `role_permissions`; RLS checks the same names with has_permission(), so a new entry
+// here needs a matching row inserted by a migration.
+// Deployment-wide permissions change settings shared by every organization and only
+// apply to platform admins (`platform_admins`), like `permissions.deployment_wide`.
+
+export const permissionRegistry = {
+  'tools.approve': { label: 'Преглед, одобряване и отхвърляне на инструменти' },
+  'tools.edit_any': { label: 'Редактиране на всички инструменти' },
+  'tools.delete_any': { label: 'Изтриване на всички инструменти' },
+  'categories.delete': { label: 'Изтриване на категории' },
+  'comments.delete_any': { label: 'Изтриване на всички коментари' },
+  'logs.read': { label: 'Четене на лога на активността' },
+  'logs.retention': { label: 'Управление на срока за съхранение на логове', deploymentWide: true },
+  'users.manage': { label: 'Управление на потребители и покани' },
+  'security.policy': { label: 'Управление на 2FA политиката', deploymentWide: true },
+  'roles.manage': { label: 'Управление на роли', deploymentWide: true },
+  'teams.manage': { label: 'Управление на екипи' }
+} satisfies Record<string, { label: string; deploymentWide?: boolean }>
+
+export type Permission = keyof typeof permissionRegistry
+
+export const isPermission = (value: string): value is Permission =>
+  Object.prototype.hasOwnProperty.call(permissionRegistry, value)
+
+export const isDeploymentWide = (permission: Permission) => {
+  const definition: { label: string; deploymentWide?: boolean } = permissionRegistry[permission]
+  return definition.deploymentWide === true
+}
@@ -0,0 +1,43 @@
+import {
+  BarChart3, Briefcase, Bug, Code, Cpu, Database, GraduationCap, Headphones, LineChart, Palette,
+  Server, Shield, ShieldCheck, TestTube, Users, Wrench, type LucideIcon
+} from 'lucide-react'
+import { Role } from './supabase'
+
+// Icons a role can be given in the admin UI. roles.icon stores the key; names the
+// client does not know (e.g. from a newer version) fall back to Users.
+export const roleIconRegistry = {
+  Shield,
+  ShieldCheck,
+  Wrench,
+  Palette,
+  BarChart3,
+  TestTube,
+  Code,
+  Server,
+  Database,
+  Cpu,
+  LineChart,
+  Bug,
+  Headphones,
+  Briefcase,
+  GraduationCap,
+  Users
+} satisfies Record<string, LucideIcon>
+
+export type RoleIconName = keyof typeof roleIconRegistry
+
+export const DEFAULT_ROLE_COLOR = '#6b7280'
+
+export const DEFAULT_ROLE_ICON: RoleIconName = 'Users'
+
+export type RoleAppearance = Pick<Role, 'role' | 'label' | 'color' | 'icon'>
+
+export const getRoleIconComponent = (icon: string): LucideIcon =>
+  (roleIconRegistry as Record<string, LucideIcon>)[icon] ?? roleIconRegistry[DEFAULT_ROLE_ICON]
+
+// Same key format as the CHECK on roles.role
+export const ROLE_KEY_PATTERN = /^[a-z][a-z0-9_]{1,29}$/
+
+// Built-in roles the database refuses to delete
+export const PROTECTED_ROLES = ['owner', 'frontend']
@@ -14,6 +14,9 @@ if (!supabaseUrl || !supabaseAnonKey) {
   console.error('Missing Supabase environment variables. Please click "Connect to Supabase" button to set up your project.')
 }
 
+// Edge functions that stream files are called with fetch instead of functions.invoke
+export const functionsUrl = supabaseUrl ? `${supabaseUrl}/functions/v1` : null
+
 // Only create client if we have valid environment variables
 export const supabase = supabaseUrl && supabaseAnonKey 
   ? createClient(supabaseUrl, supabaseAnonKey)
@@ -23,21 +26,45 @@ export interface Profile {
   id: string
   email: string
   full_name: string
-  role: 'owner' | 'backend' | 'frontend' | 'pm' | 'qa' | 'designer'
+  // Role in the current organization (mirrors organization_members)
+  role: string
+  // Organization the user is working in; RLS only shows its data
+  organization_id: string
   two_factor_enabled: boolean
+  two_factor_methods: TwoFactorMethod[]
+  avatar_url?: string | null
+  deactivated_at?: string | null
   created_at: string
   updated_at: string
 }
 
-export const roleDisplayNames = {
-  owner: 'Собственик',
-  backend: 'Backend Developer',
-  frontend: 'Frontend Developer',
-  pm: 'Project Manager',
-  qa: 'QA Engineer',
-  designer: 'UI/UX Designer'
+export interface Organization {
+  id: string
+  name: string
+  created_at: string
+  updated_at: string
+}
+
+export type TwoFactorMethod = 'email' | 'totp'
+
+// Recovery codes can complete a login but are not an enrollable method
+export type TwoFactorVerificationMethod = TwoFactorMethod | 'recovery'
+
+export const twoFactorMethodNames = {
+  email: 'Код по email',
+  totp: 'Приложение за автентикация'
 } as const
 
+// Row of the roles table; `role` is the value stored on profiles, tool_roles etc.
+export interface Role {
+  role: string
+  label: string
+  color: string
+  icon: string
+  created_at: string
+  updated_at: string
+}
+
 export interface Category {
   id: string
   name: string
@@ -59,6 +86,7 @@ export interface AITool {
   pricing_model: 'free' | 'freemium' | 'paid' | 'enterprise'
   tags: string[]
   status: 'pending' | 'approved' | 'rejected'
+  visibility: 'org' | 'teams' | 'private'
   approved_by?: string
   approved_at?: string
   rejection_reason?: string
@@ -72,6 +100,8 @@ export interface AITool {
   creator?: Profile
   approver?: Profile
   roles?: string[]
+  // ids of the teams a 'teams' tool is shared with
+  teams?: string[]
 }
 
 export interface ToolRole {
@@ -100,6 +130,21 @@ export const toolStatuses = {
   rejected: 'Отхвърлен'
 }
 
+export const toolVisibilities = {
+  org: 'Цялата организация',
+  teams: 'Избрани екипи',
+  private: 'Само за мен'
+} as const
+
+export interface Team {
+  id: string
+  name: string
+  description?: string | null
+  created_by?: string | null
+  created_at: string
+  updated_at: string
+}
+
 export interface ActivityLog {
   id: string
   user_id?: string
@@ -110,30 +155,24 @@ export interface ActivityLog {
   ip_address?: string
   user_agent?: string
   created_at: string
+  seq: number
+  prev_hash: string
+  entry_hash: string
   user?: Profile
 }
 
-export const activityActions = {
-  login: 'Влизане в системата',
-  logout: 'Излизане от системата',
-  create_tool: 'Създаване на инструмент',
-  update_tool: 'Редактиране на инструмент',
-  delete_tool: 'Изтриване на инструмент',
-  approve_tool: 'Одобряване на инструмент',
-  reject_tool: 'Отхвърляне на инструмент',
-  enable_2fa: 'Активиране на 2FA',
-  disable_2fa: 'Деактивиране на 2FA',
-  create_category: 'Създаване на категория',
-  update_category: 'Редактиране на категория',
-  delete_category: 'Изтриване на категория'
-} as const
+export interface ActivityLogChainStatus {
+  valid: boolean
+  checked_count: number
+  last_seq: number
+  broken_seq: number | null
+  problem: 'gap' | 'broken_link' | 'modified' | null
+}
 
-export const resourceTypes = {
-  auth: 'Автентикация',
-  ai_tool: 'AI Инструмент',
-  category: 'Категория',
-  profile: 'Профил',
-  system: 'Система'
+export const chainProblems = {
+  gap: 'Липсващ запис',
+  broken_link: 'Прекъсната връзка с предходния запис',
+  modified: 'Променено съдържание'
 } as const
 
 export interface ToolRating {
@@ -0,0 +1,34 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getClientIp } from './auth.ts'
+
+interface ServerActivity {
+  userId?: string | null
+  action: string
+  resourceType: string
+  resourceId?: string | null
+  // Defaults to the current organization of userId
+  organizationId?: string | null
+  details?: Record<string, unknown>
+}
+
+// Writes an activity log entry from an edge function (service role). The database
+// trigger stamps created_at and details.timestamp; the caller's IP is passed through.
+// Failures are logged but never break the calling flow.
+export const logServerActivity = async (admin: SupabaseClient, req: Request, activity: ServerActivity) => {
+  const { error } = await admin
+    .from('activity_logs')
+    .insert([{
+      user_id: activity.userId ?? null,
+      action: activity.action,
+      resource_type: activity.resourceType,
+      resource_id: activity.resourceId ?? null,
+      details: activity.details ?? {},
+      organization_id: activity.organizationId ?? null,
+      ip_address: getClientIp(req),
+      user_agent: req.headers.get('user-agent')
+    }])
+
+  if (error) {
+    console.error('Failed to log activity:', error)
+  }
+}
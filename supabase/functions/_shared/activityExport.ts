@@ -0,0 +1,120 @@
+// Row formats of the activity log export: CSV for spreadsheets, JSON Lines and
+// syslog-framed CEF for SIEM ingestion
+
+export type ExportFormat = 'csv' | 'jsonl' | 'cef'
+
+export interface LogRow {
+  id: string
+  seq: number
+  user_id: string | null
+  action: string
+  resource_type: string
+  resource_id: string | null
+  details: Record<string, unknown> | null
+  ip_address: string | null
+  user_agent: string | null
+  created_at: string
+  entry_hash: string
+  user: { full_name: string, email: string } | null
+}
+
+export const contentTypes: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  jsonl: 'application/x-ndjson; charset=utf-8',
+  cef: 'text/plain; charset=utf-8'
+}
+
+export const CSV_COLUMNS = [
+  'seq', 'created_at', 'user_id', 'user_name', 'user_email', 'action',
+  'resource_type', 'resource_id', 'ip_address', 'user_agent', 'details', 'entry_hash'
+]
+
+// CEF severity (0-10) for each severity level in activity_action_types
+const cefSeverity: Record<string, number> = {
+  info: 3,
+  notice: 5,
+  warning: 6,
+  critical: 8
+}
+
+// Nested objects become dotted keys: { a: { b: 1 } } -> { 'a.b': '1' }
+const flattenDetails = (value: unknown, prefix = '', result: Record<string, string> = {}) => {
+  if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+    for (const [key, nested] of Object.entries(value)) {
+      flattenDetails(nested, prefix ? `${prefix}.${key}` : key, result)
+    }
+  } else if (prefix) {
+    result[prefix] = value === null || value === undefined
+      ? ''
+      : typeof value === 'string' ? value : JSON.stringify(value)
+  }
+  return result
+}
+
+// Cells starting with a formula character are prefixed with ' so spreadsheets show
+// logged user input (names, user agents, details) as text instead of evaluating it
+const csvCell = (value: unknown) => {
+  const raw = value === null || value === undefined ? '' : String(value)
+  const text = /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+const cefHeaderField = (value: string) => value.replace(/\\/g, '\\\\').replace(/\|/g, '\\|')
+const cefExtensionValue = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/=/g, '\\=').replace(/\r?\n/g, '\\n')
+
+export const formatRow = (format: ExportFormat, row: LogRow, severities: Record<string, string>) => {
+  const details = flattenDetails(row.details ?? {})
+
+  if (format === 'jsonl') {
+    return JSON.stringify({
+      seq: row.seq,
+      created_at: row.created_at,
+      user_id: row.user_id,
+      user_name: row.user?.full_name ?? null,
+      user_email: row.user?.email ?? null,
+      action: row.action,
+      resource_type: row.resource_type,
+      resource_id: row.resource_id,
+      ip_address: row.ip_address,
+      user_agent: row.user_agent,
+      ...Object.fromEntries(Object.entries(details).map(([key, value]) => [`details.${key}`, value])),
+      entry_hash: row.entry_hash
+    }) + '\n'
+  }
+
+  const flatDetails = Object.entries(details).map(([key, value]) => `${key}=${value}`).join('; ')
+
+  if (format === 'csv') {
+    return [
+      row.seq, row.created_at, row.user_id, row.user?.full_name, row.user?.email, row.action,
+      row.resource_type, row.resource_id, row.ip_address, row.user_agent, flatDetails, row.entry_hash
+    ].map(csvCell).join(',') + '\r\n'
+  }
+
+  // Syslog (RFC 5424 header, facility local0) carrying a CEF payload
+  const severity = cefSeverity[severities[row.action]] ?? 3
+  const syslogSeverity = severity >= 8 ? 2 : severity >= 6 ? 4 : severity >= 4 ? 5 : 6
+  const extension = [
+    ['rt', String(new Date(row.created_at).getTime())],
+    ['suid', row.user_id ?? ''],
+    ['suser', row.user?.email ?? ''],
+    ['src', row.ip_address ?? ''],
+    ['requestClientApplication', row.user_agent ?? ''],
+    ['cs1Label', 'resourceType'],
+    ['cs1', row.resource_type],
+    ['cs2Label', 'resourceId'],
+    ['cs2', row.resource_id ?? ''],
+    ['cs3Label', 'details'],
+    ['cs3', flatDetails],
+    ['cn1Label', 'seq'],
+    ['cn1', String(row.seq)]
+  ]
+    .filter(([, value]) => value !== '')
+    .map(([key, value]) => `${key}=${cefExtensionValue(value)}`)
+    .join(' ')
+
+  return `<${16 * 8 + syslogSeverity}>1 ${row.created_at} ai-tools-platform activity-logs - - - ` +
+    `CEF:0|AI Tools Platform|Activity Log|1.0|${cefHeaderField(row.action)}|` +
+    `${cefHeaderField(row.action.replace(/_/g, ' '))}|${severity}|${extension}\n`
+}
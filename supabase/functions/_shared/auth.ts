@@ -0,0 +1,36 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// Applies to passwords chosen through the edge functions (invitations, password change)
+export const MIN_PASSWORD_LENGTH = 8
+
+export const getBearerToken = (req: Request) =>
+  (req.headers.get('Authorization') ?? '').replace(/^Bearer\s+/i, '')
+
+// The Supabase gateway appends the address it received the request from to
+// x-forwarded-for. Everything before that entry comes from the client and can be forged.
+export const getClientIp = (req: Request) =>
+  req.headers.get('x-forwarded-for')?.split(',').pop()?.trim() ||
+  req.headers.get('x-real-ip') ||
+  'unknown'
+
+// Reads the session id claim. Only call this with a token that was already
+// validated (e.g. by getUserFromRequest), the signature is not checked here.
+export const getSessionId = (jwt: string): string | null => {
+  try {
+    const payload = jwt.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')
+    return JSON.parse(atob(payload)).session_id ?? null
+  } catch {
+    return null
+  }
+}
+
+// Resolves the caller from the bearer token that supabase.functions.invoke attaches
+export const getUserFromRequest = async (req: Request, admin: SupabaseClient) => {
+  const jwt = getBearerToken(req)
+  if (!jwt) return null
+
+  const { data, error } = await admin.auth.getUser(jwt)
+  if (error || !data.user) return null
+
+  return data.user
+}
@@ -0,0 +1,67 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+export const INVITATION_TTL_DAYS = 7
+
+export type InvitationState = 'pending' | 'accepted' | 'revoked' | 'expired'
+
+interface InvitationRow {
+  id: string
+  email: string
+  full_name: string
+  role: string
+  organization_id: string
+  expires_at: string
+  accepted_at: string | null
+  revoked_at: string | null
+}
+
+// 256 random bits, base64url so the token can go into a link unescaped
+export const generateInvitationToken = () => {
+  const bytes = new Uint8Array(32)
+  crypto.getRandomValues(bytes)
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '')
+}
+
+// The token is already high-entropy, so a plain digest is enough to make a leaked
+// table useless for redeeming invitations
+export const hashInvitationToken = async (token: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token))
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+export const findInvitationByToken = async (admin: SupabaseClient, token: string) => {
+  const { data, error } = await admin
+    .from('user_invitations')
+    .select('id, email, full_name, role, organization_id, expires_at, accepted_at, revoked_at')
+    .eq('token_hash', await hashInvitationToken(token))
+    .maybeSingle()
+
+  if (error) throw error
+  return data as InvitationRow | null
+}
+
+export const invitationState = (invitation: InvitationRow): InvitationState => {
+  if (invitation.accepted_at) return 'accepted'
+  if (invitation.revoked_at) return 'revoked'
+  if (new Date(invitation.expires_at).getTime() <= Date.now()) return 'expired'
+  return 'pending'
+}
+
+export const invitationErrors: Record<Exclude<InvitationState, 'pending'> | 'not_found', { message: string, status: number }> = {
+  not_found: { message: 'Поканата не е намерена', status: 404 },
+  accepted: { message: 'Поканата вече е използвана', status: 410 },
+  revoked: { message: 'Поканата е оттеглена', status: 410 },
+  expired: { message: 'Поканата е изтекла. Помолете за нова покана', status: 410 }
+}
+
+// Link to the accept page of the app; APP_URL wins over the caller's origin so
+// invitations sent from a preview deployment still point at the real app
+export const buildInvitationUrl = (req: Request, token: string) => {
+  const appUrl = Deno.env.get('APP_URL') ?? req.headers.get('origin') ?? ''
+  return `${appUrl.replace(/\/+$/, '')}/accept-invitation?token=${token}`
+}
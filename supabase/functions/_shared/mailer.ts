@@ -0,0 +1,32 @@
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+}
+
+// Local stand-in for an email provider. Every message is written to MAILER_OUTBOX_DIR as
+// an .eml file (one per message) so tests and local setups can read it back. Without it
+// sending fails: messages carry login codes and invitation links, which must not end up
+// in the edge function logs instead.
+export const sendMail = async (message: MailMessage) => {
+  const outboxDir = Deno.env.get('MAILER_OUTBOX_DIR')
+  const sentAt = new Date()
+
+  if (!outboxDir) {
+    console.error(`✉️  No mail delivery configured, "${message.subject}" to ${message.to} was not sent`)
+    throw new Error('Изпращането на писма не е настроено')
+  }
+
+  const recipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_')
+  const path = `${outboxDir}/${sentAt.getTime()}-${crypto.randomUUID()}-${recipient}.eml`
+
+  await Deno.mkdir(outboxDir, { recursive: true })
+  await Deno.writeTextFile(path, [
+    `To: ${message.to}`,
+    `Subject: ${message.subject}`,
+    `Date: ${sentAt.toUTCString()}`,
+    'Content-Type: text/plain; charset=utf-8',
+    '',
+    message.text
+  ].join('\n'))
+}
@@ -0,0 +1,41 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// Edge functions run as the service role and bypass the tenant isolation policies, so
+// queries made on behalf of a user pass the user's current organization explicitly
+export const listOrganizationMembers = async (admin: SupabaseClient, organizationId: string) => {
+  const { data, error } = await admin
+    .from('organization_members')
+    .select('user_id, role')
+    .eq('organization_id', organizationId)
+
+  if (error) throw error
+  return (data ?? []) as { user_id: string; role: string }[]
+}
+
+// The user's membership in the organization; null when they do not belong to it
+export const findMembership = async (admin: SupabaseClient, organizationId: string, userId: string) => {
+  const { data, error } = await admin
+    .from('organization_members')
+    .select('user_id, role')
+    .eq('organization_id', organizationId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data as { user_id: string; role: string } | null
+}
+
+// The organization the user joined first; it owns the account itself
+export const findHomeOrganizationId = async (admin: SupabaseClient, userId: string) => {
+  const { data, error } = await admin
+    .from('organization_members')
+    .select('organization_id')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true })
+    .order('organization_id', { ascending: true })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) throw error
+  return (data?.organization_id ?? null) as string | null
+}
@@ -0,0 +1,13 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// Same check as has_permission() in RLS, minus the second factor: edge functions
+// verify the caller's session with isSessionVerified themselves
+export const userHasPermission = async (admin: SupabaseClient, userId: string, permission: string) => {
+  const { data, error } = await admin.rpc('user_has_permission', {
+    target_user_id: userId,
+    required_permission: permission
+  })
+
+  if (error) throw error
+  return data === true
+}
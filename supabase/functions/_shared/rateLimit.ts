@@ -0,0 +1,94 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getClientIp } from './auth.ts'
+import { jsonResponse } from './cors.ts'
+
+export type RateLimitScope = 'login' | 'send_code' | 'verify_code'
+
+// Failures allowed before backoff starts. Addresses are shared (office NAT),
+// so they get more room than a single account.
+const ACCOUNT_FREE_ATTEMPTS = 3
+const IP_FREE_ATTEMPTS = 10
+
+// Key for the per-address limit. The address is the hop the gateway appended, so clients
+// cannot rotate it or pass someone else's; without one only the account limit applies,
+// rather than every such request sharing a single 'unknown' counter.
+export const clientAddressKey = (req: Request) => {
+  const ip = getClientIp(req)
+  return ip === 'unknown' ? null : `ip:${ip}`
+}
+
+// Returns when the earliest allowed retry is, or null if none of the identifiers is locked
+export const getLockedUntil = async (admin: SupabaseClient, scope: RateLimitScope, identifiers: (string | null)[]) => {
+  const { data, error } = await admin.rpc('auth_rate_limit_status', {
+    p_scope: scope,
+    p_identifiers: identifiers.filter((identifier): identifier is string => identifier !== null)
+  })
+
+  if (error) throw error
+  return data ? new Date(data) : null
+}
+
+const registerFailure = async (
+  admin: SupabaseClient,
+  scope: RateLimitScope,
+  identifier: string,
+  freeAttempts: number
+): Promise<{ failures: number, lockedUntil: Date | null, lockout: boolean }> => {
+  const { data, error } = await admin.rpc('register_auth_failure', {
+    p_scope: scope,
+    p_identifier: identifier,
+    p_free_attempts: freeAttempts
+  })
+
+  if (error) throw error
+
+  const [row] = data
+  return {
+    failures: row.failure_count,
+    lockedUntil: row.retry_at ? new Date(row.retry_at) : null,
+    lockout: row.lockout
+  }
+}
+
+// Counts a failure against the account and, when known, the client address. The two
+// counters are independent: the returned lockedUntil is the later of the two, lockout
+// only reflects the account.
+export const registerAttemptFailure = async (
+  admin: SupabaseClient,
+  scope: RateLimitScope,
+  accountKey: string,
+  ipKey: string | null
+) => {
+  const account = await registerFailure(admin, scope, accountKey, ACCOUNT_FREE_ATTEMPTS)
+  const address = ipKey ? await registerFailure(admin, scope, ipKey, IP_FREE_ATTEMPTS) : null
+
+  const lockedUntil = [account.lockedUntil, address?.lockedUntil ?? null]
+    .filter((date): date is Date => date !== null)
+    .sort((a, b) => b.getTime() - a.getTime())[0] ?? null
+
+  return { failures: account.failures, lockout: account.lockout, lockedUntil }
+}
+
+export const resetRateLimit = async (admin: SupabaseClient, scope: RateLimitScope, identifiers: string[]) => {
+  const { error } = await admin.rpc('reset_auth_rate_limit', {
+    p_scope: scope,
+    p_identifiers: identifiers
+  })
+
+  if (error) throw error
+}
+
+export const rateLimitedResponse = (lockedUntil: Date) => {
+  const retryAfter = Math.max(1, Math.ceil((lockedUntil.getTime() - Date.now()) / 1000))
+
+  return jsonResponse(
+    {
+      error: 'Твърде много опити. Моля, опитайте отново по-късно',
+      reason: 'rate_limited',
+      retryAfter,
+      lockedUntil: lockedUntil.toISOString()
+    },
+    429,
+    { 'Retry-After': retryAfter.toString() }
+  )
+}
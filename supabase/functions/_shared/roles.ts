@@ -0,0 +1,15 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// Roles are rows in the roles table; null means the value is not a known role
+export const findRole = async (admin: SupabaseClient, role: unknown) => {
+  if (typeof role !== 'string' || !role) return null
+
+  const { data, error } = await admin
+    .from('roles')
+    .select('role, label')
+    .eq('role', role)
+    .maybeSingle()
+
+  if (error) throw error
+  return data as { role: string; label: string } | null
+}
@@ -0,0 +1,125 @@
+// RFC 6238 time-based one-time passwords (HMAC-SHA1, 6 digits, 30 second steps),
+// compatible with Google Authenticator, Microsoft Authenticator, 1Password etc.
+
+export const TOTP_PERIOD_SECONDS = 30
+export const TOTP_DIGITS = 6
+// Accept codes one step before/after the current one to tolerate clock drift
+export const TOTP_DRIFT_STEPS = 1
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+
+export const base32Encode = (bytes: Uint8Array) => {
+  let bits = 0
+  let value = 0
+  let output = ''
+
+  for (const byte of bytes) {
+    value = (value << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+  }
+
+  return output
+}
+
+export const base32Decode = (input: string) => {
+  const clean = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '')
+  const bytes: number[] = []
+  let bits = 0
+  let value = 0
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char)
+    if (index === -1) throw new Error('Invalid base32 secret')
+    value = (value << 5) | index
+    bits += 5
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255)
+      bits -= 8
+    }
+  }
+
+  return new Uint8Array(bytes)
+}
+
+// 160-bit secret, the size recommended by RFC 4226
+export const generateTotpSecret = () => {
+  const bytes = new Uint8Array(20)
+  crypto.getRandomValues(bytes)
+  return base32Encode(bytes)
+}
+
+export const currentTotpStep = (now = Date.now()) =>
+  Math.floor(now / 1000 / TOTP_PERIOD_SECONDS)
+
+const hotp = async (secret: string, counter: number) => {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    base32Decode(secret),
+    { name: 'HMAC', hash: 'SHA-1' },
+    false,
+    ['sign']
+  )
+
+  const message = new ArrayBuffer(8)
+  const view = new DataView(message)
+  view.setUint32(0, Math.floor(counter / 2 ** 32))
+  view.setUint32(4, counter >>> 0)
+
+  const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, message))
+  const offset = hmac[hmac.length - 1] & 0xf
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3]
+
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0')
+}
+
+// Compares codes without returning early, so response times do not reveal how many
+// leading characters matched
+export const timingSafeEqual = (a: string, b: string) => {
+  if (a.length !== b.length) return false
+  let diff = 0
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  }
+  return diff === 0
+}
+
+// The code an authenticator app shows for the given time step
+export const totpCode = (secret: string, step = currentTotpStep()) => hotp(secret, step)
+
+// Returns the matching time step, or null. Steps at or before `lastUsedStep`
+// are rejected so an observed code cannot be replayed within its window.
+export const verifyTotp = async (secret: string, code: string, lastUsedStep?: number | null) => {
+  const step = currentTotpStep()
+
+  for (let drift = -TOTP_DRIFT_STEPS; drift <= TOTP_DRIFT_STEPS; drift++) {
+    const candidate = step + drift
+    if (lastUsedStep != null && candidate <= lastUsedStep) continue
+    if (timingSafeEqual(await hotp(secret, candidate), code)) return candidate
+  }
+
+  return null
+}
+
+export const buildOtpauthUri = (issuer: string, account: string, secret: string) => {
+  const label = encodeURIComponent(`${issuer}:${account}`)
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS)
+  })
+  return `otpauth://totp/${label}?${params.toString()}`
+}
@@ -0,0 +1,344 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { timingSafeEqual, verifyTotp } from './totp.ts'
+import { getSessionId } from './auth.ts'
+import { sendMail } from './mailer.ts'
+
+export const CODE_TTL_MINUTES = 10
+export const MAX_CODE_ATTEMPTS = 5
+export const RECOVERY_CODE_COUNT = 10
+
+export type TwoFactorMethod = 'email' | 'totp'
+
+// Recovery codes are accepted in place of any enrolled method but are not a method themselves
+export type VerificationMethod = TwoFactorMethod | 'recovery'
+
+export type CodeVerificationResult =
+  | 'ok'
+  | 'not_found'
+  | 'expired'
+  | 'too_many_attempts'
+  | 'invalid'
+
+export const createAdminClient = () =>
+  createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    { auth: { persistSession: false, autoRefreshToken: false } }
+  )
+
+// Client with the public key, used to run auth flows on behalf of the user
+export const createAnonClient = () =>
+  createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+    { auth: { persistSession: false, autoRefreshToken: false } }
+  )
+
+// Uniformly distributed 6-digit code from the platform CSPRNG
+export const generateCode = () => {
+  const buffer = new Uint32Array(1)
+  crypto.getRandomValues(buffer)
+  return (buffer[0] % 1_000_000).toString().padStart(6, '0')
+}
+
+// Unambiguous alphabet (no 0/O, 1/I/L) so codes can be typed from a printout
+const RECOVERY_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789'
+
+const generateRecoveryCode = () => {
+  const bytes = new Uint8Array(10)
+  crypto.getRandomValues(bytes)
+  const chars = Array.from(bytes, byte => RECOVERY_ALPHABET[byte % RECOVERY_ALPHABET.length]).join('')
+  return `${chars.slice(0, 5)}-${chars.slice(5)}`
+}
+
+export const normalizeRecoveryCode = (code: string) =>
+  code.toUpperCase().replace(/[^A-Z0-9]/g, '')
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('')
+
+// Codes are stored as HMAC(user_id:code) so a leaked table cannot be replayed
+export const hashCode = async (userId: string, code: string) => {
+  const secret = Deno.env.get('TWO_FACTOR_CODE_SECRET') ?? Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${userId}:${code}`))
+  return toHex(signature)
+}
+
+export const findProfileById = async (admin: SupabaseClient, userId: string) => {
+  const { data, error } = await admin
+    .from('profiles')
+    .select('id, email, two_factor_enabled, two_factor_methods')
+    .eq('id', userId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data
+}
+
+export const findProfileByEmail = async (admin: SupabaseClient, email: string) => {
+  const { data, error } = await admin
+    .from('profiles')
+    .select('id, email, two_factor_enabled, two_factor_methods')
+    .eq('email', email)
+    .maybeSingle()
+
+  if (error) throw error
+  return data
+}
+
+// Enrolled methods; profiles that predate two_factor_methods fall back to email codes
+export const enrolledMethods = (profile: { two_factor_enabled: boolean, two_factor_methods?: string[] | null }) => {
+  const methods = (profile.two_factor_methods ?? []) as TwoFactorMethod[]
+  return methods.length === 0 && profile.two_factor_enabled ? ['email'] as TwoFactorMethod[] : methods
+}
+
+// Supersedes any open challenge for the user and stores a fresh one. The email code is
+// only generated when the user has the email method; TOTP-only challenges carry none.
+export const issueChallenge = async (admin: SupabaseClient, userId: string, withEmailCode = true) => {
+  const now = new Date()
+
+  const { error: supersedeError } = await admin
+    .from('two_factor_codes')
+    .update({ consumed_at: now.toISOString() })
+    .eq('user_id', userId)
+    .is('consumed_at', null)
+
+  if (supersedeError) throw supersedeError
+
+  const code = withEmailCode ? generateCode() : null
+  const expiresAt = new Date(now.getTime() + CODE_TTL_MINUTES * 60 * 1000)
+
+  const { data, error } = await admin
+    .from('two_factor_codes')
+    .insert({
+      user_id: userId,
+      code_hash: code ? await hashCode(userId, code) : null,
+      expires_at: expiresAt.toISOString(),
+      max_attempts: MAX_CODE_ATTEMPTS
+    })
+    .select('id')
+    .single()
+
+  if (error) throw error
+  return { id: data.id as string, code, expiresAt }
+}
+
+// Sent through the shared mailer, which stands in for an email provider
+export const deliverCode = (email: string, code: string, expiresAt: Date) =>
+  sendMail({
+    to: email,
+    subject: 'Код за вход',
+    text: `📱 2FA код за ${email}: ${code} (валиден до ${expiresAt.toISOString()})`
+  })
+
+// A pending challenge is the open code row handed out after a successful password check
+export const findChallenge = async (admin: SupabaseClient, challengeId: string) => {
+  const { data, error } = await admin
+    .from('two_factor_codes')
+    .select('id, user_id, code_hash, expires_at, attempts, max_attempts, consumed_at')
+    .eq('id', challengeId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data
+}
+
+const matchEmailCode = async (userId: string, codeHash: string | null, code: string) =>
+  codeHash !== null && timingSafeEqual(await hashCode(userId, code), codeHash)
+
+// Checks the code against the confirmed authenticator secret and records the used step
+const matchTotpCode = async (admin: SupabaseClient, userId: string, code: string) => {
+  const { data: totp, error } = await admin
+    .from('two_factor_totp_secrets')
+    .select('secret, last_used_step')
+    .eq('user_id', userId)
+    .not('confirmed_at', 'is', null)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!totp) return false
+
+  const step = await verifyTotp(totp.secret, code, totp.last_used_step)
+  if (step === null) return false
+
+  const { error: stepError } = await admin
+    .from('two_factor_totp_secrets')
+    .update({ last_used_step: step })
+    .eq('user_id', userId)
+
+  if (stepError) throw stepError
+  return true
+}
+
+// Redeems an unused recovery code; the conditional update makes each code single-use
+const matchRecoveryCode = async (admin: SupabaseClient, userId: string, code: string) => {
+  const codeHash = await hashCode(userId, normalizeRecoveryCode(code))
+
+  const { data, error } = await admin
+    .from('two_factor_recovery_codes')
+    .update({ used_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .eq('code_hash', codeHash)
+    .is('used_at', null)
+    .select('id')
+    .maybeSingle()
+
+  if (error) throw error
+  return data !== null
+}
+
+export const countRemainingRecoveryCodes = async (admin: SupabaseClient, userId: string) => {
+  const { count, error } = await admin
+    .from('two_factor_recovery_codes')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .is('used_at', null)
+
+  if (error) throw error
+  return count ?? 0
+}
+
+export const deleteRecoveryCodes = async (admin: SupabaseClient, userId: string) => {
+  const { error } = await admin
+    .from('two_factor_recovery_codes')
+    .delete()
+    .eq('user_id', userId)
+
+  if (error) throw error
+}
+
+// Replaces all recovery codes of the user; the plain codes are only ever returned here
+export const regenerateRecoveryCodes = async (admin: SupabaseClient, userId: string) => {
+  await deleteRecoveryCodes(admin, userId)
+
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode)
+  const rows = await Promise.all(codes.map(async code => ({
+    user_id: userId,
+    code_hash: await hashCode(userId, normalizeRecoveryCode(code))
+  })))
+
+  const { error } = await admin
+    .from('two_factor_recovery_codes')
+    .insert(rows)
+
+  if (error) throw error
+  return codes
+}
+
+export const verifyChallenge = async (
+  admin: SupabaseClient,
+  challengeId: string,
+  code: string,
+  method: VerificationMethod = 'email'
+): Promise<{ result: CodeVerificationResult, userId?: string }> => {
+  const row = await findChallenge(admin, challengeId)
+
+  if (!row || row.consumed_at) return { result: 'not_found' }
+  if (new Date(row.expires_at).getTime() <= Date.now()) return { result: 'expired', userId: row.user_id }
+  if (row.attempts >= row.max_attempts) return { result: 'too_many_attempts', userId: row.user_id }
+
+  const matched = method === 'totp'
+    ? await matchTotpCode(admin, row.user_id, code)
+    : method === 'recovery'
+      ? await matchRecoveryCode(admin, row.user_id, code)
+      : await matchEmailCode(row.user_id, row.code_hash, code)
+
+  if (!matched) {
+    const { data: attempts, error: attemptError } = await admin
+      .rpc('register_two_factor_attempt', { code_id: row.id })
+
+    if (attemptError) throw attemptError
+    return {
+      result: attempts >= row.max_attempts ? 'too_many_attempts' : 'invalid',
+      userId: row.user_id
+    }
+  }
+
+  // Conditional update makes the challenge single-use even under concurrent requests
+  const { data: consumed, error: consumeError } = await admin
+    .from('two_factor_codes')
+    .update({ consumed_at: new Date().toISOString() })
+    .eq('id', row.id)
+    .is('consumed_at', null)
+    .select('id')
+    .maybeSingle()
+
+  if (consumeError) throw consumeError
+  return { result: consumed ? 'ok' : 'not_found', userId: row.user_id }
+}
+
+// Whether the user's role is covered by the org-wide 2FA policy
+export const isTwoFactorRequired = async (admin: SupabaseClient, userId: string) => {
+  const { data, error } = await admin.rpc('two_factor_required_for', { target_user_id: userId })
+
+  if (error) throw error
+  return data === true
+}
+
+// Binds the second factor to the auth session so RLS (two_factor_satisfied) and
+// edge functions can tell a verified session from a password-only one
+export const markSessionVerified = async (admin: SupabaseClient, userId: string, accessToken: string) => {
+  const sessionId = getSessionId(accessToken)
+  if (!sessionId) throw new Error('Access token has no session id')
+
+  const { error } = await admin
+    .from('two_factor_sessions')
+    .upsert({ session_id: sessionId, user_id: userId })
+
+  if (error) throw error
+}
+
+export const isSessionVerified = async (admin: SupabaseClient, userId: string, accessToken: string) => {
+  const sessionId = getSessionId(accessToken)
+  if (!sessionId) return false
+
+  const { data, error } = await admin
+    .from('two_factor_sessions')
+    .select('session_id')
+    .eq('session_id', sessionId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data !== null
+}
+
+// Upgrades a verified challenge to a full session without touching the user's password:
+// a one-time magic link token is minted server-side and immediately exchanged.
+export const createSessionForUser = async (admin: SupabaseClient, email: string) => {
+  const { data: linkData, error: linkError } = await admin.auth.admin.generateLink({
+    type: 'magiclink',
+    email
+  })
+
+  if (linkError) throw linkError
+
+  const { data, error } = await createAnonClient().auth.verifyOtp({
+    token_hash: linkData.properties.hashed_token,
+    type: 'magiclink'
+  })
+
+  if (error) throw error
+  if (!data.session) throw new Error('Session exchange returned no session')
+
+  return {
+    access_token: data.session.access_token,
+    refresh_token: data.session.refresh_token
+  }
+}
+
+export const verificationErrors: Record<Exclude<CodeVerificationResult, 'ok'>, { message: string, status: number }> = {
+  not_found: { message: 'Няма активен код. Моля, изискайте нов код', status: 400 },
+  expired: { message: 'Кодът е изтекъл. Моля, изискайте нов код', status: 400 },
+  too_many_attempts: { message: 'Твърде много неуспешни опити. Моля, изискайте нов код', status: 429 },
+  invalid: { message: 'Невалиден код', status: 400 }
+}
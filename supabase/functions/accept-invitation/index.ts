@@ -0,0 +1,222 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts'
+import { logServerActivity } from '../_shared/activity.ts'
+import { getBearerToken, getUserFromRequest, MIN_PASSWORD_LENGTH } from '../_shared/auth.ts'
+import {
+  createAdminClient,
+  createAnonClient,
+  enrolledMethods,
+  findProfileByEmail,
+  isSessionVerified
+} from '../_shared/twoFactor.ts'
+import { findInvitationByToken, invitationErrors, invitationState } from '../_shared/invitations.ts'
+import { findMembership } from '../_shared/organizations.ts'
+import { findRole } from '../_shared/roles.ts'
+
+const signInRequiredMessage = (email: string) =>
+  `Вече има акаунт с ${email}. Влезте с него и отворете връзката отново, за да приемете поканата`
+
+// Claiming the invitation first keeps it single-use under concurrent requests
+const claimInvitation = async (admin: SupabaseClient, invitationId: string) => {
+  const { data, error } = await admin
+    .from('user_invitations')
+    .update({ accepted_at: new Date().toISOString() })
+    .eq('id', invitationId)
+    .is('accepted_at', null)
+    .is('revoked_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .select('id')
+    .maybeSingle()
+
+  if (error) throw error
+  return Boolean(data)
+}
+
+const releaseInvitation = async (admin: SupabaseClient, invitationId: string) => {
+  await admin
+    .from('user_invitations')
+    .update({ accepted_at: null })
+    .eq('id', invitationId)
+}
+
+// Public endpoint behind the invitation link. 'inspect' shows who the invitation is
+// for; 'accept' creates the account with the invited role, unconfirmed until the invitee
+// opens GoTrue's confirmation mail; 'join' adds an existing, signed-in account to the
+// organization with the invited role.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const { action, token, password, fullName } = await req.json()
+
+    if (!token) {
+      return jsonResponse({ error: 'token is required' }, 400)
+    }
+
+    const supabaseAdmin = createAdminClient()
+    const invitation = await findInvitationByToken(supabaseAdmin, String(token))
+
+    if (!invitation) {
+      const { message, status } = invitationErrors.not_found
+      return jsonResponse({ error: message, reason: 'not_found' }, status)
+    }
+
+    const state = invitationState(invitation)
+    if (state !== 'pending') {
+      const { message, status } = invitationErrors[state]
+      return jsonResponse({ error: message, reason: state }, status)
+    }
+
+    switch (action) {
+      case 'inspect': {
+        // The invitee has no session yet and cannot read the roles or organizations tables
+        const invitedRole = await findRole(supabaseAdmin, invitation.role)
+        const { data: organization, error: organizationError } = await supabaseAdmin
+          .from('organizations')
+          .select('name')
+          .eq('id', invitation.organization_id)
+          .maybeSingle()
+
+        if (organizationError) throw organizationError
+
+        return jsonResponse({
+          invitation: {
+            email: invitation.email,
+            fullName: invitation.full_name,
+            role: invitation.role,
+            roleLabel: invitedRole?.label ?? invitation.role,
+            organizationName: organization?.name ?? null,
+            expiresAt: invitation.expires_at
+          }
+        })
+      }
+
+      case 'accept': {
+        if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+          return jsonResponse({ error: `Паролата трябва да е поне ${MIN_PASSWORD_LENGTH} символа` }, 400)
+        }
+
+        if (await findProfileByEmail(supabaseAdmin, invitation.email)) {
+          return jsonResponse({ error: signInRequiredMessage(invitation.email), reason: 'sign_in_required' }, 409)
+        }
+
+        if (!(await claimInvitation(supabaseAdmin, invitation.id))) {
+          const { message, status } = invitationErrors.accepted
+          return jsonResponse({ error: message, reason: 'accepted' }, status)
+        }
+
+        const name = String(fullName ?? '').trim() || invitation.full_name || invitation.email
+
+        // handle_new_user creates the profile and the membership from the claimed invitation;
+        // the role is read from the invitation, never from the metadata. Signing up like any
+        // other user leaves the address unconfirmed until GoTrue's confirmation mail is opened.
+        const { data: created, error: createError } = await createAnonClient().auth.signUp({
+          email: invitation.email,
+          password,
+          options: { data: { full_name: name } }
+        })
+
+        if (createError || !created.user) {
+          // Hand the invitation back so the invitee can retry, e.g. with a stronger password
+          await releaseInvitation(supabaseAdmin, invitation.id)
+          return jsonResponse({ error: createError?.message ?? 'Грешка при създаване на акаунта' }, 400)
+        }
+
+        const { error: linkError } = await supabaseAdmin
+          .from('user_invitations')
+          .update({ accepted_user_id: created.user.id })
+          .eq('id', invitation.id)
+
+        if (linkError) throw linkError
+
+        await logServerActivity(supabaseAdmin, req, {
+          userId: created.user.id,
+          action: 'accept_invitation',
+          resourceType: 'profile',
+          resourceId: created.user.id,
+          details: {
+            invitation_id: invitation.id,
+            email: invitation.email,
+            full_name: name,
+            role: invitation.role
+          }
+        })
+
+        // GoTrue only hands out a session right away when email confirmation is turned off
+        if (!created.session) {
+          return jsonResponse({ success: true, confirmationRequired: true })
+        }
+
+        return jsonResponse({
+          success: true,
+          session: {
+            access_token: created.session.access_token,
+            refresh_token: created.session.refresh_token
+          }
+        })
+      }
+
+      case 'join': {
+        // Existing accounts accept while signed in as the invited address
+        const user = await getUserFromRequest(req, supabaseAdmin)
+        const profile = await findProfileByEmail(supabaseAdmin, invitation.email)
+
+        if (!user || !profile || user.id !== profile.id) {
+          return jsonResponse({ error: signInRequiredMessage(invitation.email), reason: 'sign_in_required' }, 403)
+        }
+
+        if (enrolledMethods(profile).length > 0 && !(await isSessionVerified(supabaseAdmin, user.id, getBearerToken(req)))) {
+          return jsonResponse({ error: 'Необходимо е потвърждение с втори фактор' }, 403)
+        }
+
+        if (!(await claimInvitation(supabaseAdmin, invitation.id))) {
+          const { message, status } = invitationErrors.accepted
+          return jsonResponse({ error: message, reason: 'accepted' }, status)
+        }
+
+        if (!(await findMembership(supabaseAdmin, invitation.organization_id, user.id))) {
+          const { error: memberError } = await supabaseAdmin
+            .from('organization_members')
+            .insert({ organization_id: invitation.organization_id, user_id: user.id, role: invitation.role })
+
+          if (memberError) {
+            await releaseInvitation(supabaseAdmin, invitation.id)
+            throw memberError
+          }
+        }
+
+        const { error: linkError } = await supabaseAdmin
+          .from('user_invitations')
+          .update({ accepted_user_id: user.id })
+          .eq('id', invitation.id)
+
+        if (linkError) throw linkError
+
+        await logServerActivity(supabaseAdmin, req, {
+          userId: user.id,
+          action: 'accept_invitation',
+          resourceType: 'profile',
+          resourceId: user.id,
+          organizationId: invitation.organization_id,
+          details: {
+            invitation_id: invitation.id,
+            email: invitation.email,
+            role: invitation.role
+          }
+        })
+
+        return jsonResponse({ success: true, organizationId: invitation.organization_id })
+      }
+
+      default:
+        return jsonResponse({ error: 'Unknown action' }, 400)
+    }
+
+  } catch (error) {
+    console.error('❌ Error in accept-invitation:', error)
+    return jsonResponse({ error: error.message }, 500)
+  }
+})
@@ -0,0 +1,218 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts'
+import { getBearerToken, getUserFromRequest } from '../_shared/auth.ts'
+import { logServerActivity } from '../_shared/activity.ts'
+import { userHasPermission } from '../_shared/permissions.ts'
+import { findRole } from '../_shared/roles.ts'
+import { findHomeOrganizationId, findMembership, listOrganizationMembers } from '../_shared/organizations.ts'
+import { createAdminClient, deleteRecoveryCodes, enrolledMethods, isSessionVerified } from '../_shared/twoFactor.ts'
+
+// Long enough to be permanent until an owner reactivates the account
+const DEACTIVATION_BAN = '876000h'
+
+// Affect the whole account, so only the owners of the user's home organization (the one
+// they joined first) may use them; owners of other organizations manage just the role
+const ACCOUNT_ACTIONS = ['deactivate', 'reactivate', 'force_logout', 'reset_2fa']
+
+const findAdminTarget = async (admin: SupabaseClient, userId: string) => {
+  const { data, error } = await admin
+    .from('profiles')
+    .select('id, email, full_name, role, organization_id, two_factor_enabled, two_factor_methods, deactivated_at')
+    .eq('id', userId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data
+}
+
+const revokeSessions = async (admin: SupabaseClient, userId: string) => {
+  const { data, error } = await admin.rpc('revoke_user_sessions', { target_user_id: userId })
+  if (error) throw error
+  return data as number
+}
+
+// Members of the organization, each with the role they hold in it
+const listUsers = async (admin: SupabaseClient, organizationId: string) => {
+  const members = await listOrganizationMembers(admin, organizationId)
+  const memberRoles = new Map(members.map(member => [member.user_id, member.role]))
+
+  const [{ data: profiles, error: profilesError }, { data: logins, error: loginsError }] = await Promise.all([
+    admin
+      .from('profiles')
+      .select('id, email, full_name, two_factor_enabled, two_factor_methods, deactivated_at, created_at')
+      .in('id', [...memberRoles.keys()])
+      .order('full_name'),
+    admin.rpc('last_login_times')
+  ])
+
+  if (profilesError) throw profilesError
+  if (loginsError) throw loginsError
+
+  const lastLogins = new Map(
+    (logins ?? []).map((login: { user_id: string, last_login_at: string }) => [login.user_id, login.last_login_at])
+  )
+
+  return (profiles ?? []).map(profile => ({
+    ...profile,
+    role: memberRoles.get(profile.id),
+    two_factor_methods: enrolledMethods(profile),
+    last_login_at: lastLogins.get(profile.id) ?? null
+  }))
+}
+
+// User administration (users.manage) within the caller's current organization. Every
+// mutating action is logged with the acting user as user_id and the affected profile as
+// resource_id.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseAdmin = createAdminClient()
+    const user = await getUserFromRequest(req, supabaseAdmin)
+
+    if (!user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const actor = await findAdminTarget(supabaseAdmin, user.id)
+    if (!actor || !(await userHasPermission(supabaseAdmin, user.id, 'users.manage'))) {
+      return jsonResponse({ error: 'Нямате право да управлявате потребители' }, 403)
+    }
+
+    if (enrolledMethods(actor).length > 0 && !(await isSessionVerified(supabaseAdmin, user.id, getBearerToken(req)))) {
+      return jsonResponse({ error: 'Необходимо е потвърждение с втори фактор' }, 403)
+    }
+
+    const { action, userId, role } = await req.json()
+
+    if (action === 'list') {
+      return jsonResponse({ users: await listUsers(supabaseAdmin, actor.organization_id) })
+    }
+
+    if (!userId) {
+      return jsonResponse({ error: 'userId is required' }, 400)
+    }
+
+    if (userId === user.id) {
+      return jsonResponse({ error: 'Не можете да променяте собствения си акаунт оттук' }, 400)
+    }
+
+    const target = await findAdminTarget(supabaseAdmin, userId)
+    const membership = target && await findMembership(supabaseAdmin, actor.organization_id, target.id)
+    if (!target || !membership) {
+      return jsonResponse({ error: 'Потребителят не е намерен' }, 404)
+    }
+
+    if (ACCOUNT_ACTIONS.includes(action) && (await findHomeOrganizationId(supabaseAdmin, target.id)) !== actor.organization_id) {
+      return jsonResponse({ error: 'Акаунтът на потребителя се управлява от основната му организация; тук може да се променя само ролята му' }, 409)
+    }
+
+    const audit = (auditAction: string, details: Record<string, unknown>) =>
+      logServerActivity(supabaseAdmin, req, {
+        userId: user.id,
+        action: auditAction,
+        resourceType: 'profile',
+        resourceId: target.id,
+        details: { email: target.email, full_name: target.full_name, ...details }
+      })
+
+    switch (action) {
+      case 'change_role': {
+        if (!(await findRole(supabaseAdmin, role))) {
+          return jsonResponse({ error: 'Невалидна роля' }, 400)
+        }
+        if (role === membership.role) {
+          return jsonResponse({ success: true })
+        }
+
+        // profiles.role follows when this is the user's current organization
+        const { error } = await supabaseAdmin
+          .from('organization_members')
+          .update({ role })
+          .eq('organization_id', actor.organization_id)
+          .eq('user_id', target.id)
+
+        if (error) throw error
+
+        await audit('change_role', { old_role: membership.role, new_role: role })
+        return jsonResponse({ success: true })
+      }
+
+      case 'deactivate': {
+        const { error: banError } = await supabaseAdmin.auth.admin.updateUserById(target.id, {
+          ban_duration: DEACTIVATION_BAN
+        })
+        if (banError) throw banError
+
+        const { error } = await supabaseAdmin
+          .from('profiles')
+          .update({ deactivated_at: new Date().toISOString() })
+          .eq('id', target.id)
+
+        if (error) throw error
+
+        const revokedSessions = await revokeSessions(supabaseAdmin, target.id)
+        await audit('deactivate_user', { revoked_sessions: revokedSessions })
+        return jsonResponse({ success: true })
+      }
+
+      case 'reactivate': {
+        const { error: banError } = await supabaseAdmin.auth.admin.updateUserById(target.id, {
+          ban_duration: 'none'
+        })
+        if (banError) throw banError
+
+        const { error } = await supabaseAdmin
+          .from('profiles')
+          .update({ deactivated_at: null })
+          .eq('id', target.id)
+
+        if (error) throw error
+
+        await audit('reactivate_user', { deactivated_at: target.deactivated_at })
+        return jsonResponse({ success: true })
+      }
+
+      case 'force_logout': {
+        const revokedSessions = await revokeSessions(supabaseAdmin, target.id)
+        await audit('force_logout', { revoked_sessions: revokedSessions })
+        return jsonResponse({ success: true, revokedSessions })
+      }
+
+      case 'reset_2fa': {
+        const methods = enrolledMethods(target)
+
+        const { error } = await supabaseAdmin
+          .from('profiles')
+          .update({ two_factor_methods: [], two_factor_enabled: false })
+          .eq('id', target.id)
+
+        if (error) throw error
+
+        const { error: totpError } = await supabaseAdmin
+          .from('two_factor_totp_secrets')
+          .delete()
+          .eq('user_id', target.id)
+
+        if (totpError) throw totpError
+
+        await deleteRecoveryCodes(supabaseAdmin, target.id)
+
+        // Sessions that passed the old factors must not outlive them
+        const revokedSessions = await revokeSessions(supabaseAdmin, target.id)
+        await audit('reset_2fa', { previous_methods: methods, revoked_sessions: revokedSessions })
+        return jsonResponse({ success: true })
+      }
+
+      default:
+        return jsonResponse({ error: 'Unknown action' }, 400)
+    }
+
+  } catch (error) {
+    console.error('❌ Error in admin-users:', error)
+    return jsonResponse({ error: error.message }, 500)
+  }
+})
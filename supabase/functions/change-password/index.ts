@@ -0,0 +1,105 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts'
+import { getBearerToken, getUserFromRequest, MIN_PASSWORD_LENGTH } from '../_shared/auth.ts'
+import { logServerActivity } from '../_shared/activity.ts'
+import { clientAddressKey, getLockedUntil, rateLimitedResponse, registerAttemptFailure, resetRateLimit } from '../_shared/rateLimit.ts'
+import { createAdminClient, createAnonClient, enrolledMethods, findProfileById, isSessionVerified } from '../_shared/twoFactor.ts'
+
+// Password change for the signed-in user. The current password is checked like a login
+// (same rate limit counters), so a hijacked session alone cannot take over the account.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseAdmin = createAdminClient()
+    const user = await getUserFromRequest(req, supabaseAdmin)
+
+    if (!user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const profile = await findProfileById(supabaseAdmin, user.id)
+    if (!profile) {
+      return jsonResponse({ error: 'Профилът не е намерен' }, 404)
+    }
+
+    if (enrolledMethods(profile).length > 0 && !(await isSessionVerified(supabaseAdmin, user.id, getBearerToken(req)))) {
+      return jsonResponse({ error: 'Необходимо е потвърждение с втори фактор' }, 403)
+    }
+
+    const { currentPassword, newPassword } = await req.json()
+
+    if (!currentPassword || !newPassword) {
+      return jsonResponse({ error: 'currentPassword and newPassword are required' }, 400)
+    }
+    if (typeof newPassword !== 'string' || newPassword.length < MIN_PASSWORD_LENGTH) {
+      return jsonResponse({ error: `Новата парола трябва да е поне ${MIN_PASSWORD_LENGTH} символа` }, 400)
+    }
+    if (newPassword === currentPassword) {
+      return jsonResponse({ error: 'Новата парола трябва да е различна от текущата' }, 400)
+    }
+
+    const accountKey = `email:${profile.email.toLowerCase()}`
+    const ipKey = clientAddressKey(req)
+
+    const lockedUntil = await getLockedUntil(supabaseAdmin, 'login', [accountKey, ipKey])
+    if (lockedUntil) {
+      return rateLimitedResponse(lockedUntil)
+    }
+
+    const { data: authData, error: authError } = await createAnonClient().auth.signInWithPassword({
+      email: profile.email,
+      password: currentPassword
+    })
+
+    if (authError || !authData.session) {
+      const failure = await registerAttemptFailure(supabaseAdmin, 'login', accountKey, ipKey)
+
+      await logServerActivity(supabaseAdmin, req, {
+        userId: user.id,
+        action: 'login_failed',
+        resourceType: 'auth',
+        details: {
+          email: profile.email,
+          stage: 'password_change',
+          failures: failure.failures
+        }
+      })
+
+      if (failure.lockedUntil) {
+        return rateLimitedResponse(failure.lockedUntil)
+      }
+
+      return jsonResponse({ error: 'Текущата парола е грешна', reason: 'invalid_password' }, 400)
+    }
+
+    // The check created a session of its own; only that one is dropped
+    const { error: revokeError } = await supabaseAdmin.auth.admin.signOut(authData.session.access_token, 'local')
+    if (revokeError) throw revokeError
+
+    await resetRateLimit(supabaseAdmin, 'login', [accountKey])
+
+    const { error: updateError } = await supabaseAdmin.auth.admin.updateUserById(user.id, {
+      password: newPassword
+    })
+
+    if (updateError) {
+      return jsonResponse({ error: updateError.message }, 400)
+    }
+
+    await logServerActivity(supabaseAdmin, req, {
+      userId: user.id,
+      action: 'change_password',
+      resourceType: 'auth',
+      details: { email: profile.email }
+    })
+
+    return jsonResponse({ success: true })
+
+  } catch (error) {
+    console.error('❌ Error in change-password:', error)
+    return jsonResponse({ error: error.message }, 500)
+  }
+})
@@ -0,0 +1,143 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts'
+import { getBearerToken, getUserFromRequest } from '../_shared/auth.ts'
+import { logServerActivity } from '../_shared/activity.ts'
+import { createAdminClient } from '../_shared/twoFactor.ts'
+import { contentTypes, CSV_COLUMNS, ExportFormat, formatRow, LogRow } from '../_shared/activityExport.ts'
+
+interface ExportFilters {
+  action?: string
+  resourceType?: string
+  userId?: string
+  dateFrom?: string
+  dateTo?: string
+  search?: string
+}
+
+const BATCH_SIZE = 500
+
+const buildQuery = (client: SupabaseClient, filters: ExportFilters, cursor?: { createdAt: string, id: string }) => {
+  let query = client
+    .from('activity_logs')
+    .select(`
+      id, seq, user_id, action, resource_type, resource_id, details,
+      ip_address, user_agent, created_at, entry_hash,
+      user:profiles!activity_logs_user_id_fkey(full_name, email)
+    `)
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(BATCH_SIZE)
+
+  if (filters.action) query = query.eq('action', filters.action)
+  if (filters.resourceType) query = query.eq('resource_type', filters.resourceType)
+  if (filters.userId) query = query.eq('user_id', filters.userId)
+  if (filters.dateFrom) query = query.gte('created_at', filters.dateFrom)
+  if (filters.dateTo) query = query.lt('created_at', filters.dateTo)
+  if (filters.search) {
+    query = query.textSearch('search_vector', filters.search, { type: 'websearch', config: 'simple' })
+  }
+  if (cursor) {
+    query = query.or(
+      `created_at.lt."${cursor.createdAt}",and(created_at.eq."${cursor.createdAt}",id.lt.${cursor.id})`
+    )
+  }
+
+  return query
+}
+
+// Streams a filtered range of activity_logs. The query runs with the caller's JWT,
+// so RLS decides what is exported (logs.read with a verified second factor sees everything).
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseAdmin = createAdminClient()
+    const user = await getUserFromRequest(req, supabaseAdmin)
+
+    if (!user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const { format = 'csv', filters = {} } = await req.json() as { format?: ExportFormat, filters?: ExportFilters }
+
+    if (!(format in contentTypes)) {
+      return jsonResponse({ error: 'Unsupported export format' }, 400)
+    }
+
+    const userClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        auth: { persistSession: false, autoRefreshToken: false },
+        global: { headers: { Authorization: `Bearer ${getBearerToken(req)}` } }
+      }
+    )
+
+    // The first batch is fetched up front so permission errors still produce a JSON error
+    const { data: firstBatch, error: firstError } = await buildQuery(userClient, filters)
+    if (firstError) throw firstError
+
+    await logServerActivity(supabaseAdmin, req, {
+      userId: user.id,
+      action: 'export_activity_logs',
+      resourceType: 'system',
+      details: { format, filters }
+    })
+
+    const { data: actionTypes, error: actionTypesError } = await supabaseAdmin
+      .from('activity_action_types')
+      .select('action, severity')
+    if (actionTypesError) throw actionTypesError
+
+    const severities = Object.fromEntries((actionTypes ?? []).map(type => [type.action, type.severity]))
+
+    const encoder = new TextEncoder()
+    const stream = new ReadableStream({
+      async start(controller) {
+        try {
+          if (format === 'csv') {
+            controller.enqueue(encoder.encode(CSV_COLUMNS.join(',') + '\r\n'))
+          }
+
+          let batch = (firstBatch ?? []) as unknown as LogRow[]
+
+          while (batch.length > 0) {
+            for (const row of batch) {
+              controller.enqueue(encoder.encode(formatRow(format, row, severities)))
+            }
+
+            if (batch.length < BATCH_SIZE) break
+
+            const last = batch[batch.length - 1]
+            const { data, error } = await buildQuery(userClient, filters, { createdAt: last.created_at, id: last.id })
+            if (error) throw error
+            batch = (data ?? []) as unknown as LogRow[]
+          }
+
+          controller.close()
+        } catch (error) {
+          console.error('❌ Error while streaming activity logs:', error)
+          controller.error(error)
+        }
+      }
+    })
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-')
+    const extension = format === 'cef' ? 'log' : format
+
+    return new Response(stream, {
+      headers: {
+        ...corsHeaders,
+        'Content-Type': contentTypes[format],
+        'Content-Disposition': `attachment; filename="activity-logs-${timestamp}.${extension}"`
+      }
+    })
+
+  } catch (error) {
+    console.error('❌ Error in export-activity-logs:', error)
+    return jsonResponse({ error: error.message }, 500)
+  }
+})
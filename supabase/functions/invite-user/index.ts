@@ -0,0 +1,181 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts'
+import { getBearerToken, getUserFromRequest } from '../_shared/auth.ts'
+import { logServerActivity } from '../_shared/activity.ts'
+import { sendMail } from '../_shared/mailer.ts'
+import { userHasPermission } from '../_shared/permissions.ts'
+import { findRole } from '../_shared/roles.ts'
+import { findMembership } from '../_shared/organizations.ts'
+import { createAdminClient, enrolledMethods, findProfileByEmail, isSessionVerified } from '../_shared/twoFactor.ts'
+import {
+  buildInvitationUrl,
+  generateInvitationToken,
+  hashInvitationToken,
+  INVITATION_TTL_DAYS
+} from '../_shared/invitations.ts'
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+// Requires users.manage: sends single-use invitation links and withdraws pending ones, in
+// the caller's current organization. Users who already have an account join when they
+// accept the link while signed in. Listing is done by the client directly under RLS.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseAdmin = createAdminClient()
+    const user = await getUserFromRequest(req, supabaseAdmin)
+
+    if (!user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const { data: actor, error: actorError } = await supabaseAdmin
+      .from('profiles')
+      .select('id, full_name, organization_id, two_factor_enabled, two_factor_methods')
+      .eq('id', user.id)
+      .maybeSingle()
+
+    if (actorError) throw actorError
+    if (!actor || !(await userHasPermission(supabaseAdmin, user.id, 'users.manage'))) {
+      return jsonResponse({ error: 'Нямате право да каните потребители' }, 403)
+    }
+
+    if (enrolledMethods(actor).length > 0 && !(await isSessionVerified(supabaseAdmin, user.id, getBearerToken(req)))) {
+      return jsonResponse({ error: 'Необходимо е потвърждение с втори фактор' }, 403)
+    }
+
+    const { action, email, fullName, role, invitationId } = await req.json()
+
+    switch (action) {
+      case 'invite': {
+        const normalizedEmail = String(email ?? '').trim().toLowerCase()
+
+        if (!EMAIL_PATTERN.test(normalizedEmail)) {
+          return jsonResponse({ error: 'Невалиден email адрес' }, 400)
+        }
+        const invitedRole = await findRole(supabaseAdmin, role)
+        if (!invitedRole) {
+          return jsonResponse({ error: 'Невалидна роля' }, 400)
+        }
+
+        // Existing accounts get the same invitation and join only once they accept it, so
+        // the response does not tell whether the address already has an account
+        const existingProfile = await findProfileByEmail(supabaseAdmin, normalizedEmail)
+        if (existingProfile && await findMembership(supabaseAdmin, actor.organization_id, existingProfile.id)) {
+          return jsonResponse({ error: 'Потребителят вече е член на организацията' }, 409)
+        }
+
+        const now = new Date()
+
+        // Inviting the same address again supersedes the earlier link
+        const { error: supersedeError } = await supabaseAdmin
+          .from('user_invitations')
+          .update({ revoked_at: now.toISOString() })
+          .eq('organization_id', actor.organization_id)
+          .eq('email', normalizedEmail)
+          .is('accepted_at', null)
+          .is('revoked_at', null)
+
+        if (supersedeError) throw supersedeError
+
+        const token = generateInvitationToken()
+        const expiresAt = new Date(now.getTime() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000)
+
+        const { data: invitation, error } = await supabaseAdmin
+          .from('user_invitations')
+          .insert({
+            organization_id: actor.organization_id,
+            email: normalizedEmail,
+            full_name: String(fullName ?? '').trim(),
+            role,
+            token_hash: await hashInvitationToken(token),
+            invited_by: user.id,
+            expires_at: expiresAt.toISOString()
+          })
+          .select('id, email, full_name, role, expires_at, created_at')
+          .single()
+
+        if (error) throw error
+
+        const inviteUrl = buildInvitationUrl(req, token)
+
+        const { data: organization, error: organizationError } = await supabaseAdmin
+          .from('organizations')
+          .select('name')
+          .eq('id', actor.organization_id)
+          .single()
+
+        if (organizationError) throw organizationError
+
+        await sendMail({
+          to: normalizedEmail,
+          subject: 'Покана за AI Tools Platform',
+          text: [
+            `${actor.full_name} ви кани в ${organization.name} в AI Tools Platform като ${invitedRole.label}.`,
+            '',
+            existingProfile
+              ? `Влезте с този адрес и приемете поканата от тук: ${inviteUrl}`
+              : `Задайте парола и влезте от тук: ${inviteUrl}`,
+            '',
+            `Връзката може да се използва еднократно и е валидна до ${expiresAt.toISOString()}.`
+          ].join('\n')
+        })
+
+        await logServerActivity(supabaseAdmin, req, {
+          userId: user.id,
+          action: 'invite_user',
+          resourceType: 'profile',
+          details: {
+            invitation_id: invitation.id,
+            email: normalizedEmail,
+            role,
+            expires_at: invitation.expires_at
+          }
+        })
+
+        // The link travels only in the mail, so whoever opens it controls the invited address
+        return jsonResponse({ success: true, invitation })
+      }
+
+      case 'revoke': {
+        const { data: invitation, error } = await supabaseAdmin
+          .from('user_invitations')
+          .update({ revoked_at: new Date().toISOString() })
+          .eq('id', invitationId)
+          .eq('organization_id', actor.organization_id)
+          .is('accepted_at', null)
+          .is('revoked_at', null)
+          .select('id, email, role')
+          .maybeSingle()
+
+        if (error) throw error
+        if (!invitation) {
+          return jsonResponse({ error: 'Няма активна покана за оттегляне' }, 404)
+        }
+
+        await logServerActivity(supabaseAdmin, req, {
+          userId: user.id,
+          action: 'revoke_invitation',
+          resourceType: 'profile',
+          details: {
+            invitation_id: invitation.id,
+            email: invitation.email,
+            role: invitation.role
+          }
+        })
+
+        return jsonResponse({ success: true })
+      }
+
+      default:
+        return jsonResponse({ error: 'Unknown action' }, 400)
+    }
+
+  } catch (error) {
+    console.error('❌ Error in invite-user:', error)
+    return jsonResponse({ error: error.message }, 500)
+  }
+})
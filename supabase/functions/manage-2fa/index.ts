@@ -0,0 +1,216 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts'
+import { getBearerToken, getUserFromRequest } from '../_shared/auth.ts'
+import { logServerActivity } from '../_shared/activity.ts'
+import {
+  countRemainingRecoveryCodes,
+  createAdminClient,
+  deleteRecoveryCodes,
+  enrolledMethods,
+  findProfileById,
+  isSessionVerified,
+  isTwoFactorRequired,
+  markSessionVerified,
+  regenerateRecoveryCodes,
+  TwoFactorMethod
+} from '../_shared/twoFactor.ts'
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from '../_shared/totp.ts'
+
+const TOTP_ISSUER = 'AI Tools Platform'
+const POLICY_REQUIRED_ERROR = 'Двуфакторната автентикация е задължителна за вашата роля'
+
+// Keeps two_factor_enabled in sync with the enrolled methods. Recovery codes are
+// issued when the first factor is enrolled and dropped when the last one is removed;
+// freshly issued codes are returned so the client can show them exactly once.
+const setMethods = async (
+  admin: SupabaseClient,
+  userId: string,
+  accessToken: string,
+  previous: TwoFactorMethod[],
+  methods: TwoFactorMethod[]
+) => {
+  const { error } = await admin
+    .from('profiles')
+    .update({
+      two_factor_methods: methods,
+      two_factor_enabled: methods.length > 0
+    })
+    .eq('id', userId)
+
+  if (error) throw error
+
+  if (methods.length === 0) {
+    await deleteRecoveryCodes(admin, userId)
+  } else if (previous.length === 0) {
+    // The enrolling session is already fully authenticated, so it stays usable
+    await markSessionVerified(admin, userId, accessToken)
+    return await regenerateRecoveryCodes(admin, userId)
+  }
+
+  return undefined
+}
+
+// Enrollment and removal of second factors for the signed-in user
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseAdmin = createAdminClient()
+    const user = await getUserFromRequest(req, supabaseAdmin)
+
+    if (!user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const profile = await findProfileById(supabaseAdmin, user.id)
+    if (!profile) {
+      return jsonResponse({ error: 'Профилът не е намерен' }, 404)
+    }
+
+    const { action, code } = await req.json()
+    const methods = enrolledMethods(profile)
+    const accessToken = getBearerToken(req)
+
+    // Changing an existing second factor requires a session that passed it
+    if (methods.length > 0 && !(await isSessionVerified(supabaseAdmin, user.id, accessToken))) {
+      return jsonResponse({ error: 'Необходимо е потвърждение с втори фактор' }, 403)
+    }
+
+    // Logged here rather than by the client, so the log cannot be skipped or forged
+    const audit = (auditAction: string, details: Record<string, unknown>) =>
+      logServerActivity(supabaseAdmin, req, {
+        userId: user.id,
+        action: auditAction,
+        resourceType: 'profile',
+        resourceId: user.id,
+        details: { user_email: profile.email, ...details }
+      })
+
+    switch (action) {
+      case 'enable_email': {
+        if (methods.includes('email')) {
+          return jsonResponse({ success: true, methods })
+        }
+
+        const updated: TwoFactorMethod[] = [...methods, 'email']
+        const recoveryCodes = await setMethods(supabaseAdmin, user.id, accessToken, methods, updated)
+        await audit('enable_2fa', { method: 'email' })
+        return jsonResponse({ success: true, methods: updated, recoveryCodes })
+      }
+
+      case 'disable_email': {
+        const remaining = methods.filter(method => method !== 'email')
+        if (remaining.length === 0 && await isTwoFactorRequired(supabaseAdmin, user.id)) {
+          return jsonResponse({ error: POLICY_REQUIRED_ERROR }, 403)
+        }
+
+        await setMethods(supabaseAdmin, user.id, accessToken, methods, remaining)
+        await audit('disable_2fa', { method: 'email' })
+        return jsonResponse({ success: true, methods: remaining })
+      }
+
+      case 'totp_start': {
+        if (methods.includes('totp')) {
+          return jsonResponse({ error: 'Приложението за автентикация вече е активирано' }, 409)
+        }
+
+        // Restarting enrollment replaces any unconfirmed secret
+        const secret = generateTotpSecret()
+        const { error } = await supabaseAdmin
+          .from('two_factor_totp_secrets')
+          .upsert({
+            user_id: user.id,
+            secret,
+            confirmed_at: null,
+            last_used_step: null
+          })
+
+        if (error) throw error
+
+        return jsonResponse({
+          success: true,
+          secret,
+          otpauthUri: buildOtpauthUri(TOTP_ISSUER, profile.email, secret)
+        })
+      }
+
+      case 'totp_confirm': {
+        if (!code || !/^\d{6}$/.test(code)) {
+          return jsonResponse({ error: 'Невалиден код' }, 400)
+        }
+
+        const { data: pending, error: pendingError } = await supabaseAdmin
+          .from('two_factor_totp_secrets')
+          .select('secret')
+          .eq('user_id', user.id)
+          .is('confirmed_at', null)
+          .maybeSingle()
+
+        if (pendingError) throw pendingError
+        if (!pending) {
+          return jsonResponse({ error: 'Няма започнато активиране' }, 400)
+        }
+
+        const step = await verifyTotp(pending.secret, code)
+        if (step === null) {
+          return jsonResponse({ error: 'Невалиден код' }, 400)
+        }
+
+        const { error } = await supabaseAdmin
+          .from('two_factor_totp_secrets')
+          .update({ confirmed_at: new Date().toISOString(), last_used_step: step })
+          .eq('user_id', user.id)
+
+        if (error) throw error
+
+        const updated: TwoFactorMethod[] = [...methods.filter(method => method !== 'totp'), 'totp']
+        const recoveryCodes = await setMethods(supabaseAdmin, user.id, accessToken, methods, updated)
+        await audit('enable_2fa', { method: 'totp' })
+        return jsonResponse({ success: true, methods: updated, recoveryCodes })
+      }
+
+      case 'totp_disable': {
+        const remaining = methods.filter(method => method !== 'totp')
+        if (remaining.length === 0 && await isTwoFactorRequired(supabaseAdmin, user.id)) {
+          return jsonResponse({ error: POLICY_REQUIRED_ERROR }, 403)
+        }
+
+        const { error } = await supabaseAdmin
+          .from('two_factor_totp_secrets')
+          .delete()
+          .eq('user_id', user.id)
+
+        if (error) throw error
+
+        await setMethods(supabaseAdmin, user.id, accessToken, methods, remaining)
+        await audit('disable_2fa', { method: 'totp' })
+        return jsonResponse({ success: true, methods: remaining })
+      }
+
+      case 'recovery_status': {
+        const remaining = await countRemainingRecoveryCodes(supabaseAdmin, user.id)
+        return jsonResponse({ success: true, remaining })
+      }
+
+      case 'regenerate_recovery_codes': {
+        if (methods.length === 0) {
+          return jsonResponse({ error: 'Двуфакторната автентикация не е активирана' }, 400)
+        }
+
+        const recoveryCodes = await regenerateRecoveryCodes(supabaseAdmin, user.id)
+        await audit('generate_recovery_codes', { count: recoveryCodes.length })
+        return jsonResponse({ success: true, recoveryCodes })
+      }
+
+      default:
+        return jsonResponse({ error: 'Unknown action' }, 400)
+    }
+
+  } catch (error) {
+    console.error('❌ Error in manage-2fa:', error)
+    return jsonResponse({ error: error.message }, 500)
+  }
+})
@@ -1,95 +1,62 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts'
+import { clientAddressKey, getLockedUntil, rateLimitedResponse, registerAttemptFailure } from '../_shared/rateLimit.ts'
+import { createAdminClient, deliverCode, enrolledMethods, findChallenge, findProfileById, issueChallenge, verificationErrors } from '../_shared/twoFactor.ts'
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-}
-
+// Resends the code for a pending login challenge. A new challenge id is returned
+// and the previous one stops being accepted.
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
-    console.log('🔧 OPTIONS request received')
     return new Response('ok', { headers: corsHeaders })
   }
 
   try {
-    console.log('🔐 2FA Code Request received at:', new Date().toISOString())
-    console.log('📥 Request method:', req.method)
-    console.log('📥 Request headers:', Object.fromEntries(req.headers.entries()))
-    
-    const requestBody = await req.json()
-    console.log('📥 Request body:', requestBody)
-    
-    const { email } = requestBody
-    console.log('📧 Email:', email)
+    const { challengeId } = await req.json()
+
+    if (!challengeId) {
+      return jsonResponse({ error: 'Challenge id is required' }, 400)
+    }
+
+    const supabaseAdmin = createAdminClient()
+    const challenge = await findChallenge(supabaseAdmin, challengeId)
+
+    // Expired challenges require a fresh password login
+    if (!challenge || challenge.consumed_at || new Date(challenge.expires_at).getTime() <= Date.now()) {
+      return jsonResponse({ success: false, error: verificationErrors.expired.message }, 400)
+    }
 
-    if (!email) {
-      console.log('❌ No email provided')
-      return new Response(
-        JSON.stringify({ error: 'Email is required' }),
-        { 
-          status: 400, 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-        }
-      )
+    const profile = await findProfileById(supabaseAdmin, challenge.user_id)
+    if (!profile) {
+      return jsonResponse({ success: false, error: verificationErrors.not_found.message }, 400)
     }
 
-    // Generate 6-digit code
-    const code = Math.floor(100000 + Math.random() * 900000).toString()
-    console.log('🔢 Generated code:', code)
-    
-    // Store code in a simple in-memory store (in production, use Redis or database)
-    // For demo purposes, we'll use a simple approach
-    const expiresAt = new Date(Date.now() + 10 * 60 * 1000) // 10 minutes
-    console.log('⏰ Code expires at:', expiresAt)
-    
-    // In a real implementation, you would:
-    // 1. Store the code in a database with expiration
-    // 2. Send email using a service like SendGrid, AWS SES, etc.
-    
-    console.log(`🚀 2FA Code for ${email}: ${code} (expires at ${expiresAt})`)
-    console.log('=' .repeat(50))
-    console.log(`📱 ВАЖНО: Кодът за ${email} е: ${code}`)
-    console.log('=' .repeat(50))
-    
-    // For demo purposes, we'll just log the code
-    // In production, send actual email here
-    
-    const responseData = { 
-      success: true, 
-      message: 'Код е изпратен на вашия email',
-      // For demo only - remove in production
-      code: code,
-      debug: {
-        email,
-        codeGenerated: code,
-        timestamp: new Date().toISOString(),
-        expiresAt: expiresAt.toISOString()
-      }
+    if (!enrolledMethods(profile).includes('email')) {
+      return jsonResponse({ success: false, error: 'Email кодовете не са активирани за този акаунт' }, 400)
     }
-    
-    console.log('📤 Sending response:', responseData)
-    console.log('✅ Returning success response')
-    
-    return new Response(
-      JSON.stringify(responseData),
-      { 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-      }
-    )
+
+    // Every resend counts; the counters expire on their own after an hour
+    const accountKey = `user:${profile.id}`
+    const ipKey = clientAddressKey(req)
+
+    const lockedUntil = await getLockedUntil(supabaseAdmin, 'send_code', [accountKey, ipKey])
+    if (lockedUntil) {
+      return rateLimitedResponse(lockedUntil)
+    }
+
+    await registerAttemptFailure(supabaseAdmin, 'send_code', accountKey, ipKey)
+
+    const { id, code, expiresAt } = await issueChallenge(supabaseAdmin, profile.id)
+    if (code) await deliverCode(profile.email, code, expiresAt)
+
+    return jsonResponse({
+      success: true,
+      challengeId: id,
+      expiresAt: expiresAt.toISOString(),
+      message: 'Код е изпратен на вашия email'
+    })
 
   } catch (error) {
     console.error('❌ Error in send-2fa-code:', error)
-    console.error('❌ Error stack:', error.stack)
-    return new Response(
-      JSON.stringify({ 
-        error: error.message,
-        stack: error.stack,
-        timestamp: new Date().toISOString()
-      }),
-      { 
-        status: 500, 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-      }
-    )
+    return jsonResponse({ error: error.message }, 500)
   }
-})
\ No newline at end of file
+})
@@ -0,0 +1,132 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts'
+import { logServerActivity } from '../_shared/activity.ts'
+import { clientAddressKey, getLockedUntil, rateLimitedResponse, registerAttemptFailure, resetRateLimit } from '../_shared/rateLimit.ts'
+import {
+  createAdminClient,
+  createAnonClient,
+  deliverCode,
+  enrolledMethods,
+  findProfileByEmail,
+  findProfileById,
+  issueChallenge
+} from '../_shared/twoFactor.ts'
+
+// Password step of the login flow. Users without 2FA get their session straight away;
+// users with 2FA only get a short-lived challenge that verify-2fa upgrades to a session.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const { email, password } = await req.json()
+
+    if (!email || !password) {
+      return jsonResponse({ error: 'Email and password are required' }, 400)
+    }
+
+    const supabaseAdmin = createAdminClient()
+    const normalizedEmail = String(email).trim().toLowerCase()
+    const accountKey = `email:${normalizedEmail}`
+    const ipKey = clientAddressKey(req)
+
+    const lockedUntil = await getLockedUntil(supabaseAdmin, 'login', [accountKey, ipKey])
+    if (lockedUntil) {
+      return rateLimitedResponse(lockedUntil)
+    }
+
+    const { data: authData, error: authError } = await createAnonClient().auth.signInWithPassword({
+      email: normalizedEmail,
+      password
+    })
+
+    // GoTrue only reports the ban once the password matched, so this reveals nothing
+    // to someone guessing passwords; it is not counted as a failed attempt
+    if (authError?.code === 'user_banned' || /banned/i.test(authError?.message ?? '')) {
+      const deactivatedProfile = await findProfileByEmail(supabaseAdmin, normalizedEmail)
+
+      await logServerActivity(supabaseAdmin, req, {
+        userId: deactivatedProfile?.id,
+        action: 'login_failed',
+        resourceType: 'auth',
+        details: {
+          email: normalizedEmail,
+          stage: 'deactivated'
+        }
+      })
+
+      return jsonResponse({ error: 'Акаунтът е деактивиран', reason: 'deactivated' }, 403)
+    }
+
+    if (authError || !authData.session) {
+      const failure = await registerAttemptFailure(supabaseAdmin, 'login', accountKey, ipKey)
+      const knownProfile = await findProfileByEmail(supabaseAdmin, normalizedEmail)
+
+      await logServerActivity(supabaseAdmin, req, {
+        userId: knownProfile?.id,
+        action: 'login_failed',
+        resourceType: 'auth',
+        details: {
+          email: normalizedEmail,
+          stage: 'password',
+          failures: failure.failures
+        }
+      })
+
+      if (failure.lockout) {
+        await logServerActivity(supabaseAdmin, req, {
+          userId: knownProfile?.id,
+          action: 'account_locked',
+          resourceType: 'auth',
+          details: {
+            email: normalizedEmail,
+            stage: 'password',
+            locked_until: failure.lockedUntil?.toISOString()
+          }
+        })
+      }
+
+      if (failure.lockedUntil) {
+        return rateLimitedResponse(failure.lockedUntil)
+      }
+
+      return jsonResponse({ error: 'Invalid login credentials' }, 400)
+    }
+
+    // Only the account counter is cleared; the address keeps counting across accounts
+    await resetRateLimit(supabaseAdmin, 'login', [accountKey])
+
+    const profile = await findProfileById(supabaseAdmin, authData.user.id)
+
+    if (!profile?.two_factor_enabled) {
+      return jsonResponse({
+        twoFactorRequired: false,
+        session: {
+          access_token: authData.session.access_token,
+          refresh_token: authData.session.refresh_token
+        }
+      })
+    }
+
+    // The password session must never reach the client for 2FA users. Only this session is
+    // revoked: the default global scope would end the user's verified sessions elsewhere too.
+    const { error: revokeError } = await supabaseAdmin.auth.admin.signOut(authData.session.access_token, 'local')
+    if (revokeError) throw revokeError
+
+    const methods = enrolledMethods(profile)
+    const { id: challengeId, code, expiresAt } = await issueChallenge(supabaseAdmin, profile.id, methods.includes('email'))
+    if (code) await deliverCode(profile.email, code, expiresAt)
+
+    return jsonResponse({
+      twoFactorRequired: true,
+      challengeId,
+      methods,
+      expiresAt: expiresAt.toISOString()
+    })
+
+  } catch (error) {
+    console.error('❌ Error in sign-in:', error)
+    return jsonResponse({ error: error.message }, 500)
+  }
+})
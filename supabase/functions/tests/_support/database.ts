@@ -0,0 +1,142 @@
+import { PGlite, Transaction } from 'npm:@electric-sql/pglite@0.3'
+import { pgcrypto } from 'npm:@electric-sql/pglite@0.3/contrib/pgcrypto'
+
+const MIGRATIONS_DIR = new URL('../../../migrations/', import.meta.url)
+
+// The parts of a Supabase database the migrations rely on: the API roles, the auth
+// schema GoTrue owns, storage, pg_cron and the realtime publication. auth.uid(),
+// auth.role() and auth.jwt() read the claims the way PostgREST sets them.
+const SUPABASE_BOOTSTRAP = `
+  CREATE ROLE anon NOLOGIN;
+  CREATE ROLE authenticated NOLOGIN;
+  CREATE ROLE service_role NOLOGIN BYPASSRLS;
+
+  CREATE SCHEMA auth;
+  CREATE SCHEMA extensions;
+  CREATE SCHEMA storage;
+  CREATE SCHEMA cron;
+
+  CREATE EXTENSION pgcrypto WITH SCHEMA extensions;
+
+  CREATE TABLE auth.users (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    email text UNIQUE,
+    encrypted_password text,
+    email_confirmed_at timestamptz,
+    raw_user_meta_data jsonb DEFAULT '{}'::jsonb,
+    raw_app_meta_data jsonb DEFAULT '{}'::jsonb,
+    banned_until timestamptz,
+    last_sign_in_at timestamptz,
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now()
+  );
+
+  CREATE TABLE auth.sessions (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    created_at timestamptz DEFAULT now()
+  );
+
+  CREATE FUNCTION auth.jwt() RETURNS jsonb AS $$
+    SELECT COALESCE(NULLIF(current_setting('request.jwt.claims', true), ''), '{}')::jsonb;
+  $$ LANGUAGE sql STABLE;
+
+  CREATE FUNCTION auth.uid() RETURNS uuid AS $$
+    SELECT NULLIF(auth.jwt() ->> 'sub', '')::uuid;
+  $$ LANGUAGE sql STABLE;
+
+  CREATE FUNCTION auth.role() RETURNS text AS $$
+    SELECT NULLIF(auth.jwt() ->> 'role', '');
+  $$ LANGUAGE sql STABLE;
+
+  CREATE FUNCTION auth.email() RETURNS text AS $$
+    SELECT NULLIF(auth.jwt() ->> 'email', '');
+  $$ LANGUAGE sql STABLE;
+
+  CREATE TABLE storage.buckets (
+    id text PRIMARY KEY,
+    name text NOT NULL,
+    public boolean DEFAULT false,
+    file_size_limit bigint,
+    allowed_mime_types text[]
+  );
+
+  CREATE TABLE storage.objects (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    bucket_id text REFERENCES storage.buckets(id),
+    name text,
+    owner uuid
+  );
+
+  ALTER TABLE storage.objects ENABLE ROW LEVEL SECURITY;
+
+  CREATE FUNCTION storage.foldername(name text) RETURNS text[] AS $$
+    SELECT (string_to_array(name, '/'))[1:array_length(string_to_array(name, '/'), 1) - 1];
+  $$ LANGUAGE sql IMMUTABLE;
+
+  CREATE FUNCTION cron.schedule(job_name text, schedule text, command text) RETURNS bigint AS $$
+    SELECT 1::bigint;
+  $$ LANGUAGE sql;
+
+  CREATE FUNCTION cron.unschedule(job_name text) RETURNS boolean AS $$
+    SELECT true;
+  $$ LANGUAGE sql;
+
+  CREATE PUBLICATION supabase_realtime;
+
+  GRANT USAGE ON SCHEMA public, auth, extensions, storage TO anon, authenticated, service_role;
+  GRANT ALL ON ALL TABLES IN SCHEMA storage TO anon, authenticated, service_role;
+  ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON TABLES TO anon, authenticated, service_role;
+  ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON SEQUENCES TO anon, authenticated, service_role;
+  ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON FUNCTIONS TO anon, authenticated, service_role;
+`
+
+// pg_cron is not available in PGlite; the cron schema above stands in for it
+const adaptMigration = (sql: string) =>
+  sql.replace(/CREATE EXTENSION IF NOT EXISTS pg_cron;/g, '')
+
+export type Claims = Record<string, unknown>
+
+export type Database = PGlite
+
+// A fresh in-memory database with every migration applied, in file name order
+export const createDatabase = async (): Promise<Database> => {
+  const db = await PGlite.create({ extensions: { pgcrypto } })
+  await db.exec(SUPABASE_BOOTSTRAP)
+
+  const migrations = []
+  for await (const entry of Deno.readDir(MIGRATIONS_DIR)) {
+    if (entry.isFile && entry.name.endsWith('.sql')) migrations.push(entry.name)
+  }
+
+  for (const name of migrations.sort()) {
+    const sql = await Deno.readTextFile(new URL(name, MIGRATIONS_DIR))
+    try {
+      await db.exec(adaptMigration(sql))
+    } catch (error) {
+      throw new Error(`Migration ${name} failed: ${(error as Error).message}`)
+    }
+  }
+
+  return db
+}
+
+// Runs the callback in a transaction with the role, JWT claims and request headers
+// PostgREST would set, so RLS policies and auth.uid() behave as they do behind the API
+export const withClaims = <T>(
+  db: Database,
+  claims: Claims,
+  callback: (tx: Transaction) => Promise<T>,
+  headers: Record<string, string> = {}
+) =>
+  db.transaction(async (tx) => {
+    const role = String(claims.role ?? 'anon')
+    if (!['anon', 'authenticated', 'service_role'].includes(role)) {
+      throw new Error(`Unknown database role ${role}`)
+    }
+
+    await tx.exec(`SET LOCAL ROLE ${role}`)
+    await tx.query(`SELECT set_config('request.jwt.claims', $1, true)`, [JSON.stringify(claims)])
+    await tx.query(`SELECT set_config('request.headers', $1, true)`, [JSON.stringify(headers)])
+    return await callback(tx)
+  })
@@ -0,0 +1,58 @@
+// Stands in for std/http's serve() (see the import map in deno.json): instead of
+// listening on a port, the handler each function registers is kept so tests can call it
+type Handler = (req: Request) => Response | Promise<Response>
+
+const handlers = new Map<string, Handler>()
+let loading: string | null = null
+
+export const serve = (handler: Handler) => {
+  if (!loading) throw new Error('serve() called outside loadFunction()')
+  handlers.set(loading, handler)
+}
+
+const loadFunction = async (name: string) => {
+  const loaded = handlers.get(name)
+  if (loaded) return loaded
+
+  loading = name
+  try {
+    await import(`../../${name}/index.ts`)
+  } finally {
+    loading = null
+  }
+
+  const handler = handlers.get(name)
+  if (!handler) throw new Error(`${name} did not register a handler`)
+  return handler
+}
+
+interface InvokeOptions {
+  accessToken?: string
+  ip?: string
+  headers?: Record<string, string>
+}
+
+// Calls the function the way supabase.functions.invoke does, behind a gateway that
+// appends the client address to x-forwarded-for
+export const invokeFunction = async (name: string, body: unknown, options: InvokeOptions = {}) => {
+  const handler = await loadFunction(name)
+  const headers = new Headers({ 'Content-Type': 'application/json', ...options.headers })
+
+  if (options.accessToken) headers.set('Authorization', `Bearer ${options.accessToken}`)
+  if (options.ip) {
+    const forwarded = headers.get('x-forwarded-for')
+    headers.set('x-forwarded-for', forwarded ? `${forwarded}, ${options.ip}` : options.ip)
+  }
+
+  const response = await handler(new Request(`http://functions.test/${name}`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(body)
+  }))
+
+  return {
+    status: response.status,
+    headers: response.headers,
+    body: await response.json()
+  }
+}
@@ -0,0 +1,35 @@
+export interface SentMail {
+  to: string
+  subject: string
+  text: string
+}
+
+// Reads back the .eml files _shared/mailer.ts writes to MAILER_OUTBOX_DIR, oldest first
+export const readOutbox = async (outboxDir: string): Promise<SentMail[]> => {
+  const names = []
+  for await (const entry of Deno.readDir(outboxDir)) {
+    if (entry.isFile && entry.name.endsWith('.eml')) names.push(entry.name)
+  }
+
+  const messages = []
+  for (const name of names.sort()) {
+    const raw = await Deno.readTextFile(`${outboxDir}/${name}`)
+    const separator = raw.indexOf('\n\n')
+    const headers = Object.fromEntries(
+      raw.slice(0, separator).split('\n').map(line => {
+        const colon = line.indexOf(':')
+        return [line.slice(0, colon).toLowerCase(), line.slice(colon + 1).trim()]
+      })
+    )
+    messages.push({ to: headers.to, subject: headers.subject, text: raw.slice(separator + 2) })
+  }
+
+  return messages
+}
+
+// A fresh outbox for one test file; the mailer reads the variable on every send
+export const useTemporaryOutbox = async () => {
+  const outboxDir = await Deno.makeTempDir({ prefix: 'outbox-' })
+  Deno.env.set('MAILER_OUTBOX_DIR', outboxDir)
+  return outboxDir
+}
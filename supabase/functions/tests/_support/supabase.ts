@@ -0,0 +1,614 @@
+import { Transaction } from 'npm:@electric-sql/pglite@0.3'
+import { Claims, createDatabase, Database, withClaims } from './database.ts'
+
+// Local stand-in for a Supabase project. The edge functions talk to it through the real
+// supabase-js client: requests to SUPABASE_URL are answered here from an in-memory
+// database instead of going over the network. Only the parts of PostgREST and GoTrue
+// the functions use are implemented; anything else fails loudly.
+
+const SUPABASE_URL = 'http://supabase.test'
+
+const encodeSegment = (value: unknown) =>
+  btoa(JSON.stringify(value)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+
+// Unsigned tokens: the stand-in trusts whatever it issued, like a gateway that already checked the signature
+const signToken = (claims: Claims) =>
+  `${encodeSegment({ alg: 'none', typ: 'JWT' })}.${encodeSegment(claims)}.stand-in`
+
+const decodeToken = (token: string): Claims | null => {
+  try {
+    const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')
+    return JSON.parse(atob(payload))
+  } catch {
+    return null
+  }
+}
+
+export const SERVICE_ROLE_KEY = signToken({ role: 'service_role' })
+export const ANON_KEY = signToken({ role: 'anon' })
+
+class ApiError extends Error {
+  constructor(readonly status: number, readonly body: Record<string, unknown>) {
+    super(String(body.message ?? body.msg))
+  }
+}
+
+const json = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+  new Response(body === undefined ? null : JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers }
+  })
+
+const ident = (name: string) => {
+  if (!/^[a-z_][a-z0-9_]*$/.test(name)) {
+    throw new ApiError(400, { code: 'PGRST100', message: `Unsupported identifier ${name}` })
+  }
+  return `"${name}"`
+}
+
+// Postgres errors are reported the way PostgREST does, so supabase-js hands them back as { error }
+const toPostgrestError = (error: { code?: string, message: string, detail?: string, hint?: string }) => {
+  const status = error.code === '42501' ? 403 : error.code === '23505' || error.code === '23503' ? 409 : 400
+  return new ApiError(status, {
+    code: error.code ?? 'PGRST000',
+    message: error.message,
+    details: error.detail ?? null,
+    hint: error.hint ?? null
+  })
+}
+
+// --- PostgREST ---------------------------------------------------------------
+
+const RESERVED_PARAMS = ['select', 'order', 'limit', 'offset', 'on_conflict', 'columns']
+
+const OPERATORS: Record<string, string> = {
+  eq: '=',
+  neq: '<>',
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+  like: 'LIKE',
+  ilike: 'ILIKE'
+}
+
+const parseSelect = (select: string | null) => {
+  if (!select || select === '*') return '*'
+
+  return select.split(',').map(column => {
+    if (column.includes('(')) {
+      throw new ApiError(400, { code: 'PGRST100', message: `Embedded resources are not supported by the stand-in: ${select}` })
+    }
+    const [alias, name] = column.includes(':') ? column.split(':') : [null, column]
+    return alias ? `${ident(name)} AS ${ident(alias)}` : ident(name)
+  }).join(', ')
+}
+
+const parseInList = (list: string) =>
+  list.replace(/^\(|\)$/g, '').split(',').map(value => value.replace(/^"|"$/g, ''))
+
+const buildFilters = (params: URLSearchParams, values: unknown[]) => {
+  const conditions: string[] = []
+
+  for (const [key, raw] of params) {
+    if (RESERVED_PARAMS.includes(key)) continue
+    if (key === 'or' || key === 'and') {
+      throw new ApiError(400, { code: 'PGRST100', message: `Logical filters are not supported by the stand-in: ${key}` })
+    }
+
+    const negated = raw.startsWith('not.')
+    const expression = negated ? raw.slice(4) : raw
+    const dot = expression.indexOf('.')
+    const operator = expression.slice(0, dot)
+    const value = expression.slice(dot + 1)
+    const column = ident(key)
+
+    let condition: string
+    if (operator === 'is') {
+      if (!['null', 'true', 'false'].includes(value)) {
+        throw new ApiError(400, { code: 'PGRST100', message: `Unsupported is value ${value}` })
+      }
+      condition = `${column} IS ${value.toUpperCase()}`
+    } else if (operator === 'in') {
+      values.push(parseInList(value))
+      condition = `${column}::text = ANY($${values.length}::text[])`
+    } else if (OPERATORS[operator]) {
+      values.push(value)
+      condition = `${column} ${OPERATORS[operator]} $${values.length}`
+    } else {
+      throw new ApiError(400, { code: 'PGRST100', message: `Unsupported operator ${operator}` })
+    }
+
+    conditions.push(negated ? `NOT (${condition})` : condition)
+  }
+
+  return conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''
+}
+
+const buildOrder = (order: string | null) => {
+  if (!order) return ''
+
+  return 'ORDER BY ' + order.split(',').map(term => {
+    const [column, ...modifiers] = term.split('.')
+    const direction = modifiers.includes('desc') ? 'DESC' : 'ASC'
+    const nulls = modifiers.includes('nullsfirst') ? ' NULLS FIRST' : modifiers.includes('nullslast') ? ' NULLS LAST' : ''
+    return `${ident(column)} ${direction}${nulls}`
+  }).join(', ')
+}
+
+const buildPaging = (params: URLSearchParams) => {
+  const limit = params.get('limit')
+  const offset = params.get('offset')
+  return [
+    limit ? `LIMIT ${Number(limit)}` : '',
+    offset ? `OFFSET ${Number(offset)}` : ''
+  ].join(' ')
+}
+
+const preferences = (req: Request) =>
+  (req.headers.get('Prefer') ?? '').split(',').map(value => value.trim())
+
+const tableResponse = (req: Request, rows: unknown[], count: number | null, status = 200) => {
+  const headers: Record<string, string> = {}
+  if (count !== null) {
+    headers['Content-Range'] = rows.length > 0 ? `0-${rows.length - 1}/${count}` : `*/${count}`
+  }
+
+  if (req.method === 'HEAD') {
+    return new Response(null, { status, headers })
+  }
+
+  if ((req.headers.get('Accept') ?? '').includes('application/vnd.pgrst.object+json')) {
+    if (rows.length !== 1) {
+      throw new ApiError(406, {
+        code: 'PGRST116',
+        message: 'JSON object requested, multiple (or no) rows returned',
+        details: `The result contains ${rows.length} rows`,
+        hint: null
+      })
+    }
+    return json(rows[0], status, headers)
+  }
+
+  return json(rows, status, headers)
+}
+
+const insertColumns = (body: Record<string, unknown>[]) =>
+  [...new Set(body.flatMap(row => Object.keys(row)))]
+
+const handleTable = async (tx: Transaction, req: Request, table: string, params: URLSearchParams) => {
+  const target = `public.${ident(table)}`
+  const columns = parseSelect(params.get('select'))
+  const prefer = preferences(req)
+  const wantsRows = prefer.includes('return=representation')
+  const values: unknown[] = []
+
+  const aggregate = async (statement: string) => {
+    const { rows } = await tx.query<{ rows: unknown[] }>(
+      `WITH result AS (${statement}) SELECT COALESCE(json_agg(row_to_json(result)), '[]'::json) AS rows FROM result`,
+      values
+    )
+    return rows[0].rows
+  }
+
+  switch (req.method) {
+    case 'GET':
+    case 'HEAD': {
+      const where = buildFilters(params, values)
+      const rows = req.method === 'HEAD'
+        ? []
+        : await aggregate(`SELECT ${columns} FROM ${target} ${where} ${buildOrder(params.get('order'))} ${buildPaging(params)}`)
+
+      let count: number | null = null
+      if (prefer.includes('count=exact')) {
+        const { rows: counted } = await tx.query<{ count: number }>(`SELECT count(*)::int AS count FROM ${target} ${where}`, values)
+        count = counted[0].count
+      }
+
+      return tableResponse(req, rows, count)
+    }
+
+    case 'POST': {
+      const payload = await req.json()
+      const body = (Array.isArray(payload) ? payload : [payload]) as Record<string, unknown>[]
+      const names = insertColumns(body)
+      values.push(JSON.stringify(body))
+
+      const list = names.map(ident).join(', ')
+      let conflict = ''
+      if (prefer.includes('resolution=merge-duplicates') || prefer.includes('resolution=ignore-duplicates')) {
+        const onConflict = params.get('on_conflict')
+        const keys = onConflict
+          ? onConflict.split(',').map(ident).join(', ')
+          : (await primaryKey(tx, table)).map(ident).join(', ')
+        const updates = names.map(name => `${ident(name)} = EXCLUDED.${ident(name)}`).join(', ')
+        conflict = prefer.includes('resolution=ignore-duplicates') || !updates
+          ? `ON CONFLICT (${keys}) DO NOTHING`
+          : `ON CONFLICT (${keys}) DO UPDATE SET ${updates}`
+      }
+
+      const rows = await aggregate(
+        `INSERT INTO ${target} (${list}) SELECT ${list} FROM json_populate_recordset(NULL::${target}, $1::json) ${conflict} RETURNING ${columns}`
+      )
+
+      return wantsRows ? tableResponse(req, rows, null, 201) : new Response(null, { status: 201 })
+    }
+
+    case 'PATCH': {
+      const body = await req.json() as Record<string, unknown>
+      values.push(JSON.stringify(body))
+      const names = Object.keys(body)
+      const where = buildFilters(params, values)
+
+      const rows = await aggregate(
+        `UPDATE ${target} SET (${names.map(ident).join(', ')}) = ` +
+        `(SELECT ${names.map(ident).join(', ')} FROM json_populate_record(NULL::${target}, $1::json)) ` +
+        `${where} RETURNING ${columns}`
+      )
+
+      return wantsRows ? tableResponse(req, rows, null) : new Response(null, { status: 204 })
+    }
+
+    case 'DELETE': {
+      const where = buildFilters(params, values)
+      const rows = await aggregate(`DELETE FROM ${target} ${where} RETURNING ${columns}`)
+
+      return wantsRows ? tableResponse(req, rows, null) : new Response(null, { status: 204 })
+    }
+
+    default:
+      throw new ApiError(405, { code: 'PGRST000', message: `Unsupported method ${req.method}` })
+  }
+}
+
+const primaryKey = async (tx: Transaction, table: string) => {
+  const { rows } = await tx.query<{ name: string }>(
+    `SELECT a.attname AS name
+     FROM pg_index i
+     JOIN pg_attribute a ON a.attrelid = i.indrelid AND a.attnum = ANY(i.indkey)
+     WHERE i.indrelid = ('public.' || quote_ident($1))::regclass AND i.indisprimary`,
+    [table]
+  )
+  return rows.map(row => row.name)
+}
+
+interface FunctionSignature {
+  returns_set: boolean
+  returns_row: boolean
+  returns_void: boolean
+  args: { name: string, type: string, is_array: boolean }[]
+}
+
+const handleRpc = async (tx: Transaction, req: Request, name: string) => {
+  const { rows: [signature] } = await tx.query<FunctionSignature>(
+    `SELECT p.proretset AS returns_set,
+            rt.typtype IN ('c', 'p') AND rt.typname <> 'void' AS returns_row,
+            rt.typname = 'void' AS returns_void,
+            COALESCE((
+              SELECT json_agg(json_build_object(
+                'name', arg.name,
+                'type', format_type(arg.type, NULL),
+                'is_array', at.typcategory = 'A'
+              ))
+              FROM unnest(p.proargnames, COALESCE(p.proallargtypes, p.proargtypes::oid[]), p.proargmodes) AS arg(name, type, mode)
+              JOIN pg_type at ON at.oid = arg.type
+              WHERE arg.name IS NOT NULL AND COALESCE(arg.mode, 'i') IN ('i', 'b', 'v')
+            ), '[]'::json) AS args
+     FROM pg_proc p
+     JOIN pg_namespace n ON n.oid = p.pronamespace
+     JOIN pg_type rt ON rt.oid = p.prorettype
+     WHERE n.nspname = 'public' AND p.proname = $1
+     LIMIT 1`,
+    [name]
+  )
+
+  if (!signature) {
+    throw new ApiError(404, { code: 'PGRST202', message: `Could not find the function public.${name}` })
+  }
+
+  const body = (await req.json().catch(() => ({}))) as Record<string, unknown>
+  const args = signature.args
+    .filter(arg => arg.name in body)
+    .map(arg => {
+      const value = `$1::jsonb -> '${arg.name}'`
+      const expression = arg.is_array
+        ? `ARRAY(SELECT jsonb_array_elements_text(${value}))::${arg.type}`
+        : arg.type === 'jsonb' || arg.type === 'json'
+          ? `(${value})::${arg.type}`
+          : `(${value.replace('->', '->>')})::${arg.type}`
+      return `${ident(arg.name)} => ${expression}`
+    })
+
+  const call = `public.${ident(name)}(${args.join(', ')})`
+  const values = [JSON.stringify(body)]
+
+  if (signature.returns_set || signature.returns_row) {
+    const { rows } = await tx.query<{ rows: unknown[] }>(
+      `SELECT COALESCE(json_agg(row_to_json(result)), '[]'::json) AS rows FROM ${call} AS result`,
+      values
+    )
+    return json(signature.returns_set ? rows[0].rows : rows[0].rows[0] ?? null)
+  }
+
+  const { rows } = await tx.query<{ result: unknown }>(`SELECT to_json(${call}) AS result`, values)
+  return signature.returns_void ? new Response(null, { status: 204 }) : json(rows[0].result)
+}
+
+// --- GoTrue ------------------------------------------------------------------
+
+interface AuthUserRow {
+  id: string
+  email: string
+  raw_user_meta_data: Record<string, unknown>
+  raw_app_meta_data: Record<string, unknown>
+  created_at: string
+}
+
+const authError = (status: number, errorCode: string, message: string) =>
+  new ApiError(status, { code: status, error_code: errorCode, msg: message, message })
+
+const toAuthUser = (row: AuthUserRow) => ({
+  id: row.id,
+  aud: 'authenticated',
+  role: 'authenticated',
+  email: row.email,
+  user_metadata: row.raw_user_meta_data ?? {},
+  app_metadata: row.raw_app_meta_data ?? {},
+  created_at: row.created_at
+})
+
+export class SupabaseStandIn {
+  private readonly linkTokens = new Map<string, string>()
+  private originalFetch: typeof fetch | null = null
+
+  constructor(readonly db: Database) {}
+
+  static async start() {
+    const standIn = new SupabaseStandIn(await createDatabase())
+    standIn.install()
+    return standIn
+  }
+
+  private install() {
+    Deno.env.set('SUPABASE_URL', SUPABASE_URL)
+    Deno.env.set('SUPABASE_ANON_KEY', ANON_KEY)
+    Deno.env.set('SUPABASE_SERVICE_ROLE_KEY', SERVICE_ROLE_KEY)
+
+    const originalFetch = globalThis.fetch
+    this.originalFetch = originalFetch
+    globalThis.fetch = (input, init) => {
+      const request = new Request(input, init)
+      return request.url.startsWith(SUPABASE_URL) ? this.handle(request) : originalFetch(input, init)
+    }
+  }
+
+  async stop() {
+    if (this.originalFetch) globalThis.fetch = this.originalFetch
+    await this.db.close()
+  }
+
+  private async handle(req: Request) {
+    const url = new URL(req.url)
+
+    try {
+      if (url.pathname.startsWith('/rest/v1/')) {
+        const claims = this.claimsFromRequest(req)
+        const path = url.pathname.slice('/rest/v1/'.length)
+
+        return await withClaims(
+          this.db,
+          claims,
+          tx => path.startsWith('rpc/')
+            ? handleRpc(tx, req, path.slice('rpc/'.length))
+            : handleTable(tx, req, path, url.searchParams),
+          Object.fromEntries(req.headers)
+        ).catch(error => {
+          throw error instanceof ApiError ? error : toPostgrestError(error)
+        })
+      }
+
+      if (url.pathname.startsWith('/auth/v1/')) {
+        return await this.handleAuth(req, url.pathname.slice('/auth/v1'.length), url.searchParams)
+      }
+
+      throw new ApiError(404, { message: `No stand-in for ${url.pathname}` })
+    } catch (error) {
+      if (error instanceof ApiError) return json(error.body, error.status)
+      throw error
+    }
+  }
+
+  private claimsFromRequest(req: Request): Claims {
+    const token = (req.headers.get('Authorization') ?? '').replace(/^Bearer\s+/i, '')
+    const claims = decodeToken(token)
+    if (!claims) throw new ApiError(401, { code: 'PGRST301', message: 'Invalid JWT' })
+    return claims
+  }
+
+  private async findUser(where: string, value: string) {
+    const { rows } = await this.db.query<AuthUserRow>(
+      `SELECT id, email, raw_user_meta_data, raw_app_meta_data, created_at FROM auth.users WHERE ${where} = $1`,
+      [value]
+    )
+    return rows[0] ?? null
+  }
+
+  // A member of the first organization, as if they had accepted an invitation from its owners
+  async createAuthUser(email: string, password: string, metadata: Record<string, unknown> = {}) {
+    await this.db.query(
+      `INSERT INTO user_invitations (email, role, token_hash, expires_at, accepted_at, organization_id)
+       VALUES ($1, 'frontend', $2, now() + interval '7 days', now(), (SELECT id FROM organizations ORDER BY created_at LIMIT 1))`,
+      [email, crypto.randomUUID()]
+    )
+    const user = await this.insertAuthUser(email, password, metadata, true)
+    await this.db.query(
+      'UPDATE user_invitations SET accepted_user_id = $2 WHERE lower(email) = lower($1) AND accepted_user_id IS NULL',
+      [email, user.id]
+    )
+    return user
+  }
+
+  // Inserts into auth.users like GoTrue does: as the database owner, without API claims
+  private async insertAuthUser(email: string, password: string, metadata: Record<string, unknown>, confirmed: boolean) {
+    if (await this.findUser('email', email)) {
+      throw authError(422, 'email_exists', 'A user with this email address has already been registered')
+    }
+
+    const { rows } = await this.db.query<AuthUserRow>(
+      `INSERT INTO auth.users (email, encrypted_password, email_confirmed_at, raw_user_meta_data)
+       VALUES ($1, extensions.crypt($2, extensions.gen_salt('bf', 4)), CASE WHEN $4 THEN now() END, $3::jsonb)
+       RETURNING id, email, raw_user_meta_data, raw_app_meta_data, created_at`,
+      [email, password, JSON.stringify(metadata), confirmed]
+    ).catch(error => {
+      throw authError(500, 'unexpected_failure', `Database error saving new user: ${error.message}`)
+    })
+
+    return rows[0]
+  }
+
+  // Sets the user's role in their current organization, as an owner would from the admin UI
+  async setRole(userId: string, role: string) {
+    await this.db.query(
+      `UPDATE organization_members SET role = $2
+       WHERE user_id = $1 AND organization_id = (SELECT organization_id FROM profiles WHERE id = $1)`,
+      [userId, role]
+    )
+  }
+
+  // A session row plus an access token carrying its id, as GoTrue issues them
+  async createSession(userId: string) {
+    const user = await this.findUser('id', userId)
+    if (!user) throw authError(404, 'user_not_found', 'User not found')
+
+    const { rows } = await this.db.query<{ id: string }>(
+      'INSERT INTO auth.sessions (user_id) VALUES ($1) RETURNING id',
+      [userId]
+    )
+
+    const expiresAt = Math.floor(Date.now() / 1000) + 3600
+    return {
+      access_token: signToken({
+        sub: userId,
+        role: 'authenticated',
+        aud: 'authenticated',
+        email: user.email,
+        session_id: rows[0].id,
+        exp: expiresAt
+      }),
+      token_type: 'bearer',
+      expires_in: 3600,
+      expires_at: expiresAt,
+      refresh_token: crypto.randomUUID(),
+      user: toAuthUser(user)
+    }
+  }
+
+  private async userFromToken(req: Request) {
+    const claims = this.claimsFromRequest(req)
+    const { rows } = await this.db.query<{ id: string }>(
+      'SELECT id FROM auth.sessions WHERE id = $1 AND user_id = $2',
+      [String(claims.session_id ?? ''), String(claims.sub ?? '')]
+    ).catch(() => ({ rows: [] }))
+
+    if (rows.length === 0) throw authError(403, 'session_not_found', 'Session from session_id claim in JWT does not exist')
+
+    const user = await this.findUser('id', String(claims.sub))
+    if (!user) throw authError(403, 'user_not_found', 'User from sub claim in JWT does not exist')
+
+    return { user, sessionId: rows[0].id }
+  }
+
+  private async handleAuth(req: Request, path: string, params: URLSearchParams) {
+    const body = req.method === 'GET' ? {} : await req.json().catch(() => ({}))
+
+    if (path === '/user' && req.method === 'GET') {
+      const { user } = await this.userFromToken(req)
+      return json(toAuthUser(user))
+    }
+
+    if (path === '/admin/users' && req.method === 'POST') {
+      const user = await this.insertAuthUser(body.email, body.password, body.user_metadata ?? {}, body.email_confirm === true)
+      return json(toAuthUser(user))
+    }
+
+    const adminUserPath = path.match(/^\/admin\/users\/([\w-]+)$/)
+    if (adminUserPath && req.method === 'PUT') {
+      const user = await this.findUser('id', adminUserPath[1])
+      if (!user) throw authError(404, 'user_not_found', 'User not found')
+
+      if (body.password) {
+        await this.db.query(
+          `UPDATE auth.users SET encrypted_password = extensions.crypt($2, extensions.gen_salt('bf', 4)) WHERE id = $1`,
+          [user.id, body.password]
+        )
+      }
+      if (body.ban_duration) {
+        await this.db.query(
+          `UPDATE auth.users SET banned_until = CASE WHEN $2 = 'none' THEN NULL ELSE now() + $2::interval END WHERE id = $1`,
+          [user.id, body.ban_duration]
+        )
+      }
+
+      return json(toAuthUser(user))
+    }
+
+    // Email confirmation is on, as in GoTrue's default setup: the user comes back without a session
+    if (path === '/signup' && req.method === 'POST') {
+      const user = await this.insertAuthUser(body.email, body.password, body.data ?? {}, false)
+      return json(toAuthUser(user))
+    }
+
+    if (path === '/token' && params.get('grant_type') === 'password') {
+      const { rows } = await this.db.query<{ id: string, email_confirmed_at: string | null }>(
+        `SELECT id, email_confirmed_at FROM auth.users
+         WHERE email = $1 AND encrypted_password = extensions.crypt($2, encrypted_password)
+         AND (banned_until IS NULL OR banned_until < now())`,
+        [body.email, body.password]
+      )
+      if (rows.length === 0) throw authError(400, 'invalid_credentials', 'Invalid login credentials')
+      if (!rows[0].email_confirmed_at) throw authError(400, 'email_not_confirmed', 'Email not confirmed')
+      return json(await this.createSession(rows[0].id))
+    }
+
+    if (path === '/admin/generate_link' && req.method === 'POST') {
+      const user = await this.findUser('email', body.email)
+      if (!user) throw authError(404, 'user_not_found', 'User with this email not found')
+
+      const hashedToken = crypto.randomUUID()
+      this.linkTokens.set(hashedToken, user.id)
+      return json({
+        ...toAuthUser(user),
+        action_link: `${SUPABASE_URL}/auth/v1/verify?token=${hashedToken}&type=${body.type}`,
+        email_otp: '000000',
+        hashed_token: hashedToken,
+        redirect_to: '',
+        verification_type: body.type
+      })
+    }
+
+    if (path === '/verify' && req.method === 'POST') {
+      const userId = this.linkTokens.get(body.token_hash)
+      if (!userId) throw authError(403, 'otp_expired', 'Email link is invalid or has expired')
+
+      this.linkTokens.delete(body.token_hash)
+      return json(await this.createSession(userId))
+    }
+
+    if (path === '/logout' && req.method === 'POST') {
+      const { user, sessionId } = await this.userFromToken(req)
+      const scope = params.get('scope') ?? 'global'
+
+      if (scope === 'local') {
+        await this.db.query('DELETE FROM auth.sessions WHERE id = $1', [sessionId])
+      } else if (scope === 'others') {
+        await this.db.query('DELETE FROM auth.sessions WHERE user_id = $1 AND id <> $2', [user.id, sessionId])
+      } else {
+        await this.db.query('DELETE FROM auth.sessions WHERE user_id = $1', [user.id])
+      }
+
+      return new Response(null, { status: 204 })
+    }
+
+    throw authError(404, 'not_found', `No stand-in for ${req.method} /auth/v1${path}`)
+  }
+}
@@ -0,0 +1,78 @@
+import assert from 'node:assert/strict'
+import { CSV_COLUMNS, formatRow, LogRow } from '../_shared/activityExport.ts'
+
+const logRow = (overrides: Partial<LogRow> = {}): LogRow => ({
+  id: '6c1f7a6e-0d0b-4a1e-9a57-0c9ad1c4a001',
+  seq: 42,
+  user_id: '0b5e4b7e-3c1a-4f0e-8d35-6f1d2c3b4a5e',
+  action: 'login',
+  resource_type: 'auth',
+  resource_id: null,
+  details: {},
+  ip_address: '203.0.113.7',
+  user_agent: 'Mozilla/5.0',
+  created_at: '2025-10-05T08:30:00.000Z',
+  entry_hash: 'abc123',
+  user: { full_name: 'Ivan Petrov', email: 'ivan@example.com' },
+  ...overrides
+})
+
+// Splits one CSV record, honouring quoted cells
+const csvCells = (line: string) =>
+  [...line.replace(/\r\n$/, '').matchAll(/("(?:[^"]|"")*"|[^,]*)(?:,|$)/g)]
+    .map(match => match[1])
+    .slice(0, CSV_COLUMNS.length)
+    .map(cell => cell.startsWith('"') ? cell.slice(1, -1).replace(/""/g, '"') : cell)
+
+Deno.test('activity log export formats', async (t) => {
+  await t.step('writes one CSV cell per column', () => {
+    const cells = csvCells(formatRow('csv', logRow({ details: { email: 'ivan@example.com', stage: 'password' } }), {}))
+
+    assert.equal(cells.length, CSV_COLUMNS.length)
+    assert.equal(cells[CSV_COLUMNS.indexOf('user_name')], 'Ivan Petrov')
+    assert.equal(cells[CSV_COLUMNS.indexOf('details')], 'email=ivan@example.com; stage=password')
+  })
+
+  await t.step('quotes CSV cells with commas, quotes and line breaks', () => {
+    const line = formatRow('csv', logRow({ user: { full_name: 'Petrov, "Ivan"\nJr', email: 'ivan@example.com' } }), {})
+
+    assert.match(line, /,"Petrov, ""Ivan""\nJr",/)
+    assert.equal(csvCells(line)[CSV_COLUMNS.indexOf('user_name')], 'Petrov, "Ivan"\nJr')
+  })
+
+  await t.step('keeps spreadsheet formulas in CSV cells as text', () => {
+    const cells = csvCells(formatRow('csv', logRow({
+      user: { full_name: '=HYPERLINK("http://evil.test","x")', email: '@example.com' },
+      user_agent: '+cmd|/C calc',
+      resource_id: '-1+1'
+    }), {}))
+
+    assert.equal(cells[CSV_COLUMNS.indexOf('user_name')], `'=HYPERLINK("http://evil.test","x")`)
+    assert.equal(cells[CSV_COLUMNS.indexOf('user_email')], `'@example.com`)
+    assert.equal(cells[CSV_COLUMNS.indexOf('user_agent')], `'+cmd|/C calc`)
+    assert.equal(cells[CSV_COLUMNS.indexOf('resource_id')], `'-1+1`)
+    assert.equal(cells[CSV_COLUMNS.indexOf('ip_address')], '203.0.113.7')
+  })
+
+  await t.step('frames CEF in syslog with the action severity', () => {
+    const line = formatRow('cef', logRow({ action: 'account_locked' }), { account_locked: 'critical' })
+
+    assert.match(line, /^<130>1 2025-10-05T08:30:00\.000Z ai-tools-platform activity-logs - - - /)
+    assert.match(line, /CEF:0\|AI Tools Platform\|Activity Log\|1\.0\|account_locked\|account locked\|8\|/)
+    assert.match(line, / suser=ivan@example\.com /)
+    assert.match(line, / cn1=42\n$/)
+  })
+
+  await t.step('escapes CEF header and extension values', () => {
+    const line = formatRow('cef', logRow({
+      action: 'login|forged',
+      user_agent: 'agent=1\\2\nnext',
+      details: { note: 'a=b' }
+    }), {})
+
+    assert.match(line, /\|login\\\|forged\|login\\\|forged\|3\|/)
+    assert.match(line, / requestClientApplication=agent\\=1\\\\2\\nnext /)
+    assert.match(line, / cs3=note\\=a\\=b /)
+    assert.equal(line.split('\n').length, 2)
+  })
+})
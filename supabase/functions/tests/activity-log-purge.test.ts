@@ -0,0 +1,117 @@
+import assert from 'node:assert/strict'
+import { SupabaseStandIn } from './_support/supabase.ts'
+import { withClaims } from './_support/database.ts'
+
+Deno.test('activity log purge', async (t) => {
+  const supabase = await SupabaseStandIn.start()
+
+  const owner = await supabase.createAuthUser('purge-owner@example.com', 'correct horse battery')
+  await supabase.setRole(owner.id, 'owner')
+
+  const logAs = (userId: string, action: string) =>
+    withClaims(supabase.db, { role: 'authenticated', sub: userId }, tx =>
+      tx.query<{ id: string }>(
+        `INSERT INTO activity_logs (user_id, action, resource_type) VALUES ($1, $2, 'auth') RETURNING id`,
+        [userId, action]
+      )
+    ).then(({ rows }) => rows[0].id)
+
+  // Moves entries back in time and re-links the chain, as if they had been written then
+  const backdate = (ids: string[], days: number) =>
+    supabase.db.transaction(async (tx) => {
+      await tx.query(`SELECT set_config('activity_logs.maintenance', 'on', true)`)
+      await tx.query(
+        `UPDATE activity_logs SET created_at = created_at - make_interval(days => $2) WHERE id = ANY($1::uuid[])`,
+        [ids, days]
+      )
+      await tx.exec(`
+        DO $$
+        DECLARE
+          entry activity_logs;
+          previous_hash text := repeat('0', 64);
+        BEGIN
+          FOR entry IN SELECT * FROM activity_logs ORDER BY seq LOOP
+            entry.prev_hash := previous_hash;
+            entry.entry_hash := activity_log_entry_hash(entry);
+            UPDATE activity_logs SET prev_hash = entry.prev_hash, entry_hash = entry.entry_hash WHERE id = entry.id;
+            previous_hash := entry.entry_hash;
+          END LOOP;
+        END $$;
+      `)
+    })
+
+  const verifyChain = async () => {
+    const { rows: [status] } = await withClaims(
+      supabase.db,
+      { role: 'authenticated', sub: owner.id },
+      tx => tx.query<{ valid: boolean, problem: string | null }>('SELECT valid, problem FROM verify_activity_log_chain()')
+    )
+    return status
+  }
+
+  try {
+    await t.step('refuses to delete entries outside a maintenance transaction', async () => {
+      const id = await logAs(owner.id, 'logout')
+
+      await assert.rejects(supabase.db.query('DELETE FROM activity_logs WHERE id = $1', [id]), /append-only/)
+      await assert.rejects(
+        withClaims(supabase.db, { role: 'authenticated', sub: owner.id }, tx =>
+          tx.query('SELECT purge_expired_activity_logs()')
+        ),
+        /permission denied/
+      )
+
+      // The purge switches maintenance off again before its own transaction ends
+      await assert.rejects(
+        supabase.db.transaction(async (tx) => {
+          await tx.query('SELECT purge_expired_activity_logs()')
+          await tx.query('DELETE FROM activity_logs WHERE id = $1', [id])
+        }),
+        /append-only/
+      )
+    })
+
+    await t.step('archives expired entries before deleting them', async () => {
+      const expired = [await logAs(owner.id, 'login'), await logAs(owner.id, 'logout')]
+      const recent = await logAs(owner.id, 'login')
+      await backdate(expired, 40)
+      await supabase.db.query(`UPDATE activity_log_retention_policies SET retention_days = 30 WHERE resource_type = 'auth'`)
+
+      const { rows: before } = await supabase.db.query<{ id: string, seq: number, entry_hash: string }>(
+        'SELECT id, seq, entry_hash FROM activity_logs WHERE id = ANY($1::uuid[]) ORDER BY seq',
+        [expired]
+      )
+
+      const { rows: [{ result }] } = await supabase.db.query<{ result: { total: number } }>(
+        'SELECT purge_expired_activity_logs() AS result'
+      )
+      assert.equal(result.total, 2)
+
+      const { rows: archived } = await supabase.db.query<{ id: string, seq: number, entry_hash: string }>(
+        'SELECT id, seq, entry_hash FROM activity_logs_archive WHERE id = ANY($1::uuid[]) ORDER BY seq',
+        [expired]
+      )
+      assert.deepEqual(archived, before)
+
+      const { rows: remaining } = await supabase.db.query<{ id: string }>(
+        'SELECT id FROM activity_logs WHERE id = ANY($1::uuid[])',
+        [[...expired, recent]]
+      )
+      assert.deepEqual(remaining, [{ id: recent }])
+
+      const { rows: purges } = await supabase.db.query<{ total: string }>(
+        `SELECT details->>'total' AS total FROM activity_logs WHERE action = 'purge_activity_logs' ORDER BY seq DESC LIMIT 1`
+      )
+      assert.deepEqual(purges, [{ total: '2' }])
+    })
+
+    await t.step('keeps the chain verifiable across the archive after a purge', async () => {
+      assert.deepEqual(await verifyChain(), { valid: true, problem: null })
+
+      await logAs(owner.id, 'logout')
+      assert.deepEqual(await verifyChain(), { valid: true, problem: null })
+    })
+  } finally {
+    await supabase.stop()
+  }
+})
@@ -0,0 +1,210 @@
+import assert from 'node:assert/strict'
+import { SupabaseStandIn } from './_support/supabase.ts'
+import { withClaims } from './_support/database.ts'
+
+Deno.test('activity log', async (t) => {
+  const supabase = await SupabaseStandIn.start()
+
+  const verifyChain = async (userId: string) => {
+    const { rows: [status] } = await withClaims(
+      supabase.db,
+      { role: 'authenticated', sub: userId },
+      tx => tx.query<{ valid: boolean, problem: string | null }>('SELECT valid, problem FROM verify_activity_log_chain()')
+    )
+    return status
+  }
+
+  const checkedCount = async (userId: string) => {
+    const { rows: [status] } = await withClaims(
+      supabase.db,
+      { role: 'authenticated', sub: userId },
+      tx => tx.query<{ checked_count: number }>('SELECT checked_count::int FROM verify_activity_log_chain()')
+    )
+    return status.checked_count
+  }
+
+  const entryCount = async (organizationId?: string) => {
+    const { rows: [{ count }] } = await supabase.db.query<{ count: number }>(
+      'SELECT count(*)::int AS count FROM activity_logs WHERE $1::uuid IS NULL OR organization_id = $1',
+      [organizationId ?? null]
+    )
+    return count
+  }
+
+  try {
+    const owner = await supabase.createAuthUser('log-owner@example.com', 'correct horse battery')
+    await supabase.setRole(owner.id, 'owner')
+
+    await t.step('keeps the entries of a deleted user and the chain valid', async () => {
+      const user = await supabase.createAuthUser('leaving@example.com', 'correct horse battery')
+      await withClaims(supabase.db, { role: 'authenticated', sub: user.id }, tx =>
+        tx.query(`INSERT INTO activity_logs (user_id, action, resource_type) VALUES ($1, 'logout', 'auth')`, [user.id])
+      )
+
+      await supabase.db.query('DELETE FROM auth.users WHERE id = $1', [user.id])
+
+      const { rows } = await supabase.db.query<{ user_id: string | null }>(
+        `SELECT user_id FROM activity_logs WHERE actor_id = $1 AND action = 'logout'`,
+        [user.id]
+      )
+      assert.deepEqual(rows, [{ user_id: null }])
+      assert.deepEqual(await verifyChain(owner.id), { valid: true, problem: null })
+    })
+
+    await t.step('still rejects clearing the user of an entry whose user exists', async () => {
+      await withClaims(supabase.db, { role: 'authenticated', sub: owner.id }, tx =>
+        tx.query(`INSERT INTO activity_logs (user_id, action, resource_type) VALUES ($1, 'logout', 'auth')`, [owner.id])
+      )
+
+      await assert.rejects(
+        withClaims(supabase.db, { role: 'service_role' }, tx =>
+          tx.query('UPDATE activity_logs SET user_id = NULL WHERE user_id = $1', [owner.id])
+        ),
+        /append-only/
+      )
+    })
+
+    await t.step('lets a session write only the actions the client logs itself', async () => {
+      const asOwner = (action: string) =>
+        withClaims(supabase.db, { role: 'authenticated', sub: owner.id }, tx =>
+          tx.query(`INSERT INTO activity_logs (user_id, action, resource_type) VALUES ($1, $2, 'auth')`, [owner.id, action])
+        )
+
+      await asOwner('logout')
+      for (const action of ['login_failed', 'account_locked', 'change_role']) {
+        await assert.rejects(asOwner(action), /row-level security/, action)
+      }
+    })
+
+    await t.step('audits comments and ratings however they are written', async () => {
+      const user = await supabase.createAuthUser('commenter@example.com', 'correct horse battery')
+      const { rows: [tool] } = await supabase.db.query<{ id: string }>(
+        `INSERT INTO ai_tools (name, description, status, organization_id)
+         SELECT 'Audited tool', 'A tool to comment on', 'approved', organization_id FROM profiles WHERE id = $1
+         RETURNING id`,
+        [user.id]
+      )
+
+      await withClaims(supabase.db, { role: 'authenticated', sub: user.id }, async tx => {
+        const { rows: [comment] } = await tx.query<{ id: string }>(
+          `INSERT INTO tool_comments (tool_id, user_id, content) VALUES ($1, $2, 'First') RETURNING id`,
+          [tool.id, user.id]
+        )
+        await tx.query(`UPDATE tool_comments SET content = 'Edited' WHERE id = $1`, [comment.id])
+        await tx.query('DELETE FROM tool_comments WHERE id = $1', [comment.id])
+        await tx.query('INSERT INTO tool_ratings (tool_id, user_id, rating) VALUES ($1, $2, 4)', [tool.id, user.id])
+        await tx.query('UPDATE tool_ratings SET rating = 5 WHERE tool_id = $1', [tool.id])
+      })
+
+      const { rows } = await supabase.db.query<{ action: string, details: Record<string, unknown> }>(
+        `SELECT action, details FROM activity_logs WHERE user_id = $1 ORDER BY seq`,
+        [user.id]
+      )
+      assert.deepEqual(rows.map(row => row.action), [
+        'create_comment', 'update_comment', 'delete_comment', 'rate_tool', 'rate_tool'
+      ])
+      assert.equal(rows[1].details.old_content, 'First')
+      assert.equal(rows[2].details.content, 'Edited')
+      assert.deepEqual([rows[4].details.old_rating, rows[4].details.new_rating], [4, 5])
+
+      // Rows removed with the tool are covered by its own entry
+      await withClaims(supabase.db, { role: 'authenticated', sub: user.id }, tx =>
+        tx.query(`INSERT INTO tool_comments (tool_id, user_id, content) VALUES ($1, $2, 'Second')`, [tool.id, user.id])
+      )
+      await supabase.db.query('DELETE FROM ai_tools WHERE id = $1', [tool.id])
+
+      const { rows: [{ count }] } = await supabase.db.query<{ count: number }>(
+        `SELECT count(*)::int AS count FROM activity_logs
+         WHERE (action = 'delete_comment' AND details ->> 'tool_id' = $1::text) OR (action = 'rate_tool' AND resource_id = $1::uuid)`,
+        [tool.id]
+      )
+      assert.equal(count, 3)
+    })
+
+    await t.step('logs a tool roles edit once and not at all when the tool is created', async () => {
+      const user = await supabase.createAuthUser('tool-author@example.com', 'correct horse battery')
+      const claims = { role: 'authenticated', sub: user.id }
+
+      const { rows: [tool] } = await withClaims(supabase.db, claims, tx => tx.query<{ id: string }>(
+        `SELECT id FROM create_ai_tool('{"name": "Roles tool", "description": "Has roles"}', '{frontend,qa}')`
+      ))
+      // The second call changes nothing and is not logged
+      for (let call = 0; call < 2; call++) {
+        await withClaims(supabase.db, claims, tx => tx.query(`SELECT set_tool_roles($1, '{backend,frontend}')`, [tool.id]))
+      }
+
+      const { rows } = await supabase.db.query<{ details: { changes: Record<string, unknown> } }>(
+        `SELECT details FROM activity_logs WHERE action = 'update_tool' AND resource_id = $1`,
+        [tool.id]
+      )
+      assert.deepEqual(rows.map(row => row.details.changes), [
+        { roles: { old: ['frontend', 'qa'], new: ['backend', 'frontend'] } }
+      ])
+
+      const { rows: [{ count }] } = await supabase.db.query<{ count: number }>(
+        'SELECT count(*)::int AS count FROM tool_role_changes'
+      )
+      assert.equal(count, 0)
+    })
+
+    const { rows: [sister] } = await supabase.db.query<{ id: string }>(
+      `INSERT INTO organizations (name) VALUES ('Sister company') RETURNING id`
+    )
+    const sisterOwner = await supabase.createAuthUser('sister-log-owner@example.com', 'correct horse battery')
+    await supabase.db.query(
+      `INSERT INTO organization_members (organization_id, user_id, role) VALUES ($1, $2, 'owner')`,
+      [sister.id, sisterOwner.id]
+    )
+    await supabase.db.query('UPDATE profiles SET organization_id = $1 WHERE id = $2', [sister.id, sisterOwner.id])
+    await withClaims(supabase.db, { role: 'authenticated', sub: sisterOwner.id }, tx =>
+      tx.query(`INSERT INTO activity_logs (user_id, action, resource_type) VALUES ($1, 'login', 'auth')`, [sisterOwner.id])
+    )
+
+    await t.step('checks only the entries of the organization unless the caller is a platform admin', async () => {
+      const { rows: [{ organization_id: home }] } = await supabase.db.query<{ organization_id: string }>(
+        'SELECT organization_id FROM profiles WHERE id = $1',
+        [owner.id]
+      )
+
+      assert.deepEqual(await verifyChain(sisterOwner.id), { valid: true, problem: null })
+      assert.equal(await checkedCount(sisterOwner.id), await entryCount(sister.id))
+      assert.equal(await checkedCount(owner.id), await entryCount(home))
+
+      await supabase.db.query('INSERT INTO platform_admins (user_id) VALUES ($1)', [owner.id])
+      assert.equal(await checkedCount(owner.id), await entryCount())
+    })
+
+    await t.step('shows the retention preview only to platform admins', async () => {
+      const preview = (userId: string) =>
+        withClaims(supabase.db, { role: 'authenticated', sub: userId }, tx =>
+          tx.query('SELECT * FROM activity_log_retention_preview()')
+        )
+
+      await assert.rejects(preview(sisterOwner.id), /Missing permission logs.retention/)
+      assert.ok((await preview(owner.id)).rows.length > 0)
+    })
+
+    await t.step('reports an entry moved to another organization', async () => {
+      const { rows: [entry] } = await supabase.db.query<{ id: string, organization_id: string }>(
+        `SELECT id, organization_id FROM activity_logs WHERE user_id = $1 ORDER BY seq DESC LIMIT 1`,
+        [owner.id]
+      )
+      const moveTo = (organizationId: string) =>
+        supabase.db.transaction(async (tx) => {
+          await tx.query(`SELECT set_config('activity_logs.maintenance', 'on', true)`)
+          await tx.query('UPDATE activity_logs SET organization_id = $1 WHERE id = $2', [organizationId, entry.id])
+        })
+
+      await moveTo(sister.id)
+      try {
+        assert.deepEqual(await verifyChain(sisterOwner.id), { valid: false, problem: 'modified' })
+        assert.deepEqual(await verifyChain(owner.id), { valid: false, problem: 'modified' })
+      } finally {
+        await moveTo(entry.organization_id)
+      }
+      assert.deepEqual(await verifyChain(owner.id), { valid: true, problem: null })
+    })
+  } finally {
+    await supabase.stop()
+  }
+})
@@ -0,0 +1,56 @@
+import assert from 'node:assert/strict'
+import { SupabaseStandIn } from './_support/supabase.ts'
+import { withClaims } from './_support/database.ts'
+import { invokeFunction } from './_support/functions.ts'
+
+Deno.test('admin-users', async (t) => {
+  const supabase = await SupabaseStandIn.start()
+
+  const owner = await supabase.createAuthUser('admin-owner@example.com', 'correct horse battery')
+  await supabase.setRole(owner.id, 'owner')
+  const ownerSession = await supabase.createSession(owner.id)
+
+  try {
+    await t.step('refuses the access token a deactivated user still holds', async () => {
+      const user = await supabase.createAuthUser('co-owner@example.com', 'correct horse battery')
+      await supabase.setRole(user.id, 'owner')
+      const { access_token: accessToken } = await supabase.createSession(user.id)
+
+      // What the user's token can still do directly against PostgREST
+      const withToken = () =>
+        withClaims(supabase.db, { role: 'authenticated', sub: user.id }, async (tx) => {
+          const { rows: [access] } = await tx.query<{ manage_users: boolean, categories: number }>(
+            `SELECT has_permission('users.manage') AS manage_users, (SELECT count(*)::int FROM categories) AS categories`
+          )
+          const { rows: profile } = await tx.query<{ deactivated: boolean }>(
+            'SELECT deactivated_at IS NOT NULL AS deactivated FROM profiles WHERE id = $1',
+            [user.id]
+          )
+          return { ...access, profile }
+        })
+
+      const before = await withToken()
+      assert.equal(before.manage_users, true)
+      assert.ok(before.categories > 0)
+
+      const deactivated = await invokeFunction('admin-users', { action: 'deactivate', userId: user.id }, {
+        accessToken: ownerSession.access_token
+      })
+      assert.equal(deactivated.status, 200)
+
+      // The profile stays readable so the client can see why it is signed out
+      assert.deepEqual(await withToken(), { manage_users: false, categories: 0, profile: [{ deactivated: true }] })
+      await assert.rejects(
+        withClaims(supabase.db, { role: 'authenticated', sub: user.id }, tx =>
+          tx.query(`INSERT INTO activity_logs (user_id, action, resource_type) VALUES ($1, 'logout', 'auth')`, [user.id])
+        ),
+        /row-level security/
+      )
+
+      const refused = await invokeFunction('manage-2fa', { action: 'recovery_status' }, { accessToken })
+      assert.equal(refused.status, 401)
+    })
+  } finally {
+    await supabase.stop()
+  }
+})
@@ -0,0 +1,52 @@
+import assert from 'node:assert/strict'
+import { SupabaseStandIn } from './_support/supabase.ts'
+import { withClaims } from './_support/database.ts'
+import { invokeFunction } from './_support/functions.ts'
+import { createAdminClient, issueChallenge } from '../_shared/twoFactor.ts'
+
+// A client can send any x-forwarded-for it likes; only the hop the gateway appends is trusted
+Deno.test('client IP in activity logs', async (t) => {
+  const supabase = await SupabaseStandIn.start()
+
+  try {
+    await t.step('edge functions log the address the gateway appended', async () => {
+      const user = await supabase.createAuthUser('forged-ip@example.com', 'correct horse battery')
+      const { id: challengeId, code } = await issueChallenge(createAdminClient(), user.id)
+
+      await invokeFunction('verify-2fa', { challengeId, code: code === '000000' ? '000001' : '000000' }, {
+        headers: { 'x-forwarded-for': '10.0.0.1' },
+        ip: '203.0.113.10'
+      })
+
+      const { rows } = await supabase.db.query<{ ip_address: string }>(
+        `SELECT ip_address FROM activity_logs WHERE user_id = $1 AND action = 'login_failed'`,
+        [user.id]
+      )
+      assert.deepEqual(rows, [{ ip_address: '203.0.113.10' }])
+    })
+
+    await t.step('client inserts are stamped with the address the gateway appended', async () => {
+      const user = await supabase.createAuthUser('client-ip@example.com', 'correct horse battery')
+
+      await withClaims(
+        supabase.db,
+        { role: 'authenticated', sub: user.id },
+        tx => tx.query(`INSERT INTO activity_logs (user_id, action, resource_type, ip_address) VALUES ($1, 'logout', 'auth', '10.0.0.1')`, [user.id]),
+        { 'x-forwarded-for': '10.0.0.1, 198.51.100.20' }
+      )
+
+      const { rows } = await supabase.db.query<{ ip_address: string }>(
+        `SELECT ip_address FROM activity_logs WHERE user_id = $1 AND action = 'logout'`,
+        [user.id]
+      )
+      assert.deepEqual(rows, [{ ip_address: '198.51.100.20' }])
+    })
+
+    await t.step('logs without an address once the request that set the headers has ended', async () => {
+      const { rows } = await supabase.db.query<{ ip: string | null }>('SELECT request_client_ip() AS ip')
+      assert.deepEqual(rows, [{ ip: null }])
+    })
+  } finally {
+    await supabase.stop()
+  }
+})
@@ -0,0 +1,136 @@
+import assert from 'node:assert/strict'
+import { SupabaseStandIn } from './_support/supabase.ts'
+import { invokeFunction } from './_support/functions.ts'
+import { readOutbox, useTemporaryOutbox } from './_support/mail.ts'
+import { withClaims } from './_support/database.ts'
+
+Deno.test('invitations', async (t) => {
+  const supabase = await SupabaseStandIn.start()
+  const outboxDir = await useTemporaryOutbox()
+  Deno.env.set('APP_URL', 'https://app.test')
+
+  // The token only travels in the mail, so every step takes it from there
+  const invite = async (email: string, role: string, accessToken = ownerSession.access_token) => {
+    const { status, body } = await invokeFunction('invite-user', { action: 'invite', email, fullName: 'Invited User', role }, {
+      accessToken
+    })
+    assert.equal(status, 200)
+    assert.deepEqual(Object.keys(body).sort(), ['invitation', 'success'])
+
+    const mail = (await readOutbox(outboxDir)).findLast(message => message.to === email)
+    assert.ok(mail, `no mail sent to ${email}`)
+    const token = mail.text.match(/accept-invitation\?token=([\w-]+)/)?.[1]
+    assert.ok(token, 'no invitation link in the mail')
+    return { mail, token }
+  }
+
+  const owner = await supabase.createAuthUser('inviting-owner@example.com', 'correct horse battery')
+  await supabase.setRole(owner.id, 'owner')
+  const ownerSession = await supabase.createSession(owner.id)
+
+  try {
+    await t.step('mails the invitee a link whose token is stored only as a hash', async () => {
+      const { mail } = await invite('new-qa@example.com', 'qa')
+
+      assert.equal(mail.subject, 'Покана за AI Tools Platform')
+      assert.match(mail.text, /https:\/\/app\.test\/accept-invitation\?token=/)
+
+      const { rows } = await supabase.db.query<{ token_hash: string }>(
+        `SELECT token_hash FROM user_invitations WHERE email = 'new-qa@example.com'`
+      )
+      assert.equal(rows.length, 1)
+      assert.doesNotMatch(mail.text, new RegExp(rows[0].token_hash))
+    })
+
+    await t.step('creates the account with the invited role when the link is accepted', async () => {
+      const { token } = await invite('new-designer@example.com', 'designer')
+
+      const inspected = await invokeFunction('accept-invitation', { action: 'inspect', token })
+      assert.equal(inspected.status, 200)
+      assert.equal(inspected.body.invitation.role, 'designer')
+
+      const accepted = await invokeFunction('accept-invitation', {
+        action: 'accept',
+        token,
+        password: 'a long enough password',
+        fullName: 'New Designer'
+      })
+      assert.equal(accepted.status, 200)
+      assert.deepEqual(accepted.body, { success: true, confirmationRequired: true })
+
+      const { rows } = await supabase.db.query<{ role: string, full_name: string }>(
+        `SELECT role, full_name FROM profiles WHERE email = 'new-designer@example.com'`
+      )
+      assert.deepEqual(rows, [{ role: 'designer', full_name: 'New Designer' }])
+
+      // Opening the link proves nothing about the address until GoTrue's confirmation mail is opened
+      const { rows: [user] } = await supabase.db.query<{ metadata: Record<string, unknown>, email_confirmed_at: string | null }>(
+        `SELECT raw_user_meta_data AS metadata, email_confirmed_at FROM auth.users WHERE email = 'new-designer@example.com'`
+      )
+      assert.equal(user.metadata.role, undefined)
+      assert.equal(user.email_confirmed_at, null)
+
+      const reused = await invokeFunction('accept-invitation', { action: 'accept', token, password: 'a long enough password' })
+      assert.equal(reused.status, 410)
+      assert.equal(reused.body.reason, 'accepted')
+    })
+
+    await t.step('refuses an expired link', async () => {
+      const { token } = await invite('late@example.com', 'pm')
+      await supabase.db.query(
+        `UPDATE user_invitations SET expires_at = now() - interval '1 minute' WHERE email = 'late@example.com'`
+      )
+
+      for (const action of ['inspect', 'accept']) {
+        const { status, body } = await invokeFunction('accept-invitation', { action, token, password: 'a long enough password' })
+        assert.equal(status, 410)
+        assert.equal(body.reason, 'expired')
+      }
+
+      const { rows } = await supabase.db.query(`SELECT id FROM profiles WHERE email = 'late@example.com'`)
+      assert.equal(rows.length, 0)
+    })
+
+    await t.step('lets an existing account join only once it accepts while signed in', async () => {
+      const { rows: [sister] } = await supabase.db.query<{ id: string }>(
+        `INSERT INTO organizations (name) VALUES ('Sister company') RETURNING id`
+      )
+      const sisterOwner = await supabase.createAuthUser('sister-owner@example.com', 'correct horse battery')
+      await supabase.db.query(
+        `INSERT INTO organization_members (organization_id, user_id, role) VALUES ($1, $2, 'owner')`,
+        [sister.id, sisterOwner.id]
+      )
+      await withClaims(supabase.db, { role: 'authenticated', sub: sisterOwner.id }, tx =>
+        tx.query('UPDATE profiles SET organization_id = $1 WHERE id = $2', [sister.id, sisterOwner.id])
+      )
+
+      const existing = await supabase.createAuthUser('existing-pm@example.com', 'correct horse battery')
+      const { mail, token } = await invite('existing-pm@example.com', 'pm', (await supabase.createSession(sisterOwner.id)).access_token)
+      assert.match(mail.text, /Sister company/)
+
+      const membershipsIn = async (organizationId: string) => (await supabase.db.query<{ role: string }>(
+        'SELECT role FROM organization_members WHERE organization_id = $1 AND user_id = $2',
+        [organizationId, existing.id]
+      )).rows
+      assert.deepEqual(await membershipsIn(sister.id), [])
+
+      const signedOut = await invokeFunction('accept-invitation', { action: 'accept', token, password: 'a long enough password' })
+      assert.equal(signedOut.status, 409)
+      assert.equal(signedOut.body.reason, 'sign_in_required')
+
+      const someoneElse = await invokeFunction('accept-invitation', { action: 'join', token }, {
+        accessToken: ownerSession.access_token
+      })
+      assert.equal(someoneElse.status, 403)
+      assert.deepEqual(await membershipsIn(sister.id), [])
+
+      const joined = await invokeFunction('accept-invitation', { action: 'join', token }, {
+        accessToken: (await supabase.createSession(existing.id)).access_token
+      })
+      assert.equal(joined.status, 200)
+      assert.deepEqual(await membershipsIn(sister.id), [{ role: 'pm' }])
+    })
+  } finally {
+    await supabase.stop()
+  }
+})
@@ -0,0 +1,73 @@
+import assert from 'node:assert/strict'
+import { SupabaseStandIn } from './_support/supabase.ts'
+import { invokeFunction } from './_support/functions.ts'
+import { totpCode } from '../_shared/totp.ts'
+
+Deno.test('manage-2fa', async (t) => {
+  const supabase = await SupabaseStandIn.start()
+
+  const logsOf = async (userId: string) => {
+    const { rows } = await supabase.db.query<{ action: string, method: string | null }>(
+      `SELECT action, details->>'method' AS method FROM activity_logs
+       WHERE user_id = $1 AND action IN ('enable_2fa', 'disable_2fa', 'generate_recovery_codes')
+       ORDER BY created_at, id`,
+      [userId]
+    )
+    return rows
+  }
+
+  try {
+    await t.step('logs enabling and disabling email codes on the server', async () => {
+      const user = await supabase.createAuthUser('email-factor@example.com', 'correct horse battery')
+      const { access_token: accessToken } = await supabase.createSession(user.id)
+
+      const enabled = await invokeFunction('manage-2fa', { action: 'enable_email' }, { accessToken })
+      assert.equal(enabled.status, 200)
+      assert.deepEqual(enabled.body.methods, ['email'])
+
+      // Enabling again changes nothing and is not logged twice
+      await invokeFunction('manage-2fa', { action: 'enable_email' }, { accessToken })
+
+      const disabled = await invokeFunction('manage-2fa', { action: 'disable_email' }, { accessToken })
+      assert.equal(disabled.status, 200)
+      assert.deepEqual(disabled.body.methods, [])
+
+      assert.deepEqual(await logsOf(user.id), [
+        { action: 'enable_2fa', method: 'email' },
+        { action: 'disable_2fa', method: 'email' }
+      ])
+    })
+
+    await t.step('logs authenticator app and recovery code changes on the server', async () => {
+      const user = await supabase.createAuthUser('totp-factor@example.com', 'correct horse battery')
+      const { access_token: accessToken } = await supabase.createSession(user.id)
+
+      const started = await invokeFunction('manage-2fa', { action: 'totp_start' }, { accessToken })
+      assert.equal(started.status, 200)
+
+      const wrong = await invokeFunction('manage-2fa', { action: 'totp_confirm', code: '000000' }, { accessToken })
+      assert.equal(wrong.status, 400)
+
+      const confirmed = await invokeFunction('manage-2fa', {
+        action: 'totp_confirm',
+        code: await totpCode(started.body.secret)
+      }, { accessToken })
+      assert.equal(confirmed.status, 200)
+      assert.deepEqual(confirmed.body.methods, ['totp'])
+
+      const regenerated = await invokeFunction('manage-2fa', { action: 'regenerate_recovery_codes' }, { accessToken })
+      assert.equal(regenerated.status, 200)
+
+      const disabled = await invokeFunction('manage-2fa', { action: 'totp_disable' }, { accessToken })
+      assert.equal(disabled.status, 200)
+
+      assert.deepEqual(await logsOf(user.id), [
+        { action: 'enable_2fa', method: 'totp' },
+        { action: 'generate_recovery_codes', method: null },
+        { action: 'disable_2fa', method: 'totp' }
+      ])
+    })
+  } finally {
+    await supabase.stop()
+  }
+})
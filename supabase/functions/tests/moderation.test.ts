@@ -0,0 +1,119 @@
+import assert from 'node:assert/strict'
+import { SupabaseStandIn } from './_support/supabase.ts'
+import { withClaims } from './_support/database.ts'
+
+Deno.test('category-scoped moderators', async (t) => {
+  const supabase = await SupabaseStandIn.start()
+
+  const creator = await supabase.createAuthUser('tool-author@example.com', 'correct horse battery')
+  const moderator = await supabase.createAuthUser('scoped-moderator@example.com', 'correct horse battery')
+  await supabase.setRole(moderator.id, 'moderator')
+
+  const { rows: [{ organization_id: organizationId }] } = await supabase.db.query<{ organization_id: string }>(
+    'SELECT organization_id FROM profiles WHERE id = $1',
+    [creator.id]
+  )
+  const { rows: [inScope, outOfScope] } = await supabase.db.query<{ id: string }>(
+    'SELECT id FROM categories WHERE organization_id = $1 ORDER BY name LIMIT 2',
+    [organizationId]
+  )
+  await supabase.db.query(
+    'INSERT INTO moderation_scopes (user_id, category_id) VALUES ($1, $2)',
+    [moderator.id, inScope.id]
+  )
+
+  const createTool = async (categoryId: string, status: string) => {
+    const { rows: [tool] } = await supabase.db.query<{ id: string }>(
+      `INSERT INTO ai_tools (name, description, category_id, created_by, status, organization_id)
+       VALUES ('Scoped tool', 'Under review', $1, $2, $3, $4) RETURNING id`,
+      [categoryId, creator.id, status, organizationId]
+    )
+    return tool.id
+  }
+
+  const createComment = async (toolId: string) => {
+    const { rows: [comment] } = await supabase.db.query<{ id: string }>(
+      `INSERT INTO tool_comments (tool_id, user_id, content, organization_id)
+       VALUES ($1, $2, 'A comment', $3) RETURNING id`,
+      [toolId, creator.id, organizationId]
+    )
+    return comment.id
+  }
+
+  const asModerator = (sql: string, params: unknown[]) =>
+    withClaims(supabase.db, { role: 'authenticated', sub: moderator.id }, tx => tx.query(sql, params))
+
+  const statusOf = async (toolId: string) => (await supabase.db.query<{ status: string }>(
+    'SELECT status FROM ai_tools WHERE id = $1',
+    [toolId]
+  )).rows[0].status
+
+  const commentExists = async (commentId: string) => (await supabase.db.query(
+    'SELECT 1 FROM tool_comments WHERE id = $1',
+    [commentId]
+  )).rows.length === 1
+
+  try {
+    await t.step('approves and rejects tools in their categories', async () => {
+      const approved = await createTool(inScope.id, 'pending')
+      const rejected = await createTool(inScope.id, 'pending')
+
+      const approval = await asModerator(
+        `UPDATE ai_tools SET status = 'approved', approved_by = $2, approved_at = now() WHERE id = $1`,
+        [approved, moderator.id]
+      )
+      const rejection = await asModerator(
+        `UPDATE ai_tools SET status = 'rejected', rejection_reason = 'Duplicate' WHERE id = $1`,
+        [rejected]
+      )
+
+      assert.equal(approval.affectedRows, 1)
+      assert.equal(rejection.affectedRows, 1)
+      assert.equal(await statusOf(approved), 'approved')
+      assert.equal(await statusOf(rejected), 'rejected')
+    })
+
+    await t.step('cannot approve or reject tools in other categories', async () => {
+      const pending = await createTool(outOfScope.id, 'pending')
+      const published = await createTool(outOfScope.id, 'approved')
+
+      const approval = await asModerator(`UPDATE ai_tools SET status = 'approved' WHERE id = $1`, [pending])
+      const rejection = await asModerator(
+        `UPDATE ai_tools SET status = 'rejected', rejection_reason = 'Not here' WHERE id = $1`,
+        [published]
+      )
+
+      assert.equal(approval.affectedRows, 0)
+      assert.equal(rejection.affectedRows, 0)
+      assert.equal(await statusOf(pending), 'pending')
+      assert.equal(await statusOf(published), 'approved')
+    })
+
+    await t.step('deletes comments only on tools in their categories', async () => {
+      const inside = await createComment(await createTool(inScope.id, 'approved'))
+      const outside = await createComment(await createTool(outOfScope.id, 'approved'))
+
+      assert.equal((await asModerator('DELETE FROM tool_comments WHERE id = $1', [inside])).affectedRows, 1)
+      assert.equal((await asModerator('DELETE FROM tool_comments WHERE id = $1', [outside])).affectedRows, 0)
+
+      assert.equal(await commentExists(inside), false)
+      assert.equal(await commentExists(outside), true)
+    })
+
+    await t.step('cannot change anything but the review columns', async () => {
+      const tool = await createTool(inScope.id, 'pending')
+
+      await assert.rejects(
+        asModerator(`UPDATE ai_tools SET name = 'Renamed' WHERE id = $1`, [tool]),
+        /Moderators can only change the review status/
+      )
+      await assert.rejects(
+        asModerator(`UPDATE ai_tools SET status = 'approved', category_id = $2 WHERE id = $1`, [tool, outOfScope.id]),
+        /Moderators can only change the review status/
+      )
+      assert.equal(await statusOf(tool), 'pending')
+    })
+  } finally {
+    await supabase.stop()
+  }
+})
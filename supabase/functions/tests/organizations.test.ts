@@ -0,0 +1,137 @@
+import assert from 'node:assert/strict'
+import { SupabaseStandIn } from './_support/supabase.ts'
+import { withClaims } from './_support/database.ts'
+import { invokeFunction } from './_support/functions.ts'
+import { createAnonClient } from '../_shared/twoFactor.ts'
+
+Deno.test('organizations', async (t) => {
+  const supabase = await SupabaseStandIn.start()
+
+  const createOrganization = async (name: string) => {
+    const { rows: [organization] } = await supabase.db.query<{ id: string }>(
+      'INSERT INTO organizations (name) VALUES ($1) RETURNING id',
+      [name]
+    )
+    return organization.id
+  }
+
+  const switchTo = (userId: string, organizationId: string) =>
+    withClaims(supabase.db, { role: 'authenticated', sub: userId }, tx =>
+      tx.query('UPDATE profiles SET organization_id = $1 WHERE id = $2', [organizationId, userId])
+    )
+
+  try {
+    await t.step('makes the first account of an empty installation the owner of the first organization', async () => {
+      const { data, error } = await createAnonClient().auth.signUp({
+        email: 'first-owner@example.com',
+        password: 'correct horse battery'
+      })
+      assert.equal(error, null)
+
+      const { rows } = await supabase.db.query<{ name: string, role: string, platform_admin: boolean }>(
+        `SELECT organizations.name, organization_members.role,
+           EXISTS (SELECT 1 FROM platform_admins WHERE user_id = $1) AS platform_admin
+         FROM organization_members JOIN organizations ON organizations.id = organization_members.organization_id
+         WHERE organization_members.user_id = $1`,
+        [data.user!.id]
+      )
+      assert.deepEqual(rows, [{ name: 'AI Tools Platform', role: 'owner', platform_admin: true }])
+    })
+
+    await t.step('lets a member switch to another organization and takes the role from it', async () => {
+      const user = await supabase.createAuthUser('two-homes@example.com', 'correct horse battery')
+      const { rows: [home] } = await supabase.db.query<{ organization_id: string }>(
+        'SELECT organization_id FROM profiles WHERE id = $1',
+        [user.id]
+      )
+      const other = await createOrganization('Second home')
+      await supabase.db.query(
+        `INSERT INTO organization_members (organization_id, user_id, role) VALUES ($1, $2, 'pm')`,
+        [other, user.id]
+      )
+
+      const switched = await switchTo(user.id, other)
+      assert.equal(switched.affectedRows, 1)
+
+      const profileOf = async () => (await supabase.db.query<{ organization_id: string, role: string }>(
+        'SELECT organization_id, role FROM profiles WHERE id = $1',
+        [user.id]
+      )).rows[0]
+      assert.deepEqual(await profileOf(), { organization_id: other, role: 'pm' })
+
+      await switchTo(user.id, home.organization_id)
+      assert.deepEqual(await profileOf(), { organization_id: home.organization_id, role: 'frontend' })
+    })
+
+    await t.step('rejects switching to an organization the user does not belong to', async () => {
+      const user = await supabase.createAuthUser('outsider@example.com', 'correct horse battery')
+      const foreign = await createOrganization('Not yours')
+
+      await assert.rejects(switchTo(user.id, foreign), { code: '42501' })
+    })
+
+    await t.step('leaves account actions to the owners of the home organization', async () => {
+      const homeOwner = await supabase.createAuthUser('home-owner@example.com', 'correct horse battery')
+      await supabase.setRole(homeOwner.id, 'owner')
+      const member = await supabase.createAuthUser('shared-member@example.com', 'correct horse battery')
+
+      const sister = await createOrganization('Sister of the home')
+      const sisterOwner = await supabase.createAuthUser('sister-of-home-owner@example.com', 'correct horse battery')
+      await supabase.db.query(
+        `INSERT INTO organization_members (organization_id, user_id, role)
+         VALUES ($1, $2, 'owner'), ($1, $3, 'qa')`,
+        [sister, sisterOwner.id, member.id]
+      )
+      await switchTo(sisterOwner.id, sister)
+
+      const adminAction = async (actorId: string, body: Record<string, unknown>) =>
+        invokeFunction('admin-users', { userId: member.id, ...body }, {
+          accessToken: (await supabase.createSession(actorId)).access_token
+        })
+
+      const fromSister = await adminAction(sisterOwner.id, { action: 'force_logout' })
+      assert.equal(fromSister.status, 409)
+      assert.equal((await adminAction(sisterOwner.id, { action: 'change_role', role: 'pm' })).status, 200)
+
+      const { rows: roleChanges } = await supabase.db.query<{ user_id: string, new_role: string }>(
+        `SELECT user_id, details->>'new_role' AS new_role FROM activity_logs
+         WHERE action = 'change_role' AND resource_id = $1`,
+        [member.id]
+      )
+      assert.deepEqual(roleChanges, [{ user_id: sisterOwner.id, new_role: 'pm' }])
+
+      const fromHome = await adminAction(homeOwner.id, { action: 'force_logout' })
+      assert.equal(fromHome.status, 200)
+    })
+
+    await t.step('leaves deployment-wide settings to platform admins', async () => {
+      const organization = await createOrganization('Tenant with an owner')
+      const owner = await supabase.createAuthUser('tenant-owner@example.com', 'correct horse battery')
+      await supabase.db.query(
+        `INSERT INTO organization_members (organization_id, user_id, role) VALUES ($1, $2, 'owner')`,
+        [organization, owner.id]
+      )
+      await switchTo(owner.id, organization)
+
+      const requireTwoFactorForQa = () =>
+        withClaims(supabase.db, { role: 'authenticated', sub: owner.id }, tx =>
+          tx.query(`UPDATE two_factor_policies SET required = true WHERE role = 'qa'`)
+        )
+      const hasPermission = async (permission: string) => (await supabase.db.query<{ granted: boolean }>(
+        'SELECT user_has_permission($1, $2) AS granted',
+        [owner.id, permission]
+      )).rows[0].granted
+
+      assert.equal((await requireTwoFactorForQa()).affectedRows, 0)
+      assert.equal(await hasPermission('roles.manage'), false)
+      assert.equal(await hasPermission('users.manage'), true)
+
+      await supabase.db.query('INSERT INTO platform_admins (user_id) VALUES ($1)', [owner.id])
+
+      assert.equal((await requireTwoFactorForQa()).affectedRows, 1)
+      assert.equal(await hasPermission('roles.manage'), true)
+    })
+  } finally {
+    await supabase.stop()
+  }
+})
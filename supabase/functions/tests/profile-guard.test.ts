@@ -0,0 +1,110 @@
+import assert from 'node:assert/strict'
+import { SupabaseStandIn } from './_support/supabase.ts'
+import { withClaims } from './_support/database.ts'
+import { createAnonClient } from '../_shared/twoFactor.ts'
+
+// Privilege escalation paths that were open before the profile guard trigger
+Deno.test('profile guard', async (t) => {
+  const supabase = await SupabaseStandIn.start()
+
+  const profileOf = async (userId: string) => {
+    const { rows: [profile] } = await supabase.db.query<{ role: string, email: string }>(
+      'SELECT role, email FROM profiles WHERE id = $1',
+      [userId]
+    )
+    return profile
+  }
+
+  const asUser = (userId: string, statement: string, params: unknown[] = []) =>
+    withClaims(supabase.db, { role: 'authenticated', sub: userId }, tx => tx.query(statement, params))
+
+  try {
+    const user = await supabase.createAuthUser('plain-user@example.com', 'correct horse battery')
+
+    await t.step('rejects a user changing their own role', async () => {
+      await assert.rejects(
+        asUser(user.id, `UPDATE profiles SET role = 'owner' WHERE id = $1`, [user.id]),
+        { code: '42501' }
+      )
+      assert.equal((await profileOf(user.id)).role, 'frontend')
+    })
+
+    await t.step('rejects a user changing the email on their profile', async () => {
+      await assert.rejects(
+        asUser(user.id, `UPDATE profiles SET email = 'taken-over@example.com' WHERE id = $1`, [user.id]),
+        { code: '42501' }
+      )
+      assert.equal((await profileOf(user.id)).email, 'plain-user@example.com')
+    })
+
+    await t.step('does not let a user write roles on memberships or other profiles', async () => {
+      const other = await supabase.createAuthUser('other-user@example.com', 'correct horse battery')
+
+      const membership = await asUser(user.id, `UPDATE organization_members SET role = 'owner' WHERE user_id = $1`, [user.id])
+      assert.equal(membership.affectedRows, 0)
+
+      const otherProfile = await asUser(user.id, `UPDATE profiles SET role = 'owner' WHERE id = $1`, [other.id])
+      assert.equal(otherProfile.affectedRows, 0)
+
+      const { rows: [organization] } = await supabase.db.query<{ id: string }>(
+        `INSERT INTO organizations (name) VALUES ('Somewhere else') RETURNING id`
+      )
+      await assert.rejects(
+        asUser(user.id, `INSERT INTO organization_members (organization_id, user_id, role) VALUES ($1, $2, 'owner')`, [
+          organization.id,
+          user.id
+        ]),
+        { code: '42501' }
+      )
+
+      assert.equal((await profileOf(user.id)).role, 'frontend')
+      assert.equal((await profileOf(other.id)).role, 'frontend')
+    })
+
+    await t.step('rejects a sign-up without an invitation', async () => {
+      const { error } = await createAnonClient().auth.signUp({
+        email: 'uninvited@example.com',
+        password: 'correct horse battery',
+        options: { data: { full_name: 'Uninvited' } }
+      })
+      assert.match(error?.message ?? '', /Sign-up requires an invitation/)
+
+      // No account, so nothing to sign in with and no organization to read
+      const { rows } = await supabase.db.query(
+        `SELECT 1 FROM auth.users WHERE email = 'uninvited@example.com'
+         UNION ALL SELECT 1 FROM profiles WHERE email = 'uninvited@example.com'`
+      )
+      assert.deepEqual(rows, [])
+      const signIn = await createAnonClient().auth.signInWithPassword({
+        email: 'uninvited@example.com',
+        password: 'correct horse battery'
+      })
+      assert.equal(signIn.error?.message, 'Invalid login credentials')
+    })
+
+    await t.step('ignores a role in the sign-up metadata', async () => {
+      // Claimed the way accept-invitation claims it before signing the user up
+      await supabase.db.query(
+        `INSERT INTO user_invitations (email, role, token_hash, expires_at, accepted_at, organization_id)
+         SELECT 'self-promoted@example.com', 'frontend', 'self-promoted', now() + interval '7 days', now(), organization_id
+         FROM profiles WHERE id = $1`,
+        [user.id]
+      )
+      const { data, error } = await createAnonClient().auth.signUp({
+        email: 'self-promoted@example.com',
+        password: 'correct horse battery',
+        options: { data: { full_name: 'Self Promoted', role: 'owner' } }
+      })
+      assert.equal(error, null)
+
+      assert.equal((await profileOf(data.user!.id)).role, 'frontend')
+      const { rows } = await supabase.db.query<{ role: string }>(
+        'SELECT role FROM organization_members WHERE user_id = $1',
+        [data.user!.id]
+      )
+      assert.deepEqual(rows, [{ role: 'frontend' }])
+    })
+  } finally {
+    await supabase.stop()
+  }
+})
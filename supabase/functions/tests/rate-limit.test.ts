@@ -0,0 +1,63 @@
+import assert from 'node:assert/strict'
+import { SupabaseStandIn } from './_support/supabase.ts'
+import { invokeFunction } from './_support/functions.ts'
+import { createAdminClient, issueChallenge } from '../_shared/twoFactor.ts'
+
+Deno.test('verify-2fa rate limits', async (t) => {
+  const supabase = await SupabaseStandIn.start()
+  const admin = createAdminClient()
+  let userCount = 0
+
+  const challengeForNewUser = async () => {
+    userCount += 1
+    const user = await supabase.createAuthUser(`rate-limit-${userCount}@example.com`, 'correct horse battery')
+    const { id, code } = await issueChallenge(admin, user.id)
+    return { challengeId: id, code: code!, wrongCode: code === '000000' ? '000001' : '000000' }
+  }
+
+  try {
+    await t.step('locks the account whatever address the attempts come from', async () => {
+      const { challengeId, code, wrongCode } = await challengeForNewUser()
+
+      const statuses = []
+      for (let attempt = 1; attempt <= 4; attempt++) {
+        const { status } = await invokeFunction('verify-2fa', { challengeId, code: wrongCode }, { ip: `192.0.2.${attempt}` })
+        statuses.push(status)
+      }
+      assert.deepEqual(statuses, [400, 400, 400, 429])
+
+      const { status } = await invokeFunction('verify-2fa', { challengeId, code }, { ip: '192.0.2.5' })
+      assert.equal(status, 429)
+    })
+
+    await t.step('counts forged x-forwarded-for entries against the real address only', async () => {
+      const attackerIp = '198.51.100.66'
+      const victimIp = '198.51.100.77'
+
+      // Three failures per account stay below the account limit; the address limit is ten
+      const statuses = []
+      for (let account = 0; account < 4; account++) {
+        const { challengeId, wrongCode } = await challengeForNewUser()
+        for (let attempt = 0; attempt < 3; attempt++) {
+          const { status } = await invokeFunction('verify-2fa', { challengeId, code: wrongCode }, {
+            headers: { 'x-forwarded-for': account % 2 === 0 ? `10.0.${account}.${attempt}` : victimIp },
+            ip: attackerIp
+          })
+          statuses.push(status)
+        }
+      }
+      assert.deepEqual(statuses.slice(-2), [429, 429])
+
+      const { rows } = await supabase.db.query<{ identifier: string }>(
+        `SELECT identifier FROM auth_rate_limits WHERE identifier LIKE 'ip:10.%' OR identifier LIKE 'ip:198.51.100.%'`
+      )
+      assert.deepEqual(rows.map(row => row.identifier), [`ip:${attackerIp}`])
+
+      const victim = await challengeForNewUser()
+      const { status } = await invokeFunction('verify-2fa', { challengeId: victim.challengeId, code: victim.code }, { ip: victimIp })
+      assert.equal(status, 200)
+    })
+  } finally {
+    await supabase.stop()
+  }
+})
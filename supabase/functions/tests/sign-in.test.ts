@@ -0,0 +1,70 @@
+import assert from 'node:assert/strict'
+import { SupabaseStandIn } from './_support/supabase.ts'
+import { invokeFunction } from './_support/functions.ts'
+import { useTemporaryOutbox } from './_support/mail.ts'
+import { createAdminClient } from '../_shared/twoFactor.ts'
+
+Deno.test('sign-in', async (t) => {
+  const supabase = await SupabaseStandIn.start()
+  const outboxDir = await useTemporaryOutbox()
+
+  try {
+    await t.step('keeps the other sessions of a 2FA user when the password step succeeds', async () => {
+      const user = await supabase.createAuthUser('sign-in@example.com', 'correct horse battery')
+      await supabase.db.query(
+        `UPDATE profiles SET two_factor_enabled = true, two_factor_methods = '{email}' WHERE id = $1`,
+        [user.id]
+      )
+      const otherDevice = await supabase.createSession(user.id)
+
+      const { status, body } = await invokeFunction('sign-in', {
+        email: 'sign-in@example.com',
+        password: 'correct horse battery'
+      }, { ip: '198.51.100.1' })
+
+      assert.equal(status, 200)
+      assert.equal(body.twoFactorRequired, true)
+      assert.equal(body.session, undefined)
+
+      // Only the session of the other device is left; the password session was revoked
+      const { rows } = await supabase.db.query('SELECT id FROM auth.sessions WHERE user_id = $1', [user.id])
+      assert.equal(rows.length, 1)
+
+      const { error } = await createAdminClient().auth.getUser(otherDevice.access_token)
+      assert.equal(error, null)
+    })
+
+    await t.step('fails instead of logging the code when no mail delivery is configured', async () => {
+      const user = await supabase.createAuthUser('no-mailer@example.com', 'correct horse battery')
+      await supabase.db.query(
+        `UPDATE profiles SET two_factor_enabled = true, two_factor_methods = '{email}' WHERE id = $1`,
+        [user.id]
+      )
+
+      const logged: string[] = []
+      const { log, error } = console
+      console.log = (...args: unknown[]) => logged.push(args.join(' '))
+      console.error = (...args: unknown[]) => logged.push(args.join(' '))
+      Deno.env.delete('MAILER_OUTBOX_DIR')
+
+      try {
+        const { status, body } = await invokeFunction('sign-in', {
+          email: 'no-mailer@example.com',
+          password: 'correct horse battery'
+        }, { ip: '198.51.100.2' })
+
+        assert.equal(status, 500)
+        assert.equal(body.challengeId, undefined)
+      } finally {
+        console.log = log
+        console.error = error
+        Deno.env.set('MAILER_OUTBOX_DIR', outboxDir)
+      }
+
+      assert.ok(logged.length > 0)
+      assert.ok(logged.every(line => !/\b\d{6}\b/.test(line)), 'a code was written to the logs')
+    })
+  } finally {
+    await supabase.stop()
+  }
+})
@@ -0,0 +1,92 @@
+import assert from 'node:assert/strict'
+import { SupabaseStandIn } from './_support/supabase.ts'
+import { withClaims } from './_support/database.ts'
+
+Deno.test('tool visibility', async (t) => {
+  const supabase = await SupabaseStandIn.start()
+
+  const creator = await supabase.createAuthUser('visibility-author@example.com', 'correct horse battery')
+  const teammate = await supabase.createAuthUser('visibility-teammate@example.com', 'correct horse battery')
+  const outsider = await supabase.createAuthUser('visibility-outsider@example.com', 'correct horse battery')
+
+  const { rows: [{ organization_id: organizationId }] } = await supabase.db.query<{ organization_id: string }>(
+    'SELECT organization_id FROM profiles WHERE id = $1',
+    [creator.id]
+  )
+  const { rows: [category] } = await supabase.db.query<{ id: string }>(
+    'SELECT id FROM categories WHERE organization_id = $1 ORDER BY name LIMIT 1',
+    [organizationId]
+  )
+
+  const createTeam = async (name: string, members: string[]) => {
+    const { rows: [team] } = await supabase.db.query<{ id: string }>(
+      'INSERT INTO teams (name, created_by, organization_id) VALUES ($1, $2, $3) RETURNING id',
+      [name, creator.id, organizationId]
+    )
+    for (const member of members) {
+      await supabase.db.query('INSERT INTO team_members (team_id, user_id) VALUES ($1, $2)', [team.id, member])
+    }
+    return team.id
+  }
+
+  const createTool = async (visibility: string) => {
+    const { rows: [tool] } = await supabase.db.query<{ id: string }>(
+      `INSERT INTO ai_tools (name, description, category_id, created_by, status, visibility, organization_id)
+       VALUES ('Shared tool', 'Visible to some', $1, $2, 'approved', $3, $4) RETURNING id`,
+      [category.id, creator.id, visibility, organizationId]
+    )
+    return tool.id
+  }
+
+  const as = (userId: string) => ({
+    visible: async (toolId: string) => (await withClaims(
+      supabase.db,
+      { role: 'authenticated', sub: userId },
+      tx => tx.query('SELECT id FROM ai_tools WHERE id = $1', [toolId])
+    )).rows.length === 1,
+    share: (toolId: string, teamId: string) => withClaims(
+      supabase.db,
+      { role: 'authenticated', sub: userId },
+      tx => tx.query('INSERT INTO tool_teams (tool_id, team_id) VALUES ($1, $2)', [toolId, teamId])
+    )
+  })
+
+  try {
+    const team = await createTeam('Visibility team', [creator.id, teammate.id])
+
+    await t.step('shows organization tools to every member', async () => {
+      const tool = await createTool('org')
+
+      assert.equal(await as(creator.id).visible(tool), true)
+      assert.equal(await as(teammate.id).visible(tool), true)
+      assert.equal(await as(outsider.id).visible(tool), true)
+    })
+
+    await t.step('shows team tools only to the creator and the teams they are shared with', async () => {
+      const tool = await createTool('teams')
+      await as(creator.id).share(tool, team)
+
+      assert.equal(await as(creator.id).visible(tool), true)
+      assert.equal(await as(teammate.id).visible(tool), true)
+      assert.equal(await as(outsider.id).visible(tool), false)
+    })
+
+    await t.step('shows private tools only to the creator', async () => {
+      const tool = await createTool('private')
+
+      assert.equal(await as(creator.id).visible(tool), true)
+      assert.equal(await as(teammate.id).visible(tool), false)
+      assert.equal(await as(outsider.id).visible(tool), false)
+    })
+
+    await t.step('refuses to share a tool with a team the creator is not in', async () => {
+      const tool = await createTool('teams')
+      const otherTeam = await createTeam('Other team', [outsider.id])
+
+      await assert.rejects(as(creator.id).share(tool, otherTeam), /row-level security/)
+      assert.equal(await as(outsider.id).visible(tool), false)
+    })
+  } finally {
+    await supabase.stop()
+  }
+})
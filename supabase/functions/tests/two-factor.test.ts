@@ -0,0 +1,112 @@
+import assert from 'node:assert/strict'
+import { SupabaseStandIn } from './_support/supabase.ts'
+import {
+  createAdminClient,
+  hashCode,
+  issueChallenge,
+  MAX_CODE_ATTEMPTS,
+  regenerateRecoveryCodes,
+  verifyChallenge
+} from '../_shared/twoFactor.ts'
+
+const expireChallenge = (supabase: SupabaseStandIn, challengeId: string) =>
+  supabase.db.query(
+    `UPDATE two_factor_codes SET expires_at = now() - interval '1 minute' WHERE id = $1`,
+    [challengeId]
+  )
+
+Deno.test('two-factor challenges', async (t) => {
+  const supabase = await SupabaseStandIn.start()
+  const admin = createAdminClient()
+  let userCount = 0
+
+  const createUser = async () => {
+    userCount += 1
+    const user = await supabase.createAuthUser(`two-factor-${userCount}@example.com`, 'correct horse battery')
+    return user.id
+  }
+
+  try {
+    await t.step('stores only a hash of the code', async () => {
+      const userId = await createUser()
+      const { id, code } = await issueChallenge(admin, userId)
+
+      const { rows: [row] } = await supabase.db.query<{ code_hash: string }>(
+        'SELECT code_hash FROM two_factor_codes WHERE id = $1',
+        [id]
+      )
+
+      assert.notEqual(row.code_hash, code)
+      assert.equal(row.code_hash, await hashCode(userId, code!))
+    })
+
+    await t.step('accepts the issued code once', async () => {
+      const userId = await createUser()
+      const { id, code } = await issueChallenge(admin, userId)
+
+      assert.deepEqual(await verifyChallenge(admin, id, code!), { result: 'ok', userId })
+      assert.deepEqual(await verifyChallenge(admin, id, code!), { result: 'not_found' })
+    })
+
+    await t.step('rejects a wrong code and counts the attempt', async () => {
+      const userId = await createUser()
+      const { id, code } = await issueChallenge(admin, userId)
+      const wrongCode = code === '000000' ? '000001' : '000000'
+
+      assert.deepEqual(await verifyChallenge(admin, id, wrongCode), { result: 'invalid', userId })
+
+      const { rows: [row] } = await supabase.db.query<{ attempts: number, consumed_at: string | null }>(
+        'SELECT attempts, consumed_at FROM two_factor_codes WHERE id = $1',
+        [id]
+      )
+      assert.equal(row.attempts, 1)
+      assert.equal(row.consumed_at, null)
+
+      assert.equal((await verifyChallenge(admin, id, code!)).result, 'ok')
+    })
+
+    await t.step('locks the challenge after the maximum number of wrong codes', async () => {
+      const userId = await createUser()
+      const { id, code } = await issueChallenge(admin, userId)
+      const wrongCode = code === '000000' ? '000001' : '000000'
+
+      const results = []
+      for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS; attempt++) {
+        results.push((await verifyChallenge(admin, id, wrongCode)).result)
+      }
+
+      assert.deepEqual(results, [...Array(MAX_CODE_ATTEMPTS - 1).fill('invalid'), 'too_many_attempts'])
+      assert.equal((await verifyChallenge(admin, id, code!)).result, 'too_many_attempts')
+    })
+
+    await t.step('rejects an expired code', async () => {
+      const userId = await createUser()
+      const { id, code } = await issueChallenge(admin, userId)
+      await expireChallenge(supabase, id)
+
+      assert.deepEqual(await verifyChallenge(admin, id, code!), { result: 'expired', userId })
+    })
+
+    await t.step('supersedes the open challenge when a new one is issued', async () => {
+      const userId = await createUser()
+      const first = await issueChallenge(admin, userId)
+      const second = await issueChallenge(admin, userId)
+
+      assert.equal((await verifyChallenge(admin, first.id, first.code!)).result, 'not_found')
+      assert.equal((await verifyChallenge(admin, second.id, second.code!)).result, 'ok')
+    })
+
+    await t.step('accepts each recovery code once', async () => {
+      const userId = await createUser()
+      const [recoveryCode] = await regenerateRecoveryCodes(admin, userId)
+
+      const first = await issueChallenge(admin, userId, false)
+      assert.equal((await verifyChallenge(admin, first.id, recoveryCode.toLowerCase(), 'recovery')).result, 'ok')
+
+      const second = await issueChallenge(admin, userId, false)
+      assert.equal((await verifyChallenge(admin, second.id, recoveryCode, 'recovery')).result, 'invalid')
+    })
+  } finally {
+    await supabase.stop()
+  }
+})
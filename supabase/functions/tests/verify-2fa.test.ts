@@ -0,0 +1,96 @@
+import assert from 'node:assert/strict'
+import { SupabaseStandIn } from './_support/supabase.ts'
+import { invokeFunction } from './_support/functions.ts'
+import { createAdminClient, issueChallenge, verificationErrors } from '../_shared/twoFactor.ts'
+
+Deno.test('verify-2fa', async (t) => {
+  const supabase = await SupabaseStandIn.start()
+  const admin = createAdminClient()
+  let userCount = 0
+
+  // Every step gets its own account and address so rate limits do not carry over
+  const challengeForNewUser = async () => {
+    userCount += 1
+    const user = await supabase.createAuthUser(`verify-${userCount}@example.com`, 'correct horse battery')
+    const challenge = await issueChallenge(admin, user.id)
+    return { userId: user.id, challengeId: challenge.id, code: challenge.code!, ip: `203.0.113.${userCount}` }
+  }
+
+  const wrongCodeFor = (code: string) => code === '000000' ? '000001' : '000000'
+
+  try {
+    await t.step('exchanges the correct code for a verified session', async () => {
+      const { userId, challengeId, code, ip } = await challengeForNewUser()
+
+      const { status, body } = await invokeFunction('verify-2fa', { challengeId, code }, { ip })
+
+      assert.equal(status, 200)
+      assert.equal(body.success, true)
+      assert.ok(body.session.access_token)
+
+      const { rows } = await supabase.db.query(
+        'SELECT session_id FROM two_factor_sessions WHERE user_id = $1',
+        [userId]
+      )
+      assert.equal(rows.length, 1)
+    })
+
+    await t.step('rejects reusing a code that was already accepted', async () => {
+      const { challengeId, code, ip } = await challengeForNewUser()
+
+      assert.equal((await invokeFunction('verify-2fa', { challengeId, code }, { ip })).status, 200)
+
+      const { status, body } = await invokeFunction('verify-2fa', { challengeId, code }, { ip })
+      assert.equal(status, 400)
+      assert.equal(body.reason, 'not_found')
+      assert.equal(body.session, undefined)
+    })
+
+    await t.step('rejects a wrong code and logs the failure', async () => {
+      const { userId, challengeId, code, ip } = await challengeForNewUser()
+
+      const { status, body } = await invokeFunction('verify-2fa', { challengeId, code: wrongCodeFor(code) }, { ip })
+
+      assert.equal(status, 400)
+      assert.equal(body.reason, 'invalid')
+      assert.equal(body.error, verificationErrors.invalid.message)
+
+      const { rows } = await supabase.db.query<{ details: { stage: string } }>(
+        `SELECT details FROM activity_logs WHERE user_id = $1 AND action = 'login_failed'`,
+        [userId]
+      )
+      assert.equal(rows.length, 1)
+      assert.equal(rows[0].details.stage, '2fa')
+    })
+
+    await t.step('rejects codes that are not six digits without touching the challenge', async () => {
+      const { challengeId, ip } = await challengeForNewUser()
+
+      const { status, body } = await invokeFunction('verify-2fa', { challengeId, code: '12345a' }, { ip })
+
+      assert.equal(status, 400)
+      assert.equal(body.success, false)
+
+      const { rows: [row] } = await supabase.db.query<{ attempts: number }>(
+        'SELECT attempts FROM two_factor_codes WHERE id = $1',
+        [challengeId]
+      )
+      assert.equal(row.attempts, 0)
+    })
+
+    await t.step('rejects an expired code', async () => {
+      const { challengeId, code, ip } = await challengeForNewUser()
+      await supabase.db.query(
+        `UPDATE two_factor_codes SET expires_at = now() - interval '1 minute' WHERE id = $1`,
+        [challengeId]
+      )
+
+      const { status, body } = await invokeFunction('verify-2fa', { challengeId, code }, { ip })
+
+      assert.equal(status, 400)
+      assert.equal(body.reason, 'expired')
+    })
+  } finally {
+    await supabase.stop()
+  }
+})
@@ -1,10 +1,17 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-}
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts'
+import { logServerActivity } from '../_shared/activity.ts'
+import { clientAddressKey, getLockedUntil, rateLimitedResponse, registerAttemptFailure, resetRateLimit } from '../_shared/rateLimit.ts'
+import {
+  countRemainingRecoveryCodes,
+  createAdminClient,
+  createSessionForUser,
+  findChallenge,
+  findProfileById,
+  markSessionVerified,
+  verificationErrors,
+  verifyChallenge
+} from '../_shared/twoFactor.ts'
 
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
@@ -12,99 +19,106 @@ serve(async (req) => {
   }
 
   try {
-    const { email, code } = await req.json()
-
-    if (!email || !code) {
-      return new Response(
-        JSON.stringify({ error: 'Email and code are required' }),
-        { 
-          status: 400, 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-        }
-      )
+    const { challengeId, code, method = 'email' } = await req.json()
+
+    if (!challengeId || !code) {
+      return jsonResponse({ error: 'Challenge id and code are required' }, 400)
     }
 
-    // In a real implementation, you would:
-    // 1. Verify the code against stored value in database
-    // 2. Check if code hasn't expired
-    // 3. Generate a temporary authentication token
-    
-    // For demo purposes, we'll accept any 6-digit code
-    if (code.length !== 6 || !/^\d{6}$/.test(code)) {
-      return new Response(
-        JSON.stringify({ 
-          success: false, 
-          error: 'Невалиден код' 
-        }),
-        { 
-          status: 400, 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-        }
-      )
+    if (method !== 'email' && method !== 'totp' && method !== 'recovery') {
+      return jsonResponse({ error: 'Unsupported 2FA method' }, 400)
     }
 
-    // For demo purposes, accept any valid 6-digit code
-    console.log(`✅ Accepting 2FA code ${code} for ${email}`)
+    // Recovery codes have their own format and are normalized when matched
+    if (method !== 'recovery' && !/^\d{6}$/.test(code)) {
+      return jsonResponse({ success: false, error: verificationErrors.invalid.message }, 400)
+    }
 
     // Create Supabase client with service role key
-    const supabaseAdmin = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
-    )
-
-    // Get user by email
-    const { data: userData, error: userError } = await supabaseAdmin.auth.admin.listUsers()
-    
-    if (userError) {
-      throw userError
+    const supabaseAdmin = createAdminClient()
+
+    // Limits are per account (not per challenge), so requesting new challenges does not reset them
+    const challenge = await findChallenge(supabaseAdmin, challengeId)
+    const accountKey = `user:${challenge?.user_id ?? challengeId}`
+    const ipKey = clientAddressKey(req)
+
+    const lockedUntil = await getLockedUntil(supabaseAdmin, 'verify_code', [accountKey, ipKey])
+    if (lockedUntil) {
+      return rateLimitedResponse(lockedUntil)
     }
 
-    const user = userData.users.find(u => u.email === email)
-    
-    if (!user) {
-      return new Response(
-        JSON.stringify({ 
-          success: false, 
-          error: 'Потребителят не е намерен' 
-        }),
-        { 
-          status: 404, 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+    const { result, userId } = await verifyChallenge(supabaseAdmin, challengeId, code, method)
+
+    if (result === 'invalid' || result === 'too_many_attempts') {
+      const failure = await registerAttemptFailure(supabaseAdmin, 'verify_code', accountKey, ipKey)
+
+      await logServerActivity(supabaseAdmin, req, {
+        userId,
+        action: 'login_failed',
+        resourceType: 'auth',
+        details: {
+          stage: '2fa',
+          method,
+          failures: failure.failures
         }
-      )
+      })
+
+      if (failure.lockout) {
+        await logServerActivity(supabaseAdmin, req, {
+          userId,
+          action: 'account_locked',
+          resourceType: 'auth',
+          details: {
+            stage: '2fa',
+            locked_until: failure.lockedUntil?.toISOString()
+          }
+        })
+      }
+
+      if (failure.lockedUntil) {
+        return rateLimitedResponse(failure.lockedUntil)
+      }
     }
 
-    // Generate a temporary password for this session
-    const tempPassword = `temp_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-    
-    // Update user's password temporarily
-    const { error: updateError } = await supabaseAdmin.auth.admin.updateUserById(
-      user.id,
-      { password: tempPassword }
-    )
-
-    if (updateError) {
-      throw updateError
+    if (result !== 'ok' || !userId) {
+      const { message, status } = verificationErrors[result === 'ok' ? 'not_found' : result]
+      return jsonResponse({ success: false, error: message, reason: result }, status)
     }
 
-    return new Response(
-      JSON.stringify({ 
-        success: true,
-        tempPassword: tempPassword,
-        message: 'Кодът е потвърден успешно'
-      }),
-      { 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-      }
-    )
+    await resetRateLimit(supabaseAdmin, 'verify_code', [accountKey])
+
+    const profile = await findProfileById(supabaseAdmin, userId)
+    if (!profile) {
+      return jsonResponse({ success: false, error: 'Потребителят не е намерен' }, 404)
+    }
+
+    let remainingRecoveryCodes: number | undefined
+    if (method === 'recovery') {
+      remainingRecoveryCodes = await countRemainingRecoveryCodes(supabaseAdmin, profile.id)
+
+      await logServerActivity(supabaseAdmin, req, {
+        userId: profile.id,
+        action: 'use_recovery_code',
+        resourceType: 'auth',
+        resourceId: profile.id,
+        details: {
+          user_email: profile.email,
+          remaining_codes: remainingRecoveryCodes
+        }
+      })
+    }
+
+    const session = await createSessionForUser(supabaseAdmin, profile.email)
+    await markSessionVerified(supabaseAdmin, profile.id, session.access_token)
+
+    return jsonResponse({
+      success: true,
+      session,
+      remainingRecoveryCodes,
+      message: 'Кодът е потвърден успешно'
+    })
 
   } catch (error) {
-    return new Response(
-      JSON.stringify({ error: error.message }),
-      { 
-        status: 500, 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-      }
-    )
+    return jsonResponse({ error: error.message }, 500)
   }
-})
\ No newline at end of file
+})
@@ -0,0 +1,53 @@
+/*
+  # Persisted Two-Factor Codes
+
+  1. New Tables
+    - `two_factor_codes`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to profiles)
+      - `code_hash` (text, HMAC-SHA256 of the code, never the code itself)
+      - `expires_at` (timestamp, codes are valid for 10 minutes)
+      - `attempts` (integer, failed verification attempts)
+      - `max_attempts` (integer, attempts allowed before the code is burned)
+      - `consumed_at` (timestamp, set once the code is used or superseded)
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `two_factor_codes` without any policies, so only the
+      `send-2fa-code` and `verify-2fa` edge functions (service role) can
+      read or write codes
+
+  3. Indexes
+    - Index on user_id and created_at for looking up the latest open code
+*/
+
+CREATE TABLE IF NOT EXISTS two_factor_codes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  code_hash text NOT NULL,
+  expires_at timestamptz NOT NULL,
+  attempts integer NOT NULL DEFAULT 0,
+  max_attempts integer NOT NULL DEFAULT 5,
+  consumed_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_two_factor_codes_user_created ON two_factor_codes(user_id, created_at DESC);
+
+-- Enable RLS (no policies: service role only)
+ALTER TABLE two_factor_codes ENABLE ROW LEVEL SECURITY;
+
+-- Atomically count a failed attempt so parallel requests cannot exceed max_attempts
+CREATE OR REPLACE FUNCTION register_two_factor_attempt(code_id uuid)
+RETURNS integer
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE two_factor_codes
+  SET attempts = attempts + 1
+  WHERE id = code_id
+  RETURNING attempts;
+$$;
+
+REVOKE ALL ON FUNCTION register_two_factor_attempt(uuid) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,49 @@
+/*
+  # TOTP Authenticator Support
+
+  1. Schema Changes
+    - Add `two_factor_methods` (text array) to `profiles`, recording which
+      second factors are enrolled: 'email' and/or 'totp'
+    - Existing 2FA users are migrated to the 'email' method
+    - `two_factor_codes.code_hash` becomes optional: login challenges for
+      TOTP-only users carry no email code
+
+  2. New Tables
+    - `two_factor_totp_secrets`
+      - `user_id` (uuid, primary key, foreign key to profiles)
+      - `secret` (text, base32 encoded shared secret)
+      - `confirmed_at` (timestamp, null until the first code is verified)
+      - `last_used_step` (bigint, last accepted time step, prevents replay)
+      - `created_at` (timestamp)
+
+  3. Security
+    - Enable RLS on `two_factor_totp_secrets` without any policies, so secrets
+      are only reachable through the `manage-2fa` and `verify-2fa` edge functions
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'two_factor_methods'
+  ) THEN
+    ALTER TABLE profiles ADD COLUMN two_factor_methods text[] DEFAULT '{}' NOT NULL
+      CHECK (two_factor_methods <@ ARRAY['email', 'totp']);
+  END IF;
+END $$;
+
+UPDATE profiles SET two_factor_methods = ARRAY['email']
+WHERE two_factor_enabled = true AND two_factor_methods = '{}';
+
+ALTER TABLE two_factor_codes ALTER COLUMN code_hash DROP NOT NULL;
+
+CREATE TABLE IF NOT EXISTS two_factor_totp_secrets (
+  user_id uuid PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  secret text NOT NULL,
+  confirmed_at timestamptz,
+  last_used_step bigint,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS (no policies: service role only)
+ALTER TABLE two_factor_totp_secrets ENABLE ROW LEVEL SECURITY;
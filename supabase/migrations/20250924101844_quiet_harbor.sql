@@ -0,0 +1,43 @@
+/*
+  # Two-Factor Recovery Codes
+
+  1. New Tables
+    - `two_factor_recovery_codes`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to profiles)
+      - `code_hash` (text, HMAC-SHA256 of the normalized code)
+      - `used_at` (timestamp, set when the code is redeemed)
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `two_factor_recovery_codes` without any policies, so codes
+      are only reachable through the `manage-2fa` and `verify-2fa` edge functions
+
+  3. Activity Log Changes
+    - Add 'generate_recovery_codes' and 'use_recovery_code' to the allowed actions
+*/
+
+CREATE TABLE IF NOT EXISTS two_factor_recovery_codes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  code_hash text NOT NULL,
+  used_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(user_id, code_hash)
+);
+
+CREATE INDEX IF NOT EXISTS idx_two_factor_recovery_codes_user_id ON two_factor_recovery_codes(user_id);
+
+-- Enable RLS (no policies: service role only)
+ALTER TABLE two_factor_recovery_codes ENABLE ROW LEVEL SECURITY;
+
+-- Allow the new recovery code actions
+ALTER TABLE activity_logs DROP CONSTRAINT IF EXISTS activity_logs_action_check;
+ALTER TABLE activity_logs
+ADD CONSTRAINT activity_logs_action_check
+CHECK (action IN (
+  'login', 'logout', 'create_tool', 'update_tool', 'delete_tool',
+  'approve_tool', 'reject_tool', 'enable_2fa', 'disable_2fa',
+  'create_category', 'update_category', 'delete_category',
+  'generate_recovery_codes', 'use_recovery_code'
+));
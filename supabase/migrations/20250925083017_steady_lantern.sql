@@ -0,0 +1,171 @@
+/*
+  # Server-side 2FA enforcement
+
+  1. New Tables
+    - `two_factor_sessions`
+      - `session_id` (uuid, primary key, foreign key to auth.sessions)
+      - `user_id` (uuid, foreign key to profiles)
+      - `verified_at` (timestamp)
+
+  2. Functions
+    - `two_factor_satisfied()` - true when the caller has no 2FA enabled, or when the
+      `session_id` claim of the caller's JWT belongs to a session that passed `verify-2fa`
+
+  3. Security
+    - Enable RLS on `two_factor_sessions`; users can only check their own sessions
+    - Owner-only operations (approval, deleting categories and comments, managing
+      tool roles, reading all activity logs) require `two_factor_satisfied()`
+    - Profile updates require `two_factor_satisfied()`, so a password-only session
+      cannot switch 2FA off
+
+  4. Notes
+    - Rows are removed together with the auth session (sign out, expiry, revocation)
+*/
+
+CREATE TABLE IF NOT EXISTS two_factor_sessions (
+  session_id uuid PRIMARY KEY REFERENCES auth.sessions(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  verified_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_two_factor_sessions_user_id ON two_factor_sessions(user_id);
+
+ALTER TABLE two_factor_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own verified sessions"
+  ON two_factor_sessions
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- Whether the current request is allowed to perform privileged operations
+CREATE OR REPLACE FUNCTION two_factor_satisfied()
+RETURNS boolean AS $$
+  SELECT NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.two_factor_enabled = true
+  ) OR EXISTS (
+    SELECT 1 FROM two_factor_sessions
+    WHERE two_factor_sessions.user_id = auth.uid()
+    AND two_factor_sessions.session_id = NULLIF(auth.jwt() ->> 'session_id', '')::uuid
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Profiles
+DROP POLICY IF EXISTS "Users can update own profile" ON profiles;
+
+CREATE POLICY "Users can update own profile"
+  ON profiles
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = id AND two_factor_satisfied())
+  WITH CHECK (auth.uid() = id AND two_factor_satisfied());
+
+-- AI tools (owners see pending tools and approve/reject through updates)
+DROP POLICY IF EXISTS "Users can read approved tools and own tools" ON ai_tools;
+DROP POLICY IF EXISTS "Creator and owners can update tools" ON ai_tools;
+DROP POLICY IF EXISTS "Creator and owners can delete tools" ON ai_tools;
+
+CREATE POLICY "Users can read approved tools and own tools"
+  ON ai_tools
+  FOR SELECT
+  TO authenticated
+  USING (
+    status = 'approved' OR
+    created_by = auth.uid() OR
+    (
+      EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid() AND profiles.role = 'owner'
+      ) AND two_factor_satisfied()
+    )
+  );
+
+CREATE POLICY "Creator and owners can update tools"
+  ON ai_tools
+  FOR UPDATE
+  TO authenticated
+  USING (
+    created_by = auth.uid() OR
+    (
+      EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid() AND profiles.role = 'owner'
+      ) AND two_factor_satisfied()
+    )
+  );
+
+CREATE POLICY "Creator and owners can delete tools"
+  ON ai_tools
+  FOR DELETE
+  TO authenticated
+  USING (
+    created_by = auth.uid() OR
+    (
+      EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid() AND profiles.role = 'owner'
+      ) AND two_factor_satisfied()
+    )
+  );
+
+-- Categories
+DROP POLICY IF EXISTS "Owners can delete categories" ON categories;
+
+CREATE POLICY "Owners can delete categories"
+  ON categories
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'owner'
+    ) AND two_factor_satisfied()
+  );
+
+-- Tool roles
+DROP POLICY IF EXISTS "Owners can manage all tool_roles" ON tool_roles;
+
+CREATE POLICY "Owners can manage all tool_roles"
+  ON tool_roles
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'owner'
+    ) AND two_factor_satisfied()
+  );
+
+-- Activity logs
+DROP POLICY IF EXISTS "Owners can read all activity logs" ON activity_logs;
+
+CREATE POLICY "Owners can read all activity logs"
+  ON activity_logs
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'owner'
+    ) AND two_factor_satisfied()
+  );
+
+-- Comments
+DROP POLICY IF EXISTS "Owners can delete any comment" ON tool_comments;
+
+CREATE POLICY "Owners can delete any comment"
+  ON tool_comments
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'owner'
+    ) AND two_factor_satisfied()
+  );
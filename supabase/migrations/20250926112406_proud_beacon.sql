@@ -0,0 +1,73 @@
+/*
+  # Two-Factor Policy per Role
+
+  1. New Tables
+    - `two_factor_policies`
+      - `role` (text, primary key, one row per profile role)
+      - `required` (boolean, whether users in the role must have 2FA enabled)
+      - `updated_by` (uuid, foreign key to profiles)
+      - `updated_at` (timestamp)
+
+  2. Functions
+    - `two_factor_required_for(user_id)` - true when the user's role mandates 2FA
+
+  3. Security
+    - Enable RLS on `two_factor_policies`
+    - All authenticated users can read the policy (the client needs it to force enrollment)
+    - Only owners with a verified second factor can change it
+
+  4. Activity Log Changes
+    - Add 'update_2fa_policy' to the allowed actions
+*/
+
+CREATE TABLE IF NOT EXISTS two_factor_policies (
+  role text PRIMARY KEY CHECK (role IN ('owner', 'backend', 'frontend', 'pm', 'qa', 'designer')),
+  required boolean NOT NULL DEFAULT false,
+  updated_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO two_factor_policies (role)
+VALUES ('owner'), ('backend'), ('frontend'), ('pm'), ('qa'), ('designer')
+ON CONFLICT (role) DO NOTHING;
+
+ALTER TABLE two_factor_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read two factor policies"
+  ON two_factor_policies
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Owners can update two factor policies"
+  ON two_factor_policies
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'owner'
+    ) AND two_factor_satisfied()
+  );
+
+CREATE OR REPLACE FUNCTION two_factor_required_for(target_user_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM profiles
+    JOIN two_factor_policies ON two_factor_policies.role = profiles.role
+    WHERE profiles.id = target_user_id
+    AND two_factor_policies.required = true
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Allow logging policy changes
+ALTER TABLE activity_logs DROP CONSTRAINT IF EXISTS activity_logs_action_check;
+ALTER TABLE activity_logs
+ADD CONSTRAINT activity_logs_action_check
+CHECK (action IN (
+  'login', 'logout', 'create_tool', 'update_tool', 'delete_tool',
+  'approve_tool', 'reject_tool', 'enable_2fa', 'disable_2fa',
+  'create_category', 'update_category', 'delete_category',
+  'generate_recovery_codes', 'use_recovery_code', 'update_2fa_policy'
+));
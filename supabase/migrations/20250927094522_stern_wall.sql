@@ -0,0 +1,103 @@
+/*
+  # Rate Limiting for Login and 2FA
+
+  1. New Tables
+    - `auth_rate_limits`
+      - `scope` (text, 'login' | 'send_code' | 'verify_code')
+      - `identifier` (text, e.g. 'email:user@example.com', 'user:<uuid>', 'ip:1.2.3.4')
+      - `failures` (integer, failed attempts in the current window)
+      - `locked_until` (timestamp, requests are refused until then)
+      - `last_failure_at` (timestamp)
+      - primary key (`scope`, `identifier`)
+
+  2. Functions
+    - `auth_rate_limit_status(scope, identifiers)` - latest `locked_until` still in the future
+    - `register_auth_failure(scope, identifier, free_attempts)` - counts a failure and applies
+      exponential backoff (30s, 1m, 2m, ... capped at 30 minutes, which counts as a lockout)
+    - `reset_auth_rate_limit(scope, identifiers)` - clears counters after a success
+
+  3. Security
+    - Enable RLS on `auth_rate_limits` without any policies
+    - Functions are only executable by the service role (edge functions)
+
+  4. Activity Log Changes
+    - Add 'login_failed' and 'account_locked' to the allowed actions
+*/
+
+CREATE TABLE IF NOT EXISTS auth_rate_limits (
+  scope text NOT NULL CHECK (scope IN ('login', 'send_code', 'verify_code')),
+  identifier text NOT NULL,
+  failures integer NOT NULL DEFAULT 0,
+  locked_until timestamptz,
+  last_failure_at timestamptz,
+  PRIMARY KEY (scope, identifier)
+);
+
+ALTER TABLE auth_rate_limits ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION auth_rate_limit_status(p_scope text, p_identifiers text[])
+RETURNS timestamptz AS $$
+  SELECT max(locked_until)
+  FROM auth_rate_limits
+  WHERE scope = p_scope
+  AND identifier = ANY(p_identifiers)
+  AND locked_until > now();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Failures older than an hour start a new window
+CREATE OR REPLACE FUNCTION register_auth_failure(p_scope text, p_identifier text, p_free_attempts integer)
+RETURNS TABLE(failure_count integer, retry_at timestamptz, lockout boolean) AS $$
+DECLARE
+  current_failures integer;
+  delay interval;
+  max_delay interval := interval '30 minutes';
+BEGIN
+  INSERT INTO auth_rate_limits AS l (scope, identifier, failures, last_failure_at)
+  VALUES (p_scope, p_identifier, 1, now())
+  ON CONFLICT (scope, identifier) DO UPDATE
+  SET failures = CASE
+        WHEN l.last_failure_at < now() - interval '1 hour' THEN 1
+        ELSE l.failures + 1
+      END,
+      last_failure_at = now()
+  RETURNING l.failures INTO current_failures;
+
+  IF current_failures > p_free_attempts THEN
+    delay := LEAST(
+      interval '15 seconds' * power(2, LEAST(current_failures - p_free_attempts, 20)),
+      max_delay
+    );
+
+    UPDATE auth_rate_limits
+    SET locked_until = now() + delay
+    WHERE scope = p_scope AND identifier = p_identifier;
+
+    RETURN QUERY SELECT current_failures, now() + delay, delay >= max_delay;
+  ELSE
+    RETURN QUERY SELECT current_failures, NULL::timestamptz, false;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION reset_auth_rate_limit(p_scope text, p_identifiers text[])
+RETURNS void AS $$
+  DELETE FROM auth_rate_limits
+  WHERE scope = p_scope
+  AND identifier = ANY(p_identifiers);
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION auth_rate_limit_status(text, text[]) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION register_auth_failure(text, text, integer) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION reset_auth_rate_limit(text, text[]) FROM PUBLIC, anon, authenticated;
+
+-- Allow the new authentication events
+ALTER TABLE activity_logs DROP CONSTRAINT IF EXISTS activity_logs_action_check;
+ALTER TABLE activity_logs
+ADD CONSTRAINT activity_logs_action_check
+CHECK (action IN (
+  'login', 'logout', 'create_tool', 'update_tool', 'delete_tool',
+  'approve_tool', 'reject_tool', 'enable_2fa', 'disable_2fa',
+  'create_category', 'update_category', 'delete_category',
+  'generate_recovery_codes', 'use_recovery_code', 'update_2fa_policy',
+  'login_failed', 'account_locked'
+));
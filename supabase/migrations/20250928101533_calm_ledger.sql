@@ -0,0 +1,64 @@
+/*
+  # Server-stamped activity logs
+
+  1. Functions
+    - `request_client_ip()` - last address of the `x-forwarded-for` header that
+      PostgREST exposes through `request.headers`; the gateway appends it, the entries
+      before it are sent by the client and can be forged. The setting reads as an
+      empty string on a connection whose last request has ended
+    - `stamp_activity_log()` - BEFORE INSERT trigger function
+
+  2. Triggers
+    - `stamp_activity_log_before_insert` on `activity_logs`
+      - `created_at` and `details.timestamp` always come from the database clock
+      - for client inserts (`authenticated` role) `user_id` is forced to `auth.uid()`
+        and `ip_address` to the request IP
+      - edge functions (service role) keep the `user_id` and `ip_address` they pass
+
+  3. Security
+    - Replace the "System can insert activity logs" policy (`WITH CHECK (true)`) with
+      one that only accepts rows for the current user
+*/
+
+CREATE OR REPLACE FUNCTION request_client_ip()
+RETURNS text AS $$
+  SELECT NULLIF(
+    trim(regexp_replace(
+      COALESCE(NULLIF(current_setting('request.headers', true), ''), '{}')::json ->> 'x-forwarded-for',
+      '^.*,',
+      ''
+    )),
+    ''
+  );
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION stamp_activity_log()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.created_at := now();
+  NEW.details := COALESCE(NEW.details, '{}'::jsonb)
+    || jsonb_build_object('timestamp', to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'));
+
+  IF auth.role() = 'authenticated' THEN
+    NEW.user_id := auth.uid();
+    NEW.ip_address := request_client_ip();
+  ELSIF NEW.ip_address IS NULL THEN
+    NEW.ip_address := request_client_ip();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS stamp_activity_log_before_insert ON activity_logs;
+CREATE TRIGGER stamp_activity_log_before_insert
+  BEFORE INSERT ON activity_logs
+  FOR EACH ROW EXECUTE FUNCTION stamp_activity_log();
+
+DROP POLICY IF EXISTS "System can insert activity logs" ON activity_logs;
+
+CREATE POLICY "Users can insert own activity logs"
+  ON activity_logs
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
@@ -0,0 +1,227 @@
+/*
+  # Tamper-evident activity log
+
+  1. Schema Changes
+    - Add `seq` (bigint, unique, gap-free position in the chain)
+    - Add `prev_hash` (text, `entry_hash` of the previous entry)
+    - Add `entry_hash` (text, SHA-256 over the entry's content and `prev_hash`)
+    - Add `actor_id` (uuid, the `user_id` the entry was logged with). The hash covers
+      `actor_id` instead of `user_id`, so `activity_logs_user_id_fkey` can stay
+      ON DELETE SET NULL: deleting a profile keeps its entries and the chain intact
+
+  2. Functions
+    - `activity_log_entry_hash(entry)` - canonical hash of a single entry
+    - `stamp_activity_log()` - now also links every new entry into the chain; an
+      advisory lock serializes concurrent inserts
+    - `prevent_activity_log_changes()` - rejects UPDATE and DELETE unless the
+      transaction sets `activity_logs.maintenance = 'on'`; the only other change let
+      through is the foreign key setting `user_id` to NULL for a deleted profile
+    - `verify_activity_log_chain()` - walks the chain and reports the first gap,
+      broken link or modified entry (owners only); a `user_id` other than `actor_id`
+      counts as modified
+
+  3. Security
+    - Revoke UPDATE, DELETE and TRUNCATE on `activity_logs` from client roles
+
+  4. Notes
+    - Existing rows are linked in `created_at` order
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'activity_logs' AND column_name = 'seq'
+  ) THEN
+    ALTER TABLE activity_logs ADD COLUMN seq bigint;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'activity_logs' AND column_name = 'prev_hash'
+  ) THEN
+    ALTER TABLE activity_logs ADD COLUMN prev_hash text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'activity_logs' AND column_name = 'entry_hash'
+  ) THEN
+    ALTER TABLE activity_logs ADD COLUMN entry_hash text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'activity_logs' AND column_name = 'actor_id'
+  ) THEN
+    ALTER TABLE activity_logs ADD COLUMN actor_id uuid;
+  END IF;
+END $$;
+
+UPDATE activity_logs SET actor_id = user_id WHERE actor_id IS NULL;
+
+-- Every column that describes the event takes part in the hash. The user is hashed as
+-- actor_id, which keeps the id when the profile is deleted and user_id becomes NULL.
+CREATE OR REPLACE FUNCTION activity_log_entry_hash(entry activity_logs)
+RETURNS text AS $$
+  SELECT encode(extensions.digest(concat_ws('|',
+    entry.seq::text,
+    entry.prev_hash,
+    entry.id::text,
+    COALESCE(entry.actor_id::text, ''),
+    entry.action,
+    entry.resource_type,
+    COALESCE(entry.resource_id::text, ''),
+    COALESCE(entry.details, '{}'::jsonb)::text,
+    COALESCE(entry.ip_address, ''),
+    COALESCE(entry.user_agent, ''),
+    to_char(entry.created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"')
+  ), 'sha256'), 'hex');
+$$ LANGUAGE sql STABLE;
+
+-- Link existing rows before the chain is enforced
+DO $$
+DECLARE
+  entry activity_logs;
+  previous_hash text := repeat('0', 64);
+  next_seq bigint := 0;
+BEGIN
+  FOR entry IN SELECT * FROM activity_logs ORDER BY created_at, id LOOP
+    next_seq := next_seq + 1;
+    entry.seq := next_seq;
+    entry.prev_hash := previous_hash;
+    entry.entry_hash := activity_log_entry_hash(entry);
+
+    UPDATE activity_logs
+    SET seq = entry.seq, prev_hash = entry.prev_hash, entry_hash = entry.entry_hash
+    WHERE id = entry.id;
+
+    previous_hash := entry.entry_hash;
+  END LOOP;
+END $$;
+
+ALTER TABLE activity_logs ALTER COLUMN seq SET NOT NULL;
+ALTER TABLE activity_logs ALTER COLUMN prev_hash SET NOT NULL;
+ALTER TABLE activity_logs ALTER COLUMN entry_hash SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_activity_logs_seq ON activity_logs(seq);
+
+-- Stamping and chaining run in one trigger so the hash always covers the stamped values
+CREATE OR REPLACE FUNCTION stamp_activity_log()
+RETURNS TRIGGER AS $$
+DECLARE
+  last_entry record;
+BEGIN
+  NEW.created_at := now();
+  NEW.details := COALESCE(NEW.details, '{}'::jsonb)
+    || jsonb_build_object('timestamp', to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'));
+
+  IF auth.role() = 'authenticated' THEN
+    NEW.user_id := auth.uid();
+    NEW.ip_address := request_client_ip();
+  ELSIF NEW.ip_address IS NULL THEN
+    NEW.ip_address := request_client_ip();
+  END IF;
+
+  NEW.actor_id := NEW.user_id;
+
+  PERFORM pg_advisory_xact_lock(hashtext('activity_logs_chain'));
+
+  SELECT seq, entry_hash INTO last_entry
+  FROM activity_logs
+  ORDER BY seq DESC
+  LIMIT 1;
+
+  NEW.seq := COALESCE(last_entry.seq, 0) + 1;
+  NEW.prev_hash := COALESCE(last_entry.entry_hash, repeat('0', 64));
+  NEW.entry_hash := activity_log_entry_hash(NEW);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Append-only: history can only be changed inside an explicit maintenance transaction
+CREATE OR REPLACE FUNCTION prevent_activity_log_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(current_setting('activity_logs.maintenance', true), '') = 'on' THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  -- ON DELETE SET NULL for a deleted profile; actor_id still holds the hashed id.
+  -- Generated columns (search_vector) are not computed yet in a BEFORE trigger
+  IF TG_OP = 'UPDATE'
+    AND OLD.user_id IS NOT NULL
+    AND NEW.user_id IS NULL
+    AND to_jsonb(NEW) - ARRAY['user_id', 'search_vector'] = to_jsonb(OLD) - ARRAY['user_id', 'search_vector']
+    AND NOT EXISTS (SELECT 1 FROM profiles WHERE id = OLD.user_id)
+  THEN
+    RETURN NEW;
+  END IF;
+
+  RAISE EXCEPTION 'activity_logs is append-only'
+    USING ERRCODE = 'insufficient_privilege';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS prevent_activity_log_changes ON activity_logs;
+CREATE TRIGGER prevent_activity_log_changes
+  BEFORE UPDATE OR DELETE ON activity_logs
+  FOR EACH ROW EXECUTE FUNCTION prevent_activity_log_changes();
+
+REVOKE UPDATE, DELETE, TRUNCATE ON activity_logs FROM anon, authenticated;
+
+-- Deleting a profile keeps its entries: user_id becomes NULL, actor_id keeps the id
+ALTER TABLE activity_logs DROP CONSTRAINT IF EXISTS activity_logs_user_id_fkey;
+ALTER TABLE activity_logs
+ADD CONSTRAINT activity_logs_user_id_fkey
+FOREIGN KEY (user_id) REFERENCES profiles(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION verify_activity_log_chain()
+RETURNS TABLE(
+  valid boolean,
+  checked_count bigint,
+  last_seq bigint,
+  broken_seq bigint,
+  problem text
+) AS $$
+DECLARE
+  entry activity_logs;
+  expected_seq bigint := 1;
+  previous_hash text := repeat('0', 64);
+BEGIN
+  IF NOT (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'owner')
+    AND two_factor_satisfied()
+  ) THEN
+    RAISE EXCEPTION 'Only owners can verify the activity log'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  FOR entry IN SELECT * FROM activity_logs ORDER BY seq LOOP
+    IF entry.seq <> expected_seq THEN
+      RETURN QUERY SELECT false, expected_seq - 1, entry.seq, expected_seq, 'gap'::text;
+      RETURN;
+    END IF;
+
+    IF entry.prev_hash <> previous_hash THEN
+      RETURN QUERY SELECT false, expected_seq - 1, entry.seq, entry.seq, 'broken_link'::text;
+      RETURN;
+    END IF;
+
+    IF entry.entry_hash <> activity_log_entry_hash(entry)
+      OR (entry.user_id IS NOT NULL AND entry.user_id IS DISTINCT FROM entry.actor_id)
+    THEN
+      RETURN QUERY SELECT false, expected_seq - 1, entry.seq, entry.seq, 'modified'::text;
+      RETURN;
+    END IF;
+
+    previous_hash := entry.entry_hash;
+    expected_seq := expected_seq + 1;
+  END LOOP;
+
+  RETURN QUERY SELECT true, expected_seq - 1, expected_seq - 1, NULL::bigint, NULL::text;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
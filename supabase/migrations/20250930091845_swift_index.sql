@@ -0,0 +1,31 @@
+/*
+  # Activity log search and pagination
+
+  1. Schema Changes
+    - Add `search_vector` (tsvector, generated from the string and numeric values in `details`)
+
+  2. Indexes
+    - GIN index on `search_vector` for full-text search
+    - Composite index on (`created_at` DESC, `id` DESC) for keyset pagination; the
+      single-column `idx_activity_logs_*` indexes keep serving the filters
+
+  3. Notes
+    - The generated column is not part of the entry hash, so the chain stays valid
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'activity_logs' AND column_name = 'search_vector'
+  ) THEN
+    ALTER TABLE activity_logs
+    ADD COLUMN search_vector tsvector
+    GENERATED ALWAYS AS (
+      jsonb_to_tsvector('simple'::regconfig, COALESCE(details, '{}'::jsonb), '["string", "numeric"]'::jsonb)
+    ) STORED;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_activity_logs_search ON activity_logs USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_activity_logs_created_at_id ON activity_logs(created_at DESC, id DESC);
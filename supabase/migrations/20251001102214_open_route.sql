@@ -0,0 +1,18 @@
+/*
+  # Activity log exports
+
+  1. Activity Log Changes
+    - Add 'export_activity_logs' to the allowed actions, written by the
+      `export-activity-logs` edge function for every export
+*/
+
+ALTER TABLE activity_logs DROP CONSTRAINT IF EXISTS activity_logs_action_check;
+ALTER TABLE activity_logs
+ADD CONSTRAINT activity_logs_action_check
+CHECK (action IN (
+  'login', 'logout', 'create_tool', 'update_tool', 'delete_tool',
+  'approve_tool', 'reject_tool', 'enable_2fa', 'disable_2fa',
+  'create_category', 'update_category', 'delete_category',
+  'generate_recovery_codes', 'use_recovery_code', 'update_2fa_policy',
+  'login_failed', 'account_locked', 'export_activity_logs'
+));
@@ -0,0 +1,336 @@
+/*
+  # Activity log retention and archiving
+
+  1. New Tables
+    - `activity_log_retention_policies`
+      - `resource_type` (text, primary key)
+      - `retention_days` (integer, NULL keeps entries forever)
+      - `updated_by` (uuid, foreign key to profiles)
+      - `updated_at` (timestamp)
+    - `activity_logs_archive`
+      - same event columns as `activity_logs` (including `seq`, `actor_id` and the hashes)
+      - `archived_at` (timestamp)
+
+  2. Functions
+    - `activity_log_hash(...)` - entry hash over explicit fields, shared by live and archived rows
+    - `stamp_activity_log()` - continues the chain from the archive when the newest
+      entries have been purged
+    - `verify_activity_log_chain()` - now walks live and archived entries together
+    - `activity_log_retention_preview()` - per resource type: policy, number of entries
+      past retention and the oldest one (owners only)
+    - `purge_expired_activity_logs()` - moves expired entries to the archive inside a
+      maintenance transaction and writes a 'purge_activity_logs' system entry
+
+  3. Scheduling
+    - pg_cron job `purge-activity-logs` runs daily at 03:15
+
+  4. Security
+    - Enable RLS on both tables; owners with a verified second factor can read them,
+      and only they can change retention policies
+    - `purge_expired_activity_logs()` is not executable by client roles
+
+  5. Activity Log Changes
+    - Add 'update_retention_policy' and 'purge_activity_logs' to the allowed actions
+*/
+
+CREATE TABLE IF NOT EXISTS activity_log_retention_policies (
+  resource_type text PRIMARY KEY,
+  retention_days integer CHECK (retention_days IS NULL OR retention_days > 0),
+  updated_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO activity_log_retention_policies (resource_type)
+VALUES ('auth'), ('ai_tool'), ('category'), ('profile'), ('system')
+ON CONFLICT (resource_type) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS activity_logs_archive (
+  id uuid PRIMARY KEY,
+  user_id uuid,
+  actor_id uuid,
+  action text NOT NULL,
+  resource_type text NOT NULL,
+  resource_id uuid,
+  details jsonb DEFAULT '{}',
+  ip_address text,
+  user_agent text,
+  created_at timestamptz NOT NULL,
+  seq bigint NOT NULL UNIQUE,
+  prev_hash text NOT NULL,
+  entry_hash text NOT NULL,
+  archived_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_activity_logs_archive_created_at ON activity_logs_archive(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_activity_logs_archive_resource_type ON activity_logs_archive(resource_type);
+
+ALTER TABLE activity_log_retention_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE activity_logs_archive ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can read retention policies"
+  ON activity_log_retention_policies
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'owner'
+    )
+  );
+
+CREATE POLICY "Owners can update retention policies"
+  ON activity_log_retention_policies
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'owner'
+    ) AND two_factor_satisfied()
+  );
+
+CREATE POLICY "Owners can read archived activity logs"
+  ON activity_logs_archive
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'owner'
+    ) AND two_factor_satisfied()
+  );
+
+-- Same canonical form as before, on explicit fields so archived rows can be checked too
+CREATE OR REPLACE FUNCTION activity_log_hash(
+  p_seq bigint,
+  p_prev_hash text,
+  p_id uuid,
+  p_actor_id uuid,
+  p_action text,
+  p_resource_type text,
+  p_resource_id uuid,
+  p_details jsonb,
+  p_ip_address text,
+  p_user_agent text,
+  p_created_at timestamptz
+)
+RETURNS text AS $$
+  SELECT encode(extensions.digest(concat_ws('|',
+    p_seq::text,
+    p_prev_hash,
+    p_id::text,
+    COALESCE(p_actor_id::text, ''),
+    p_action,
+    p_resource_type,
+    COALESCE(p_resource_id::text, ''),
+    COALESCE(p_details, '{}'::jsonb)::text,
+    COALESCE(p_ip_address, ''),
+    COALESCE(p_user_agent, ''),
+    to_char(p_created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"')
+  ), 'sha256'), 'hex');
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION activity_log_entry_hash(entry activity_logs)
+RETURNS text AS $$
+  SELECT activity_log_hash(
+    entry.seq, entry.prev_hash, entry.id, entry.actor_id, entry.action, entry.resource_type,
+    entry.resource_id, entry.details, entry.ip_address, entry.user_agent, entry.created_at
+  );
+$$ LANGUAGE sql STABLE;
+
+-- The chain head may have been archived, so the last entry is looked up in both tables
+CREATE OR REPLACE FUNCTION stamp_activity_log()
+RETURNS TRIGGER AS $$
+DECLARE
+  last_entry record;
+BEGIN
+  NEW.created_at := now();
+  NEW.details := COALESCE(NEW.details, '{}'::jsonb)
+    || jsonb_build_object('timestamp', to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'));
+
+  IF auth.role() = 'authenticated' THEN
+    NEW.user_id := auth.uid();
+    NEW.ip_address := request_client_ip();
+  ELSIF NEW.ip_address IS NULL THEN
+    NEW.ip_address := request_client_ip();
+  END IF;
+
+  NEW.actor_id := NEW.user_id;
+
+  PERFORM pg_advisory_xact_lock(hashtext('activity_logs_chain'));
+
+  SELECT seq, entry_hash INTO last_entry
+  FROM (
+    (SELECT seq, entry_hash FROM activity_logs ORDER BY seq DESC LIMIT 1)
+    UNION ALL
+    (SELECT seq, entry_hash FROM activity_logs_archive ORDER BY seq DESC LIMIT 1)
+  ) AS heads
+  ORDER BY seq DESC
+  LIMIT 1;
+
+  NEW.seq := COALESCE(last_entry.seq, 0) + 1;
+  NEW.prev_hash := COALESCE(last_entry.entry_hash, repeat('0', 64));
+  NEW.entry_hash := activity_log_entry_hash(NEW);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION verify_activity_log_chain()
+RETURNS TABLE(
+  valid boolean,
+  checked_count bigint,
+  last_seq bigint,
+  broken_seq bigint,
+  problem text
+) AS $$
+DECLARE
+  entry record;
+  expected_seq bigint := 1;
+  previous_hash text := repeat('0', 64);
+BEGIN
+  IF NOT (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'owner')
+    AND two_factor_satisfied()
+  ) THEN
+    RAISE EXCEPTION 'Only owners can verify the activity log'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  FOR entry IN
+    SELECT id, seq, prev_hash, entry_hash, user_id, actor_id, action, resource_type, resource_id,
+           details, ip_address, user_agent, created_at
+    FROM activity_logs
+    UNION ALL
+    SELECT id, seq, prev_hash, entry_hash, user_id, actor_id, action, resource_type, resource_id,
+           details, ip_address, user_agent, created_at
+    FROM activity_logs_archive
+    ORDER BY seq
+  LOOP
+    IF entry.seq <> expected_seq THEN
+      RETURN QUERY SELECT false, expected_seq - 1, entry.seq, expected_seq, 'gap'::text;
+      RETURN;
+    END IF;
+
+    IF entry.prev_hash <> previous_hash THEN
+      RETURN QUERY SELECT false, expected_seq - 1, entry.seq, entry.seq, 'broken_link'::text;
+      RETURN;
+    END IF;
+
+    IF entry.entry_hash <> activity_log_hash(
+      entry.seq, entry.prev_hash, entry.id, entry.actor_id, entry.action, entry.resource_type,
+      entry.resource_id, entry.details, entry.ip_address, entry.user_agent, entry.created_at
+    ) OR (entry.user_id IS NOT NULL AND entry.user_id IS DISTINCT FROM entry.actor_id) THEN
+      RETURN QUERY SELECT false, expected_seq - 1, entry.seq, entry.seq, 'modified'::text;
+      RETURN;
+    END IF;
+
+    previous_hash := entry.entry_hash;
+    expected_seq := expected_seq + 1;
+  END LOOP;
+
+  RETURN QUERY SELECT true, expected_seq - 1, expected_seq - 1, NULL::bigint, NULL::text;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION activity_log_retention_preview()
+RETURNS TABLE(
+  resource_type text,
+  retention_days integer,
+  expired_count bigint,
+  oldest_expired_at timestamptz
+) AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'owner') THEN
+    RAISE EXCEPTION 'Only owners can preview retention'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.resource_type,
+    p.retention_days,
+    count(l.id),
+    min(l.created_at)
+  FROM activity_log_retention_policies p
+  LEFT JOIN activity_logs l
+    ON l.resource_type = p.resource_type
+    AND p.retention_days IS NOT NULL
+    AND l.created_at < now() - make_interval(days => p.retention_days)
+  GROUP BY p.resource_type, p.retention_days
+  ORDER BY p.resource_type;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION purge_expired_activity_logs()
+RETURNS jsonb AS $$
+DECLARE
+  policy record;
+  moved integer;
+  total integer := 0;
+  summary jsonb := '{}'::jsonb;
+BEGIN
+  -- Allows the DELETE past prevent_activity_log_changes for this transaction only
+  PERFORM set_config('activity_logs.maintenance', 'on', true);
+
+  FOR policy IN
+    SELECT resource_type, retention_days
+    FROM activity_log_retention_policies
+    WHERE retention_days IS NOT NULL
+  LOOP
+    WITH expired AS (
+      DELETE FROM activity_logs
+      WHERE activity_logs.resource_type = policy.resource_type
+      AND activity_logs.created_at < now() - make_interval(days => policy.retention_days)
+      RETURNING id, user_id, actor_id, action, resource_type, resource_id, details, ip_address,
+                user_agent, created_at, seq, prev_hash, entry_hash
+    )
+    INSERT INTO activity_logs_archive (
+      id, user_id, actor_id, action, resource_type, resource_id, details, ip_address,
+      user_agent, created_at, seq, prev_hash, entry_hash
+    )
+    SELECT * FROM expired;
+
+    GET DIAGNOSTICS moved = ROW_COUNT;
+    total := total + moved;
+    summary := summary || jsonb_build_object(policy.resource_type, moved);
+  END LOOP;
+
+  PERFORM set_config('activity_logs.maintenance', 'off', true);
+
+  INSERT INTO activity_logs (user_id, action, resource_type, details)
+  VALUES (NULL, 'purge_activity_logs', 'system', jsonb_build_object(
+    'archived', summary,
+    'total', total
+  ));
+
+  RETURN jsonb_build_object('archived', summary, 'total', total);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION purge_expired_activity_logs() FROM PUBLIC, anon, authenticated;
+
+-- Daily purge
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'purge-activity-logs',
+  '15 3 * * *',
+  'SELECT purge_expired_activity_logs()'
+);
+
+-- Allow the retention actions
+ALTER TABLE activity_logs DROP CONSTRAINT IF EXISTS activity_logs_action_check;
+ALTER TABLE activity_logs
+ADD CONSTRAINT activity_logs_action_check
+CHECK (action IN (
+  'login', 'logout', 'create_tool', 'update_tool', 'delete_tool',
+  'approve_tool', 'reject_tool', 'enable_2fa', 'disable_2fa',
+  'create_category', 'update_category', 'delete_category',
+  'generate_recovery_codes', 'use_recovery_code', 'update_2fa_policy',
+  'login_failed', 'account_locked', 'export_activity_logs',
+  'update_retention_policy', 'purge_activity_logs'
+));
@@ -0,0 +1,123 @@
+/*
+  # Activity action and resource type registry
+
+  1. New Tables
+    - `activity_resource_types`
+      - `resource_type` (text, primary key)
+      - `label` (text)
+    - `activity_action_types`
+      - `action` (text, primary key)
+      - `label` (text)
+      - `severity` (text, info/notice/warning/critical)
+      - `client_insertable` (boolean) - whether a user session may write the action
+        itself; everything else is only written by edge functions and triggers
+
+  2. Schema Changes
+    - `activity_logs.action` and `activity_logs.resource_type` reference the lookup
+      tables instead of the `activity_logs_action_check` and
+      `activity_logs_resource_type_check` constraints
+    - `activity_log_retention_policies.resource_type` references `activity_resource_types`
+
+  3. Security
+    - Enable RLS on both tables; any authenticated user can read them, changes only
+      come from migrations
+    - "Users can insert own activity logs" only accepts client-insertable actions, so a
+      session cannot forge entries such as 'login_failed' or 'account_locked'
+
+  4. Notes
+    - Rows mirror `src/lib/activityRegistry.ts`; a new auditable action is one row
+      here plus one registry entry
+*/
+
+CREATE TABLE IF NOT EXISTS activity_resource_types (
+  resource_type text PRIMARY KEY,
+  label text NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS activity_action_types (
+  action text PRIMARY KEY,
+  label text NOT NULL,
+  severity text NOT NULL DEFAULT 'info' CHECK (severity IN ('info', 'notice', 'warning', 'critical')),
+  client_insertable boolean NOT NULL DEFAULT false
+);
+
+INSERT INTO activity_resource_types (resource_type, label) VALUES
+  ('auth', 'Автентикация'),
+  ('ai_tool', 'AI Инструмент'),
+  ('category', 'Категория'),
+  ('profile', 'Профил'),
+  ('system', 'Система')
+ON CONFLICT (resource_type) DO UPDATE SET label = EXCLUDED.label;
+
+INSERT INTO activity_action_types (action, label, severity, client_insertable) VALUES
+  ('login', 'Влизане в системата', 'info', true),
+  ('logout', 'Излизане от системата', 'info', true),
+  ('create_tool', 'Създаване на инструмент', 'info', true),
+  ('update_tool', 'Редактиране на инструмент', 'info', false),
+  ('delete_tool', 'Изтриване на инструмент', 'notice', true),
+  ('approve_tool', 'Одобряване на инструмент', 'info', true),
+  ('reject_tool', 'Отхвърляне на инструмент', 'notice', true),
+  ('enable_2fa', 'Активиране на 2FA', 'info', false),
+  ('disable_2fa', 'Деактивиране на 2FA', 'notice', false),
+  ('create_category', 'Създаване на категория', 'info', false),
+  ('update_category', 'Редактиране на категория', 'info', false),
+  ('delete_category', 'Изтриване на категория', 'notice', false),
+  ('generate_recovery_codes', 'Генериране на кодове за възстановяване', 'info', false),
+  ('use_recovery_code', 'Вход с код за възстановяване', 'warning', false),
+  ('update_2fa_policy', 'Промяна на 2FA политика', 'notice', true),
+  ('login_failed', 'Неуспешен опит за вход', 'warning', false),
+  ('account_locked', 'Временно заключен акаунт', 'critical', false),
+  ('export_activity_logs', 'Експорт на лога на активността', 'info', false),
+  ('update_retention_policy', 'Промяна на срока за съхранение на логове', 'notice', true),
+  ('purge_activity_logs', 'Архивиране на изтекли логове', 'info', false)
+ON CONFLICT (action) DO UPDATE
+SET label = EXCLUDED.label, severity = EXCLUDED.severity, client_insertable = EXCLUDED.client_insertable;
+
+ALTER TABLE activity_resource_types ENABLE ROW LEVEL SECURITY;
+ALTER TABLE activity_action_types ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read activity resource types"
+  ON activity_resource_types
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can read activity action types"
+  ON activity_action_types
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Sessions may only log what the client logs itself
+DROP POLICY IF EXISTS "Users can insert own activity logs" ON activity_logs;
+CREATE POLICY "Users can insert own activity logs"
+  ON activity_logs
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM activity_action_types
+      WHERE activity_action_types.action = activity_logs.action
+      AND activity_action_types.client_insertable
+    )
+  );
+
+-- Lookup tables replace the hard-coded value lists
+ALTER TABLE activity_logs DROP CONSTRAINT IF EXISTS activity_logs_action_check;
+ALTER TABLE activity_logs DROP CONSTRAINT IF EXISTS activity_logs_resource_type_check;
+
+ALTER TABLE activity_logs DROP CONSTRAINT IF EXISTS activity_logs_action_fkey;
+ALTER TABLE activity_logs
+ADD CONSTRAINT activity_logs_action_fkey
+FOREIGN KEY (action) REFERENCES activity_action_types(action);
+
+ALTER TABLE activity_logs DROP CONSTRAINT IF EXISTS activity_logs_resource_type_fkey;
+ALTER TABLE activity_logs
+ADD CONSTRAINT activity_logs_resource_type_fkey
+FOREIGN KEY (resource_type) REFERENCES activity_resource_types(resource_type);
+
+ALTER TABLE activity_log_retention_policies DROP CONSTRAINT IF EXISTS activity_log_retention_policies_resource_type_fkey;
+ALTER TABLE activity_log_retention_policies
+ADD CONSTRAINT activity_log_retention_policies_resource_type_fkey
+FOREIGN KEY (resource_type) REFERENCES activity_resource_types(resource_type) ON DELETE CASCADE;
@@ -0,0 +1,133 @@
+/*
+  # Audit ratings, comments and role changes
+
+  1. Registry
+    - New resource type 'comment'
+    - New actions 'rate_tool', 'create_comment', 'update_comment', 'delete_comment'
+      and 'change_role'
+    - 'comment' gets a retention policy row (kept forever by default)
+
+  2. Functions
+    - `log_profile_role_change()` - AFTER UPDATE trigger on `profiles` that records
+      the old and new role, whoever changes it (UI, edge function or SQL)
+    - `log_tool_rating_change()` - AFTER INSERT/UPDATE/DELETE trigger on
+      `tool_ratings`; 'rate_tool' with the old and new rating
+    - `log_tool_comment_change()` - AFTER INSERT/UPDATE/DELETE trigger on
+      `tool_comments`; 'create_comment', 'update_comment' (old and new content) and
+      'delete_comment' (the deleted content and its author)
+
+  3. Notes
+    - Ratings and comments are audited by the database, so writes that skip the UI
+      are recorded too
+    - Rows removed by a cascading tool delete are not logged; 'delete_tool' covers them
+*/
+
+INSERT INTO activity_resource_types (resource_type, label) VALUES
+  ('comment', 'Коментар')
+ON CONFLICT (resource_type) DO UPDATE SET label = EXCLUDED.label;
+
+INSERT INTO activity_action_types (action, label, severity) VALUES
+  ('rate_tool', 'Оценяване на инструмент', 'info'),
+  ('create_comment', 'Добавяне на коментар', 'info'),
+  ('update_comment', 'Редактиране на коментар', 'info'),
+  ('delete_comment', 'Изтриване на коментар', 'notice'),
+  ('change_role', 'Промяна на роля', 'warning')
+ON CONFLICT (action) DO UPDATE SET label = EXCLUDED.label, severity = EXCLUDED.severity;
+
+INSERT INTO activity_log_retention_policies (resource_type)
+VALUES ('comment')
+ON CONFLICT (resource_type) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION log_profile_role_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- user_id is the actor; NULL when the change does not come from a signed-in user
+  INSERT INTO activity_logs (user_id, action, resource_type, resource_id, details)
+  VALUES (auth.uid(), 'change_role', 'profile', NEW.id, jsonb_build_object(
+    'email', NEW.email,
+    'full_name', NEW.full_name,
+    'old_role', OLD.role,
+    'new_role', NEW.role
+  ));
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS log_profile_role_change ON profiles;
+CREATE TRIGGER log_profile_role_change
+  AFTER UPDATE OF role ON profiles
+  FOR EACH ROW
+  WHEN (OLD.role IS DISTINCT FROM NEW.role)
+  EXECUTE FUNCTION log_profile_role_change();
+
+CREATE OR REPLACE FUNCTION log_tool_rating_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  rated_tool_id uuid := COALESCE(NEW.tool_id, OLD.tool_id);
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.rating = NEW.rating THEN
+    RETURN NULL;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM ai_tools WHERE id = rated_tool_id) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO activity_logs (user_id, action, resource_type, resource_id, details)
+  VALUES (auth.uid(), 'rate_tool', 'ai_tool', rated_tool_id, jsonb_build_object(
+    'rated_by', COALESCE(NEW.user_id, OLD.user_id),
+    'old_rating', CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE OLD.rating END,
+    'new_rating', CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE NEW.rating END
+  ));
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS log_tool_rating_change ON tool_ratings;
+CREATE TRIGGER log_tool_rating_change
+  AFTER INSERT OR UPDATE OR DELETE ON tool_ratings
+  FOR EACH ROW EXECUTE FUNCTION log_tool_rating_change();
+
+CREATE OR REPLACE FUNCTION log_tool_comment_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO activity_logs (user_id, action, resource_type, resource_id, details)
+    VALUES (auth.uid(), 'create_comment', 'comment', NEW.id, jsonb_build_object(
+      'tool_id', NEW.tool_id,
+      'content', NEW.content
+    ));
+  ELSIF TG_OP = 'UPDATE' THEN
+    IF OLD.content IS NOT DISTINCT FROM NEW.content THEN
+      RETURN NULL;
+    END IF;
+
+    INSERT INTO activity_logs (user_id, action, resource_type, resource_id, details)
+    VALUES (auth.uid(), 'update_comment', 'comment', NEW.id, jsonb_build_object(
+      'tool_id', NEW.tool_id,
+      'author_id', NEW.user_id,
+      'old_content', OLD.content,
+      'new_content', NEW.content
+    ));
+  ELSIF EXISTS (SELECT 1 FROM ai_tools WHERE id = OLD.tool_id) THEN
+    -- The content is kept so deleted comments can still be traced
+    INSERT INTO activity_logs (user_id, action, resource_type, resource_id, details)
+    VALUES (auth.uid(), 'delete_comment', 'comment', OLD.id, jsonb_build_object(
+      'tool_id', OLD.tool_id,
+      'author_id', OLD.user_id,
+      'author_name', (SELECT full_name FROM profiles WHERE id = OLD.user_id),
+      'content', OLD.content,
+      'created_at', OLD.created_at
+    ));
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS log_tool_comment_change ON tool_comments;
+CREATE TRIGGER log_tool_comment_change
+  AFTER INSERT OR UPDATE OR DELETE ON tool_comments
+  FOR EACH ROW EXECUTE FUNCTION log_tool_comment_change();
@@ -0,0 +1,262 @@
+/*
+  # Field-level diffs for tool edits
+
+  1. Functions
+    - `activity_log_diff(old, new, ignored)` - `{ field: { old, new } }` for every
+      top-level key whose value differs
+    - `log_ai_tool_update()` - AFTER UPDATE row trigger on `ai_tools`
+    - `log_tool_roles_change()` - AFTER INSERT/UPDATE/DELETE statement triggers on
+      `tool_roles`; the roles a tool had before the transaction first changed them are
+      kept in `tool_role_changes`
+    - `log_tool_role_changes()` - deferred trigger on `tool_role_changes` that logs
+      one roles diff per tool when the transaction commits
+    - `set_tool_roles(tool_id, role_names)` - replaces the roles of a tool in one call
+    - `create_ai_tool(tool, role_names)` - inserts a pending tool and its roles in one call
+
+  2. New Tables
+    - `tool_role_changes` - per-transaction scratch rows, removed again at commit
+
+  3. Activity Log Changes
+    - Both triggers write 'update_tool' entries with
+      `details = { name, changes: { field: { old, new } } }`, so edits made directly
+      in SQL are recorded too and the client no longer logs 'update_tool' itself
+
+  4. Notes
+    - Bookkeeping columns (`created_at`, `updated_at`) and the review workflow
+      (`status`, `approved_by`, `approved_at`, `rejection_reason`) are left out; those
+      changes are logged as 'approve_tool' / 'reject_tool'
+    - An edit that adds and removes roles in one transaction is logged once; roles
+      written in the transaction that creates the tool are covered by 'create_tool'
+    - Role rows removed by a cascading tool delete are not logged
+*/
+
+CREATE OR REPLACE FUNCTION activity_log_diff(old_row jsonb, new_row jsonb, ignored text[] DEFAULT '{}')
+RETURNS jsonb AS $$
+  SELECT COALESCE(
+    jsonb_object_agg(field, jsonb_build_object('old', old_row -> field, 'new', new_row -> field)),
+    '{}'::jsonb
+  )
+  FROM (
+    SELECT jsonb_object_keys(old_row) AS field
+    UNION
+    SELECT jsonb_object_keys(new_row)
+  ) AS fields
+  WHERE field <> ALL(ignored)
+  AND (old_row -> field) IS DISTINCT FROM (new_row -> field);
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION log_ai_tool_update()
+RETURNS TRIGGER AS $$
+DECLARE
+  changes jsonb;
+BEGIN
+  changes := activity_log_diff(
+    to_jsonb(OLD),
+    to_jsonb(NEW),
+    ARRAY['created_at', 'updated_at', 'status', 'approved_by', 'approved_at', 'rejection_reason']
+  );
+
+  IF changes = '{}'::jsonb THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO activity_logs (user_id, action, resource_type, resource_id, details)
+  VALUES (auth.uid(), 'update_tool', 'ai_tool', NEW.id, jsonb_build_object(
+    'name', NEW.name,
+    'changes', changes
+  ));
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS log_ai_tool_update ON ai_tools;
+CREATE TRIGGER log_ai_tool_update
+  AFTER UPDATE ON ai_tools
+  FOR EACH ROW EXECUTE FUNCTION log_ai_tool_update();
+
+-- old_roles is NULL for a tool created in the transaction
+CREATE TABLE IF NOT EXISTS tool_role_changes (
+  transaction_id xid8 NOT NULL DEFAULT pg_current_xact_id(),
+  tool_id uuid NOT NULL,
+  old_roles text[],
+  PRIMARY KEY (transaction_id, tool_id)
+);
+
+-- Only the trigger functions below touch it
+ALTER TABLE tool_role_changes ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON tool_role_changes FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION mark_ai_tool_created()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO tool_role_changes (tool_id, old_roles)
+  VALUES (NEW.id, NULL)
+  ON CONFLICT DO NOTHING;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS mark_ai_tool_created ON ai_tools;
+CREATE TRIGGER mark_ai_tool_created
+  AFTER INSERT ON ai_tools
+  FOR EACH ROW EXECUTE FUNCTION mark_ai_tool_created();
+
+-- Transition tables only exist for the events a trigger fires on, so each branch
+-- copies the rows it can see into arrays before they are grouped per tool
+CREATE OR REPLACE FUNCTION log_tool_roles_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  removed jsonb := '[]'::jsonb;
+  added jsonb := '[]'::jsonb;
+  affected record;
+  new_roles text[];
+  old_roles text[];
+BEGIN
+  IF TG_OP IN ('DELETE', 'UPDATE') THEN
+    SELECT COALESCE(jsonb_agg(jsonb_build_object('tool_id', tool_id, 'role', role)), '[]'::jsonb)
+    INTO removed
+    FROM old_rows;
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    SELECT COALESCE(jsonb_agg(jsonb_build_object('tool_id', tool_id, 'role', role)), '[]'::jsonb)
+    INTO added
+    FROM new_rows;
+  END IF;
+
+  FOR affected IN
+    SELECT DISTINCT changed.tool_id
+    FROM (
+      SELECT tool_id FROM jsonb_to_recordset(removed) AS r(tool_id uuid, role text)
+      UNION
+      SELECT tool_id FROM jsonb_to_recordset(added) AS a(tool_id uuid, role text)
+    ) AS changed
+    JOIN ai_tools ON ai_tools.id = changed.tool_id
+  LOOP
+    new_roles := ARRAY(
+      SELECT role FROM tool_roles WHERE tool_id = affected.tool_id ORDER BY role
+    );
+
+    old_roles := ARRAY(
+      SELECT role FROM (
+        (
+          SELECT unnest(new_roles) AS role
+          EXCEPT
+          SELECT a.role FROM jsonb_to_recordset(added) AS a(tool_id uuid, role text)
+          WHERE a.tool_id = affected.tool_id
+        )
+        UNION
+        SELECT r.role FROM jsonb_to_recordset(removed) AS r(tool_id uuid, role text)
+        WHERE r.tool_id = affected.tool_id
+      ) AS previous
+      ORDER BY role
+    );
+
+    -- Later statements in the same transaction keep the first snapshot
+    INSERT INTO tool_role_changes (tool_id, old_roles)
+    VALUES (affected.tool_id, old_roles)
+    ON CONFLICT DO NOTHING;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS log_tool_roles_insert ON tool_roles;
+CREATE TRIGGER log_tool_roles_insert
+  AFTER INSERT ON tool_roles
+  REFERENCING NEW TABLE AS new_rows
+  FOR EACH STATEMENT EXECUTE FUNCTION log_tool_roles_change();
+
+DROP TRIGGER IF EXISTS log_tool_roles_update ON tool_roles;
+CREATE TRIGGER log_tool_roles_update
+  AFTER UPDATE ON tool_roles
+  REFERENCING OLD TABLE AS old_rows NEW TABLE AS new_rows
+  FOR EACH STATEMENT EXECUTE FUNCTION log_tool_roles_change();
+
+DROP TRIGGER IF EXISTS log_tool_roles_delete ON tool_roles;
+CREATE TRIGGER log_tool_roles_delete
+  AFTER DELETE ON tool_roles
+  REFERENCING OLD TABLE AS old_rows
+  FOR EACH STATEMENT EXECUTE FUNCTION log_tool_roles_change();
+
+-- Runs at commit, once per tool, when the roles have their final value
+CREATE OR REPLACE FUNCTION log_tool_role_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+  tool_name text;
+  new_roles text[];
+BEGIN
+  DELETE FROM tool_role_changes
+  WHERE transaction_id = NEW.transaction_id AND tool_id = NEW.tool_id;
+
+  IF NEW.old_roles IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT name INTO tool_name FROM ai_tools WHERE id = NEW.tool_id;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  new_roles := ARRAY(
+    SELECT role FROM tool_roles WHERE tool_id = NEW.tool_id ORDER BY role
+  );
+
+  IF new_roles = NEW.old_roles THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO activity_logs (user_id, action, resource_type, resource_id, details)
+  VALUES (auth.uid(), 'update_tool', 'ai_tool', NEW.tool_id, jsonb_build_object(
+    'name', tool_name,
+    'changes', jsonb_build_object(
+      'roles', jsonb_build_object('old', to_jsonb(NEW.old_roles), 'new', to_jsonb(new_roles))
+    )
+  ));
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS log_tool_role_changes ON tool_role_changes;
+CREATE CONSTRAINT TRIGGER log_tool_role_changes
+  AFTER INSERT ON tool_role_changes
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW EXECUTE FUNCTION log_tool_role_changes();
+
+-- A PostgREST request is one transaction, so the client goes through these to have
+-- an edit logged once and the roles of a new tool not logged at all
+CREATE OR REPLACE FUNCTION set_tool_roles(target_tool_id uuid, role_names text[])
+RETURNS void AS $$
+  DELETE FROM tool_roles
+  WHERE tool_id = target_tool_id AND role <> ALL(role_names);
+
+  INSERT INTO tool_roles (tool_id, role)
+  SELECT target_tool_id, unnest(role_names)
+  ON CONFLICT (tool_id, role) DO NOTHING;
+$$ LANGUAGE sql;
+
+CREATE OR REPLACE FUNCTION create_ai_tool(tool jsonb, role_names text[])
+RETURNS ai_tools AS $$
+DECLARE
+  created ai_tools;
+BEGIN
+  INSERT INTO ai_tools (
+    name, description, category_id, website_url, documentation_url, video_url,
+    difficulty_level, pricing_model, tags, status, created_by
+  )
+  SELECT
+    name, description, category_id, website_url, documentation_url, video_url,
+    COALESCE(difficulty_level, 'beginner'), COALESCE(pricing_model, 'free'), COALESCE(tags, '{}'),
+    'pending', auth.uid()
+  FROM jsonb_populate_record(NULL::ai_tools, tool)
+  RETURNING * INTO created;
+
+  PERFORM set_tool_roles(created.id, role_names);
+
+  RETURN created;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,23 @@
+/*
+  # Realtime activity feed
+
+  1. Realtime
+    - Add `activity_logs` to the `supabase_realtime` publication so the Dashboard
+      can subscribe to new entries
+
+  2. Security
+    - Realtime applies the existing RLS policies: owners with a verified second
+      factor receive every entry, other users only their own
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+    AND schemaname = 'public'
+    AND tablename = 'activity_logs'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE activity_logs;
+  END IF;
+END $$;
@@ -0,0 +1,112 @@
+/*
+  # User administration
+
+  1. Schema Changes
+    - Add `profiles.deactivated_at` (timestamp, set while the account is deactivated;
+      the auth user is banned at the same time)
+
+  2. Functions
+    - `account_active()` - whether the caller's account is not deactivated
+    - `two_factor_satisfied()` - also requires an active account, so the access tokens a
+      deactivated user still holds pass no privileged RLS check
+    - `last_login_times()` - latest 'login' entry per user from `activity_logs`
+    - `revoke_user_sessions(target_user_id)` - deletes the user's auth sessions (and
+      with them refresh tokens and verified 2FA sessions); returns the number revoked
+    - `log_profile_role_change()` - skips service-role updates, because the
+      `admin-users` edge function logs those itself with the acting owner
+
+  3. Activity Log Changes
+    - New actions 'deactivate_user', 'reactivate_user', 'force_logout' and 'reset_2fa'
+
+  4. Security
+    - Both functions are only executable by the service role
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'deactivated_at'
+  ) THEN
+    ALTER TABLE profiles ADD COLUMN deactivated_at timestamptz;
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION account_active()
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.deactivated_at IS NULL
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Every privileged policy checks this, so it is where deactivation takes effect
+CREATE OR REPLACE FUNCTION two_factor_satisfied()
+RETURNS boolean AS $$
+  SELECT account_active() AND (
+    NOT EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.two_factor_enabled = true
+    ) OR EXISTS (
+      SELECT 1 FROM two_factor_sessions
+      WHERE two_factor_sessions.user_id = auth.uid()
+      AND two_factor_sessions.session_id = NULLIF(auth.jwt() ->> 'session_id', '')::uuid
+    )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION last_login_times()
+RETURNS TABLE(user_id uuid, last_login_at timestamptz) AS $$
+  SELECT activity_logs.user_id, max(activity_logs.created_at)
+  FROM activity_logs
+  WHERE activity_logs.action = 'login'
+  AND activity_logs.user_id IS NOT NULL
+  GROUP BY activity_logs.user_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION last_login_times() FROM PUBLIC, anon, authenticated;
+
+-- Access tokens that were already issued stay valid until they expire, but RLS treats
+-- them as unprivileged and outside any organization; the client signs out as soon as
+-- it sees deactivated_at on the profile
+CREATE OR REPLACE FUNCTION revoke_user_sessions(target_user_id uuid)
+RETURNS integer AS $$
+DECLARE
+  revoked integer;
+BEGIN
+  DELETE FROM auth.sessions WHERE user_id = target_user_id;
+  GET DIAGNOSTICS revoked = ROW_COUNT;
+  RETURN revoked;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION revoke_user_sessions(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION log_profile_role_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  -- user_id is the actor; NULL when the change does not come from a signed-in user
+  INSERT INTO activity_logs (user_id, action, resource_type, resource_id, details)
+  VALUES (auth.uid(), 'change_role', 'profile', NEW.id, jsonb_build_object(
+    'email', NEW.email,
+    'full_name', NEW.full_name,
+    'old_role', OLD.role,
+    'new_role', NEW.role
+  ));
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+INSERT INTO activity_action_types (action, label, severity) VALUES
+  ('deactivate_user', 'Деактивиране на потребител', 'warning'),
+  ('reactivate_user', 'Активиране на потребител', 'notice'),
+  ('force_logout', 'Принудително излизане', 'notice'),
+  ('reset_2fa', 'Нулиране на 2FA', 'warning')
+ON CONFLICT (action) DO UPDATE SET label = EXCLUDED.label, severity = EXCLUDED.severity;
@@ -0,0 +1,95 @@
+/*
+  # User invitations
+
+  1. New Tables
+    - `user_invitations`
+      - `id` (uuid, primary key)
+      - `email` (text) - address the invitation was sent to
+      - `full_name` (text) - suggested name, the invitee can change it on accept
+      - `role` (text) - role the account is created with
+      - `token_hash` (text, unique) - SHA-256 of the link token; the token itself is never stored
+      - `invited_by` (uuid, references profiles)
+      - `expires_at` (timestamp)
+      - `accepted_at` / `accepted_user_id` - set once when the invitation is redeemed
+      - `revoked_at` (timestamp) - set when an owner withdraws it or invites the same email again
+      - `created_at` (timestamp)
+
+  2. Security
+    - RLS enabled; owners with a verified second factor can read invitations
+    - No write policies: invitations are created, revoked and redeemed only by the
+      `invite-user` and `accept-invitation` edge functions (service role)
+
+  3. Functions
+    - `handle_new_user()` - an account created for a claimed invitation gets the invited
+      role; every other sign-up gets 'frontend', whatever the sign-up metadata says
+
+  4. Activity Log Changes
+    - New actions 'invite_user', 'revoke_invitation' and 'accept_invitation'
+*/
+
+CREATE TABLE IF NOT EXISTS user_invitations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  email text NOT NULL,
+  full_name text NOT NULL DEFAULT '',
+  role text NOT NULL CHECK (role IN ('owner', 'backend', 'frontend', 'pm', 'qa', 'designer')),
+  token_hash text NOT NULL UNIQUE,
+  invited_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  expires_at timestamptz NOT NULL,
+  accepted_at timestamptz,
+  accepted_user_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  revoked_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS user_invitations_email_idx ON user_invitations (lower(email));
+
+ALTER TABLE user_invitations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Owners can read invitations" ON user_invitations;
+CREATE POLICY "Owners can read invitations"
+  ON user_invitations
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'owner'
+    )
+    AND two_factor_satisfied()
+  );
+
+-- User metadata comes from the sign-up request, so it never decides the role
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS TRIGGER AS $$
+DECLARE
+  invited_role text;
+BEGIN
+  -- accept-invitation claims the invitation before it creates the user
+  SELECT role INTO invited_role
+  FROM public.user_invitations
+  WHERE lower(email) = lower(NEW.email)
+  AND accepted_at IS NOT NULL
+  AND accepted_user_id IS NULL
+  AND revoked_at IS NULL
+  ORDER BY accepted_at DESC
+  LIMIT 1;
+
+  INSERT INTO public.profiles (id, email, full_name, role, two_factor_enabled)
+  VALUES (
+    NEW.id,
+    NEW.email,
+    COALESCE(NEW.raw_user_meta_data->>'full_name', 'User'),
+    COALESCE(invited_role, 'frontend'),
+    false
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+INSERT INTO activity_action_types (action, label, severity) VALUES
+  ('invite_user', 'Покана на потребител', 'notice'),
+  ('revoke_invitation', 'Оттегляне на покана', 'notice'),
+  ('accept_invitation', 'Приета покана', 'notice')
+ON CONFLICT (action) DO UPDATE SET label = EXCLUDED.label, severity = EXCLUDED.severity;
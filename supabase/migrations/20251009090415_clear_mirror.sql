@@ -0,0 +1,124 @@
+/*
+  # Self-service profile editing
+
+  1. Schema Changes
+    - Add `profiles.avatar_url` (text, public URL of the uploaded avatar)
+
+  2. Storage
+    - Public `avatars` bucket (images up to 2 MB)
+    - Users can upload, replace and delete objects under `<their user id>/` only
+
+  3. Security
+    - "Users can update own profile" additionally requires `role` and `email` to stay
+      unchanged. Roles are changed by owners through the `admin-users` edge function,
+      emails through the Supabase re-verification flow
+    - `profile_identity_unchanged(id, role, email)` - reads the stored row for that check;
+      SECURITY DEFINER so it is not subject to the profiles policies itself
+
+  4. Functions
+    - `sync_profile_email()` - AFTER UPDATE OF email trigger on `auth.users`; copies a
+      confirmed email change to the profile and logs 'change_email'
+
+  5. Activity Log Changes
+    - New actions 'update_profile', 'change_email' and 'change_password'
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'avatar_url'
+  ) THEN
+    ALTER TABLE profiles ADD COLUMN avatar_url text;
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION profile_identity_unchanged(profile_id uuid, new_role text, new_email text)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = profile_id
+    AND profiles.role = new_role
+    AND profiles.email = new_email
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+DROP POLICY IF EXISTS "Users can update own profile" ON profiles;
+
+CREATE POLICY "Users can update own profile"
+  ON profiles
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = id AND two_factor_satisfied())
+  WITH CHECK (
+    auth.uid() = id
+    AND two_factor_satisfied()
+    AND profile_identity_unchanged(id, role, email)
+  );
+
+-- GoTrue only updates auth.users.email once the new address is confirmed
+CREATE OR REPLACE FUNCTION sync_profile_email()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.email IS NOT DISTINCT FROM OLD.email THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.profiles
+  SET email = NEW.email, updated_at = now()
+  WHERE id = NEW.id;
+
+  INSERT INTO public.activity_logs (user_id, action, resource_type, resource_id, details)
+  VALUES (NEW.id, 'change_email', 'profile', NEW.id, jsonb_build_object(
+    'old_email', OLD.email,
+    'new_email', NEW.email
+  ));
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_auth_user_email_changed ON auth.users;
+CREATE TRIGGER on_auth_user_email_changed
+  AFTER UPDATE OF email ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION sync_profile_email();
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('avatars', 'avatars', true, 2097152, ARRAY['image/png', 'image/jpeg', 'image/gif', 'image/webp'])
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Avatars are publicly readable" ON storage.objects;
+DROP POLICY IF EXISTS "Users can upload own avatar" ON storage.objects;
+DROP POLICY IF EXISTS "Users can replace own avatar" ON storage.objects;
+DROP POLICY IF EXISTS "Users can delete own avatar" ON storage.objects;
+
+CREATE POLICY "Avatars are publicly readable"
+  ON storage.objects
+  FOR SELECT
+  USING (bucket_id = 'avatars');
+
+CREATE POLICY "Users can upload own avatar"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'avatars' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can replace own avatar"
+  ON storage.objects
+  FOR UPDATE
+  TO authenticated
+  USING (bucket_id = 'avatars' AND (storage.foldername(name))[1] = auth.uid()::text)
+  WITH CHECK (bucket_id = 'avatars' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can delete own avatar"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'avatars' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+INSERT INTO activity_action_types (action, label, severity, client_insertable) VALUES
+  ('update_profile', 'Редактиране на профил', 'info', true),
+  ('change_email', 'Промяна на email', 'notice', false),
+  ('change_password', 'Промяна на парола', 'notice', false)
+ON CONFLICT (action) DO UPDATE
+SET label = EXCLUDED.label, severity = EXCLUDED.severity, client_insertable = EXCLUDED.client_insertable;
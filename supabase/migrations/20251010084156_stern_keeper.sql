@@ -0,0 +1,76 @@
+/*
+  # Guard privileged profile columns
+
+  1. Functions
+    - `guard_profile_privileged_columns()` - BEFORE INSERT/UPDATE trigger on `profiles`
+      for requests made with a user JWT (anon / authenticated):
+      - `role` may only be changed by an owner with a verified second factor
+      - `two_factor_enabled` and `two_factor_methods` cannot be changed at all; they
+        are managed by the `manage-2fa` and `admin-users` edge functions
+      - `deactivated_at` cannot be changed; owners use `admin-users`
+      - `email` cannot be changed; it follows the confirmed auth email
+      - profiles created from a user session must have the default role ('frontend'),
+        no second factor and no deactivation
+
+  2. Security
+    - The "Users can update own profile" policy has no column list for the 2FA and
+      deactivation columns, so without this trigger any user could switch off their own
+      2FA from the browser console; `role` and `email` are checked here as well, so the
+      guard does not depend on the policy staying as it is
+    - Edge functions (service role), migrations and auth-side triggers are not affected
+*/
+
+CREATE OR REPLACE FUNCTION guard_profile_privileged_columns()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(auth.role(), '') NOT IN ('anon', 'authenticated') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.role <> 'frontend'
+      OR NEW.two_factor_enabled
+      OR COALESCE(cardinality(NEW.two_factor_methods), 0) > 0
+      OR NEW.deactivated_at IS NOT NULL
+    THEN
+      RAISE EXCEPTION 'Profiles created from a user session must use the default role and settings'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  -- Read before the update is applied, so an owner cannot be impersonated by the row itself
+  IF NEW.role IS DISTINCT FROM OLD.role AND NOT (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'owner')
+    AND two_factor_satisfied()
+  ) THEN
+    RAISE EXCEPTION 'Only owners can change roles'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NEW.two_factor_enabled IS DISTINCT FROM OLD.two_factor_enabled
+    OR NEW.two_factor_methods IS DISTINCT FROM OLD.two_factor_methods
+  THEN
+    RAISE EXCEPTION 'Two-factor settings can only be changed through manage-2fa'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NEW.deactivated_at IS DISTINCT FROM OLD.deactivated_at THEN
+    RAISE EXCEPTION 'Accounts can only be deactivated through admin-users'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NEW.email IS DISTINCT FROM OLD.email THEN
+    RAISE EXCEPTION 'The profile email follows the confirmed auth email'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS guard_profile_privileged_columns ON profiles;
+CREATE TRIGGER guard_profile_privileged_columns
+  BEFORE INSERT OR UPDATE ON profiles
+  FOR EACH ROW EXECUTE FUNCTION guard_profile_privileged_columns();
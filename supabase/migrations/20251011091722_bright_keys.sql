@@ -0,0 +1,335 @@
+/*
+  # Named permissions
+
+  1. New Tables
+    - `permissions`
+      - `permission` (text, primary key, e.g. 'tools.approve')
+      - `label` (text, shown in the admin UI)
+    - `role_permissions`
+      - `role` (text, one of the profile roles)
+      - `permission` (text, foreign key to permissions)
+      - primary key (`role`, `permission`)
+    - Every permission is granted to 'owner', which keeps today's behaviour
+
+  2. Functions
+    - `user_has_permission(user_id, permission)` - whether the user's role grants the
+      permission; for edge functions, which check the second factor themselves
+    - `has_permission(permission)` - same for the caller, and only with a verified
+      second factor (`two_factor_satisfied()`), like the owner checks it replaces
+
+  3. Security
+    - Both tables are readable by authenticated users (the client hides what the role
+      cannot do); there are no write policies
+    - Every `role = 'owner'` check in RLS policies and functions is replaced with
+      `has_permission()`; policies are renamed after what they now check
+    - Reading retention policies now also requires a verified second factor
+*/
+
+CREATE TABLE IF NOT EXISTS permissions (
+  permission text PRIMARY KEY,
+  label text NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS role_permissions (
+  role text NOT NULL CHECK (role IN ('owner', 'backend', 'frontend', 'pm', 'qa', 'designer')),
+  permission text NOT NULL REFERENCES permissions(permission) ON DELETE CASCADE,
+  PRIMARY KEY (role, permission)
+);
+
+ALTER TABLE permissions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE role_permissions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can read permissions" ON permissions;
+CREATE POLICY "Authenticated users can read permissions"
+  ON permissions
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Authenticated users can read role permissions" ON role_permissions;
+CREATE POLICY "Authenticated users can read role permissions"
+  ON role_permissions
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+INSERT INTO permissions (permission, label) VALUES
+  ('tools.approve', 'Преглед, одобряване и отхвърляне на инструменти'),
+  ('tools.edit_any', 'Редактиране на всички инструменти'),
+  ('tools.delete_any', 'Изтриване на всички инструменти'),
+  ('categories.delete', 'Изтриване на категории'),
+  ('comments.delete_any', 'Изтриване на всички коментари'),
+  ('logs.read', 'Четене на лога на активността'),
+  ('logs.retention', 'Управление на срока за съхранение на логове'),
+  ('users.manage', 'Управление на потребители и покани'),
+  ('security.policy', 'Управление на 2FA политиката')
+ON CONFLICT (permission) DO UPDATE SET label = EXCLUDED.label;
+
+INSERT INTO role_permissions (role, permission)
+SELECT 'owner', permission FROM permissions
+ON CONFLICT DO NOTHING;
+
+CREATE OR REPLACE FUNCTION user_has_permission(target_user_id uuid, required_permission text)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM profiles
+    JOIN role_permissions ON role_permissions.role = profiles.role
+    WHERE profiles.id = target_user_id
+    AND role_permissions.permission = required_permission
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION has_permission(required_permission text)
+RETURNS boolean AS $$
+  SELECT user_has_permission(auth.uid(), required_permission) AND two_factor_satisfied();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- AI tools
+DROP POLICY IF EXISTS "Users can read approved tools and own tools" ON ai_tools;
+DROP POLICY IF EXISTS "Creator and owners can update tools" ON ai_tools;
+DROP POLICY IF EXISTS "Creator and owners can delete tools" ON ai_tools;
+DROP POLICY IF EXISTS "Creator and permitted users can update tools" ON ai_tools;
+DROP POLICY IF EXISTS "Creator and permitted users can delete tools" ON ai_tools;
+
+CREATE POLICY "Users can read approved tools and own tools"
+  ON ai_tools
+  FOR SELECT
+  TO authenticated
+  USING (
+    status = 'approved' OR
+    created_by = auth.uid() OR
+    has_permission('tools.approve') OR
+    has_permission('tools.edit_any')
+  );
+
+CREATE POLICY "Creator and permitted users can update tools"
+  ON ai_tools
+  FOR UPDATE
+  TO authenticated
+  USING (
+    created_by = auth.uid() OR
+    has_permission('tools.approve') OR
+    has_permission('tools.edit_any')
+  );
+
+CREATE POLICY "Creator and permitted users can delete tools"
+  ON ai_tools
+  FOR DELETE
+  TO authenticated
+  USING (created_by = auth.uid() OR has_permission('tools.delete_any'));
+
+-- Categories
+DROP POLICY IF EXISTS "Owners can delete categories" ON categories;
+DROP POLICY IF EXISTS "Permitted users can delete categories" ON categories;
+
+CREATE POLICY "Permitted users can delete categories"
+  ON categories
+  FOR DELETE
+  TO authenticated
+  USING (has_permission('categories.delete'));
+
+-- Tool roles
+DROP POLICY IF EXISTS "Owners can manage all tool_roles" ON tool_roles;
+DROP POLICY IF EXISTS "Permitted users can manage all tool_roles" ON tool_roles;
+
+CREATE POLICY "Permitted users can manage all tool_roles"
+  ON tool_roles
+  FOR ALL
+  TO authenticated
+  USING (has_permission('tools.edit_any'));
+
+-- Comments
+DROP POLICY IF EXISTS "Owners can delete any comment" ON tool_comments;
+DROP POLICY IF EXISTS "Permitted users can delete any comment" ON tool_comments;
+
+CREATE POLICY "Permitted users can delete any comment"
+  ON tool_comments
+  FOR DELETE
+  TO authenticated
+  USING (has_permission('comments.delete_any'));
+
+-- Activity logs
+DROP POLICY IF EXISTS "Owners can read all activity logs" ON activity_logs;
+DROP POLICY IF EXISTS "Permitted users can read all activity logs" ON activity_logs;
+DROP POLICY IF EXISTS "Owners can read archived activity logs" ON activity_logs_archive;
+DROP POLICY IF EXISTS "Permitted users can read archived activity logs" ON activity_logs_archive;
+
+CREATE POLICY "Permitted users can read all activity logs"
+  ON activity_logs
+  FOR SELECT
+  TO authenticated
+  USING (has_permission('logs.read'));
+
+CREATE POLICY "Permitted users can read archived activity logs"
+  ON activity_logs_archive
+  FOR SELECT
+  TO authenticated
+  USING (has_permission('logs.read'));
+
+DROP POLICY IF EXISTS "Owners can read retention policies" ON activity_log_retention_policies;
+DROP POLICY IF EXISTS "Owners can update retention policies" ON activity_log_retention_policies;
+DROP POLICY IF EXISTS "Permitted users can read retention policies" ON activity_log_retention_policies;
+DROP POLICY IF EXISTS "Permitted users can update retention policies" ON activity_log_retention_policies;
+
+CREATE POLICY "Permitted users can read retention policies"
+  ON activity_log_retention_policies
+  FOR SELECT
+  TO authenticated
+  USING (has_permission('logs.retention'));
+
+CREATE POLICY "Permitted users can update retention policies"
+  ON activity_log_retention_policies
+  FOR UPDATE
+  TO authenticated
+  USING (has_permission('logs.retention'));
+
+-- 2FA policy
+DROP POLICY IF EXISTS "Owners can update two factor policies" ON two_factor_policies;
+DROP POLICY IF EXISTS "Permitted users can update two factor policies" ON two_factor_policies;
+
+CREATE POLICY "Permitted users can update two factor policies"
+  ON two_factor_policies
+  FOR UPDATE
+  TO authenticated
+  USING (has_permission('security.policy'));
+
+-- Invitations
+DROP POLICY IF EXISTS "Owners can read invitations" ON user_invitations;
+DROP POLICY IF EXISTS "Permitted users can read invitations" ON user_invitations;
+
+CREATE POLICY "Permitted users can read invitations"
+  ON user_invitations
+  FOR SELECT
+  TO authenticated
+  USING (has_permission('users.manage'));
+
+-- Functions with their own owner checks
+CREATE OR REPLACE FUNCTION verify_activity_log_chain()
+RETURNS TABLE(
+  valid boolean,
+  checked_count bigint,
+  last_seq bigint,
+  broken_seq bigint,
+  problem text
+) AS $$
+DECLARE
+  entry record;
+  expected_seq bigint := 1;
+  previous_hash text := repeat('0', 64);
+BEGIN
+  IF NOT has_permission('logs.read') THEN
+    RAISE EXCEPTION 'Missing permission logs.read'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  FOR entry IN
+    SELECT id, seq, prev_hash, entry_hash, user_id, actor_id, action, resource_type, resource_id,
+           details, ip_address, user_agent, created_at
+    FROM activity_logs
+    UNION ALL
+    SELECT id, seq, prev_hash, entry_hash, user_id, actor_id, action, resource_type, resource_id,
+           details, ip_address, user_agent, created_at
+    FROM activity_logs_archive
+    ORDER BY seq
+  LOOP
+    IF entry.seq <> expected_seq THEN
+      RETURN QUERY SELECT false, expected_seq - 1, entry.seq, expected_seq, 'gap'::text;
+      RETURN;
+    END IF;
+
+    IF entry.prev_hash <> previous_hash THEN
+      RETURN QUERY SELECT false, expected_seq - 1, entry.seq, entry.seq, 'broken_link'::text;
+      RETURN;
+    END IF;
+
+    IF entry.entry_hash <> activity_log_hash(
+      entry.seq, entry.prev_hash, entry.id, entry.actor_id, entry.action, entry.resource_type,
+      entry.resource_id, entry.details, entry.ip_address, entry.user_agent, entry.created_at
+    ) OR (entry.user_id IS NOT NULL AND entry.user_id IS DISTINCT FROM entry.actor_id) THEN
+      RETURN QUERY SELECT false, expected_seq - 1, entry.seq, entry.seq, 'modified'::text;
+      RETURN;
+    END IF;
+
+    previous_hash := entry.entry_hash;
+    expected_seq := expected_seq + 1;
+  END LOOP;
+
+  RETURN QUERY SELECT true, expected_seq - 1, expected_seq - 1, NULL::bigint, NULL::text;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION activity_log_retention_preview()
+RETURNS TABLE(
+  resource_type text,
+  retention_days integer,
+  expired_count bigint,
+  oldest_expired_at timestamptz
+) AS $$
+BEGIN
+  IF NOT has_permission('logs.retention') THEN
+    RAISE EXCEPTION 'Missing permission logs.retention'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.resource_type,
+    p.retention_days,
+    count(l.id),
+    min(l.created_at)
+  FROM activity_log_retention_policies p
+  LEFT JOIN activity_logs l
+    ON l.resource_type = p.resource_type
+    AND p.retention_days IS NOT NULL
+    AND l.created_at < now() - make_interval(days => p.retention_days)
+  GROUP BY p.resource_type, p.retention_days
+  ORDER BY p.resource_type;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION guard_profile_privileged_columns()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(auth.role(), '') NOT IN ('anon', 'authenticated') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.role <> 'frontend'
+      OR NEW.two_factor_enabled
+      OR COALESCE(cardinality(NEW.two_factor_methods), 0) > 0
+      OR NEW.deactivated_at IS NOT NULL
+    THEN
+      RAISE EXCEPTION 'Profiles created from a user session must use the default role and settings'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  -- Evaluated against the stored row, so the update cannot grant itself the permission
+  IF NEW.role IS DISTINCT FROM OLD.role AND NOT has_permission('users.manage') THEN
+    RAISE EXCEPTION 'Missing permission users.manage'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NEW.two_factor_enabled IS DISTINCT FROM OLD.two_factor_enabled
+    OR NEW.two_factor_methods IS DISTINCT FROM OLD.two_factor_methods
+  THEN
+    RAISE EXCEPTION 'Two-factor settings can only be changed through manage-2fa'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NEW.deactivated_at IS DISTINCT FROM OLD.deactivated_at THEN
+    RAISE EXCEPTION 'Accounts can only be deactivated through admin-users'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NEW.email IS DISTINCT FROM OLD.email THEN
+    RAISE EXCEPTION 'The profile email follows the confirmed auth email'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
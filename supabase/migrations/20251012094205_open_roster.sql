@@ -0,0 +1,207 @@
+/*
+  # Custom roles
+
+  1. New Tables
+    - `roles`
+      - `role` (text, primary key, the value stored on profiles, tool_roles etc.)
+      - `label` (text, shown in the UI)
+      - `color` (text, hex colour like `categories.color`)
+      - `icon` (text, lucide icon name from `src/lib/roles.ts`; unknown names fall back
+        to a generic icon)
+      - `created_at`, `updated_at`
+    - Seeded with the six built-in roles and the colours/icons the dashboard used
+
+  2. Changes
+    - The CHECK constraints listing the six roles on `profiles`, `tool_roles`,
+      `two_factor_policies`, `user_invitations` and `role_permissions` are replaced with
+      foreign keys to `roles`
+    - Deleting a role removes its tool tags, 2FA policy and permissions; it fails while
+      profiles or invitations still use it
+    - A new role gets a `two_factor_policies` row (2FA not required)
+    - New permission 'roles.manage', granted to 'owner'
+    - New resource type 'role' (with a retention policy row) and actions 'create_role',
+      'update_role' and 'delete_role', written by the `log_role_change()` trigger
+
+  3. Security
+    - `roles` is readable by authenticated users; changes require
+      `has_permission('roles.manage')`
+    - 'owner' and 'frontend' cannot be deleted: owner holds every permission and
+      frontend is the default role of new profiles
+*/
+
+CREATE TABLE IF NOT EXISTS roles (
+  role text PRIMARY KEY CHECK (role ~ '^[a-z][a-z0-9_]{1,29}$'),
+  label text NOT NULL,
+  color text NOT NULL DEFAULT '#6b7280' CHECK (color ~ '^#[0-9a-fA-F]{6}$'),
+  icon text NOT NULL DEFAULT 'Users',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO roles (role, label, color, icon) VALUES
+  ('owner', 'Собственик', '#8b5cf6', 'Shield'),
+  ('backend', 'Backend Developer', '#22c55e', 'Wrench'),
+  ('frontend', 'Frontend Developer', '#3b82f6', 'Palette'),
+  ('pm', 'Project Manager', '#f97316', 'BarChart3'),
+  ('qa', 'QA Engineer', '#ef4444', 'TestTube'),
+  ('designer', 'UI/UX Designer', '#ec4899', 'Palette')
+ON CONFLICT (role) DO NOTHING;
+
+DROP TRIGGER IF EXISTS update_roles_updated_at ON roles;
+CREATE TRIGGER update_roles_updated_at
+  BEFORE UPDATE ON roles
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+ALTER TABLE roles ENABLE ROW LEVEL SECURITY;
+
+-- Role columns now reference the table instead of a fixed list
+ALTER TABLE profiles DROP CONSTRAINT IF EXISTS profiles_role_check;
+ALTER TABLE profiles DROP CONSTRAINT IF EXISTS profiles_role_fkey;
+ALTER TABLE profiles
+ADD CONSTRAINT profiles_role_fkey
+FOREIGN KEY (role) REFERENCES roles(role);
+
+ALTER TABLE tool_roles DROP CONSTRAINT IF EXISTS tool_roles_role_check;
+ALTER TABLE tool_roles DROP CONSTRAINT IF EXISTS tool_roles_role_fkey;
+ALTER TABLE tool_roles
+ADD CONSTRAINT tool_roles_role_fkey
+FOREIGN KEY (role) REFERENCES roles(role) ON DELETE CASCADE;
+
+ALTER TABLE two_factor_policies DROP CONSTRAINT IF EXISTS two_factor_policies_role_check;
+ALTER TABLE two_factor_policies DROP CONSTRAINT IF EXISTS two_factor_policies_role_fkey;
+ALTER TABLE two_factor_policies
+ADD CONSTRAINT two_factor_policies_role_fkey
+FOREIGN KEY (role) REFERENCES roles(role) ON DELETE CASCADE;
+
+ALTER TABLE role_permissions DROP CONSTRAINT IF EXISTS role_permissions_role_check;
+ALTER TABLE role_permissions DROP CONSTRAINT IF EXISTS role_permissions_role_fkey;
+ALTER TABLE role_permissions
+ADD CONSTRAINT role_permissions_role_fkey
+FOREIGN KEY (role) REFERENCES roles(role) ON DELETE CASCADE;
+
+ALTER TABLE user_invitations DROP CONSTRAINT IF EXISTS user_invitations_role_check;
+ALTER TABLE user_invitations DROP CONSTRAINT IF EXISTS user_invitations_role_fkey;
+ALTER TABLE user_invitations
+ADD CONSTRAINT user_invitations_role_fkey
+FOREIGN KEY (role) REFERENCES roles(role);
+
+CREATE OR REPLACE FUNCTION create_role_two_factor_policy()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO two_factor_policies (role)
+  VALUES (NEW.role)
+  ON CONFLICT (role) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS create_role_two_factor_policy ON roles;
+CREATE TRIGGER create_role_two_factor_policy
+  AFTER INSERT ON roles
+  FOR EACH ROW EXECUTE FUNCTION create_role_two_factor_policy();
+
+-- Permission
+INSERT INTO permissions (permission, label) VALUES
+  ('roles.manage', 'Управление на роли')
+ON CONFLICT (permission) DO UPDATE SET label = EXCLUDED.label;
+
+INSERT INTO role_permissions (role, permission)
+VALUES ('owner', 'roles.manage')
+ON CONFLICT DO NOTHING;
+
+DROP POLICY IF EXISTS "Authenticated users can read roles" ON roles;
+DROP POLICY IF EXISTS "Permitted users can create roles" ON roles;
+DROP POLICY IF EXISTS "Permitted users can update roles" ON roles;
+DROP POLICY IF EXISTS "Permitted users can delete roles" ON roles;
+
+CREATE POLICY "Authenticated users can read roles"
+  ON roles
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Permitted users can create roles"
+  ON roles
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_permission('roles.manage'));
+
+CREATE POLICY "Permitted users can update roles"
+  ON roles
+  FOR UPDATE
+  TO authenticated
+  USING (has_permission('roles.manage'))
+  WITH CHECK (has_permission('roles.manage'));
+
+CREATE POLICY "Permitted users can delete roles"
+  ON roles
+  FOR DELETE
+  TO authenticated
+  USING (has_permission('roles.manage') AND role NOT IN ('owner', 'frontend'));
+
+-- Audit
+INSERT INTO activity_resource_types (resource_type, label) VALUES
+  ('role', 'Роля')
+ON CONFLICT (resource_type) DO UPDATE SET label = EXCLUDED.label;
+
+INSERT INTO activity_action_types (action, label, severity) VALUES
+  ('create_role', 'Създаване на роля', 'notice'),
+  ('update_role', 'Редактиране на роля', 'notice'),
+  ('delete_role', 'Изтриване на роля', 'warning')
+ON CONFLICT (action) DO UPDATE SET label = EXCLUDED.label, severity = EXCLUDED.severity;
+
+INSERT INTO activity_log_retention_policies (resource_type)
+VALUES ('role')
+ON CONFLICT (resource_type) DO NOTHING;
+
+-- Roles have a text key, so it goes into details instead of resource_id
+CREATE OR REPLACE FUNCTION log_role_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  changes jsonb;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO activity_logs (user_id, action, resource_type, details)
+    VALUES (auth.uid(), 'create_role', 'role', jsonb_build_object(
+      'role', NEW.role,
+      'label', NEW.label,
+      'color', NEW.color,
+      'icon', NEW.icon
+    ));
+
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    INSERT INTO activity_logs (user_id, action, resource_type, details)
+    VALUES (auth.uid(), 'delete_role', 'role', jsonb_build_object(
+      'role', OLD.role,
+      'label', OLD.label
+    ));
+
+    RETURN OLD;
+  END IF;
+
+  changes := activity_log_diff(to_jsonb(OLD), to_jsonb(NEW), ARRAY['created_at', 'updated_at']);
+
+  IF changes = '{}'::jsonb THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO activity_logs (user_id, action, resource_type, details)
+  VALUES (auth.uid(), 'update_role', 'role', jsonb_build_object(
+    'role', NEW.role,
+    'label', NEW.label,
+    'changes', changes
+  ));
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS log_role_change ON roles;
+CREATE TRIGGER log_role_change
+  AFTER INSERT OR UPDATE OR DELETE ON roles
+  FOR EACH ROW EXECUTE FUNCTION log_role_change();
@@ -0,0 +1,184 @@
+/*
+  # Moderators with category scopes
+
+  1. New Tables
+    - `moderation_scopes`
+      - `user_id` (uuid, references profiles)
+      - `category_id` (uuid, references categories)
+      - `created_by` (uuid, references profiles)
+      - `created_at` (timestamptz)
+      - primary key (`user_id`, `category_id`)
+    - A user without rows moderates every category; with rows, only those categories
+
+  2. Roles
+    - New built-in role 'moderator' with 'tools.approve' and 'comments.delete_any' only
+      (no user management, no activity logs)
+
+  3. Functions
+    - `moderates_category(category_id)` - whether the caller's scope covers the category
+    - `has_moderation_permission(permission, category_id)` - `has_permission()` plus the scope
+    - `guard_tool_review_columns()` - BEFORE INSERT/UPDATE trigger on `ai_tools` for
+      requests made with a user JWT:
+      - new tools start as 'pending' without review data
+      - `status`, `approved_by`, `approved_at` and `rejection_reason` only change for
+        users who may review the tool's category
+      - users who may review but neither created the tool nor hold 'tools.edit_any'
+        cannot change anything else
+
+  4. Security
+    - `ai_tools` read/update and the "delete any comment" policy on `tool_comments`
+      check the scope through `has_moderation_permission()`
+    - `moderation_scopes` is readable by the user it belongs to and by 'users.manage';
+      only 'users.manage' can change it
+    - Tool creators can no longer approve their own tools by updating `status`
+*/
+
+CREATE TABLE IF NOT EXISTS moderation_scopes (
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  category_id uuid NOT NULL REFERENCES categories(id) ON DELETE CASCADE,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (user_id, category_id)
+);
+
+ALTER TABLE moderation_scopes ENABLE ROW LEVEL SECURITY;
+
+-- Moderator role
+INSERT INTO roles (role, label, color, icon) VALUES
+  ('moderator', 'Модератор', '#0ea5e9', 'ShieldCheck')
+ON CONFLICT (role) DO NOTHING;
+
+INSERT INTO role_permissions (role, permission) VALUES
+  ('moderator', 'tools.approve'),
+  ('moderator', 'comments.delete_any')
+ON CONFLICT DO NOTHING;
+
+CREATE OR REPLACE FUNCTION moderates_category(target_category_id uuid)
+RETURNS boolean AS $$
+  SELECT NOT EXISTS (
+    SELECT 1 FROM moderation_scopes WHERE user_id = auth.uid()
+  ) OR EXISTS (
+    SELECT 1 FROM moderation_scopes
+    WHERE user_id = auth.uid()
+    AND category_id = target_category_id
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION has_moderation_permission(required_permission text, target_category_id uuid)
+RETURNS boolean AS $$
+  SELECT has_permission(required_permission) AND moderates_category(target_category_id);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+DROP POLICY IF EXISTS "Users can read own moderation scope" ON moderation_scopes;
+DROP POLICY IF EXISTS "Permitted users can manage moderation scopes" ON moderation_scopes;
+
+CREATE POLICY "Users can read own moderation scope"
+  ON moderation_scopes
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid() OR has_permission('users.manage'));
+
+CREATE POLICY "Permitted users can manage moderation scopes"
+  ON moderation_scopes
+  FOR ALL
+  TO authenticated
+  USING (has_permission('users.manage'))
+  WITH CHECK (has_permission('users.manage'));
+
+-- AI tools
+DROP POLICY IF EXISTS "Users can read approved tools and own tools" ON ai_tools;
+DROP POLICY IF EXISTS "Creator and permitted users can update tools" ON ai_tools;
+
+CREATE POLICY "Users can read approved tools and own tools"
+  ON ai_tools
+  FOR SELECT
+  TO authenticated
+  USING (
+    status = 'approved' OR
+    created_by = auth.uid() OR
+    has_moderation_permission('tools.approve', category_id) OR
+    has_permission('tools.edit_any')
+  );
+
+CREATE POLICY "Creator and permitted users can update tools"
+  ON ai_tools
+  FOR UPDATE
+  TO authenticated
+  USING (
+    created_by = auth.uid() OR
+    has_moderation_permission('tools.approve', category_id) OR
+    has_permission('tools.edit_any')
+  )
+  WITH CHECK (
+    created_by = auth.uid() OR
+    has_moderation_permission('tools.approve', category_id) OR
+    has_permission('tools.edit_any')
+  );
+
+CREATE OR REPLACE FUNCTION guard_tool_review_columns()
+RETURNS TRIGGER AS $$
+DECLARE
+  review_columns text[] := ARRAY['status', 'approved_by', 'approved_at', 'rejection_reason', 'updated_at'];
+BEGIN
+  IF COALESCE(auth.role(), '') NOT IN ('anon', 'authenticated') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'pending'
+      OR NEW.approved_by IS NOT NULL
+      OR NEW.approved_at IS NOT NULL
+      OR NEW.rejection_reason IS NOT NULL
+    THEN
+      RAISE EXCEPTION 'New tools must start as pending'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  IF (NEW.status, NEW.approved_by, NEW.approved_at, NEW.rejection_reason)
+    IS DISTINCT FROM (OLD.status, OLD.approved_by, OLD.approved_at, OLD.rejection_reason)
+    AND NOT has_moderation_permission('tools.approve', OLD.category_id)
+  THEN
+    RAISE EXCEPTION 'Only moderators of the category can approve or reject tools'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- Reviewing does not make the tool editable for the reviewer
+  IF OLD.created_by IS DISTINCT FROM auth.uid()
+    AND NOT has_permission('tools.edit_any')
+    AND (to_jsonb(NEW) - review_columns) IS DISTINCT FROM (to_jsonb(OLD) - review_columns)
+  THEN
+    RAISE EXCEPTION 'Moderators can only change the review status of a tool'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS guard_tool_review_columns ON ai_tools;
+CREATE TRIGGER guard_tool_review_columns
+  BEFORE INSERT OR UPDATE ON ai_tools
+  FOR EACH ROW EXECUTE FUNCTION guard_tool_review_columns();
+
+-- Comments
+DROP POLICY IF EXISTS "Permitted users can delete any comment" ON tool_comments;
+
+CREATE POLICY "Permitted users can delete any comment"
+  ON tool_comments
+  FOR DELETE
+  TO authenticated
+  USING (
+    has_moderation_permission(
+      'comments.delete_any',
+      (SELECT category_id FROM ai_tools WHERE ai_tools.id = tool_comments.tool_id)
+    )
+  );
+
+-- Audit
+INSERT INTO activity_action_types (action, label, severity, client_insertable) VALUES
+  ('update_moderation_scope', 'Промяна на категориите на модератор', 'notice', true)
+ON CONFLICT (action) DO UPDATE
+SET label = EXCLUDED.label, severity = EXCLUDED.severity, client_insertable = EXCLUDED.client_insertable;
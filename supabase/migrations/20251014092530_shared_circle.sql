@@ -0,0 +1,336 @@
+/*
+  # Teams and tool visibility
+
+  1. New Tables
+    - `teams`
+      - `id` (uuid, primary key)
+      - `name` (text, unique)
+      - `description` (text)
+      - `created_by` (uuid, references profiles)
+      - `created_at`, `updated_at`
+    - `team_members`
+      - `team_id` (uuid, references teams)
+      - `user_id` (uuid, references profiles)
+      - `created_at`
+      - primary key (`team_id`, `user_id`)
+    - `tool_teams`
+      - `tool_id` (uuid, references ai_tools)
+      - `team_id` (uuid, references teams)
+      - primary key (`tool_id`, `team_id`)
+
+  2. Changes
+    - `ai_tools.visibility` - 'org' (default, the previous behaviour), 'teams' (members of
+      the teams in `tool_teams`) or 'private' (creator only)
+    - New permission 'teams.manage', granted to 'owner'
+    - New resource type 'team' (with a retention policy row) and actions 'create_team',
+      'update_team', 'delete_team', 'add_team_member' and 'remove_team_member', written
+      by triggers
+
+  3. Functions
+    - `is_team_member(team_id)` - whether the caller belongs to the team
+    - `tool_shared_with_user(tool_id)` - whether the caller is in one of the tool's teams
+    - `create_ai_tool(tool, role_names)` - also takes `visibility`
+
+  4. Security
+    - Approved tools are readable by everyone ('org'), by team members ('teams') or only
+      by the creator ('private'); creators and 'tools.edit_any' see everything they did
+      before, moderators see non-private tools in their categories
+    - Comments and ratings follow, since their policies look the tool up under RLS
+    - Teams are readable by authenticated users; members are readable by the member
+      and by 'teams.manage'; only 'teams.manage' changes teams and members
+    - A tool can be shared with teams by its creator (own teams only) or by 'tools.edit_any'
+*/
+
+CREATE TABLE IF NOT EXISTS teams (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE,
+  description text,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS team_members (
+  team_id uuid NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (team_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS tool_teams (
+  tool_id uuid NOT NULL REFERENCES ai_tools(id) ON DELETE CASCADE,
+  team_id uuid NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  PRIMARY KEY (tool_id, team_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_team_members_user_id ON team_members(user_id);
+CREATE INDEX IF NOT EXISTS idx_tool_teams_team_id ON tool_teams(team_id);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'ai_tools' AND column_name = 'visibility'
+  ) THEN
+    ALTER TABLE ai_tools
+    ADD COLUMN visibility text NOT NULL DEFAULT 'org' CHECK (visibility IN ('org', 'teams', 'private'));
+  END IF;
+END $$;
+
+DROP TRIGGER IF EXISTS update_teams_updated_at ON teams;
+CREATE TRIGGER update_teams_updated_at
+  BEFORE UPDATE ON teams
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+ALTER TABLE teams ENABLE ROW LEVEL SECURITY;
+ALTER TABLE team_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tool_teams ENABLE ROW LEVEL SECURITY;
+
+-- Permission
+INSERT INTO permissions (permission, label) VALUES
+  ('teams.manage', 'Управление на екипи')
+ON CONFLICT (permission) DO UPDATE SET label = EXCLUDED.label;
+
+INSERT INTO role_permissions (role, permission)
+VALUES ('owner', 'teams.manage')
+ON CONFLICT DO NOTHING;
+
+CREATE OR REPLACE FUNCTION is_team_member(target_team_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM team_members
+    WHERE team_id = target_team_id
+    AND user_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION tool_shared_with_user(target_tool_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM tool_teams
+    JOIN team_members ON team_members.team_id = tool_teams.team_id
+    WHERE tool_teams.tool_id = target_tool_id
+    AND team_members.user_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Teams
+DROP POLICY IF EXISTS "Authenticated users can read teams" ON teams;
+DROP POLICY IF EXISTS "Permitted users can manage teams" ON teams;
+
+CREATE POLICY "Authenticated users can read teams"
+  ON teams
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Permitted users can manage teams"
+  ON teams
+  FOR ALL
+  TO authenticated
+  USING (has_permission('teams.manage'))
+  WITH CHECK (has_permission('teams.manage'));
+
+-- Team members
+DROP POLICY IF EXISTS "Users can read own memberships" ON team_members;
+DROP POLICY IF EXISTS "Permitted users can manage team members" ON team_members;
+
+CREATE POLICY "Users can read own memberships"
+  ON team_members
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid() OR has_permission('teams.manage'));
+
+CREATE POLICY "Permitted users can manage team members"
+  ON team_members
+  FOR ALL
+  TO authenticated
+  USING (has_permission('teams.manage'))
+  WITH CHECK (has_permission('teams.manage'));
+
+-- Tool teams
+DROP POLICY IF EXISTS "Users can read teams of visible tools" ON tool_teams;
+DROP POLICY IF EXISTS "Creator and permitted users can share tools" ON tool_teams;
+DROP POLICY IF EXISTS "Creator and permitted users can unshare tools" ON tool_teams;
+
+CREATE POLICY "Users can read teams of visible tools"
+  ON tool_teams
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM ai_tools
+      WHERE ai_tools.id = tool_teams.tool_id
+    )
+  );
+
+CREATE POLICY "Creator and permitted users can share tools"
+  ON tool_teams
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    has_permission('tools.edit_any') OR (
+      is_team_member(team_id) AND
+      EXISTS (
+        SELECT 1 FROM ai_tools
+        WHERE ai_tools.id = tool_teams.tool_id
+        AND ai_tools.created_by = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Creator and permitted users can unshare tools"
+  ON tool_teams
+  FOR DELETE
+  TO authenticated
+  USING (
+    has_permission('tools.edit_any') OR
+    EXISTS (
+      SELECT 1 FROM ai_tools
+      WHERE ai_tools.id = tool_teams.tool_id
+      AND ai_tools.created_by = auth.uid()
+    )
+  );
+
+-- AI tools
+DROP POLICY IF EXISTS "Users can read approved tools and own tools" ON ai_tools;
+DROP POLICY IF EXISTS "Users can read visible tools" ON ai_tools;
+
+CREATE POLICY "Users can read visible tools"
+  ON ai_tools
+  FOR SELECT
+  TO authenticated
+  USING (
+    created_by = auth.uid() OR
+    has_permission('tools.edit_any') OR
+    (visibility <> 'private' AND has_moderation_permission('tools.approve', category_id)) OR
+    (status = 'approved' AND (
+      visibility = 'org' OR
+      (visibility = 'teams' AND tool_shared_with_user(id))
+    ))
+  );
+
+-- Audit
+INSERT INTO activity_resource_types (resource_type, label) VALUES
+  ('team', 'Екип')
+ON CONFLICT (resource_type) DO UPDATE SET label = EXCLUDED.label;
+
+INSERT INTO activity_action_types (action, label, severity) VALUES
+  ('create_team', 'Създаване на екип', 'info'),
+  ('update_team', 'Редактиране на екип', 'info'),
+  ('delete_team', 'Изтриване на екип', 'notice'),
+  ('add_team_member', 'Добавяне в екип', 'info'),
+  ('remove_team_member', 'Премахване от екип', 'notice')
+ON CONFLICT (action) DO UPDATE SET label = EXCLUDED.label, severity = EXCLUDED.severity;
+
+INSERT INTO activity_log_retention_policies (resource_type)
+VALUES ('team')
+ON CONFLICT (resource_type) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION log_team_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  changes jsonb;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO activity_logs (user_id, action, resource_type, resource_id, details)
+    VALUES (auth.uid(), 'create_team', 'team', NEW.id, jsonb_build_object(
+      'name', NEW.name,
+      'description', NEW.description
+    ));
+
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    INSERT INTO activity_logs (user_id, action, resource_type, resource_id, details)
+    VALUES (auth.uid(), 'delete_team', 'team', OLD.id, jsonb_build_object(
+      'name', OLD.name
+    ));
+
+    RETURN OLD;
+  END IF;
+
+  changes := activity_log_diff(to_jsonb(OLD), to_jsonb(NEW), ARRAY['created_at', 'updated_at']);
+
+  IF changes = '{}'::jsonb THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO activity_logs (user_id, action, resource_type, resource_id, details)
+  VALUES (auth.uid(), 'update_team', 'team', NEW.id, jsonb_build_object(
+    'name', NEW.name,
+    'changes', changes
+  ));
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS log_team_change ON teams;
+CREATE TRIGGER log_team_change
+  AFTER INSERT OR UPDATE OR DELETE ON teams
+  FOR EACH ROW EXECUTE FUNCTION log_team_change();
+
+-- Members removed by a cascading team delete are covered by the 'delete_team' entry
+CREATE OR REPLACE FUNCTION log_team_member_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  member_row team_members;
+  team_name text;
+  member profiles;
+BEGIN
+  member_row := CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+
+  SELECT name INTO team_name FROM teams WHERE id = member_row.team_id;
+  IF team_name IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO member FROM profiles WHERE id = member_row.user_id;
+
+  INSERT INTO activity_logs (user_id, action, resource_type, resource_id, details)
+  VALUES (
+    auth.uid(),
+    CASE WHEN TG_OP = 'DELETE' THEN 'remove_team_member' ELSE 'add_team_member' END,
+    'team',
+    member_row.team_id,
+    jsonb_build_object(
+      'name', team_name,
+      'member_id', member_row.user_id,
+      'email', member.email,
+      'full_name', member.full_name
+    )
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS log_team_member_change ON team_members;
+CREATE TRIGGER log_team_member_change
+  AFTER INSERT OR DELETE ON team_members
+  FOR EACH ROW EXECUTE FUNCTION log_team_member_change();
+
+CREATE OR REPLACE FUNCTION create_ai_tool(tool jsonb, role_names text[])
+RETURNS ai_tools AS $$
+DECLARE
+  created ai_tools;
+BEGIN
+  INSERT INTO ai_tools (
+    name, description, category_id, website_url, documentation_url, video_url,
+    difficulty_level, pricing_model, tags, visibility, status, created_by
+  )
+  SELECT
+    name, description, category_id, website_url, documentation_url, video_url,
+    COALESCE(difficulty_level, 'beginner'), COALESCE(pricing_model, 'free'), COALESCE(tags, '{}'),
+    COALESCE(visibility, 'org'), 'pending', auth.uid()
+  FROM jsonb_populate_record(NULL::ai_tools, tool)
+  RETURNING * INTO created;
+
+  PERFORM set_tool_roles(created.id, role_names);
+
+  RETURN created;
+END;
+$$ LANGUAGE plpgsql;
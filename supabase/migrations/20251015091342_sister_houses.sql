@@ -0,0 +1,955 @@
+/*
+  # Organizations (multi-tenancy)
+
+  1. New Tables
+    - `organizations`
+      - `id` (uuid, primary key)
+      - `name` (text, unique)
+      - `created_at`, `updated_at`
+    - `organization_members`
+      - `organization_id` (uuid, references organizations)
+      - `user_id` (uuid, references profiles)
+      - `role` (text, references roles) - the user's role in that organization
+      - `created_at`
+      - primary key (`organization_id`, `user_id`)
+    - `platform_admins`
+      - `user_id` (uuid, primary key, references profiles) - may change deployment-wide
+        settings
+      - `created_at`
+
+  2. Changes
+    - `organization_id` on `ai_tools`, `categories`, `tool_comments`, `tool_ratings`,
+      `teams`, `user_invitations`, `activity_logs` and `activity_logs_archive`; new rows
+      default to the caller's organization
+    - `profiles.organization_id` is the organization the user is working in and
+      `profiles.role` mirrors the membership role there, so `has_permission()` and the
+      2FA policy apply per organization
+    - Existing data and users move into one organization; every existing user becomes
+      a member with their current role
+    - Category and team names are unique per organization
+    - `moderates_category()` only looks at the scopes of the current organization
+    - Role changes are audited on `organization_members` instead of `profiles`, so
+      switching organizations is not logged as a role change; service-role updates are
+      still skipped, because `admin-users` logs those itself
+    - New resource type 'organization' and actions 'switch_organization' and
+      'create_organization'
+
+  3. Functions
+    - `current_organization_id()` - the caller's current organization
+    - `shares_organization(user_id)` - whether the user belongs to the caller's organization
+    - `apply_organization_role()` - BEFORE trigger on `profiles`: switching organizations
+      requires a membership and takes the role from it
+    - `profile_identity_unchanged(id, role, email, organization_id)` - also accepts the
+      membership role of the organization being switched to; "Users can update own
+      profile" uses it so users can switch organizations themselves
+    - `create_organization(name, owner_email)` - creates an organization with an existing
+      user as its owner (service role only)
+    - `user_has_permission()` - deployment-wide permissions also require a
+      `platform_admins` row
+    - `activity_log_hash()` - also takes `organization_id`
+    - `verify_activity_log_chain()` - platform admins check the whole chain, other
+      'logs.read' holders only the entries of their organization
+    - `activity_log_retention_preview()` - platform admins only, as the purge it
+      previews runs across all organizations
+    - `handle_new_user()` - invited users join the inviting organization with the invited
+      role; other sign-ups are rejected, except the first account of an empty
+      installation, which owns the oldest organization and is a platform admin
+
+  4. Security
+    - RESTRICTIVE "Tenant isolation" policies on every organization-scoped table: rows of
+      other organizations are neither readable nor writable, whatever the other policies allow
+    - Profiles are visible only to members of the same organization
+    - Tools, comments and ratings must reference rows of the same organization;
+      team members, moderators and scopes must belong to it
+    - Organizations are readable by their members; memberships by the member and by
+      'users.manage' in the organization; only edge functions and SQL change them
+    - `tool_stats` is evaluated with the caller's permissions (`security_invoker`)
+    - Users can read their own `platform_admins` row; only SQL changes the table
+
+  5. Notes
+    - Roles, permission grants, 2FA policies and log retention stay deployment-wide.
+      The permissions that change them ('roles.manage', 'security.policy' and
+      'logs.retention', flagged `permissions.deployment_wide`) only take effect for
+      users listed in the new `platform_admins` table, so an organization's owner
+      cannot change them for every other organization. The owners of the first
+      organization become platform admins; further ones are added from SQL
+    - The activity log hash now covers `organization_id`, so an entry cannot be moved to
+      another organization unnoticed. Existing entries are checked with the old hash
+      and sealed again with the new one; the migration stops instead if the chain
+      does not verify, so a tampered log is not re-sealed
+*/
+
+CREATE TABLE IF NOT EXISTS organizations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS organization_members (
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  role text NOT NULL REFERENCES roles(role) ON DELETE RESTRICT,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (organization_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_organization_members_user_id ON organization_members(user_id);
+
+DROP TRIGGER IF EXISTS update_organizations_updated_at ON organizations;
+CREATE TRIGGER update_organizations_updated_at
+  BEFORE UPDATE ON organizations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+ALTER TABLE organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_members ENABLE ROW LEVEL SECURITY;
+
+-- Everything that exists today belongs to the first organization
+INSERT INTO organizations (name)
+SELECT 'AI Tools Platform'
+WHERE NOT EXISTS (SELECT 1 FROM organizations);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'organization_id'
+  ) THEN
+    ALTER TABLE profiles ADD COLUMN organization_id uuid REFERENCES organizations(id);
+  END IF;
+END $$;
+
+UPDATE profiles
+SET organization_id = (SELECT id FROM organizations ORDER BY created_at LIMIT 1)
+WHERE organization_id IS NULL;
+
+ALTER TABLE profiles ALTER COLUMN organization_id SET NOT NULL;
+
+INSERT INTO organization_members (organization_id, user_id, role)
+SELECT organization_id, id, role FROM profiles
+ON CONFLICT DO NOTHING;
+
+-- NULL for a deactivated account, so "Tenant isolation" hides every organization from it
+CREATE OR REPLACE FUNCTION current_organization_id()
+RETURNS uuid AS $$
+  SELECT organization_id FROM profiles WHERE id = auth.uid() AND deactivated_at IS NULL;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION shares_organization(target_user_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM organization_members
+    WHERE user_id = target_user_id
+    AND organization_id = current_organization_id()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Organization-scoped tables
+DO $$
+DECLARE
+  scoped_table text;
+  default_organization_id uuid := (SELECT id FROM organizations ORDER BY created_at LIMIT 1);
+BEGIN
+  FOREACH scoped_table IN ARRAY ARRAY['ai_tools', 'categories', 'tool_comments', 'tool_ratings', 'teams', 'user_invitations'] LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM information_schema.columns
+      WHERE table_name = scoped_table AND column_name = 'organization_id'
+    ) THEN
+      EXECUTE format(
+        'ALTER TABLE %I ADD COLUMN organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE',
+        scoped_table
+      );
+    END IF;
+
+    EXECUTE format('UPDATE %I SET organization_id = $1 WHERE organization_id IS NULL', scoped_table)
+      USING default_organization_id;
+    EXECUTE format('ALTER TABLE %I ALTER COLUMN organization_id SET NOT NULL', scoped_table);
+    EXECUTE format('ALTER TABLE %I ALTER COLUMN organization_id SET DEFAULT current_organization_id()', scoped_table);
+    EXECUTE format('CREATE INDEX IF NOT EXISTS %I ON %I(organization_id)', 'idx_' || scoped_table || '_organization_id', scoped_table);
+  END LOOP;
+
+  -- Log entries are never deleted with an organization; system entries have none
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'activity_logs' AND column_name = 'organization_id'
+  ) THEN
+    ALTER TABLE activity_logs ADD COLUMN organization_id uuid REFERENCES organizations(id);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'activity_logs_archive' AND column_name = 'organization_id'
+  ) THEN
+    ALTER TABLE activity_logs_archive ADD COLUMN organization_id uuid;
+  END IF;
+
+  PERFORM set_config('activity_logs.maintenance', 'on', true);
+  UPDATE activity_logs SET organization_id = default_organization_id WHERE organization_id IS NULL;
+  PERFORM set_config('activity_logs.maintenance', 'off', true);
+
+  UPDATE activity_logs_archive SET organization_id = default_organization_id WHERE organization_id IS NULL;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_activity_logs_organization_id ON activity_logs(organization_id);
+CREATE INDEX IF NOT EXISTS idx_activity_logs_archive_organization_id ON activity_logs_archive(organization_id);
+
+ALTER TABLE categories DROP CONSTRAINT IF EXISTS categories_name_key;
+ALTER TABLE categories DROP CONSTRAINT IF EXISTS categories_organization_id_name_key;
+ALTER TABLE categories ADD CONSTRAINT categories_organization_id_name_key UNIQUE (organization_id, name);
+
+ALTER TABLE teams DROP CONSTRAINT IF EXISTS teams_name_key;
+ALTER TABLE teams DROP CONSTRAINT IF EXISTS teams_organization_id_name_key;
+ALTER TABLE teams ADD CONSTRAINT teams_organization_id_name_key UNIQUE (organization_id, name);
+
+-- Roles per organization
+CREATE OR REPLACE FUNCTION apply_organization_role()
+RETURNS TRIGGER AS $$
+DECLARE
+  member_role text;
+BEGIN
+  SELECT role INTO member_role
+  FROM organization_members
+  WHERE organization_id = NEW.organization_id
+  AND user_id = NEW.id;
+
+  IF member_role IS NULL THEN
+    -- handle_new_user adds the membership right after the profile
+    IF TG_OP = 'INSERT' THEN
+      RETURN NEW;
+    END IF;
+
+    RAISE EXCEPTION 'Not a member of the organization'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  NEW.role := member_role;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Runs after guard_profile_privileged_columns (triggers fire in name order)
+DROP TRIGGER IF EXISTS sync_profile_organization_role ON profiles;
+CREATE TRIGGER sync_profile_organization_role
+  BEFORE INSERT OR UPDATE OF organization_id, role ON profiles
+  FOR EACH ROW EXECUTE FUNCTION apply_organization_role();
+
+-- Switching organizations rewrites the role before the policy checks the row, so the
+-- role may differ from the stored one when it is the membership role of the new
+-- organization
+CREATE OR REPLACE FUNCTION profile_identity_unchanged(
+  profile_id uuid,
+  new_role text,
+  new_email text,
+  new_organization_id uuid
+)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = profile_id
+    AND profiles.email = new_email
+    AND (
+      profiles.role = new_role
+      OR (
+        profiles.organization_id IS DISTINCT FROM new_organization_id
+        AND EXISTS (
+          SELECT 1 FROM organization_members
+          WHERE organization_members.organization_id = new_organization_id
+          AND organization_members.user_id = profile_id
+          AND organization_members.role = new_role
+        )
+      )
+    )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+DROP POLICY IF EXISTS "Users can update own profile" ON profiles;
+
+CREATE POLICY "Users can update own profile"
+  ON profiles
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = id AND two_factor_satisfied())
+  WITH CHECK (
+    auth.uid() = id
+    AND two_factor_satisfied()
+    AND profile_identity_unchanged(id, role, email, organization_id)
+  );
+
+CREATE OR REPLACE FUNCTION sync_member_role_to_profile()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE profiles
+  SET role = NEW.role
+  WHERE id = NEW.user_id
+  AND organization_id = NEW.organization_id
+  AND role IS DISTINCT FROM NEW.role;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS sync_member_role_to_profile ON organization_members;
+CREATE TRIGGER sync_member_role_to_profile
+  AFTER UPDATE OF role ON organization_members
+  FOR EACH ROW EXECUTE FUNCTION sync_member_role_to_profile();
+
+CREATE OR REPLACE FUNCTION log_member_role_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  member profiles;
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO member FROM profiles WHERE id = NEW.user_id;
+
+  -- user_id is the actor; NULL when the change does not come from a signed-in user
+  INSERT INTO activity_logs (user_id, action, resource_type, resource_id, details, organization_id)
+  VALUES (auth.uid(), 'change_role', 'profile', NEW.user_id, jsonb_build_object(
+    'email', member.email,
+    'full_name', member.full_name,
+    'old_role', OLD.role,
+    'new_role', NEW.role
+  ), NEW.organization_id);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS log_profile_role_change ON profiles;
+DROP TRIGGER IF EXISTS log_member_role_change ON organization_members;
+CREATE TRIGGER log_member_role_change
+  AFTER UPDATE OF role ON organization_members
+  FOR EACH ROW
+  WHEN (OLD.role IS DISTINCT FROM NEW.role)
+  EXECUTE FUNCTION log_member_role_change();
+
+CREATE OR REPLACE FUNCTION moderates_category(target_category_id uuid)
+RETURNS boolean AS $$
+  SELECT NOT EXISTS (
+    SELECT 1 FROM moderation_scopes
+    JOIN categories ON categories.id = moderation_scopes.category_id
+    WHERE moderation_scopes.user_id = auth.uid()
+    AND categories.organization_id = current_organization_id()
+  ) OR EXISTS (
+    SELECT 1 FROM moderation_scopes
+    WHERE user_id = auth.uid()
+    AND category_id = target_category_id
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- New users
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS TRIGGER AS $$
+DECLARE
+  invitation record;
+  invited boolean;
+  target_organization_id uuid;
+  target_role text;
+BEGIN
+  -- accept-invitation claims the invitation before it creates the user
+  SELECT organization_id, role INTO invitation
+  FROM public.user_invitations
+  WHERE lower(email) = lower(NEW.email)
+  AND accepted_at IS NOT NULL
+  AND accepted_user_id IS NULL
+  AND revoked_at IS NULL
+  ORDER BY accepted_at DESC
+  LIMIT 1;
+  invited := FOUND;
+
+  IF invited THEN
+    target_organization_id := invitation.organization_id;
+    target_role := invitation.role;
+  ELSE
+    -- Only the first account of an empty installation signs up uninvited; the lock
+    -- keeps two concurrent sign-ups from both being first
+    LOCK TABLE public.organization_members IN SHARE ROW EXCLUSIVE MODE;
+
+    IF EXISTS (SELECT 1 FROM public.organization_members) THEN
+      RAISE EXCEPTION 'Sign-up requires an invitation' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT id INTO target_organization_id FROM public.organizations ORDER BY created_at LIMIT 1;
+    target_role := 'owner';
+  END IF;
+
+  INSERT INTO public.profiles (id, email, full_name, role, two_factor_enabled, organization_id)
+  VALUES (
+    NEW.id,
+    NEW.email,
+    COALESCE(NEW.raw_user_meta_data->>'full_name', 'User'),
+    target_role,
+    false,
+    target_organization_id
+  );
+
+  INSERT INTO public.organization_members (organization_id, user_id, role)
+  VALUES (target_organization_id, NEW.id, target_role);
+
+  IF NOT invited THEN
+    INSERT INTO public.platform_admins (user_id) VALUES (NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Audit
+INSERT INTO activity_resource_types (resource_type, label) VALUES
+  ('organization', 'Организация')
+ON CONFLICT (resource_type) DO UPDATE SET label = EXCLUDED.label;
+
+INSERT INTO activity_action_types (action, label, severity, client_insertable) VALUES
+  ('switch_organization', 'Смяна на организация', 'info', true),
+  ('create_organization', 'Създаване на организация', 'notice', false)
+ON CONFLICT (action) DO UPDATE
+SET label = EXCLUDED.label, severity = EXCLUDED.severity, client_insertable = EXCLUDED.client_insertable;
+
+INSERT INTO activity_log_retention_policies (resource_type)
+VALUES ('organization')
+ON CONFLICT (resource_type) DO NOTHING;
+
+-- The hash covers the organization, so moving an entry to another one breaks the chain
+CREATE OR REPLACE FUNCTION activity_log_hash(
+  p_seq bigint,
+  p_prev_hash text,
+  p_id uuid,
+  p_actor_id uuid,
+  p_action text,
+  p_resource_type text,
+  p_resource_id uuid,
+  p_details jsonb,
+  p_ip_address text,
+  p_user_agent text,
+  p_created_at timestamptz,
+  p_organization_id uuid
+)
+RETURNS text AS $$
+  SELECT encode(extensions.digest(concat_ws('|',
+    p_seq::text,
+    p_prev_hash,
+    p_id::text,
+    COALESCE(p_actor_id::text, ''),
+    p_action,
+    p_resource_type,
+    COALESCE(p_resource_id::text, ''),
+    COALESCE(p_details, '{}'::jsonb)::text,
+    COALESCE(p_ip_address, ''),
+    COALESCE(p_user_agent, ''),
+    to_char(p_created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"'),
+    COALESCE(p_organization_id::text, '')
+  ), 'sha256'), 'hex');
+$$ LANGUAGE sql STABLE;
+
+-- Existing entries were hashed without their organization: check them with the old hash,
+-- then seal them again with the new one. A chain that does not verify stops the migration
+DO $$
+DECLARE
+  entry record;
+  expected_seq bigint := 1;
+  old_previous_hash text := repeat('0', 64);
+  new_previous_hash text := repeat('0', 64);
+  new_hash text;
+BEGIN
+  IF to_regprocedure(
+    'activity_log_hash(bigint, text, uuid, uuid, text, text, uuid, jsonb, text, text, timestamptz)'
+  ) IS NULL THEN
+    RETURN;
+  END IF;
+
+  PERFORM set_config('activity_logs.maintenance', 'on', true);
+
+  FOR entry IN
+    SELECT false AS archived, id, seq, prev_hash, entry_hash, actor_id, action, resource_type,
+           resource_id, details, ip_address, user_agent, created_at, organization_id
+    FROM activity_logs
+    UNION ALL
+    SELECT true, id, seq, prev_hash, entry_hash, actor_id, action, resource_type,
+           resource_id, details, ip_address, user_agent, created_at, organization_id
+    FROM activity_logs_archive
+    ORDER BY seq
+  LOOP
+    IF entry.seq <> expected_seq OR entry.prev_hash <> old_previous_hash OR entry.entry_hash <> activity_log_hash(
+      entry.seq, entry.prev_hash, entry.id, entry.actor_id, entry.action, entry.resource_type,
+      entry.resource_id, entry.details, entry.ip_address, entry.user_agent, entry.created_at
+    ) THEN
+      RAISE EXCEPTION 'Activity log chain does not verify at seq %, not sealing it again', entry.seq;
+    END IF;
+
+    new_hash := activity_log_hash(
+      entry.seq, new_previous_hash, entry.id, entry.actor_id, entry.action, entry.resource_type,
+      entry.resource_id, entry.details, entry.ip_address, entry.user_agent, entry.created_at,
+      entry.organization_id
+    );
+
+    IF entry.archived THEN
+      UPDATE activity_logs_archive SET prev_hash = new_previous_hash, entry_hash = new_hash WHERE id = entry.id;
+    ELSE
+      UPDATE activity_logs SET prev_hash = new_previous_hash, entry_hash = new_hash WHERE id = entry.id;
+    END IF;
+
+    old_previous_hash := entry.entry_hash;
+    new_previous_hash := new_hash;
+    expected_seq := expected_seq + 1;
+  END LOOP;
+
+  PERFORM set_config('activity_logs.maintenance', 'off', true);
+END $$;
+
+DROP FUNCTION IF EXISTS activity_log_hash(bigint, text, uuid, uuid, text, text, uuid, jsonb, text, text, timestamptz);
+
+CREATE OR REPLACE FUNCTION activity_log_entry_hash(entry activity_logs)
+RETURNS text AS $$
+  SELECT activity_log_hash(
+    entry.seq, entry.prev_hash, entry.id, entry.actor_id, entry.action, entry.resource_type,
+    entry.resource_id, entry.details, entry.ip_address, entry.user_agent, entry.created_at,
+    entry.organization_id
+  );
+$$ LANGUAGE sql STABLE;
+
+-- Client entries belong to the caller's organization; edge function entries to the
+-- organization of the user they are about, unless the function sets one
+CREATE OR REPLACE FUNCTION stamp_activity_log()
+RETURNS TRIGGER AS $$
+DECLARE
+  last_entry record;
+BEGIN
+  NEW.created_at := now();
+  NEW.details := COALESCE(NEW.details, '{}'::jsonb)
+    || jsonb_build_object('timestamp', to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'));
+
+  IF auth.role() = 'authenticated' THEN
+    NEW.user_id := auth.uid();
+    NEW.ip_address := request_client_ip();
+    NEW.organization_id := current_organization_id();
+  ELSE
+    IF NEW.ip_address IS NULL THEN
+      NEW.ip_address := request_client_ip();
+    END IF;
+
+    IF NEW.organization_id IS NULL AND NEW.user_id IS NOT NULL THEN
+      NEW.organization_id := (SELECT organization_id FROM profiles WHERE id = NEW.user_id);
+    END IF;
+  END IF;
+
+  NEW.actor_id := NEW.user_id;
+
+  PERFORM pg_advisory_xact_lock(hashtext('activity_logs_chain'));
+
+  SELECT seq, entry_hash INTO last_entry
+  FROM (
+    (SELECT seq, entry_hash FROM activity_logs ORDER BY seq DESC LIMIT 1)
+    UNION ALL
+    (SELECT seq, entry_hash FROM activity_logs_archive ORDER BY seq DESC LIMIT 1)
+  ) AS heads
+  ORDER BY seq DESC
+  LIMIT 1;
+
+  NEW.seq := COALESCE(last_entry.seq, 0) + 1;
+  NEW.prev_hash := COALESCE(last_entry.entry_hash, repeat('0', 64));
+  NEW.entry_hash := activity_log_entry_hash(NEW);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Same as before, the archive keeps the organization
+CREATE OR REPLACE FUNCTION purge_expired_activity_logs()
+RETURNS jsonb AS $$
+DECLARE
+  policy record;
+  moved integer;
+  total integer := 0;
+  summary jsonb := '{}'::jsonb;
+BEGIN
+  -- Allows the DELETE past prevent_activity_log_changes for this transaction only
+  PERFORM set_config('activity_logs.maintenance', 'on', true);
+
+  FOR policy IN
+    SELECT resource_type, retention_days
+    FROM activity_log_retention_policies
+    WHERE retention_days IS NOT NULL
+  LOOP
+    WITH expired AS (
+      DELETE FROM activity_logs
+      WHERE activity_logs.resource_type = policy.resource_type
+      AND activity_logs.created_at < now() - make_interval(days => policy.retention_days)
+      RETURNING id, user_id, actor_id, action, resource_type, resource_id, details, ip_address,
+                user_agent, created_at, seq, prev_hash, entry_hash, organization_id
+    )
+    INSERT INTO activity_logs_archive (
+      id, user_id, actor_id, action, resource_type, resource_id, details, ip_address,
+      user_agent, created_at, seq, prev_hash, entry_hash, organization_id
+    )
+    SELECT * FROM expired;
+
+    GET DIAGNOSTICS moved = ROW_COUNT;
+    total := total + moved;
+    summary := summary || jsonb_build_object(policy.resource_type, moved);
+  END LOOP;
+
+  PERFORM set_config('activity_logs.maintenance', 'off', true);
+
+  INSERT INTO activity_logs (user_id, action, resource_type, details)
+  VALUES (NULL, 'purge_activity_logs', 'system', jsonb_build_object(
+    'archived', summary,
+    'total', total
+  ));
+
+  RETURN jsonb_build_object('archived', summary, 'total', total);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION purge_expired_activity_logs() FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION create_organization(organization_name text, owner_email text)
+RETURNS uuid AS $$
+DECLARE
+  owner profiles;
+  new_organization_id uuid;
+BEGIN
+  SELECT * INTO owner FROM profiles WHERE lower(email) = lower(owner_email);
+  IF owner.id IS NULL THEN
+    RAISE EXCEPTION 'No user with email %', owner_email;
+  END IF;
+
+  INSERT INTO organizations (name)
+  VALUES (organization_name)
+  RETURNING id INTO new_organization_id;
+
+  INSERT INTO organization_members (organization_id, user_id, role)
+  VALUES (new_organization_id, owner.id, 'owner');
+
+  INSERT INTO activity_logs (user_id, action, resource_type, resource_id, details, organization_id)
+  VALUES (NULL, 'create_organization', 'organization', new_organization_id, jsonb_build_object(
+    'name', organization_name,
+    'owner_id', owner.id,
+    'owner_email', owner.email
+  ), new_organization_id);
+
+  RETURN new_organization_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION create_organization(text, text) FROM PUBLIC, anon, authenticated;
+
+-- Deployment-wide settings
+CREATE TABLE IF NOT EXISTS platform_admins (
+  user_id uuid PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE platform_admins ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read own platform admin row" ON platform_admins;
+
+CREATE POLICY "Users can read own platform admin row"
+  ON platform_admins
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- Until now the owners of the first organization administered the whole deployment
+INSERT INTO platform_admins (user_id)
+SELECT user_id FROM organization_members
+WHERE role = 'owner'
+AND organization_id = (SELECT id FROM organizations ORDER BY created_at LIMIT 1)
+ON CONFLICT (user_id) DO NOTHING;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'permissions' AND column_name = 'deployment_wide'
+  ) THEN
+    ALTER TABLE permissions ADD COLUMN deployment_wide boolean NOT NULL DEFAULT false;
+  END IF;
+END $$;
+
+UPDATE permissions
+SET deployment_wide = true
+WHERE permission IN ('roles.manage', 'security.policy', 'logs.retention');
+
+-- Every policy and edge function check goes through here, so a deployment-wide
+-- permission held through an organization role is inert without platform_admins
+CREATE OR REPLACE FUNCTION user_has_permission(target_user_id uuid, required_permission text)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM profiles
+    JOIN role_permissions ON role_permissions.role = profiles.role
+    JOIN permissions ON permissions.permission = role_permissions.permission
+    WHERE profiles.id = target_user_id
+    AND role_permissions.permission = required_permission
+    AND (
+      NOT permissions.deployment_wide OR
+      EXISTS (SELECT 1 FROM platform_admins WHERE platform_admins.user_id = target_user_id)
+    )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Organizations
+DROP POLICY IF EXISTS "Members can read their organizations" ON organizations;
+
+CREATE POLICY "Members can read their organizations"
+  ON organizations
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM organization_members
+      WHERE organization_members.organization_id = organizations.id
+      AND organization_members.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can read own memberships and permitted users the organization's" ON organization_members;
+
+CREATE POLICY "Users can read own memberships and permitted users the organization's"
+  ON organization_members
+  FOR SELECT
+  TO authenticated
+  USING (
+    user_id = auth.uid() OR
+    (organization_id = current_organization_id() AND has_permission('users.manage'))
+  );
+
+-- Activity log checks. The chain runs across all organizations; an organization's
+-- 'logs.read' holders check their own entries, each against the entry before it, so
+-- other organizations' entries are neither counted nor reported to them
+CREATE OR REPLACE FUNCTION verify_activity_log_chain()
+RETURNS TABLE(
+  valid boolean,
+  checked_count bigint,
+  last_seq bigint,
+  broken_seq bigint,
+  problem text
+) AS $$
+DECLARE
+  entry record;
+  whole_chain boolean;
+  organization uuid := current_organization_id();
+  checked bigint := 0;
+  last_checked_seq bigint := 0;
+  expected_seq bigint := 1;
+  previous_hash text := repeat('0', 64);
+BEGIN
+  IF NOT has_permission('logs.read') THEN
+    RAISE EXCEPTION 'Missing permission logs.read'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  whole_chain := EXISTS (SELECT 1 FROM platform_admins WHERE user_id = auth.uid());
+
+  FOR entry IN
+    SELECT id, seq, prev_hash, entry_hash, user_id, actor_id, action, resource_type, resource_id,
+           details, ip_address, user_agent, created_at, organization_id
+    FROM activity_logs
+    UNION ALL
+    SELECT id, seq, prev_hash, entry_hash, user_id, actor_id, action, resource_type, resource_id,
+           details, ip_address, user_agent, created_at, organization_id
+    FROM activity_logs_archive
+    ORDER BY seq
+  LOOP
+    IF whole_chain OR entry.organization_id = organization THEN
+      IF entry.seq <> expected_seq THEN
+        RETURN QUERY SELECT false, checked, entry.seq, expected_seq, 'gap'::text;
+        RETURN;
+      END IF;
+
+      IF entry.prev_hash <> previous_hash THEN
+        RETURN QUERY SELECT false, checked, entry.seq, entry.seq, 'broken_link'::text;
+        RETURN;
+      END IF;
+
+      IF entry.entry_hash <> activity_log_hash(
+        entry.seq, entry.prev_hash, entry.id, entry.actor_id, entry.action, entry.resource_type,
+        entry.resource_id, entry.details, entry.ip_address, entry.user_agent, entry.created_at,
+        entry.organization_id
+      ) OR (entry.user_id IS NOT NULL AND entry.user_id IS DISTINCT FROM entry.actor_id) THEN
+        RETURN QUERY SELECT false, checked, entry.seq, entry.seq, 'modified'::text;
+        RETURN;
+      END IF;
+
+      checked := checked + 1;
+      last_checked_seq := entry.seq;
+    END IF;
+
+    previous_hash := entry.entry_hash;
+    expected_seq := entry.seq + 1;
+  END LOOP;
+
+  RETURN QUERY SELECT true, checked, last_checked_seq, NULL::bigint, NULL::text;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- The purge runs across all organizations, so only platform admins see what it would remove
+CREATE OR REPLACE FUNCTION activity_log_retention_preview()
+RETURNS TABLE(
+  resource_type text,
+  retention_days integer,
+  expired_count bigint,
+  oldest_expired_at timestamptz
+) AS $$
+BEGIN
+  IF NOT has_permission('logs.retention')
+    OR NOT EXISTS (SELECT 1 FROM platform_admins WHERE user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Missing permission logs.retention'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.resource_type,
+    p.retention_days,
+    count(l.id),
+    min(l.created_at)
+  FROM activity_log_retention_policies p
+  LEFT JOIN activity_logs l
+    ON l.resource_type = p.resource_type
+    AND p.retention_days IS NOT NULL
+    AND l.created_at < now() - make_interval(days => p.retention_days)
+  GROUP BY p.resource_type, p.retention_days
+  ORDER BY p.resource_type;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Tenant isolation. RESTRICTIVE policies are combined with AND, so they narrow every
+-- permissive policy on the table instead of widening it.
+DROP POLICY IF EXISTS "Tenant isolation" ON profiles;
+DROP POLICY IF EXISTS "Tenant isolation" ON ai_tools;
+DROP POLICY IF EXISTS "Tenant isolation" ON categories;
+DROP POLICY IF EXISTS "Tenant isolation" ON tool_comments;
+DROP POLICY IF EXISTS "Tenant isolation" ON tool_ratings;
+DROP POLICY IF EXISTS "Tenant isolation" ON tool_roles;
+DROP POLICY IF EXISTS "Tenant isolation" ON teams;
+DROP POLICY IF EXISTS "Tenant isolation" ON team_members;
+DROP POLICY IF EXISTS "Tenant isolation" ON tool_teams;
+DROP POLICY IF EXISTS "Tenant isolation" ON moderation_scopes;
+DROP POLICY IF EXISTS "Tenant isolation" ON user_invitations;
+DROP POLICY IF EXISTS "Tenant isolation" ON activity_logs;
+DROP POLICY IF EXISTS "Tenant isolation" ON activity_logs_archive;
+
+CREATE POLICY "Tenant isolation"
+  ON profiles
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (id = auth.uid() OR shares_organization(id));
+
+CREATE POLICY "Tenant isolation"
+  ON ai_tools
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (organization_id = current_organization_id())
+  WITH CHECK (
+    organization_id = current_organization_id() AND
+    (category_id IS NULL OR EXISTS (
+      SELECT 1 FROM categories
+      WHERE categories.id = ai_tools.category_id
+    ))
+  );
+
+CREATE POLICY "Tenant isolation"
+  ON categories
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (organization_id = current_organization_id());
+
+CREATE POLICY "Tenant isolation"
+  ON tool_comments
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (organization_id = current_organization_id())
+  WITH CHECK (
+    organization_id = current_organization_id() AND
+    EXISTS (SELECT 1 FROM ai_tools WHERE ai_tools.id = tool_comments.tool_id)
+  );
+
+CREATE POLICY "Tenant isolation"
+  ON tool_ratings
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (organization_id = current_organization_id())
+  WITH CHECK (
+    organization_id = current_organization_id() AND
+    EXISTS (SELECT 1 FROM ai_tools WHERE ai_tools.id = tool_ratings.tool_id)
+  );
+
+-- Tables without their own organization_id follow their parent rows, which are
+-- already filtered by the policies above
+CREATE POLICY "Tenant isolation"
+  ON tool_roles
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM ai_tools WHERE ai_tools.id = tool_roles.tool_id));
+
+CREATE POLICY "Tenant isolation"
+  ON teams
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (organization_id = current_organization_id());
+
+CREATE POLICY "Tenant isolation"
+  ON team_members
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM teams WHERE teams.id = team_members.team_id))
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM teams WHERE teams.id = team_members.team_id) AND
+    shares_organization(user_id)
+  );
+
+CREATE POLICY "Tenant isolation"
+  ON tool_teams
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM ai_tools WHERE ai_tools.id = tool_teams.tool_id) AND
+    EXISTS (SELECT 1 FROM teams WHERE teams.id = tool_teams.team_id)
+  );
+
+CREATE POLICY "Tenant isolation"
+  ON moderation_scopes
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM categories WHERE categories.id = moderation_scopes.category_id))
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM categories WHERE categories.id = moderation_scopes.category_id) AND
+    shares_organization(user_id)
+  );
+
+CREATE POLICY "Tenant isolation"
+  ON user_invitations
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (organization_id = current_organization_id());
+
+CREATE POLICY "Tenant isolation"
+  ON activity_logs
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (organization_id = current_organization_id());
+
+CREATE POLICY "Tenant isolation"
+  ON activity_logs_archive
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (organization_id = current_organization_id());
+
+-- Views run as their owner by default, which would read past the policies above
+ALTER VIEW tool_stats SET (security_invoker = true);